@@ -3,21 +3,42 @@ import { BrowserRouter, Routes, Route, Navigate } from 'react-router-dom';
 import { Toaster } from 'react-hot-toast';
 import { SettingsProvider } from './contexts/SettingsContext';
 import { ThemeProvider, useTheme } from './contexts/ThemeContext';
+import { AuthProvider, useAuth } from './contexts/AuthContext';
+import { OfflineSyncProvider } from './contexts/OfflineSyncContext';
 import Layout from './components/Layout';
+import RequireAuth, { getHomePath } from './components/RequireAuth';
+import Login from './pages/Login';
 import Dashboard from './pages/Dashboard';
 import DailyLog from './pages/DailyLog';
 import Customers from './pages/Customers';
 import Billing from './pages/Billing';
 import Stock from './pages/Stock';
 import Sources from './pages/Sources';
+import Users from './pages/Users';
+import DeliveryRoutes from './pages/DeliveryRoutes';
+import Products from './pages/Products';
+import Portal from './pages/Portal';
+import Activity from './pages/Activity';
 import SettingsDrawer from './components/SettingsDrawer';
+import { UserRole } from './types';
 
 import { ConfigProvider, theme as antTheme } from 'antd';
 // We'll use the dynamic theme instead
 // import theme from './theme/themeConfig';
 
+const MANAGERS = [UserRole.OWNER, UserRole.ACCOUNTANT];
+
+/**
+ * Sends each role to its landing page
+ */
+const HomeRedirect: React.FC = () => {
+  const { user } = useAuth();
+  return <Navigate to={user ? getHomePath(user.role) : '/login'} replace />;
+};
+
 const AppContent: React.FC = () => {
   const { primaryColor, isDarkMode, borderRadius } = useTheme();
+  const { user } = useAuth();
 
   return (
     <ConfigProvider
@@ -72,17 +93,24 @@ const AppContent: React.FC = () => {
                 }}
             />
             <Routes>
-                <Route path="/" element={<Layout />}>
-                <Route index element={<Navigate to="/dashboard" replace />} />
-                <Route path="dashboard" element={<Dashboard />} />
+                <Route path="/login" element={<Login />} />
+                <Route path="/portal/:token" element={<Portal />} />
+                <Route path="/" element={<RequireAuth><Layout /></RequireAuth>}>
+                <Route index element={<HomeRedirect />} />
+                <Route path="dashboard" element={<RequireAuth roles={MANAGERS}><Dashboard /></RequireAuth>} />
                 <Route path="daily-log" element={<DailyLog />} />
-                <Route path="customers" element={<Customers />} />
-                <Route path="billing" element={<Billing />} />
+                <Route path="customers" element={<RequireAuth roles={MANAGERS}><Customers /></RequireAuth>} />
+                <Route path="billing" element={<RequireAuth roles={MANAGERS}><Billing /></RequireAuth>} />
                 <Route path="stock" element={<Stock />} />
-                <Route path="sources" element={<Sources />} />
+                <Route path="sources" element={<RequireAuth roles={MANAGERS}><Sources /></RequireAuth>} />
+                <Route path="routes" element={<RequireAuth roles={MANAGERS}><DeliveryRoutes /></RequireAuth>} />
+                <Route path="products" element={<RequireAuth roles={MANAGERS}><Products /></RequireAuth>} />
+                <Route path="activity" element={<RequireAuth roles={MANAGERS}><Activity /></RequireAuth>} />
+                <Route path="users" element={<RequireAuth roles={[UserRole.OWNER]}><Users /></RequireAuth>} />
                 </Route>
+                <Route path="*" element={<HomeRedirect />} />
             </Routes>
-            <SettingsDrawer />
+            {user && <SettingsDrawer />}
             </BrowserRouter>
         </SettingsProvider>
     </ConfigProvider>
@@ -92,7 +120,11 @@ const AppContent: React.FC = () => {
 const App: React.FC = () => {
     return (
         <ThemeProvider>
-            <AppContent />
+            <AuthProvider>
+                <OfflineSyncProvider>
+                    <AppContent />
+                </OfflineSyncProvider>
+            </AuthProvider>
         </ThemeProvider>
     );
 };
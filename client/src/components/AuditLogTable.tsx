@@ -0,0 +1,142 @@
+import React from 'react';
+import { Table, Tag, Typography, Empty } from 'antd';
+import dayjs from 'dayjs';
+import { AuditAction, AuditLogEntry } from '../types';
+
+const { Text } = Typography;
+
+const ACTION_LABELS: Record<AuditAction, { label: string; color: string }> = {
+  [AuditAction.CREATE]: { label: 'Created', color: 'green' },
+  [AuditAction.UPDATE]: { label: 'Changed', color: 'blue' },
+  [AuditAction.DELETE]: { label: 'Deleted', color: 'red' },
+  [AuditAction.RESTORE]: { label: 'Restored', color: 'purple' },
+};
+
+/** Bookkeeping columns left out of the change list */
+const HIDDEN_FIELDS = ['id', 'createdAt', 'updatedAt'];
+
+interface FieldChange {
+  field: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+/**
+ * 'CustomerPause' → 'Customer Pause', 'pricePerLiter' → 'Price Per Liter'
+ */
+const toLabel = (name: string) =>
+  name.replace(/([a-z])([A-Z])/g, '$1 $2').replace(/^./, (c) => c.toUpperCase());
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+/**
+ * Fields an entry changed; every set field for a created or deleted record
+ */
+const fieldChanges = (entry: AuditLogEntry): FieldChange[] => {
+  const before = entry.before ?? {};
+  const after = entry.after ?? {};
+  const fields = [...new Set([...Object.keys(before), ...Object.keys(after)])].filter(
+    (field) => !HIDDEN_FIELDS.includes(field) && !field.endsWith('Id')
+  );
+
+  if (entry.action === AuditAction.UPDATE) {
+    return fields
+      .filter((field) => JSON.stringify(before[field]) !== JSON.stringify(after[field]))
+      .map((field) => ({ field, before: before[field], after: after[field] }));
+  }
+  const row = entry.action === AuditAction.DELETE ? before : after;
+  return fields
+    .filter((field) => row[field] !== null && row[field] !== undefined)
+    .map((field) => ({ field, after: row[field] }));
+};
+
+interface AuditLogTableProps {
+  entries: AuditLogEntry[];
+  loading?: boolean;
+  /** Show which customer each change belongs to */
+  showCustomer?: boolean;
+  emptyText?: string;
+}
+
+/**
+ * Audit entries with who made each change, when, and what it changed
+ */
+const AuditLogTable: React.FC<AuditLogTableProps> = ({ entries, loading, showCustomer, emptyText = 'No changes recorded' }) => {
+  const columns = [
+    {
+      title: 'When',
+      dataIndex: 'createdAt',
+      key: 'createdAt',
+      width: 150,
+      render: (date: string) => dayjs(date).format('DD MMM YYYY HH:mm'),
+    },
+    {
+      title: 'By',
+      key: 'user',
+      width: 130,
+      render: (_: unknown, record: AuditLogEntry) => record.userName ?? <Text type="secondary">Unknown</Text>,
+    },
+    {
+      title: 'Record',
+      key: 'entity',
+      width: showCustomer ? 220 : 170,
+      render: (_: unknown, record: AuditLogEntry) => (
+        <div>
+          <Tag color={ACTION_LABELS[record.action]?.color}>{ACTION_LABELS[record.action]?.label ?? record.action}</Tag>
+          <Text strong>{toLabel(record.entity)}</Text>
+          {showCustomer && record.customerId && (
+            <div className="text-xs">
+              <Text type="secondary">{record.customerName ?? 'Deleted customer'}</Text>
+            </div>
+          )}
+        </div>
+      ),
+    },
+    {
+      title: 'Changes',
+      key: 'changes',
+      render: (_: unknown, record: AuditLogEntry) => {
+        if (record.action === AuditAction.RESTORE) {
+          return <Text type="secondary">Backup restored in {String(record.after?.mode ?? '')} mode</Text>;
+        }
+        const changes = fieldChanges(record);
+        if (changes.length === 0) return <Text type="secondary">Protected fields only</Text>;
+        return (
+          <div className="text-sm">
+            {changes.map((change) => (
+              <div key={change.field}>
+                <Text type="secondary">{toLabel(change.field)}: </Text>
+                {record.action === AuditAction.UPDATE && (
+                  <>
+                    <Text delete>{formatValue(change.before)}</Text>
+                    {' → '}
+                  </>
+                )}
+                <Text>{formatValue(change.after)}</Text>
+              </div>
+            ))}
+          </div>
+        );
+      },
+    },
+  ];
+
+  return (
+    <Table
+      dataSource={entries}
+      columns={columns}
+      rowKey="id"
+      loading={loading}
+      pagination={{ pageSize: 20 }}
+      size="small"
+      locale={{ emptyText: <Empty description={emptyText} /> }}
+    />
+  );
+};
+
+export default AuditLogTable;
@@ -0,0 +1,201 @@
+import React, { useState, useEffect } from 'react';
+import { Button, Upload, Radio, List, Modal, Space, Typography, Divider, message } from 'antd';
+import { DownloadOutlined, InboxOutlined, CloudUploadOutlined } from '@ant-design/icons';
+import dayjs from 'dayjs';
+import { backupApi } from '../services/api';
+import { RestoreMode, StoredBackup } from '../types';
+
+const { Title, Text } = Typography;
+
+/**
+ * Save a downloaded file under the given name
+ */
+const saveBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const formatSize = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+/**
+ * Owner tools to download, restore and browse database backups
+ */
+const BackupPanel: React.FC = () => {
+  const [downloading, setDownloading] = useState<'zip' | 'json' | null>(null);
+  const [file, setFile] = useState<File | null>(null);
+  const [mode, setMode] = useState<RestoreMode>(RestoreMode.REPLACE);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [stored, setStored] = useState<StoredBackup[]>([]);
+  const [isLoadingStored, setIsLoadingStored] = useState(true);
+
+  useEffect(() => {
+    backupApi
+      .getStored()
+      .then(setStored)
+      .catch(() => message.error('Failed to load scheduled backups'))
+      .finally(() => setIsLoadingStored(false));
+  }, []);
+
+  const handleDownload = async (format: 'zip' | 'json') => {
+    try {
+      setDownloading(format);
+      const blob = await backupApi.download(format);
+      saveBlob(blob, `dairy-backup-${dayjs().format('YYYYMMDD-HHmmss')}.${format}`);
+    } catch (error) {
+      console.error('Failed to download backup:', error);
+      message.error(error instanceof Error ? error.message : 'Failed to download backup');
+    } finally {
+      setDownloading(null);
+    }
+  };
+
+  const handleDownloadStored = async (name: string) => {
+    try {
+      saveBlob(await backupApi.downloadStored(name), name);
+    } catch (error) {
+      console.error('Failed to download backup:', error);
+      message.error(error instanceof Error ? error.message : 'Failed to download backup');
+    }
+  };
+
+  const restore = async () => {
+    if (!file) return;
+    try {
+      setIsRestoring(true);
+      const result = await backupApi.restore(file, mode);
+      const total = Object.values(result.restored).reduce((sum, count) => sum + count, 0);
+      setFile(null);
+      Modal.success({
+        title: 'Backup restored',
+        content: `${total} records restored from the backup of ${dayjs(result.backupCreatedAt).format('DD MMM YYYY, hh:mm A')}. The app will reload to show them.`,
+        onOk: () => window.location.reload(),
+      });
+    } catch (error) {
+      console.error('Failed to restore backup:', error);
+      message.error(error instanceof Error ? error.message : 'Failed to restore backup');
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  const handleRestore = () => {
+    if (mode === RestoreMode.MERGE) {
+      restore();
+      return;
+    }
+    Modal.confirm({
+      title: 'Replace all data?',
+      content: 'Every customer, delivery, payment and stock record will be deleted and replaced with the backup. Staff accounts are kept.',
+      okText: 'Replace',
+      okButtonProps: { danger: true },
+      onOk: restore,
+    });
+  };
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div>
+        <Title level={5}>Download Backup</Title>
+        <Text type="secondary" className="block mb-3">
+          Every customer, delivery, payment, stock, source and setting record in one file.
+        </Text>
+        <Space>
+          <Button
+            type="primary"
+            icon={<DownloadOutlined />}
+            loading={downloading === 'zip'}
+            disabled={downloading !== null}
+            onClick={() => handleDownload('zip')}
+          >
+            ZIP
+          </Button>
+          <Button
+            icon={<DownloadOutlined />}
+            loading={downloading === 'json'}
+            disabled={downloading !== null}
+            onClick={() => handleDownload('json')}
+          >
+            JSON
+          </Button>
+        </Space>
+      </div>
+
+      <Divider style={{ margin: '0' }} />
+
+      <div>
+        <Title level={5}>Restore Backup</Title>
+        <Upload.Dragger
+          accept=".zip,.json"
+          maxCount={1}
+          fileList={file ? [{ uid: '-1', name: file.name, status: 'done' }] : []}
+          beforeUpload={(selected) => {
+            setFile(selected);
+            return false;
+          }}
+          onRemove={() => setFile(null)}
+        >
+          <p className="ant-upload-drag-icon">
+            <InboxOutlined />
+          </p>
+          <p className="ant-upload-text">Click or drag a backup file here</p>
+        </Upload.Dragger>
+        <Radio.Group
+          value={mode}
+          onChange={(e) => setMode(e.target.value)}
+          className="mt-3 flex flex-col gap-1"
+        >
+          <Radio value={RestoreMode.REPLACE}>Replace current data with the backup</Radio>
+          <Radio value={RestoreMode.MERGE}>Merge, keeping records that already exist</Radio>
+        </Radio.Group>
+        <Button
+          type="primary"
+          icon={<CloudUploadOutlined />}
+          disabled={!file}
+          loading={isRestoring}
+          onClick={handleRestore}
+          block
+          className="mt-3"
+        >
+          Restore
+        </Button>
+      </div>
+
+      <Divider style={{ margin: '0' }} />
+
+      <div>
+        <Title level={5}>Scheduled Backups</Title>
+        <List
+          size="small"
+          loading={isLoadingStored}
+          dataSource={stored}
+          locale={{ emptyText: 'No scheduled backups yet' }}
+          renderItem={(backup: StoredBackup) => (
+            <List.Item
+              actions={[
+                <Button
+                  key="download"
+                  type="link"
+                  size="small"
+                  icon={<DownloadOutlined />}
+                  onClick={() => handleDownloadStored(backup.name)}
+                />,
+              ]}
+            >
+              <List.Item.Meta
+                title={dayjs(backup.createdAt).format('DD MMM YYYY, hh:mm A')}
+                description={formatSize(backup.size)}
+              />
+            </List.Item>
+          )}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default BackupPanel;
@@ -1,13 +1,24 @@
 import React, { useState, useEffect, useCallback } from 'react';
-import { Modal, Table, DatePicker, Space, Tag, Typography, Button, Empty } from 'antd';
-import { CalendarOutlined, FilterOutlined } from '@ant-design/icons';
+import { Modal, Table, TableProps, DatePicker, Space, Tag, Typography, Button, Empty, Tabs, Statistic, Row, Col, message } from 'antd';
+import { CalendarOutlined, FilterOutlined, FilePdfOutlined } from '@ant-design/icons';
 import dayjs from 'dayjs';
-import { deliveryApi } from '../services/api';
-import { Customer, Delivery, Shift } from '../types';
+import { auditApi, customerApi, deliveryApi, messageApi } from '../services/api';
+import { useAuth } from '../contexts/AuthContext';
+import { useSettings } from '../contexts/SettingsContext';
+import { AuditLogEntry, Customer, CustomerStatement, CustomerStatementEntry, Delivery, InvoiceType, MessageLog, MessageTemplate, PaginationParams, Shift, UserRole } from '../types';
+import { tablePageParams } from '@/utils/helpers';
+import AuditLogTable from './AuditLogTable';
 
 const { RangePicker } = DatePicker;
 const { Text } = Typography;
 
+const ENTRY_LABELS: Record<CustomerStatementEntry['type'], { label: string; color: string }> = {
+  delivery: { label: 'Delivery', color: 'blue' },
+  payment: { label: 'Payment', color: 'green' },
+  [InvoiceType.CREDIT_NOTE]: { label: 'Credit Note', color: 'cyan' },
+  [InvoiceType.DEBIT_NOTE]: { label: 'Debit Note', color: 'volcano' },
+};
+
 interface CustomerHistoryModalProps {
   isOpen: boolean;
   onClose: () => void;
@@ -19,8 +30,19 @@ const CustomerHistoryModal: React.FC<CustomerHistoryModalProps> = ({
   onClose,
   customer,
 }) => {
+  const { hasRole } = useAuth();
+  const { formatCurrency } = useSettings();
+  const isManager = hasRole(UserRole.OWNER, UserRole.ACCOUNTANT);
   const [deliveries, setDeliveries] = useState<Delivery[]>([]);
+  const [deliveryTotal, setDeliveryTotal] = useState(0);
+  const [totalQuantity, setTotalQuantity] = useState(0);
+  const [pageParams, setPageParams] = useState<PaginationParams>({ page: 1, limit: 10 });
+  const [statement, setStatement] = useState<CustomerStatement | null>(null);
+  const [messages, setMessages] = useState<MessageLog[]>([]);
+  const [changes, setChanges] = useState<AuditLogEntry[]>([]);
+  const [activeTab, setActiveTab] = useState('deliveries');
   const [isLoading, setIsLoading] = useState(false);
+  const [isDownloading, setIsDownloading] = useState(false);
   const [dateRange, setDateRange] = useState<[dayjs.Dayjs, dayjs.Dayjs]>([
     dayjs().subtract(30, 'day'),
     dayjs(),
@@ -33,14 +55,16 @@ const CustomerHistoryModal: React.FC<CustomerHistoryModalProps> = ({
       setIsLoading(true);
       const startStr = dateRange[0].format('YYYY-MM-DD');
       const endStr = dateRange[1].format('YYYY-MM-DD');
-      const data = await deliveryApi.getByCustomer(customer.id, startStr, endStr);
-      setDeliveries(data);
+      const deliveryPage = await deliveryApi.getByCustomer(customer.id, startStr, endStr, pageParams);
+      setDeliveries(deliveryPage.items);
+      setDeliveryTotal(deliveryPage.total);
+      setTotalQuantity(deliveryPage.totalQuantity);
     } catch (error) {
       console.error('Failed to fetch history:', error);
     } finally {
       setIsLoading(false);
     }
-  }, [customer, dateRange]);
+  }, [customer, dateRange, pageParams]);
 
   useEffect(() => {
     if (isOpen && customer) {
@@ -48,13 +72,181 @@ const CustomerHistoryModal: React.FC<CustomerHistoryModalProps> = ({
     }
   }, [isOpen, customer, fetchHistory]);
 
+  const fetchStatement = useCallback(async () => {
+    if (!customer) return;
+
+    try {
+      setIsLoading(true);
+      setStatement(await customerApi.getStatement(
+        customer.id,
+        dateRange[0].format('YYYY-MM-DD'),
+        dateRange[1].format('YYYY-MM-DD')
+      ));
+    } catch (error) {
+      console.error('Failed to fetch statement:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [customer, dateRange]);
+
+  useEffect(() => {
+    if (isOpen && customer && isManager && activeTab === 'statement') {
+      fetchStatement();
+    }
+  }, [isOpen, customer, isManager, activeTab, fetchStatement]);
+
+  const fetchMessages = useCallback(async () => {
+    if (!customer) return;
+
+    try {
+      setIsLoading(true);
+      setMessages(await messageApi.getAll({ customerId: customer.id }));
+    } catch (error) {
+      console.error('Failed to fetch messages:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [customer]);
+
+  useEffect(() => {
+    if (isOpen && customer && isManager && activeTab === 'messages') {
+      fetchMessages();
+    }
+  }, [isOpen, customer, isManager, activeTab, fetchMessages]);
+
+  const fetchChanges = useCallback(async () => {
+    if (!customer) return;
+
+    try {
+      setIsLoading(true);
+      setChanges(await auditApi.getAll({
+        customerId: customer.id,
+        from: dateRange[0].startOf('day').toISOString(),
+        to: dateRange[1].endOf('day').toISOString(),
+        limit: 1000,
+      }));
+    } catch (error) {
+      console.error('Failed to fetch changes:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [customer, dateRange]);
+
+  useEffect(() => {
+    if (isOpen && customer && isManager && activeTab === 'changes') {
+      fetchChanges();
+    }
+  }, [isOpen, customer, isManager, activeTab, fetchChanges]);
+
+  const handleDownloadStatement = async () => {
+    if (!customer) return;
+
+    try {
+      setIsDownloading(true);
+      const from = dateRange[0].format('YYYY-MM-DD');
+      const to = dateRange[1].format('YYYY-MM-DD');
+      const blob = await customerApi.getStatementPdf(customer.id, from, to);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `statement-${customer.name.replace(/[^a-z0-9]+/gi, '-').toLowerCase()}-${from}-${to}.pdf`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Failed to download statement:', error);
+      message.error('Failed to download statement');
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  const handleTableChange: TableProps<Delivery>['onChange'] = (pagination, _filters, sorter) => {
+    setPageParams(tablePageParams(pagination, sorter));
+  };
+
+  const messageColumns = [
+    {
+      title: 'Sent',
+      dataIndex: 'createdAt',
+      key: 'createdAt',
+      width: 150,
+      render: (date: string) => dayjs(date).format('DD MMM YYYY HH:mm'),
+    },
+    {
+      title: 'Message',
+      key: 'body',
+      render: (_: unknown, record: MessageLog) => (
+        <div>
+          <Space size={4} className="mb-1">
+            <Tag>{record.template === MessageTemplate.MONTHLY_BILL ? 'Monthly bill' : 'Reminder'}</Tag>
+            <Tag>{record.channel === 'whatsapp' ? 'WhatsApp' : 'SMS'}</Tag>
+            <Text type="secondary" className="text-xs">{record.phone}</Text>
+          </Space>
+          <div className="text-sm whitespace-pre-line">{record.body}</div>
+        </div>
+      ),
+    },
+    {
+      title: 'Status',
+      dataIndex: 'status',
+      key: 'status',
+      width: 90,
+      render: (status: string, record: MessageLog) => (
+        <Tag color={status === 'sent' ? 'success' : 'error'} title={record.error ?? undefined}>
+          {status.toUpperCase()}
+        </Tag>
+      ),
+    },
+  ];
+
+  const statementColumns = [
+    {
+      title: 'Date',
+      dataIndex: 'date',
+      key: 'date',
+      render: (date: string) => dayjs(date).format('DD MMM YYYY'),
+    },
+    {
+      title: 'Details',
+      key: 'description',
+      render: (_: unknown, record: CustomerStatementEntry) => (
+        <div>
+          <Tag color={ENTRY_LABELS[record.type].color}>{ENTRY_LABELS[record.type].label}</Tag>
+          {record.reference && <Text strong className="mr-1">{record.reference}</Text>}
+          <Text type="secondary">{record.description}</Text>
+        </div>
+      ),
+    },
+    {
+      title: 'Debit',
+      dataIndex: 'debit',
+      key: 'debit',
+      align: 'right' as const,
+      render: (val: number) => (val > 0 ? formatCurrency(val) : ''),
+    },
+    {
+      title: 'Credit',
+      dataIndex: 'credit',
+      key: 'credit',
+      align: 'right' as const,
+      render: (val: number) => (val > 0 ? <span className="text-green-600">{formatCurrency(val)}</span> : ''),
+    },
+    {
+      title: 'Balance',
+      dataIndex: 'balance',
+      key: 'balance',
+      align: 'right' as const,
+      render: (val: number) => <Text strong>{formatCurrency(val)}</Text>,
+    },
+  ];
+
   const columns = [
     {
       title: 'Date',
       dataIndex: 'date',
       key: 'date',
       render: (date: string) => dayjs(date).format('DD MMM YYYY'),
-      sorter: (a: Delivery, b: Delivery) => dayjs(a.date).unix() - dayjs(b.date).unix(),
+      sorter: true,
     },
     {
       title: 'Shift',
@@ -71,6 +263,7 @@ const CustomerHistoryModal: React.FC<CustomerHistoryModalProps> = ({
       dataIndex: 'actualAmount',
       key: 'actualAmount',
       render: (val: number) => <Text strong>{val.toFixed(1)} L</Text>,
+      sorter: true,
     },
     {
       title: 'Status',
@@ -96,13 +289,18 @@ const CustomerHistoryModal: React.FC<CustomerHistoryModalProps> = ({
       title={
         <Space>
           <CalendarOutlined />
-          <span>Delivery History: {customer?.name}</span>
+          <span>{isManager ? 'Account' : 'Delivery History'}: {customer?.name}</span>
         </Space>
       }
       open={isOpen}
       onCancel={onClose}
-      width={800}
+      width={activeTab === 'statement' ? 900 : 800}
       footer={[
+        ...(activeTab === 'statement' ? [
+          <Button key="pdf" icon={<FilePdfOutlined />} onClick={handleDownloadStatement} loading={isDownloading}>
+            Download Statement
+          </Button>,
+        ] : []),
         <Button key="close" onClick={onClose}>
           Close
         </Button>
@@ -116,26 +314,93 @@ const CustomerHistoryModal: React.FC<CustomerHistoryModalProps> = ({
             <Text type="secondary">Filter Range:</Text>
             <RangePicker 
               value={dateRange} 
-              onChange={(vals) => vals && setDateRange([vals[0]!, vals[1]!])} 
+              onChange={(vals) => {
+                if (!vals) return;
+                setDateRange([vals[0]!, vals[1]!]);
+                setPageParams((params) => ({ ...params, page: 1 }));
+              }}
               allowClear={false}
             />
           </Space>
-          <div className="text-right">
+          <div className="text-right" hidden={activeTab !== 'deliveries'}>
             <Text type="secondary" className="block text-xs uppercase">Total Liters</Text>
             <Text strong className="text-lg">
-              {deliveries.reduce((sum, d) => sum + (d.quantity || 0), 0).toFixed(1)} L
+              {totalQuantity.toFixed(1)} L
             </Text>
           </div>
         </div>
 
-        <Table
-          dataSource={deliveries}
-          columns={columns}
-          rowKey="id"
-          loading={isLoading}
-          pagination={{ pageSize: 10 }}
-          size="middle"
-          locale={{ emptyText: <Empty description="No deliveries found in this period" /> }}
+        <Tabs
+          activeKey={activeTab}
+          onChange={setActiveTab}
+          items={[
+            {
+              key: 'deliveries',
+              label: 'Deliveries',
+              children: (
+                <Table
+                  dataSource={deliveries}
+                  columns={columns}
+                  rowKey="id"
+                  loading={isLoading}
+                  pagination={{
+                    current: pageParams.page,
+                    pageSize: pageParams.limit,
+                    total: deliveryTotal,
+                  }}
+                  onChange={handleTableChange}
+                  size="middle"
+                  locale={{ emptyText: <Empty description="No deliveries found in this period" /> }}
+                />
+              ),
+            },
+            ...(isManager ? [{
+              key: 'statement',
+              label: 'Statement',
+              children: (
+                <div className="space-y-4">
+                  {statement && (
+                    <Row gutter={16}>
+                      <Col span={6}><Statistic title="Opening" value={formatCurrency(statement.openingBalance)} /></Col>
+                      <Col span={6}><Statistic title="Charges" value={formatCurrency(statement.totalDebits)} /></Col>
+                      <Col span={6}><Statistic title="Payments & Credits" value={formatCurrency(statement.totalCredits)} /></Col>
+                      <Col span={6}><Statistic title="Closing" value={formatCurrency(statement.closingBalance)} /></Col>
+                    </Row>
+                  )}
+                  <Table
+                    dataSource={statement?.entries || []}
+                    columns={statementColumns}
+                    rowKey={(record) => `${record.date}-${record.type}-${record.reference ?? ''}-${record.balance}`}
+                    loading={isLoading}
+                    pagination={false}
+                    size="small"
+                    scroll={{ y: 360 }}
+                    locale={{ emptyText: <Empty description="No activity in this period" /> }}
+                  />
+                </div>
+              ),
+            }, {
+              key: 'messages',
+              label: 'Messages',
+              children: (
+                <Table
+                  dataSource={messages}
+                  columns={messageColumns}
+                  rowKey="id"
+                  loading={isLoading}
+                  pagination={{ pageSize: 10 }}
+                  size="small"
+                  locale={{ emptyText: <Empty description="No messages sent to this customer" /> }}
+                />
+              ),
+            }, {
+              key: 'changes',
+              label: 'Changes',
+              children: (
+                <AuditLogTable entries={changes} loading={isLoading} emptyText="No changes in this period" />
+              ),
+            }] : []),
+          ]}
         />
       </div>
     </Modal>
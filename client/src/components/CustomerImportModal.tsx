@@ -0,0 +1,201 @@
+import React, { useState, useEffect } from 'react';
+import { Modal, Upload, Select, Table, Tag, Alert, Typography, Row, Col, Spin, message } from 'antd';
+import { InboxOutlined } from '@ant-design/icons';
+import { customerApi } from '../services/api';
+import { useSettings } from '../contexts/SettingsContext';
+import { CustomerImportMapping, CustomerImportResult, CustomerImportRow } from '../types';
+
+const { Text } = Typography;
+
+const FIELD_LABELS: Record<keyof CustomerImportMapping, string> = {
+  name: 'Name',
+  address: 'Address',
+  phone: 'Phone',
+  category: 'Category',
+  morningQuota: 'Morning quota',
+  eveningQuota: 'Evening quota',
+  pricePerLiter: 'Price per liter',
+};
+
+const STATUS_TAGS: Record<CustomerImportRow['status'], { color: string; label: string }> = {
+  valid: { color: 'green', label: 'Ready' },
+  invalid: { color: 'red', label: 'Error' },
+  duplicate: { color: 'orange', label: 'Duplicate' },
+};
+
+interface CustomerImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Called after customers were created */
+  onImported: () => void;
+}
+
+const CustomerImportModal: React.FC<CustomerImportModalProps> = ({ isOpen, onClose, onImported }) => {
+  const { formatCurrency } = useSettings();
+  const [file, setFile] = useState<File | null>(null);
+  const [mapping, setMapping] = useState<CustomerImportMapping>({});
+  const [preview, setPreview] = useState<CustomerImportResult | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setFile(null);
+      setMapping({});
+      setPreview(null);
+    }
+  }, [isOpen]);
+
+  const checkFile = async (selected: File, columns: CustomerImportMapping) => {
+    try {
+      setIsChecking(true);
+      setPreview(await customerApi.import(selected, columns, true));
+    } catch (error) {
+      setPreview(null);
+      message.error(error instanceof Error ? error.message : 'Failed to read file');
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const handleSelectFile = (selected: File) => {
+    setFile(selected);
+    setMapping({});
+    checkFile(selected, {});
+    return false;
+  };
+
+  const handleMappingChange = (field: keyof CustomerImportMapping, header?: string) => {
+    if (!file || !preview) return;
+    // Pin the columns shown so changing one does not re-guess the others
+    // and an empty header keeps a cleared field unmapped
+    const next = { ...preview.mapping, ...mapping, [field]: header ?? '' };
+    setMapping(next);
+    checkFile(file, next);
+  };
+
+  const handleImport = async () => {
+    if (!file) return;
+    try {
+      setIsImporting(true);
+      const result = await customerApi.import(file, mapping, false);
+      message.success(`${result.created} customer${result.created === 1 ? '' : 's'} imported`);
+      onImported();
+      onClose();
+    } catch (error) {
+      message.error(error instanceof Error ? error.message : 'Failed to import customers');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const columns = [
+    { title: 'Row', dataIndex: 'row', key: 'row', width: 60 },
+    {
+      title: 'Name',
+      key: 'name',
+      render: (_: unknown, record: CustomerImportRow) => record.data.name || <Text type="secondary">-</Text>,
+    },
+    {
+      title: 'Address',
+      key: 'address',
+      render: (_: unknown, record: CustomerImportRow) => record.data.address || <Text type="secondary">-</Text>,
+    },
+    {
+      title: 'Phone',
+      key: 'phone',
+      render: (_: unknown, record: CustomerImportRow) => record.data.phone || <Text type="secondary">-</Text>,
+    },
+    {
+      title: 'AM / PM',
+      key: 'quota',
+      render: (_: unknown, record: CustomerImportRow) => `${record.data.morningQuota} / ${record.data.eveningQuota}`,
+    },
+    {
+      title: 'Price',
+      key: 'price',
+      render: (_: unknown, record: CustomerImportRow) => formatCurrency(record.data.pricePerLiter),
+    },
+    {
+      title: 'Status',
+      dataIndex: 'status',
+      key: 'status',
+      render: (status: CustomerImportRow['status'], record: CustomerImportRow) => (
+        <div>
+          <Tag color={STATUS_TAGS[status].color}>{STATUS_TAGS[status].label}</Tag>
+          {record.errors.map((e) => <div key={e}><Text type="danger" className="text-xs">{e}</Text></div>)}
+          {record.duplicateOf && <div><Text type="secondary" className="text-xs">Same as {record.duplicateOf}</Text></div>}
+        </div>
+      ),
+    },
+  ];
+
+  return (
+    <Modal
+      title="Import Customers"
+      open={isOpen}
+      onCancel={onClose}
+      onOk={handleImport}
+      okText={preview ? `Import ${preview.valid} customer${preview.valid === 1 ? '' : 's'}` : 'Import'}
+      okButtonProps={{ disabled: !preview || isChecking || preview.invalid > 0 || preview.valid === 0 }}
+      confirmLoading={isImporting}
+      width={960}
+    >
+      <div className="space-y-4 py-2">
+        <Upload.Dragger
+          accept=".csv,.xlsx"
+          showUploadList={false}
+          beforeUpload={handleSelectFile}
+          disabled={isChecking || isImporting}
+        >
+          <p className="ant-upload-drag-icon"><InboxOutlined /></p>
+          <p className="ant-upload-text">{file ? file.name : 'Click or drop a CSV or Excel (.xlsx) file'}</p>
+          <p className="ant-upload-hint">
+            One customer per row under a header row, e.g. Name, Address, Phone, Category, Morning, Evening, Price
+          </p>
+        </Upload.Dragger>
+
+        <Spin spinning={isChecking}>
+          {preview && (
+            <div className="space-y-4">
+              <Row gutter={[12, 8]}>
+                {(Object.keys(FIELD_LABELS) as (keyof CustomerImportMapping)[]).map((field) => (
+                  <Col xs={12} md={6} key={field}>
+                    <Text type="secondary" className="text-xs">{FIELD_LABELS[field]}</Text>
+                    <Select
+                      value={preview.mapping[field]}
+                      onChange={(header?: string) => handleMappingChange(field, header)}
+                      placeholder="Not in file"
+                      allowClear
+                      size="small"
+                      style={{ width: '100%' }}
+                      options={preview.headers.map((h) => ({ value: h, label: h }))}
+                    />
+                  </Col>
+                ))}
+              </Row>
+
+              <Alert
+                type={preview.invalid > 0 ? 'error' : 'info'}
+                showIcon
+                message={`${preview.valid} ready to import, ${preview.invalid} with errors, ${preview.duplicates} duplicates will be skipped`}
+                description={preview.invalid > 0 ? 'Fix the rows with errors in the file and choose it again. Nothing is imported until every row is valid.' : undefined}
+              />
+
+              <Table
+                columns={columns}
+                dataSource={preview.rows}
+                rowKey="row"
+                size="small"
+                pagination={{ pageSize: 50, hideOnSinglePage: true }}
+                scroll={{ x: true, y: 360 }}
+              />
+            </div>
+          )}
+        </Spin>
+      </div>
+    </Modal>
+  );
+};
+
+export default CustomerImportModal;
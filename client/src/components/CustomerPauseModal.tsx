@@ -0,0 +1,177 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Modal, Table, DatePicker, Select, Input, Button, Form, Tag, Popconfirm, message } from 'antd';
+import { DeleteOutlined, PauseCircleOutlined } from '@ant-design/icons';
+import dayjs from 'dayjs';
+import { customerApi } from '../services/api';
+import { Customer, CustomerPause, Shift } from '../types';
+
+const { RangePicker } = DatePicker;
+const { Option } = Select;
+
+interface CustomerPauseModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  customer: Customer | null;
+}
+
+interface PauseFormValues {
+  range: [dayjs.Dayjs, dayjs.Dayjs];
+  shift?: Shift;
+  reason?: string;
+}
+
+const CustomerPauseModal: React.FC<CustomerPauseModalProps> = ({
+  isOpen,
+  onClose,
+  customer,
+}) => {
+  const [pauses, setPauses] = useState<CustomerPause[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [form] = Form.useForm<PauseFormValues>();
+
+  const fetchPauses = useCallback(async () => {
+    if (!customer) return;
+
+    try {
+      setIsLoading(true);
+      setPauses(await customerApi.getPauses(customer.id));
+    } catch (error) {
+      console.error('Failed to fetch pauses:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [customer]);
+
+  useEffect(() => {
+    if (isOpen && customer) {
+      form.resetFields();
+      fetchPauses();
+    }
+  }, [isOpen, customer, fetchPauses, form]);
+
+  const handleAdd = async (values: PauseFormValues) => {
+    if (!customer) return;
+
+    try {
+      setIsSaving(true);
+      await customerApi.addPause(customer.id, {
+        startDate: values.range[0].format('YYYY-MM-DD'),
+        endDate: values.range[1].format('YYYY-MM-DD'),
+        shift: values.shift ?? null,
+        reason: values.reason,
+      });
+      message.success('Deliveries paused');
+      form.resetFields();
+      fetchPauses();
+    } catch (error) {
+      message.error(error instanceof Error ? error.message : 'Failed to pause customer');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (pauseId: string) => {
+    if (!customer) return;
+
+    try {
+      await customerApi.deletePause(customer.id, pauseId);
+      message.success('Pause removed');
+      fetchPauses();
+    } catch (error) {
+      message.error(error instanceof Error ? error.message : 'Failed to remove pause');
+    }
+  };
+
+  const today = dayjs().format('YYYY-MM-DD');
+
+  const columns = [
+    {
+      title: 'From',
+      dataIndex: 'startDate',
+      key: 'startDate',
+      render: (date: string) => dayjs(date).format('DD MMM YYYY'),
+    },
+    {
+      title: 'To',
+      dataIndex: 'endDate',
+      key: 'endDate',
+      render: (date: string, record: CustomerPause) => (
+        <>
+          {dayjs(date).format('DD MMM YYYY')}
+          {record.startDate <= today && date >= today && <Tag color="orange" className="ml-2">Active</Tag>}
+        </>
+      ),
+    },
+    {
+      title: 'Shift',
+      dataIndex: 'shift',
+      key: 'shift',
+      render: (shift: string | null) => (
+        <Tag color={!shift ? 'default' : shift.toUpperCase() === Shift.MORNING ? 'gold' : 'purple'}>
+          {shift ? shift.toUpperCase() : 'BOTH'}
+        </Tag>
+      ),
+    },
+    {
+      title: 'Reason',
+      dataIndex: 'reason',
+      key: 'reason',
+      render: (reason: string | null) => reason || '-',
+    },
+    {
+      title: '',
+      key: 'actions',
+      render: (_: unknown, record: CustomerPause) => (
+        <Popconfirm title="Remove this pause?" onConfirm={() => handleDelete(record.id)}>
+          <Button type="text" danger icon={<DeleteOutlined />} />
+        </Popconfirm>
+      ),
+    },
+  ];
+
+  return (
+    <Modal
+      title={
+        <span>
+          <PauseCircleOutlined /> Pause Deliveries - {customer?.name}
+        </span>
+      }
+      open={isOpen}
+      onCancel={onClose}
+      footer={null}
+      width={700}
+    >
+      <Form form={form} layout="inline" onFinish={handleAdd} className="mb-4" style={{ rowGap: 8 }}>
+        <Form.Item name="range" rules={[{ required: true, message: 'Select dates' }]}>
+          <RangePicker format="DD MMM YYYY" />
+        </Form.Item>
+        <Form.Item name="shift">
+          <Select placeholder="Both shifts" allowClear style={{ width: 130 }}>
+            <Option value={Shift.MORNING}>Morning</Option>
+            <Option value={Shift.EVENING}>Evening</Option>
+          </Select>
+        </Form.Item>
+        <Form.Item name="reason">
+          <Input placeholder="Reason (optional)" style={{ width: 160 }} />
+        </Form.Item>
+        <Form.Item>
+          <Button type="primary" htmlType="submit" loading={isSaving}>
+            Add Pause
+          </Button>
+        </Form.Item>
+      </Form>
+
+      <Table
+        dataSource={pauses}
+        columns={columns}
+        rowKey="id"
+        loading={isLoading}
+        pagination={{ pageSize: 5 }}
+        size="small"
+      />
+    </Modal>
+  );
+};
+
+export default CustomerPauseModal;
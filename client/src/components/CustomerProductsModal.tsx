@@ -0,0 +1,204 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Modal, Table, Select, InputNumber, Button, Typography, DatePicker, message } from 'antd';
+import { DeleteOutlined, ShoppingOutlined } from '@ant-design/icons';
+import dayjs from 'dayjs';
+import { customerApi, productApi } from '../services/api';
+import { Customer, CustomerProductFormData, Product } from '../types';
+
+const { Text } = Typography;
+const { Option } = Select;
+
+/** ID of the built-in milk product, whose quota and price live on the customer */
+const DEFAULT_PRODUCT_ID = 'milk';
+
+interface CustomerProductsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  customer: Customer | null;
+}
+
+const CustomerProductsModal: React.FC<CustomerProductsModalProps> = ({
+  isOpen,
+  onClose,
+  customer,
+}) => {
+  const [products, setProducts] = useState<Product[]>([]);
+  const [entries, setEntries] = useState<CustomerProductFormData[]>([]);
+  const [effectiveFrom, setEffectiveFrom] = useState(dayjs());
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const fetchData = useCallback(async () => {
+    if (!customer) return;
+
+    try {
+      setIsLoading(true);
+      setEffectiveFrom(dayjs());
+      const [catalogue, current] = await Promise.all([
+        productApi.getAll(),
+        customerApi.getProducts(customer.id),
+      ]);
+      setProducts(catalogue.filter((p) => p.id !== DEFAULT_PRODUCT_ID));
+      setEntries(current.map(({ productId, morningQuota, eveningQuota, price }) => ({
+        productId,
+        morningQuota,
+        eveningQuota,
+        price: price ?? null,
+      })));
+    } catch (error) {
+      console.error('Failed to fetch customer products:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [customer]);
+
+  useEffect(() => {
+    if (isOpen && customer) {
+      fetchData();
+    }
+  }, [isOpen, customer, fetchData]);
+
+  const updateEntry = (productId: string, changes: Partial<CustomerProductFormData>) => {
+    setEntries((prev) => prev.map((e) => (e.productId === productId ? { ...e, ...changes } : e)));
+  };
+
+  const handleAddProduct = (productId: string) => {
+    setEntries((prev) => [...prev, { productId, morningQuota: 0, eveningQuota: 0, price: null }]);
+  };
+
+  const handleSave = async () => {
+    if (!customer) return;
+
+    try {
+      setIsSaving(true);
+      await customerApi.setProducts(customer.id, entries, effectiveFrom.format('YYYY-MM-DD'));
+      message.success('Customer products saved');
+      onClose();
+    } catch (error) {
+      message.error(error instanceof Error ? error.message : 'Failed to save customer products');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const productById = new Map(products.map((p) => [p.id, p]));
+
+  const columns = [
+    {
+      title: 'Product',
+      key: 'product',
+      render: (_: unknown, record: CustomerProductFormData) => {
+        const product = productById.get(record.productId);
+        return product ? `${product.name} (${product.unit})` : 'Unknown product';
+      },
+    },
+    {
+      title: 'Morning',
+      key: 'morning',
+      render: (_: unknown, record: CustomerProductFormData) => (
+        <InputNumber
+          min={0}
+          step={0.5}
+          value={record.morningQuota}
+          onChange={(val) => updateEntry(record.productId, { morningQuota: val || 0 })}
+        />
+      ),
+    },
+    {
+      title: 'Evening',
+      key: 'evening',
+      render: (_: unknown, record: CustomerProductFormData) => (
+        <InputNumber
+          min={0}
+          step={0.5}
+          value={record.eveningQuota}
+          onChange={(val) => updateEntry(record.productId, { eveningQuota: val || 0 })}
+        />
+      ),
+    },
+    {
+      title: 'Price',
+      key: 'price',
+      render: (_: unknown, record: CustomerProductFormData) => (
+        <InputNumber
+          min={0}
+          step={0.5}
+          placeholder={String(productById.get(record.productId)?.defaultPrice ?? '')}
+          value={record.price ?? null}
+          onChange={(val) => updateEntry(record.productId, { price: val ?? null })}
+        />
+      ),
+    },
+    {
+      title: '',
+      key: 'remove',
+      render: (_: unknown, record: CustomerProductFormData) => (
+        <Button
+          type="text"
+          danger
+          icon={<DeleteOutlined />}
+          onClick={() => setEntries((prev) => prev.filter((e) => e.productId !== record.productId))}
+        />
+      ),
+    },
+  ];
+
+  const available = products.filter((p) => p.isActive && !entries.some((e) => e.productId === p.id));
+
+  return (
+    <Modal
+      title={
+        <span>
+          <ShoppingOutlined /> Products - {customer?.name}
+        </span>
+      }
+      open={isOpen}
+      onCancel={onClose}
+      onOk={handleSave}
+      okText="Save Products"
+      confirmLoading={isSaving}
+      width={700}
+    >
+      <Select
+        placeholder="Add a product"
+        value={null}
+        onChange={handleAddProduct}
+        disabled={available.length === 0}
+        style={{ width: '100%', marginBottom: 8 }}
+      >
+        {available.map((p) => (
+          <Option key={p.id} value={p.id}>{p.name} ({p.unit})</Option>
+        ))}
+      </Select>
+
+      <Text type="secondary" className="mb-2 block" style={{ fontSize: 12 }}>
+        Milk quotas and price are set on the customer. Leave price blank to use the product&apos;s default price.
+      </Text>
+
+      <Table
+        dataSource={entries}
+        columns={columns}
+        rowKey="productId"
+        loading={isLoading}
+        pagination={false}
+        size="small"
+      />
+
+      <div className="mt-3">
+        <Text type="secondary" style={{ fontSize: 12 }}>Prices effective from </Text>
+        <DatePicker
+          value={effectiveFrom}
+          onChange={(value) => value && setEffectiveFrom(value)}
+          format="DD MMM YYYY"
+          allowClear={false}
+          size="small"
+        />
+        <Text type="secondary" className="block" style={{ fontSize: 12 }}>
+          Changed prices apply to deliveries from this date; earlier bills keep the old price.
+        </Text>
+      </div>
+    </Modal>
+  );
+};
+
+export default CustomerProductsModal;
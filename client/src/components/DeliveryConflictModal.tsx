@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import { Modal, Table, Button, Typography, Tag, message } from 'antd';
+import dayjs from 'dayjs';
+import { useOfflineSync } from '../contexts/OfflineSyncContext';
+import { DeliveryConflict, Shift } from '../types';
+
+const { Text } = Typography;
+
+const formatEntry = (entry: { actualAmount: number; delivered: boolean }) =>
+  entry.delivered ? <Tag color="green">{entry.actualAmount}</Tag> : <Tag>Not delivered</Tag>;
+
+/**
+ * Daily log edits that were not saved because the deliveries changed on the
+ * server since they were loaded, one shift at a time
+ */
+const DeliveryConflictModal: React.FC = () => {
+  const { conflicts, resolveConflict } = useOfflineSync();
+  const [resolving, setResolving] = useState<'server' | 'mine' | null>(null);
+  const conflict = conflicts[0];
+
+  const resolve = async (keep: 'server' | 'mine') => {
+    if (!conflict) return;
+    setResolving(keep);
+    try {
+      await resolveConflict(conflict, keep);
+    } catch (error) {
+      message.error(error instanceof Error ? error.message : 'Failed to save deliveries');
+    } finally {
+      setResolving(null);
+    }
+  };
+
+  const columns = [
+    { title: 'Customer', dataIndex: 'customerName', key: 'customerName' },
+    {
+      title: 'Your edit',
+      key: 'mine',
+      render: (_: unknown, record: DeliveryConflict) => formatEntry(record.mine),
+    },
+    {
+      title: 'On the server',
+      key: 'server',
+      render: (_: unknown, record: DeliveryConflict) => (
+        <div>
+          {formatEntry(record.server)}
+          <Text type="secondary" className="text-xs">{dayjs(record.server.updatedAt).format('DD MMM HH:mm')}</Text>
+        </div>
+      ),
+    },
+  ];
+
+  return (
+    <Modal
+      open={!!conflict}
+      title="Deliveries changed by someone else"
+      closable={false}
+      maskClosable={false}
+      width={640}
+      footer={[
+        <Button key="server" onClick={() => resolve('server')} loading={resolving === 'server'} disabled={!!resolving}>
+          Keep server values
+        </Button>,
+        <Button key="mine" type="primary" danger onClick={() => resolve('mine')} loading={resolving === 'mine'} disabled={!!resolving}>
+          Overwrite with mine
+        </Button>,
+      ]}
+    >
+      {conflict && (
+        <>
+          <p className="mb-4">
+            These deliveries for {dayjs(conflict.update.date).format('DD MMM YYYY')}{' '}
+            ({conflict.update.shift === Shift.MORNING ? 'morning' : 'evening'}) were changed after you loaded them,
+            so your edits were not saved. The rest of the shift was saved.
+          </p>
+          <Table
+            dataSource={conflict.conflicts}
+            columns={columns}
+            rowKey="customerId"
+            pagination={false}
+            size="small"
+          />
+          {conflicts.length > 1 && (
+            <Text type="secondary" className="mt-2 block">{conflicts.length - 1} more shifts to review</Text>
+          )}
+        </>
+      )}
+    </Modal>
+  );
+};
+
+export default DeliveryConflictModal;
@@ -0,0 +1,84 @@
+import React, { useState, useEffect } from 'react';
+import { Modal, DatePicker, Select, Typography, message } from 'antd';
+import dayjs from 'dayjs';
+import { deliveryApi, productApi } from '../services/api';
+import { Product, Shift } from '../types';
+import ExportButton from './ExportButton';
+
+const { Text } = Typography;
+const { RangePicker } = DatePicker;
+const { Option } = Select;
+
+interface DeliveryExportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const DeliveryExportModal: React.FC<DeliveryExportModalProps> = ({ isOpen, onClose }) => {
+  const [range, setRange] = useState<[dayjs.Dayjs, dayjs.Dayjs]>([dayjs().startOf('month'), dayjs()]);
+  const [shift, setShift] = useState<Shift | undefined>();
+  const [productId, setProductId] = useState<string | undefined>();
+  const [products, setProducts] = useState<Product[]>([]);
+
+  useEffect(() => {
+    if (isOpen && products.length === 0) {
+      productApi.getAll().then(setProducts).catch(() => message.error('Failed to load products'));
+    }
+  }, [isOpen, products.length]);
+
+  const startDate = range[0].format('YYYY-MM-DD');
+  const endDate = range[1].format('YYYY-MM-DD');
+
+  return (
+    <Modal
+      title="Export Delivery Register"
+      open={isOpen}
+      onCancel={onClose}
+      footer={
+        <ExportButton
+          label="Download"
+          fileName={`deliveries-${startDate}-to-${endDate}`}
+          onExport={(format) => deliveryApi.export({ startDate, endDate, shift, productId }, format)}
+        />
+      }
+    >
+      <div className="space-y-4 py-2">
+        <div>
+          <Text strong>Dates</Text>
+          <RangePicker
+            value={range}
+            onChange={(dates) => dates?.[0] && dates[1] && setRange([dates[0], dates[1]])}
+            format="DD MMM YYYY"
+            allowClear={false}
+            className="mt-1"
+            style={{ width: '100%' }}
+          />
+        </div>
+        <div>
+          <Text strong>Shift</Text>
+          <Select value={shift} onChange={setShift} placeholder="Both shifts" allowClear className="mt-1" style={{ width: '100%' }}>
+            <Option value={Shift.MORNING}>Morning</Option>
+            <Option value={Shift.EVENING}>Evening</Option>
+          </Select>
+        </div>
+        <div>
+          <Text strong>Product</Text>
+          <Select
+            value={productId}
+            onChange={setProductId}
+            placeholder="All products"
+            allowClear
+            className="mt-1"
+            style={{ width: '100%' }}
+            options={products.map((p) => ({ value: p.id, label: p.name }))}
+          />
+        </div>
+        <Text type="secondary" className="block">
+          Every recorded delivery in the range, one row per customer, shift and product, including skipped ones.
+        </Text>
+      </div>
+    </Modal>
+  );
+};
+
+export default DeliveryExportModal;
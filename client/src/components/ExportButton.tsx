@@ -0,0 +1,58 @@
+import React, { useState } from 'react';
+import { Button, Dropdown, message } from 'antd';
+import { DownloadOutlined, FileExcelOutlined, FileTextOutlined } from '@ant-design/icons';
+import { ExportFormat } from '../types';
+
+interface ExportButtonProps {
+  /** Fetch the export in the chosen format */
+  onExport: (format: ExportFormat) => Promise<Blob>;
+  /** Download name without the extension */
+  fileName: string;
+  label?: string;
+  disabled?: boolean;
+  size?: React.ComponentProps<typeof Button>['size'];
+}
+
+/**
+ * Button with a CSV / Excel menu that downloads an export
+ */
+const ExportButton: React.FC<ExportButtonProps> = ({ onExport, fileName, label = 'Export', disabled, size }) => {
+  const [isExporting, setIsExporting] = useState(false);
+
+  const handleExport = async (format: ExportFormat) => {
+    try {
+      setIsExporting(true);
+      const blob = await onExport(format);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${fileName}.${format}`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Failed to export:', error);
+      message.error(error instanceof Error ? error.message : 'Failed to export');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Dropdown
+      disabled={disabled || isExporting}
+      menu={{
+        items: [
+          { key: 'csv', icon: <FileTextOutlined />, label: 'CSV' },
+          { key: 'xlsx', icon: <FileExcelOutlined />, label: 'Excel (.xlsx)' },
+        ],
+        onClick: ({ key }) => handleExport(key as ExportFormat),
+      }}
+    >
+      <Button icon={<DownloadOutlined />} loading={isExporting} size={size}>
+        {label}
+      </Button>
+    </Dropdown>
+  );
+};
+
+export default ExportButton;
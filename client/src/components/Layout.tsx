@@ -1,6 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { useLocation, Outlet, useNavigate } from 'react-router-dom';
-import { Layout as AntLayout, Menu, Button, Avatar, Typography, Drawer, Grid } from 'antd';
+import { Layout as AntLayout, Menu, Button, Avatar, Typography, Drawer, Grid, Dropdown, Tag, Tooltip } from 'antd';
 import {
   LayoutDashboard,
   ClipboardList,
@@ -10,14 +10,26 @@ import {
   Droplet,
   DollarSign,
   Menu as MenuIcon,
+  UserCog,
+  Route,
+  ShoppingBasket,
+  History,
+  WifiOff,
+  RefreshCw,
 } from 'lucide-react';
 import {
   MenuFoldOutlined,
   MenuUnfoldOutlined,
   InfoCircleOutlined,
+  LogoutOutlined,
 } from '@ant-design/icons';
 import { useSettings } from '../contexts/SettingsContext';
+import { useAuth } from '../contexts/AuthContext';
+import { useOfflineSync } from '../contexts/OfflineSyncContext';
+import { getHomePath } from './RequireAuth';
+import { UserRole } from '../types';
 import OnboardingTour from './OnboardingTour';
+import DeliveryConflictModal from './DeliveryConflictModal';
 
 const { Header, Sider, Content } = AntLayout;
 const { Title, Text } = Typography;
@@ -27,6 +39,8 @@ const Layout: React.FC = () => {
   const location = useLocation();
   const navigate = useNavigate();
   const { settings } = useSettings();
+  const { user, logout, hasRole } = useAuth();
+  const { isOnline, isSyncing, pendingCount, syncNow } = useOfflineSync();
   const screens = useBreakpoint();
   const isMobile = !screens.lg;
   
@@ -38,20 +52,35 @@ const Layout: React.FC = () => {
     setDrawerVisible(false);
   }, [location.pathname]);
 
+  const isManager = hasRole(UserRole.OWNER, UserRole.ACCOUNTANT);
+
   const menuItems = [
-    { key: '/dashboard', icon: <LayoutDashboard size={18} />, label: 'Dashboard' },
+    ...(isManager ? [{ key: '/dashboard', icon: <LayoutDashboard size={18} />, label: 'Dashboard' }] : []),
     { key: '/daily-log', icon: <ClipboardList size={18} />, label: 'Daily Log' },
-    { key: '/customers', icon: <Users size={18} />, label: 'Customers' },
-    { key: '/billing', icon: <Receipt size={18} />, label: 'Billing' },
+    ...(isManager ? [
+      { key: '/customers', icon: <Users size={18} />, label: 'Customers' },
+      { key: '/billing', icon: <Receipt size={18} />, label: 'Billing' },
+    ] : []),
     { key: '/stock', icon: <Package size={18} />, label: 'Stock' },
-    { key: '/sources', icon: <MenuFoldOutlined size={18} />, data: { "menu-id": "/sources" }, label: 'Sources' }, 
+    ...(isManager ? [
+      { key: '/sources', icon: <MenuFoldOutlined size={18} />, data: { "menu-id": "/sources" }, label: 'Sources' },
+      { key: '/routes', icon: <Route size={18} />, label: 'Routes' },
+      { key: '/products', icon: <ShoppingBasket size={18} />, label: 'Products' },
+      { key: '/activity', icon: <History size={18} />, label: 'Activity' },
+    ] : []),
+    ...(hasRole(UserRole.OWNER) ? [{ key: '/users', icon: <UserCog size={18} />, label: 'Users' }] : []),
   ];
 
   const handleMenuClick = (e: { key: string }) => {
     navigate(e.key);
   };
 
-  const activeKey = location.pathname === '/' ? '/dashboard' : location.pathname;
+  const activeKey = location.pathname === '/' && user ? getHomePath(user.role) : location.pathname;
+
+  const handleLogout = () => {
+    logout();
+    navigate('/login', { replace: true });
+  };
 
   const SidebarContent = (
     <>
@@ -172,6 +201,23 @@ const Layout: React.FC = () => {
           </div>
           
           <div style={{ display: 'flex', alignItems: 'center', gap: isMobile ? 8 : 16 }}>
+            {!isOnline && (
+              <Tooltip title="Daily log changes are kept on this device until you are back online">
+                <Tag color="orange" icon={<WifiOff size={12} className="mr-1 inline" />}>Offline</Tag>
+              </Tooltip>
+            )}
+            {pendingCount > 0 && (
+              <Tooltip title={isOnline ? 'Sync now' : 'Will sync when back online'}>
+                <Tag
+                  color="blue"
+                  icon={<RefreshCw size={12} className={`mr-1 inline ${isSyncing ? 'animate-spin' : ''}`} />}
+                  style={{ cursor: isOnline ? 'pointer' : undefined }}
+                  onClick={() => isOnline && syncNow()}
+                >
+                  {pendingCount} to sync
+                </Tag>
+              </Tooltip>
+            )}
             <Button 
               icon={<DollarSign size={16} />} 
               style={{ borderRadius: 20 }}
@@ -180,7 +226,23 @@ const Layout: React.FC = () => {
                {!isMobile && `Currency (${settings.currencySymbol})`}
                {isMobile && settings.currencySymbol}
             </Button>
-            <Avatar style={{ backgroundColor: '#e8f0fe', color: '#1a73e8' }} size={isMobile ? 'small' : 'default'}>O</Avatar>
+            <Dropdown
+              trigger={['click']}
+              menu={{
+                items: [
+                  { key: 'name', label: user?.name, disabled: true },
+                  { type: 'divider' },
+                  { key: 'logout', icon: <LogoutOutlined />, label: 'Log out', onClick: handleLogout },
+                ],
+              }}
+            >
+              <Avatar
+                style={{ backgroundColor: '#e8f0fe', color: '#1a73e8', cursor: 'pointer' }}
+                size={isMobile ? 'small' : 'default'}
+              >
+                {user?.name.charAt(0).toUpperCase() || 'O'}
+              </Avatar>
+            </Dropdown>
           </div>
         </Header>
         
@@ -193,6 +255,7 @@ const Layout: React.FC = () => {
         }}>
           <Outlet />
           <OnboardingTour />
+          <DeliveryConflictModal />
         </Content>
       </AntLayout>
     </AntLayout>
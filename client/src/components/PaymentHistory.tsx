@@ -0,0 +1,356 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { Table, TableProps, Select, DatePicker, Switch, Space, Button, Tag, Modal, Form, InputNumber, Input, Tooltip, message } from 'antd';
+import { FilePdfOutlined, EditOutlined, StopOutlined } from '@ant-design/icons';
+import dayjs from 'dayjs';
+import { billingApi, customerApi } from '../services/api';
+import { useSettings } from '../contexts/SettingsContext';
+import { Customer, PaginationParams, Payment } from '../types';
+import { getMonthName, tablePageParams } from '@/utils/helpers';
+import ExportButton from './ExportButton';
+
+const { Option } = Select;
+const { RangePicker } = DatePicker;
+
+const METHOD_LABELS: Record<string, string> = {
+  cash: 'Cash',
+  bank: 'Bank',
+  upi: 'UPI',
+};
+
+interface PaymentHistoryProps {
+  /** Called after a payment is corrected or voided */
+  onChange?: () => void;
+}
+
+interface CorrectionFormValues {
+  amount: number;
+  date: dayjs.Dayjs;
+  method?: string;
+  remarks?: string;
+}
+
+const PaymentHistory: React.FC<PaymentHistoryProps> = ({ onChange }) => {
+  const { formatCurrency } = useSettings();
+  const [payments, setPayments] = useState<Payment[]>([]);
+  const [total, setTotal] = useState(0);
+  const [pageParams, setPageParams] = useState<PaginationParams>({ page: 1, limit: 20 });
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [customerId, setCustomerId] = useState<string | undefined>();
+  const [method, setMethod] = useState<string | undefined>();
+  const [range, setRange] = useState<[dayjs.Dayjs, dayjs.Dayjs] | null>([dayjs().subtract(1, 'month'), dayjs()]);
+  const [includeVoided, setIncludeVoided] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [editing, setEditing] = useState<Payment | null>(null);
+  const [voiding, setVoiding] = useState<Payment | null>(null);
+  const [voidReason, setVoidReason] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [form] = Form.useForm<CorrectionFormValues>();
+
+  const filters = useMemo(() => ({
+    customerId,
+    method,
+    startDate: range?.[0].format('YYYY-MM-DD'),
+    endDate: range?.[1].format('YYYY-MM-DD'),
+    includeVoided,
+  }), [customerId, method, range, includeVoided]);
+
+  const fetchPayments = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const result = await billingApi.getPayments({ ...filters, ...pageParams });
+      setPayments(result.items);
+      setTotal(result.total);
+    } catch (error) {
+      console.error('Failed to fetch payments:', error);
+      message.error('Failed to load payments');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [filters, pageParams]);
+
+  useEffect(() => {
+    fetchPayments();
+  }, [fetchPayments]);
+
+  useEffect(() => {
+    customerApi.getAll().then(setCustomers).catch(() => message.error('Failed to load customers'));
+  }, []);
+
+  /**
+   * Back to the first page when a filter changes
+   */
+  const resetPage = () => setPageParams((prev) => ({ ...prev, page: 1 }));
+
+  const handleTableChange: TableProps<Payment>['onChange'] = (pagination, _filters, sorter) => {
+    setPageParams(tablePageParams(pagination, sorter));
+  };
+
+  const handleDownloadReceipt = async (payment: Payment) => {
+    try {
+      const blob = await billingApi.getReceipt(payment.id);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `receipt-${payment.receiptNumber}.pdf`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Failed to download receipt:', error);
+      message.error('Failed to download receipt');
+    }
+  };
+
+  const openCorrection = (payment: Payment) => {
+    setEditing(payment);
+    form.setFieldsValue({
+      amount: payment.amount,
+      date: dayjs(payment.date),
+      method: payment.method || undefined,
+      remarks: payment.remarks || undefined,
+    });
+  };
+
+  const handleCorrect = async (values: CorrectionFormValues) => {
+    if (!editing) return;
+    try {
+      setIsSaving(true);
+      const payment = await billingApi.updatePayment(editing.id, {
+        amount: values.amount,
+        date: values.date.format('YYYY-MM-DD'),
+        method: values.method,
+        remarks: values.remarks,
+      });
+      message.success(`Receipt ${editing.receiptNumber} replaced by ${payment.receiptNumber}`);
+      setEditing(null);
+      fetchPayments();
+      onChange?.();
+    } catch (error) {
+      message.error(error instanceof Error ? error.message : 'Failed to correct payment');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleVoid = async () => {
+    if (!voiding) return;
+    if (!voidReason.trim()) {
+      message.error('Enter a reason');
+      return;
+    }
+    try {
+      setIsSaving(true);
+      await billingApi.voidPayment(voiding.id, voidReason.trim());
+      message.success(`Receipt ${voiding.receiptNumber} voided`);
+      setVoiding(null);
+      setVoidReason('');
+      fetchPayments();
+      onChange?.();
+    } catch (error) {
+      message.error(error instanceof Error ? error.message : 'Failed to void payment');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const columns = [
+    {
+      title: 'Receipt',
+      dataIndex: 'receiptNumber',
+      key: 'receiptNumber',
+      sorter: true,
+      render: (val: string, record: Payment) => (
+        <span className={record.voidedAt ? 'line-through text-gray-400' : 'font-medium'}>{val}</span>
+      ),
+    },
+    {
+      title: 'Date',
+      dataIndex: 'date',
+      key: 'date',
+      sorter: true,
+      render: (date: string) => dayjs(date).format('DD MMM YYYY'),
+    },
+    {
+      title: 'Customer',
+      dataIndex: 'customerName',
+      key: 'customerName',
+    },
+    {
+      title: 'Amount',
+      dataIndex: 'amount',
+      key: 'amount',
+      align: 'right' as const,
+      sorter: true,
+      render: (val: number) => formatCurrency(val),
+    },
+    {
+      title: 'Method',
+      dataIndex: 'method',
+      key: 'method',
+      render: (val?: string | null) => (val ? METHOD_LABELS[val] ?? val : '-'),
+    },
+    {
+      title: 'Applied To',
+      key: 'allocations',
+      render: (_: unknown, record: Payment) => (
+        <Space size={[4, 4]} wrap>
+          {(record.allocations || []).map((a) => (
+            <Tag key={a.id}>{getMonthName(a.month).slice(0, 3)} {a.year}: {formatCurrency(a.amount)}</Tag>
+          ))}
+          {!!record.unallocated && <Tag color="green">Credit: {formatCurrency(record.unallocated)}</Tag>}
+          {record.voidedAt && (
+            <Tooltip title={record.voidReason}>
+              <Tag color="error">VOID</Tag>
+            </Tooltip>
+          )}
+        </Space>
+      ),
+    },
+    {
+      title: 'Remarks',
+      dataIndex: 'remarks',
+      key: 'remarks',
+      render: (val?: string | null) => val || '-',
+    },
+    {
+      title: '',
+      key: 'actions',
+      render: (_: unknown, record: Payment) => (
+        <Space size={4}>
+          <Tooltip title="Receipt">
+            <Button type="text" size="small" icon={<FilePdfOutlined />} onClick={() => handleDownloadReceipt(record)} />
+          </Tooltip>
+          {!record.voidedAt && (
+            <>
+              <Tooltip title="Correct">
+                <Button type="text" size="small" icon={<EditOutlined />} onClick={() => openCorrection(record)} />
+              </Tooltip>
+              <Tooltip title="Void">
+                <Button type="text" size="small" danger icon={<StopOutlined />} onClick={() => setVoiding(record)} />
+              </Tooltip>
+            </>
+          )}
+        </Space>
+      ),
+    },
+  ];
+
+  return (
+    <div className="space-y-4">
+      <Space wrap>
+        <Select
+          placeholder="All customers"
+          value={customerId}
+          onChange={(value) => {
+            setCustomerId(value);
+            resetPage();
+          }}
+          allowClear
+          showSearch
+          optionFilterProp="children"
+          style={{ width: 200 }}
+        >
+          {customers.map((c) => (
+            <Option key={c.id} value={c.id}>{c.name}</Option>
+          ))}
+        </Select>
+        <RangePicker
+          value={range}
+          onChange={(dates) => {
+            setRange(dates?.[0] && dates[1] ? [dates[0], dates[1]] : null);
+            resetPage();
+          }}
+          format="DD MMM YYYY"
+        />
+        <Select
+          placeholder="Any method"
+          value={method}
+          onChange={(value) => {
+            setMethod(value);
+            resetPage();
+          }}
+          allowClear
+          style={{ width: 130 }}
+        >
+          {Object.entries(METHOD_LABELS).map(([value, label]) => (
+            <Option key={value} value={value}>{label}</Option>
+          ))}
+        </Select>
+        <Space>
+          <Switch
+            size="small"
+            checked={includeVoided}
+            onChange={(checked) => {
+              setIncludeVoided(checked);
+              resetPage();
+            }}
+          />
+          <span className="text-sm text-gray-500">Show voided</span>
+        </Space>
+        <ExportButton fileName="payments" onExport={(format) => billingApi.exportPayments(filters, format)} />
+      </Space>
+
+      <Table
+        dataSource={payments}
+        columns={columns}
+        rowKey="id"
+        loading={isLoading}
+        pagination={{ current: pageParams.page, pageSize: pageParams.limit, total, showSizeChanger: true }}
+        onChange={handleTableChange}
+        scroll={{ x: 'max-content' }}
+      />
+
+      <Modal
+        title={`Correct Receipt ${editing?.receiptNumber ?? ''}`}
+        open={!!editing}
+        onCancel={() => setEditing(null)}
+        onOk={() => form.submit()}
+        confirmLoading={isSaving}
+        okText="Save Correction"
+      >
+        <p className="text-sm text-gray-500">
+          The original receipt is voided and kept on file; the corrected payment gets a new receipt number.
+        </p>
+        <Form form={form} layout="vertical" onFinish={handleCorrect}>
+          <Form.Item name="amount" label="Amount" rules={[{ required: true, message: 'Enter amount' }]}>
+            <InputNumber min={0.01} style={{ width: '100%' }} />
+          </Form.Item>
+          <Form.Item name="date" label="Date" rules={[{ required: true, message: 'Select date' }]}>
+            <DatePicker format="DD MMM YYYY" allowClear={false} style={{ width: '100%' }} />
+          </Form.Item>
+          <Form.Item name="method" label="Method">
+            <Select allowClear placeholder="Method">
+              {Object.entries(METHOD_LABELS).map(([value, label]) => (
+                <Option key={value} value={value}>{label}</Option>
+              ))}
+            </Select>
+          </Form.Item>
+          <Form.Item name="remarks" label="Remarks">
+            <Input />
+          </Form.Item>
+        </Form>
+      </Modal>
+
+      <Modal
+        title={`Void Receipt ${voiding?.receiptNumber ?? ''}`}
+        open={!!voiding}
+        onCancel={() => {
+          setVoiding(null);
+          setVoidReason('');
+        }}
+        onOk={handleVoid}
+        confirmLoading={isSaving}
+        okText="Void Payment"
+        okButtonProps={{ danger: true }}
+      >
+        <Input.TextArea
+          rows={2}
+          value={voidReason}
+          onChange={(e) => setVoidReason(e.target.value)}
+          placeholder="Reason, e.g. cheque bounced"
+        />
+      </Modal>
+    </div>
+  );
+};
+
+export default PaymentHistory;
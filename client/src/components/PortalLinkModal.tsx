@@ -0,0 +1,120 @@
+import React, { useState, useEffect } from 'react';
+import { Modal, Select, Button, Input, Space, Typography, Popconfirm, message } from 'antd';
+import { CopyOutlined, LinkOutlined, StopOutlined } from '@ant-design/icons';
+import dayjs from 'dayjs';
+import { customerApi } from '../services/api';
+import { Customer } from '../types';
+
+const { Text } = Typography;
+
+const VALIDITY_OPTIONS = [
+  { value: 7, label: '1 week' },
+  { value: 30, label: '30 days' },
+  { value: 90, label: '90 days' },
+  { value: 365, label: '1 year' },
+];
+
+interface PortalLinkModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  customer: Customer | null;
+}
+
+const PortalLinkModal: React.FC<PortalLinkModalProps> = ({ isOpen, onClose, customer }) => {
+  const [expiresInDays, setExpiresInDays] = useState(30);
+  const [link, setLink] = useState<{ url: string; expiresAt: string } | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+  const [isRevoking, setIsRevoking] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setLink(null);
+    }
+  }, [isOpen, customer]);
+
+  const handleCreate = async () => {
+    if (!customer) return;
+    try {
+      setIsCreating(true);
+      const { token, expiresAt } = await customerApi.createPortalLink(customer.id, expiresInDays);
+      setLink({ url: `${window.location.origin}/portal/${token}`, expiresAt });
+    } catch (error) {
+      message.error(error instanceof Error ? error.message : 'Failed to create link');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleRevoke = async () => {
+    if (!customer) return;
+    try {
+      setIsRevoking(true);
+      await customerApi.revokePortalLinks(customer.id);
+      setLink(null);
+      message.success('All links for this customer have been revoked');
+    } catch (error) {
+      message.error(error instanceof Error ? error.message : 'Failed to revoke links');
+    } finally {
+      setIsRevoking(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!link) return;
+    try {
+      await navigator.clipboard.writeText(link.url);
+      message.success('Link copied');
+    } catch {
+      message.error('Copy failed; select the link and copy it manually');
+    }
+  };
+
+  return (
+    <Modal
+      title={`Share Account Link - ${customer?.name ?? ''}`}
+      open={isOpen}
+      onCancel={onClose}
+      footer={null}
+      destroyOnClose
+    >
+      <div className="space-y-4 py-2">
+        <Text type="secondary" className="block">
+          Anyone with this link can see the customer&apos;s deliveries, bills, payments and balance
+          without logging in, until it expires or is revoked.
+        </Text>
+        <Space wrap>
+          <Select
+            value={expiresInDays}
+            onChange={setExpiresInDays}
+            options={VALIDITY_OPTIONS}
+            style={{ width: 140 }}
+          />
+          <Button type="primary" icon={<LinkOutlined />} onClick={handleCreate} loading={isCreating}>
+            {link ? 'Create New Link' : 'Create Link'}
+          </Button>
+          <Popconfirm
+            title="Revoke every link shared with this customer so far?"
+            onConfirm={handleRevoke}
+          >
+            <Button danger icon={<StopOutlined />} loading={isRevoking}>
+              Revoke Links
+            </Button>
+          </Popconfirm>
+        </Space>
+        {link && (
+          <div className="space-y-1">
+            <Space.Compact style={{ width: '100%' }}>
+              <Input value={link.url} readOnly onFocus={(e) => e.target.select()} />
+              <Button icon={<CopyOutlined />} onClick={handleCopy}>Copy</Button>
+            </Space.Compact>
+            <Text type="secondary" className="text-xs">
+              Valid until {dayjs(link.expiresAt).format('DD MMM YYYY, HH:mm')}
+            </Text>
+          </div>
+        )}
+      </div>
+    </Modal>
+  );
+};
+
+export default PortalLinkModal;
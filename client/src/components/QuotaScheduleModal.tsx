@@ -0,0 +1,187 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Modal, Table, DatePicker, InputNumber, Button, Space, Typography, Popconfirm, message } from 'antd';
+import { CalendarOutlined } from '@ant-design/icons';
+import dayjs from 'dayjs';
+import { customerApi } from '../services/api';
+import { Customer, WeekdayQuota, WeekdayQuotas } from '../types';
+
+const { Text } = Typography;
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+interface QuotaScheduleModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  customer: Customer | null;
+}
+
+const QuotaScheduleModal: React.FC<QuotaScheduleModalProps> = ({
+  isOpen,
+  onClose,
+  customer,
+}) => {
+  const [weekdayQuotas, setWeekdayQuotas] = useState<WeekdayQuotas>({});
+  const [intervalDays, setIntervalDays] = useState(1);
+  const [startDate, setStartDate] = useState(dayjs());
+  const [hasSchedule, setHasSchedule] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const fetchSchedule = useCallback(async () => {
+    if (!customer) return;
+
+    try {
+      setIsLoading(true);
+      const schedule = await customerApi.getQuotaSchedule(customer.id);
+      setHasSchedule(!!schedule);
+      setWeekdayQuotas(schedule?.weekdayQuotas || {});
+      setIntervalDays(schedule?.intervalDays || 1);
+      setStartDate(schedule ? dayjs(schedule.startDate) : dayjs());
+    } catch (error) {
+      console.error('Failed to fetch quota schedule:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [customer]);
+
+  useEffect(() => {
+    if (isOpen && customer) {
+      fetchSchedule();
+    }
+  }, [isOpen, customer, fetchSchedule]);
+
+  const handleQuotaChange = (day: number, shift: keyof WeekdayQuota, value: number | null) => {
+    setWeekdayQuotas((prev) => {
+      const dayQuota: WeekdayQuota = { ...prev[day], [shift]: value ?? undefined };
+      const next = { ...prev, [day]: dayQuota };
+      if (dayQuota.morning === undefined && dayQuota.evening === undefined) {
+        delete next[day];
+      }
+      return next;
+    });
+  };
+
+  const handleSave = async () => {
+    if (!customer) return;
+
+    try {
+      setIsSaving(true);
+      await customerApi.setQuotaSchedule(customer.id, {
+        weekdayQuotas: Object.keys(weekdayQuotas).length > 0 ? weekdayQuotas : null,
+        intervalDays,
+        startDate: startDate.format('YYYY-MM-DD'),
+      });
+      message.success('Quota schedule saved');
+      onClose();
+    } catch (error) {
+      message.error(error instanceof Error ? error.message : 'Failed to save quota schedule');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!customer) return;
+
+    try {
+      await customerApi.deleteQuotaSchedule(customer.id);
+      message.success('Quota schedule removed');
+      onClose();
+    } catch (error) {
+      message.error(error instanceof Error ? error.message : 'Failed to remove quota schedule');
+    }
+  };
+
+  const columns = [
+    {
+      title: 'Day',
+      dataIndex: 'name',
+      key: 'name',
+    },
+    {
+      title: `Morning (default ${customer?.morningQuota ?? 0} L)`,
+      key: 'morning',
+      render: (_: unknown, record: { day: number }) => (
+        <InputNumber
+          min={0}
+          step={0.5}
+          placeholder="Default"
+          value={weekdayQuotas[record.day]?.morning ?? null}
+          onChange={(val) => handleQuotaChange(record.day, 'morning', val)}
+        />
+      ),
+    },
+    {
+      title: `Evening (default ${customer?.eveningQuota ?? 0} L)`,
+      key: 'evening',
+      render: (_: unknown, record: { day: number }) => (
+        <InputNumber
+          min={0}
+          step={0.5}
+          placeholder="Default"
+          value={weekdayQuotas[record.day]?.evening ?? null}
+          onChange={(val) => handleQuotaChange(record.day, 'evening', val)}
+        />
+      ),
+    },
+  ];
+
+  return (
+    <Modal
+      title={
+        <span>
+          <CalendarOutlined /> Quota Schedule - {customer?.name}
+        </span>
+      }
+      open={isOpen}
+      onCancel={onClose}
+      width={600}
+      footer={
+        <Space>
+          {hasSchedule && (
+            <Popconfirm title="Remove the schedule and use the default quotas?" onConfirm={handleRemove}>
+              <Button danger>Remove Schedule</Button>
+            </Popconfirm>
+          )}
+          <Button onClick={onClose}>Cancel</Button>
+          <Button type="primary" onClick={handleSave} loading={isSaving}>
+            Save Schedule
+          </Button>
+        </Space>
+      }
+    >
+      <Space wrap className="mb-4">
+        <Text>Deliver every</Text>
+        <InputNumber
+          min={1}
+          precision={0}
+          value={intervalDays}
+          onChange={(val) => setIntervalDays(val || 1)}
+          style={{ width: 70 }}
+        />
+        <Text>day(s), starting</Text>
+        <DatePicker
+          value={startDate}
+          onChange={(val) => setStartDate(val || dayjs())}
+          allowClear={false}
+          format="DD MMM YYYY"
+        />
+      </Space>
+
+      <Text type="secondary" className="mb-2 block" style={{ fontSize: 12 }}>
+        Leave a day blank to use the default quota.
+      </Text>
+
+      <Table
+        dataSource={WEEKDAYS.map((name, day) => ({ name, day }))}
+        columns={columns}
+        rowKey="day"
+        loading={isLoading}
+        pagination={false}
+        size="small"
+      />
+    </Modal>
+  );
+};
+
+export default QuotaScheduleModal;
@@ -0,0 +1,168 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Table, Button, Space, Statistic, Row, Col, Typography, message } from 'antd';
+import { DownloadOutlined, ReloadOutlined } from '@ant-design/icons';
+import dayjs from 'dayjs';
+import { billingApi } from '../services/api';
+import { useSettings } from '../contexts/SettingsContext';
+import { AgingBuckets, AgingReport, CustomerAging } from '../types';
+
+const { Text } = Typography;
+
+const BUCKETS: { key: keyof AgingBuckets; label: string; color?: string }[] = [
+  { key: 'current', label: 'Current' },
+  { key: 'days1to30', label: '1–30 days' },
+  { key: 'days31to60', label: '31–60 days', color: '#d48806' },
+  { key: 'days61to90', label: '61–90 days', color: '#d4380d' },
+  { key: 'over90', label: '90+ days', color: '#cf1322' },
+];
+
+const ReceivablesAging: React.FC = () => {
+  const { formatCurrency } = useSettings();
+  const [report, setReport] = useState<AgingReport | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const fetchReport = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setReport(await billingApi.getAging());
+    } catch (error) {
+      console.error('Failed to fetch aging report:', error);
+      message.error('Failed to load aging report');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchReport();
+  }, [fetchReport]);
+
+  const handleExport = async () => {
+    try {
+      setIsExporting(true);
+      const blob = await billingApi.getAgingCsv();
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `aging-${report?.asOf ?? dayjs().format('YYYY-MM-DD')}.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Failed to export aging report:', error);
+      message.error('Failed to export aging report');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const renderAmount = (val: number) => (val > 0 ? formatCurrency(val) : <span className="text-gray-300">-</span>);
+
+  const columns = [
+    {
+      title: 'Customer',
+      dataIndex: 'customerName',
+      key: 'customerName',
+      fixed: 'left' as const,
+      render: (name: string, record: CustomerAging) => (
+        <div>
+          <div className="font-medium">{name}</div>
+          {record.phone && <Text type="secondary" className="text-xs">{record.phone}</Text>}
+        </div>
+      ),
+    },
+    ...BUCKETS.map((bucket) => ({
+      title: bucket.label,
+      dataIndex: bucket.key,
+      key: bucket.key,
+      align: 'right' as const,
+      render: (val: number) => (
+        <span style={val > 0 && bucket.color ? { color: bucket.color } : undefined}>{renderAmount(val)}</span>
+      ),
+    })),
+    {
+      title: 'Credit',
+      dataIndex: 'credit',
+      key: 'credit',
+      align: 'right' as const,
+      render: (val: number) => (val > 0 ? <span className="text-green-600">{formatCurrency(val)}</span> : renderAmount(val)),
+    },
+    {
+      title: 'Balance',
+      dataIndex: 'total',
+      key: 'total',
+      align: 'right' as const,
+      render: (val: number) => <Text strong>{formatCurrency(val)}</Text>,
+    },
+    {
+      title: 'Overdue Since',
+      key: 'oldestDueDate',
+      render: (_: unknown, record: CustomerAging) => (record.daysOverdue > 0 && record.oldestDueDate
+        ? <span>{dayjs(record.oldestDueDate).format('DD MMM YYYY')} <Text type="secondary">({record.daysOverdue}d)</Text></span>
+        : '-'),
+    },
+  ];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap justify-between items-center gap-2">
+        <Text type="secondary">
+          {report && `As of ${dayjs(report.asOf).format('DD MMM YYYY')}. Bills fall due ${report.paymentTerms} days after month end.`}
+        </Text>
+        <Space>
+          <Button icon={<ReloadOutlined />} onClick={fetchReport} loading={isLoading}>
+            Refresh
+          </Button>
+          <Button icon={<DownloadOutlined />} onClick={handleExport} loading={isExporting}>
+            Export CSV
+          </Button>
+        </Space>
+      </div>
+
+      {report && (
+        <Row gutter={[16, 16]}>
+          {BUCKETS.map((bucket) => (
+            <Col key={bucket.key} xs={12} md={4}>
+              <Statistic
+                title={bucket.label}
+                value={formatCurrency(report.totals[bucket.key])}
+                valueStyle={bucket.color && report.totals[bucket.key] > 0 ? { color: bucket.color } : undefined}
+              />
+            </Col>
+          ))}
+          <Col xs={12} md={4}>
+            <Statistic title="Total Receivable" value={formatCurrency(report.totals.total)} />
+          </Col>
+        </Row>
+      )}
+
+      <Table
+        dataSource={report?.customers || []}
+        columns={columns}
+        rowKey="customerId"
+        loading={isLoading}
+        pagination={{ pageSize: 20 }}
+        scroll={{ x: 'max-content' }}
+        summary={() => report && report.customers.length > 0 && (
+          <Table.Summary.Row>
+            <Table.Summary.Cell index={0}><Text strong>Total</Text></Table.Summary.Cell>
+            {BUCKETS.map((bucket, i) => (
+              <Table.Summary.Cell key={bucket.key} index={i + 1} align="right">
+                <Text strong>{formatCurrency(report.totals[bucket.key])}</Text>
+              </Table.Summary.Cell>
+            ))}
+            <Table.Summary.Cell index={BUCKETS.length + 1} align="right">
+              {formatCurrency(report.totals.credit)}
+            </Table.Summary.Cell>
+            <Table.Summary.Cell index={BUCKETS.length + 2} align="right">
+              <Text strong>{formatCurrency(report.totals.total)}</Text>
+            </Table.Summary.Cell>
+            <Table.Summary.Cell index={BUCKETS.length + 3} />
+          </Table.Summary.Row>
+        )}
+      />
+    </div>
+  );
+};
+
+export default ReceivablesAging;
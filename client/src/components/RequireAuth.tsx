@@ -0,0 +1,50 @@
+/**
+ * Route guard
+ *
+ * Redirects to the login page when nobody is logged in, and to the
+ * user's home page when their role may not open the route.
+ */
+
+import React from 'react';
+import { Navigate, useLocation } from 'react-router-dom';
+import { Spin } from 'antd';
+import { useAuth } from '../contexts/AuthContext';
+import { UserRole } from '../types';
+
+interface RequireAuthProps {
+  children: React.ReactElement;
+  /** Roles allowed to open the route (any logged-in user when omitted) */
+  roles?: UserRole[];
+}
+
+/**
+ * Landing page for a role
+ */
+export const getHomePath = (role: UserRole): string => {
+  return role === UserRole.DELIVERY ? '/daily-log' : '/dashboard';
+};
+
+const RequireAuth: React.FC<RequireAuthProps> = ({ children, roles }) => {
+  const { user, isLoading } = useAuth();
+  const location = useLocation();
+
+  if (isLoading) {
+    return (
+      <div className="flex h-screen items-center justify-center">
+        <Spin size="large" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Navigate to="/login" state={{ from: location }} replace />;
+  }
+
+  if (roles && !roles.includes(user.role)) {
+    return <Navigate to={getHomePath(user.role)} replace />;
+  }
+
+  return children;
+};
+
+export default RequireAuth;
@@ -0,0 +1,180 @@
+import React, { useState, useEffect } from 'react';
+import { Modal, Radio, Select, InputNumber, Typography, Alert, List, Tag, message } from 'antd';
+import { billingApi, messageApi } from '../services/api';
+import { useSettings } from '../contexts/SettingsContext';
+import { CustomerBillingSummary, MessageChannel, MessageTemplate, SendMessagesResult } from '../types';
+import { getMonthName } from '@/utils/helpers';
+
+const { Text } = Typography;
+
+interface SendMessagesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  month: number;
+  year: number;
+}
+
+const SendMessagesModal: React.FC<SendMessagesModalProps> = ({ isOpen, onClose, month, year }) => {
+  const { formatCurrency } = useSettings();
+  // Every bill for the month, not just the page on screen, to pick recipients from
+  const [summaries, setSummaries] = useState<CustomerBillingSummary[]>([]);
+  const [template, setTemplate] = useState<MessageTemplate>(MessageTemplate.BALANCE_REMINDER);
+  const [channel, setChannel] = useState<MessageChannel>(MessageChannel.SMS);
+  const [scope, setScope] = useState<'due' | 'selected'>('due');
+  const [minTotalDue, setMinTotalDue] = useState(0);
+  const [customerIds, setCustomerIds] = useState<string[]>([]);
+  const [isSending, setIsSending] = useState(false);
+  const [result, setResult] = useState<SendMessagesResult | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setResult(null);
+      setCustomerIds([]);
+    }
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    billingApi.getMonthly(year, month)
+      .then(setSummaries)
+      .catch((error) => {
+        console.error('Failed to fetch billing:', error);
+        message.error('Failed to load billing data');
+      });
+  }, [isOpen, month, year]);
+
+  const recipients = scope === 'due'
+    ? summaries.filter((s) => s.totalDue > minTotalDue)
+    : summaries.filter((s) => customerIds.includes(s.customerId));
+  const withoutPhone = recipients.filter((s) => !s.customerPhone?.trim()).length;
+
+  const handleSend = async () => {
+    if (recipients.length === 0) {
+      message.error('No customers match');
+      return;
+    }
+    try {
+      setIsSending(true);
+      const sent = await messageApi.send({
+        template,
+        channel,
+        month,
+        year,
+        ...(scope === 'due' ? { minTotalDue } : { customerIds }),
+      });
+      setResult(sent);
+      message.success(`${sent.sent} message${sent.sent === 1 ? '' : 's'} sent`);
+    } catch (error) {
+      message.error(error instanceof Error ? error.message : 'Failed to send messages');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <Modal
+      title={`Send Messages - ${getMonthName(month)} ${year}`}
+      open={isOpen}
+      onCancel={onClose}
+      onOk={result ? onClose : handleSend}
+      okText={result ? 'Done' : `Send to ${recipients.length}`}
+      cancelButtonProps={{ style: result ? { display: 'none' } : undefined }}
+      confirmLoading={isSending}
+      width={560}
+    >
+      {result ? (
+        <div className="space-y-4 py-2">
+          <Alert
+            type={result.failed > 0 ? 'warning' : 'success'}
+            message={`${result.sent} sent, ${result.failed} failed, ${result.skipped.length} skipped`}
+            showIcon
+          />
+          {(result.failed > 0 || result.skipped.length > 0) && (
+            <List
+              size="small"
+              bordered
+              style={{ maxHeight: 260, overflow: 'auto' }}
+              dataSource={[
+                ...result.logs
+                  .filter((log) => log.status === 'failed')
+                  .map((log) => ({ key: log.id, name: log.customerName, reason: log.error, color: 'error' })),
+                ...result.skipped.map((s) => ({ key: s.customerId, name: s.customerName, reason: s.reason, color: 'default' })),
+              ]}
+              renderItem={(item) => (
+                <List.Item key={item.key}>
+                  <Text>{item.name}</Text>
+                  <Tag color={item.color}>{item.reason}</Tag>
+                </List.Item>
+              )}
+            />
+          )}
+        </div>
+      ) : (
+        <div className="space-y-4 py-2">
+          <div>
+            <Text strong>Message</Text>
+            <Radio.Group
+              value={template}
+              onChange={(e) => setTemplate(e.target.value)}
+              optionType="button"
+              className="mt-1 block"
+              options={[
+                { label: 'Balance reminder', value: MessageTemplate.BALANCE_REMINDER },
+                { label: 'Monthly bill', value: MessageTemplate.MONTHLY_BILL },
+              ]}
+            />
+          </div>
+          <div>
+            <Text strong>Send via</Text>
+            <Radio.Group
+              value={channel}
+              onChange={(e) => setChannel(e.target.value)}
+              optionType="button"
+              className="mt-1 block"
+              options={[
+                { label: 'SMS', value: MessageChannel.SMS },
+                { label: 'WhatsApp', value: MessageChannel.WHATSAPP },
+              ]}
+            />
+          </div>
+          <div>
+            <Text strong>Recipients</Text>
+            <Radio.Group value={scope} onChange={(e) => setScope(e.target.value)} className="mt-1 block">
+              <Radio value="due">Everyone with total due above</Radio>
+              <Radio value="selected">Chosen customers</Radio>
+            </Radio.Group>
+            {scope === 'due' ? (
+              <InputNumber
+                min={0}
+                value={minTotalDue}
+                onChange={(val) => setMinTotalDue(val ?? 0)}
+                className="mt-2"
+                style={{ width: '100%' }}
+              />
+            ) : (
+              <Select
+                mode="multiple"
+                value={customerIds}
+                onChange={setCustomerIds}
+                placeholder="Select customers"
+                optionFilterProp="label"
+                className="mt-2"
+                style={{ width: '100%' }}
+                options={summaries.map((s) => ({
+                  value: s.customerId,
+                  label: `${s.customerName} (${formatCurrency(s.totalDue)})`,
+                }))}
+              />
+            )}
+          </div>
+          <Text type="secondary" className="block">
+            {recipients.length} customer{recipients.length === 1 ? '' : 's'} selected
+            {withoutPhone > 0 && `, ${withoutPhone} without a phone number will be skipped`}.
+          </Text>
+        </div>
+      )}
+    </Modal>
+  );
+};
+
+export default SendMessagesModal;
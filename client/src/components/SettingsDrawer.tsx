@@ -1,9 +1,11 @@
 import React, { useState } from 'react';
 import { Drawer, FloatButton, Tabs, Form, Input, Button, ColorPicker, Segmented, Slider, Space, Typography, InputNumber, Divider } from 'antd';
-import { SettingOutlined, BgColorsOutlined, ShopOutlined, CheckOutlined } from '@ant-design/icons';
+import { SettingOutlined, BgColorsOutlined, ShopOutlined, CheckOutlined, DatabaseOutlined } from '@ant-design/icons';
 import { useTheme } from '../contexts/ThemeContext';
 import { useSettings } from '../contexts/SettingsContext';
-import { Settings } from '../types';
+import { useAuth } from '../contexts/AuthContext';
+import { Settings, UserRole } from '../types';
+import BackupPanel from './BackupPanel';
 
 const { Title } = Typography;
 
@@ -15,6 +17,7 @@ const SettingsDrawer: React.FC = () => {
         borderRadius, setBorderRadius 
     } = useTheme();
     const { settings, updateSettings, isLoading } = useSettings();
+    const { hasRole } = useAuth();
     const [form] = Form.useForm();
 
     const showDrawer = () => {
@@ -122,7 +125,7 @@ const SettingsDrawer: React.FC = () => {
                             </div>
                         )
                     },
-                    {
+                    ...(!hasRole(UserRole.OWNER) ? [] : [{
                         key: '2',
                         label: <span><ShopOutlined /> Business Info</span>,
                         children: (
@@ -177,6 +180,32 @@ const SettingsDrawer: React.FC = () => {
                                     </Col>
                                 </Row>
 
+                                <Form.Item
+                                    name="paymentTerms"
+                                    label="Payment Terms (days)"
+                                    extra="Days after month end before a bill is overdue"
+                                    rules={[{ required: true, message: 'Please enter payment terms' }]}
+                                >
+                                    <InputNumber min={0} max={365} precision={0} style={{ width: '100%' }} />
+                                </Form.Item>
+
+                                <Form.Item
+                                    name="invoicePrefix"
+                                    label="Invoice Number Prefix"
+                                    extra="Applies to invoices and notes issued from now on"
+                                    rules={[{ required: true, whitespace: true, message: 'Please enter a prefix' }]}
+                                >
+                                    <Input placeholder="INV-" maxLength={12} />
+                                </Form.Item>
+
+                                <Form.Item
+                                    name="receiptPrefix"
+                                    label="Receipt Number Prefix"
+                                    rules={[{ required: true, whitespace: true, message: 'Please enter a prefix' }]}
+                                >
+                                    <Input placeholder="RCT-" maxLength={12} />
+                                </Form.Item>
+
                                 <Form.Item>
                                     <Button type="primary" htmlType="submit" loading={isLoading} block size="large">
                                         Save Information
@@ -184,7 +213,11 @@ const SettingsDrawer: React.FC = () => {
                                 </Form.Item>
                             </Form>
                         )
-                    }
+                    }, {
+                        key: '3',
+                        label: <span><DatabaseOutlined /> Backup</span>,
+                        children: <BackupPanel />
+                    }])
                 ]} />
             </Drawer>
         </>
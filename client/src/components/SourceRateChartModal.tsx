@@ -0,0 +1,215 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Modal, Table, Radio, Input, InputNumber, Button, Space, Typography, Popconfirm, Form, message } from 'antd';
+import { TableOutlined } from '@ant-design/icons';
+import { sourceApi } from '../services/api';
+import { RateChartType, Source } from '../types';
+
+const { Text } = Typography;
+
+interface SourceRateChartModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  source: Source | null;
+}
+
+/**
+ * Parse "3.5, 4, 4.5" into ascending unique steps
+ */
+const parseSteps = (text: string): number[] => {
+  const steps = text
+    .split(',')
+    .map((part) => parseFloat(part.trim()))
+    .filter((step) => Number.isFinite(step));
+  return Array.from(new Set(steps)).sort((a, b) => a - b);
+};
+
+const rateKey = (fat: number, snf: number) => `${fat}|${snf}`;
+
+const SourceRateChartModal: React.FC<SourceRateChartModalProps> = ({
+  isOpen,
+  onClose,
+  source,
+}) => {
+  const [type, setType] = useState<RateChartType>(RateChartType.FORMULA);
+  const [fatText, setFatText] = useState('');
+  const [snfText, setSnfText] = useState('');
+  const [rates, setRates] = useState<Record<string, number>>({});
+  const [baseRate, setBaseRate] = useState(0);
+  const [fatRate, setFatRate] = useState(0);
+  const [snfRate, setSnfRate] = useState(0);
+  const [hasChart, setHasChart] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const fetchChart = useCallback(async () => {
+    if (!source) return;
+
+    try {
+      const chart = await sourceApi.getRateChart(source.id);
+      setHasChart(!!chart);
+      setType(chart?.type || RateChartType.FORMULA);
+      setBaseRate(chart?.baseRate || 0);
+      setFatRate(chart?.fatRate || 0);
+      setSnfRate(chart?.snfRate || 0);
+
+      const grid = chart?.grid;
+      setFatText(grid ? grid.fatSteps.join(', ') : '');
+      setSnfText(grid ? grid.snfSteps.join(', ') : '');
+      const gridRates: Record<string, number> = {};
+      grid?.fatSteps.forEach((fat, i) => {
+        grid.snfSteps.forEach((snf, j) => {
+          gridRates[rateKey(fat, snf)] = grid.rates[i][j];
+        });
+      });
+      setRates(gridRates);
+    } catch (error) {
+      console.error('Failed to fetch rate chart:', error);
+    }
+  }, [source]);
+
+  useEffect(() => {
+    if (isOpen && source) {
+      fetchChart();
+    }
+  }, [isOpen, source, fetchChart]);
+
+  const fatSteps = parseSteps(fatText);
+  const snfSteps = parseSteps(snfText);
+
+  const handleSave = async () => {
+    if (!source) return;
+
+    if (type === RateChartType.GRID && (fatSteps.length === 0 || snfSteps.length === 0)) {
+      message.error('Enter at least one fat and one SNF step');
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      await sourceApi.setRateChart(source.id, type === RateChartType.GRID
+        ? {
+            type,
+            grid: {
+              fatSteps,
+              snfSteps,
+              rates: fatSteps.map((fat) => snfSteps.map((snf) => rates[rateKey(fat, snf)] ?? 0)),
+            },
+          }
+        : { type, baseRate, fatRate, snfRate });
+      message.success('Rate chart saved');
+      onClose();
+    } catch (error) {
+      message.error(error instanceof Error ? error.message : 'Failed to save rate chart');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!source) return;
+
+    try {
+      await sourceApi.deleteRateChart(source.id);
+      message.success('Rate chart removed');
+      onClose();
+    } catch (error) {
+      message.error(error instanceof Error ? error.message : 'Failed to remove rate chart');
+    }
+  };
+
+  const gridColumns = [
+    {
+      title: 'Fat % \\ SNF %',
+      dataIndex: 'fat',
+      key: 'fat',
+      render: (fat: number) => <Text strong>{fat}</Text>,
+    },
+    ...snfSteps.map((snf) => ({
+      title: snf,
+      key: String(snf),
+      render: (_: unknown, record: { fat: number }) => (
+        <InputNumber
+          min={0}
+          step={0.5}
+          size="small"
+          value={rates[rateKey(record.fat, snf)] ?? null}
+          onChange={(val) => setRates((prev) => ({ ...prev, [rateKey(record.fat, snf)]: val ?? 0 }))}
+          style={{ width: 70 }}
+        />
+      ),
+    })),
+  ];
+
+  return (
+    <Modal
+      title={
+        <span>
+          <TableOutlined /> Rate Chart - {source?.name}
+        </span>
+      }
+      open={isOpen}
+      onCancel={onClose}
+      width={720}
+      footer={
+        <Space>
+          {hasChart && (
+            <Popconfirm title="Remove the rate chart? New collections will not be priced." onConfirm={handleRemove}>
+              <Button danger>Remove Chart</Button>
+            </Popconfirm>
+          )}
+          <Button onClick={onClose}>Cancel</Button>
+          <Button type="primary" onClick={handleSave} loading={isSaving}>
+            Save Chart
+          </Button>
+        </Space>
+      }
+    >
+      <Radio.Group value={type} onChange={(e) => setType(e.target.value)} className="mb-4">
+        <Radio.Button value={RateChartType.FORMULA}>Formula</Radio.Button>
+        <Radio.Button value={RateChartType.GRID}>Fat × SNF Grid</Radio.Button>
+      </Radio.Group>
+
+      {type === RateChartType.FORMULA ? (
+        <Form layout="vertical">
+          <Text type="secondary" className="mb-4 block" style={{ fontSize: 12 }}>
+            Rate per unit = base rate + fat % × rate per fat % + SNF % × rate per SNF %
+          </Text>
+          <Space wrap>
+            <Form.Item label="Base Rate">
+              <InputNumber step={0.5} value={baseRate} onChange={(val) => setBaseRate(val || 0)} />
+            </Form.Item>
+            <Form.Item label="Rate per Fat %">
+              <InputNumber step={0.5} value={fatRate} onChange={(val) => setFatRate(val || 0)} />
+            </Form.Item>
+            <Form.Item label="Rate per SNF %">
+              <InputNumber step={0.5} value={snfRate} onChange={(val) => setSnfRate(val || 0)} />
+            </Form.Item>
+          </Space>
+        </Form>
+      ) : (
+        <>
+          <Form layout="vertical">
+            <Form.Item label="Fat % steps">
+              <Input value={fatText} onChange={(e) => setFatText(e.target.value)} placeholder="e.g. 3.0, 3.5, 4.0, 4.5" />
+            </Form.Item>
+            <Form.Item label="SNF % steps">
+              <Input value={snfText} onChange={(e) => setSnfText(e.target.value)} placeholder="e.g. 8.0, 8.5, 9.0" />
+            </Form.Item>
+          </Form>
+          <Text type="secondary" className="mb-2 block" style={{ fontSize: 12 }}>
+            A reading uses the highest step at or below it. Readings below the lowest step are not priced.
+          </Text>
+          <Table
+            dataSource={fatSteps.map((fat) => ({ fat }))}
+            columns={gridColumns}
+            rowKey="fat"
+            pagination={false}
+            size="small"
+            scroll={{ x: true }}
+          />
+        </>
+      )}
+    </Modal>
+  );
+};
+
+export default SourceRateChartModal;
@@ -0,0 +1,266 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Modal, Table, DatePicker, Select, Input, InputNumber, Button, Form, Space, Tag, Popconfirm, Statistic, Row, Col, message } from 'antd';
+import { DeleteOutlined, HistoryOutlined } from '@ant-design/icons';
+import dayjs from 'dayjs';
+import { stockApi } from '../services/api';
+import { useAuth } from '../contexts/AuthContext';
+import { Product, StockLedger, StockLedgerEntry, StockMovementType, UserRole } from '../types';
+
+const { Option } = Select;
+const { RangePicker } = DatePicker;
+
+/** ID of the built-in milk product */
+const DEFAULT_PRODUCT_ID = 'milk';
+
+const TYPE_LABELS: Record<StockMovementType, { label: string; color: string }> = {
+  [StockMovementType.COLLECTION]: { label: 'Collection', color: 'green' },
+  [StockMovementType.DELIVERY]: { label: 'Delivery', color: 'blue' },
+  [StockMovementType.WASTAGE]: { label: 'Wastage', color: 'red' },
+  [StockMovementType.SPOILAGE]: { label: 'Spoilage', color: 'volcano' },
+  [StockMovementType.COUNTER_SALE]: { label: 'Counter Sale', color: 'cyan' },
+  [StockMovementType.ADJUSTMENT]: { label: 'Adjustment', color: 'gold' },
+  [StockMovementType.COUNT]: { label: 'Count', color: 'purple' },
+};
+
+/** Movement types that can be recorded by hand */
+const RECORDED_TYPES = [
+  StockMovementType.WASTAGE,
+  StockMovementType.SPOILAGE,
+  StockMovementType.COUNTER_SALE,
+  StockMovementType.ADJUSTMENT,
+  StockMovementType.COUNT,
+];
+
+interface StockLedgerModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  products: Product[];
+  /** Called after a movement is recorded or deleted */
+  onChange?: () => void;
+}
+
+interface MovementFormValues {
+  type: StockMovementType;
+  date: dayjs.Dayjs;
+  quantity: number;
+  reason: string;
+}
+
+const StockLedgerModal: React.FC<StockLedgerModalProps> = ({
+  isOpen,
+  onClose,
+  products,
+  onChange,
+}) => {
+  const { hasRole } = useAuth();
+  const isManager = hasRole(UserRole.OWNER, UserRole.ACCOUNTANT);
+  const [productId, setProductId] = useState(DEFAULT_PRODUCT_ID);
+  const [range, setRange] = useState<[dayjs.Dayjs, dayjs.Dayjs]>([dayjs().subtract(6, 'day'), dayjs()]);
+  const [ledger, setLedger] = useState<StockLedger | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [form] = Form.useForm<MovementFormValues>();
+  const movementType = Form.useWatch('type', form);
+
+  const unit = products.find((p) => p.id === productId)?.unit ?? 'L';
+
+  const fetchLedger = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setLedger(await stockApi.getLedger(
+        range[0].format('YYYY-MM-DD'),
+        range[1].format('YYYY-MM-DD'),
+        productId
+      ));
+    } catch (error) {
+      console.error('Failed to fetch stock ledger:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [range, productId]);
+
+  useEffect(() => {
+    if (isOpen) {
+      fetchLedger();
+    }
+  }, [isOpen, fetchLedger]);
+
+  useEffect(() => {
+    if (isOpen) {
+      form.resetFields();
+    }
+  }, [isOpen, form]);
+
+  const handleRecord = async (values: MovementFormValues) => {
+    try {
+      setIsSaving(true);
+      await stockApi.recordMovement({
+        type: values.type,
+        date: values.date.format('YYYY-MM-DD'),
+        quantity: values.quantity,
+        reason: values.reason,
+        productId,
+      });
+      message.success('Stock movement recorded');
+      form.resetFields();
+      fetchLedger();
+      onChange?.();
+    } catch (error) {
+      message.error(error instanceof Error ? error.message : 'Failed to record stock movement');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (movementId: string) => {
+    try {
+      await stockApi.deleteMovement(movementId);
+      message.success('Stock movement deleted');
+      fetchLedger();
+      onChange?.();
+    } catch (error) {
+      message.error(error instanceof Error ? error.message : 'Failed to delete stock movement');
+    }
+  };
+
+  const quantityLabel = movementType === StockMovementType.COUNT
+    ? 'Counted level'
+    : movementType === StockMovementType.ADJUSTMENT
+      ? 'Change (+/-)'
+      : 'Quantity';
+
+  const columns = [
+    {
+      title: 'Date',
+      dataIndex: 'date',
+      key: 'date',
+      render: (date: string) => dayjs(date).format('DD MMM'),
+    },
+    {
+      title: 'Details',
+      key: 'description',
+      render: (_: unknown, record: StockLedgerEntry) => (
+        <div>
+          <Tag color={TYPE_LABELS[record.type]?.color}>{TYPE_LABELS[record.type]?.label ?? record.type}</Tag>
+          {record.description}
+          {record.reason && (
+            <div className="text-xs text-gray-500">
+              {record.reason}{record.createdByName && ` · ${record.createdByName}`}
+            </div>
+          )}
+        </div>
+      ),
+    },
+    {
+      title: 'Change',
+      dataIndex: 'change',
+      key: 'change',
+      align: 'right' as const,
+      render: (val: number) => (
+        <span className={val < 0 ? 'text-red-500' : 'text-green-600'}>
+          {val > 0 ? '+' : ''}{val.toFixed(1)}
+        </span>
+      ),
+    },
+    {
+      title: `Balance (${unit})`,
+      dataIndex: 'balance',
+      key: 'balance',
+      align: 'right' as const,
+      render: (val: number) => <span className="font-medium">{val.toFixed(1)}</span>,
+    },
+    ...(isManager ? [{
+      title: '',
+      key: 'actions',
+      render: (_: unknown, record: StockLedgerEntry) => record.movementId && (
+        <Popconfirm title="Delete this movement?" onConfirm={() => handleDelete(record.movementId as string)}>
+          <Button type="text" danger size="small" icon={<DeleteOutlined />} />
+        </Popconfirm>
+      ),
+    }] : []),
+  ];
+
+  return (
+    <Modal
+      title={
+        <span>
+          <HistoryOutlined /> Stock Ledger
+        </span>
+      }
+      open={isOpen}
+      onCancel={onClose}
+      footer={null}
+      width={860}
+    >
+      <Form
+        form={form}
+        layout="inline"
+        onFinish={handleRecord}
+        initialValues={{ date: dayjs(), type: StockMovementType.WASTAGE }}
+        className="mb-4"
+      >
+        <Form.Item name="type" rules={[{ required: true }]}>
+          <Select style={{ width: 140 }}>
+            {RECORDED_TYPES.map((type) => (
+              <Option key={type} value={type}>{TYPE_LABELS[type].label}</Option>
+            ))}
+          </Select>
+        </Form.Item>
+        <Form.Item name="date" rules={[{ required: true, message: 'Select date' }]}>
+          <DatePicker format="DD MMM YYYY" allowClear={false} />
+        </Form.Item>
+        <Form.Item name="quantity" rules={[{ required: true, message: 'Enter quantity' }]}>
+          <InputNumber
+            min={movementType === StockMovementType.ADJUSTMENT ? undefined : 0}
+            step={0.5}
+            placeholder={quantityLabel}
+            style={{ width: 130 }}
+          />
+        </Form.Item>
+        <Form.Item name="reason" rules={[{ required: true, whitespace: true, message: 'Enter a reason' }]}>
+          <Input placeholder="Reason" style={{ width: 160 }} />
+        </Form.Item>
+        <Form.Item>
+          <Button type="primary" htmlType="submit" loading={isSaving}>
+            Record
+          </Button>
+        </Form.Item>
+      </Form>
+
+      <Space wrap className="mb-4">
+        {products.length > 1 && (
+          <Select value={productId} onChange={setProductId} style={{ width: 160 }}>
+            {products.map((product) => (
+              <Option key={product.id} value={product.id}>{product.name}</Option>
+            ))}
+          </Select>
+        )}
+        <RangePicker
+          value={range}
+          onChange={(dates) => dates?.[0] && dates[1] && setRange([dates[0], dates[1]])}
+          allowClear={false}
+          format="DD MMM YYYY"
+        />
+      </Space>
+
+      {ledger && (
+        <Row gutter={16} className="mb-4">
+          <Col span={12}><Statistic title="Opening" value={ledger.openingBalance} precision={1} suffix={unit} /></Col>
+          <Col span={12}><Statistic title="Closing" value={ledger.closingBalance} precision={1} suffix={unit} /></Col>
+        </Row>
+      )}
+
+      <Table
+        dataSource={ledger?.entries || []}
+        columns={columns}
+        rowKey={(record) => record.movementId || `${record.date}-${record.type}-${record.description}-${record.balance}`}
+        loading={isLoading}
+        pagination={false}
+        size="small"
+        scroll={{ y: 360 }}
+      />
+    </Modal>
+  );
+};
+
+export default StockLedgerModal;
@@ -0,0 +1,231 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Modal, Table, DatePicker, Select, Input, InputNumber, Button, Form, Space, Tag, Popconfirm, Statistic, Row, Col, message } from 'antd';
+import { BookOutlined, DeleteOutlined } from '@ant-design/icons';
+import dayjs from 'dayjs';
+import { sourceApi } from '../services/api';
+import { useSettings } from '../contexts/SettingsContext';
+import { Source, StatementPeriod, SupplierStatement, SupplierStatementEntry } from '../types';
+
+const { Option } = Select;
+
+interface SupplierLedgerModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  source: Source | null;
+  /** Called after a payment is recorded or deleted */
+  onChange?: () => void;
+}
+
+interface PaymentFormValues {
+  amount: number;
+  date: dayjs.Dayjs;
+  method?: string;
+  remarks?: string;
+}
+
+const SupplierLedgerModal: React.FC<SupplierLedgerModalProps> = ({
+  isOpen,
+  onClose,
+  source,
+  onChange,
+}) => {
+  const { formatCurrency } = useSettings();
+  const [period, setPeriod] = useState<StatementPeriod>(StatementPeriod.WEEKLY);
+  const [endDate, setEndDate] = useState(dayjs());
+  const [statement, setStatement] = useState<SupplierStatement | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [form] = Form.useForm<PaymentFormValues>();
+
+  const fetchStatement = useCallback(async () => {
+    if (!source) return;
+
+    try {
+      setIsLoading(true);
+      setStatement(await sourceApi.getStatement(source.id, period, endDate.format('YYYY-MM-DD')));
+    } catch (error) {
+      console.error('Failed to fetch supplier statement:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [source, period, endDate]);
+
+  useEffect(() => {
+    if (isOpen && source) {
+      fetchStatement();
+    }
+  }, [isOpen, source, fetchStatement]);
+
+  useEffect(() => {
+    if (isOpen) {
+      form.resetFields();
+    }
+  }, [isOpen, form]);
+
+  const handlePay = async (values: PaymentFormValues) => {
+    if (!source) return;
+
+    try {
+      setIsSaving(true);
+      await sourceApi.recordPayment(source.id, {
+        amount: values.amount,
+        date: values.date.format('YYYY-MM-DD'),
+        method: values.method,
+        remarks: values.remarks,
+      });
+      message.success('Payment recorded');
+      form.resetFields();
+      fetchStatement();
+      onChange?.();
+    } catch (error) {
+      message.error(error instanceof Error ? error.message : 'Failed to record payment');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDeletePayment = async (paymentId: string) => {
+    if (!source) return;
+
+    try {
+      await sourceApi.deletePayment(source.id, paymentId);
+      message.success('Payment deleted');
+      fetchStatement();
+      onChange?.();
+    } catch (error) {
+      message.error(error instanceof Error ? error.message : 'Failed to delete payment');
+    }
+  };
+
+  const columns = [
+    {
+      title: 'Date',
+      dataIndex: 'date',
+      key: 'date',
+      render: (date: string) => dayjs(date).format('DD MMM'),
+    },
+    {
+      title: 'Details',
+      key: 'description',
+      render: (_: unknown, record: SupplierStatementEntry) => (
+        <span>
+          <Tag color={record.type === 'payment' ? 'green' : 'blue'}>{record.type.toUpperCase()}</Tag>
+          {record.description}
+          {record.quantity !== undefined && ` · ${record.quantity} L`}
+        </span>
+      ),
+    },
+    {
+      title: 'Purchase',
+      dataIndex: 'debit',
+      key: 'debit',
+      align: 'right' as const,
+      render: (val: number) => (val ? formatCurrency(val) : '-'),
+    },
+    {
+      title: 'Paid',
+      dataIndex: 'credit',
+      key: 'credit',
+      align: 'right' as const,
+      render: (val: number) => (val ? formatCurrency(val) : '-'),
+    },
+    {
+      title: 'Balance',
+      dataIndex: 'balance',
+      key: 'balance',
+      align: 'right' as const,
+      render: (val: number) => <span className="font-medium">{formatCurrency(val)}</span>,
+    },
+    {
+      title: '',
+      key: 'actions',
+      render: (_: unknown, record: SupplierStatementEntry) => record.paymentId && (
+        <Popconfirm title="Delete this payment?" onConfirm={() => handleDeletePayment(record.paymentId as string)}>
+          <Button type="text" danger size="small" icon={<DeleteOutlined />} />
+        </Popconfirm>
+      ),
+    },
+  ];
+
+  return (
+    <Modal
+      title={
+        <span>
+          <BookOutlined /> Supplier Ledger - {source?.name}
+        </span>
+      }
+      open={isOpen}
+      onCancel={onClose}
+      footer={null}
+      width={860}
+    >
+      <Form
+        form={form}
+        layout="inline"
+        onFinish={handlePay}
+        initialValues={{ date: dayjs() }}
+        className="mb-4"
+      >
+        <Form.Item name="amount" rules={[{ required: true, message: 'Enter amount' }]}>
+          <InputNumber min={0.01} placeholder="Amount" style={{ width: 120 }} />
+        </Form.Item>
+        <Form.Item name="date" rules={[{ required: true, message: 'Select date' }]}>
+          <DatePicker format="DD MMM YYYY" allowClear={false} />
+        </Form.Item>
+        <Form.Item name="method">
+          <Select placeholder="Method" allowClear style={{ width: 110 }}>
+            <Option value="cash">Cash</Option>
+            <Option value="bank">Bank</Option>
+            <Option value="upi">UPI</Option>
+          </Select>
+        </Form.Item>
+        <Form.Item name="remarks">
+          <Input placeholder="Remarks" style={{ width: 150 }} />
+        </Form.Item>
+        <Form.Item>
+          <Button type="primary" htmlType="submit" loading={isSaving}>
+            Record Payment
+          </Button>
+        </Form.Item>
+      </Form>
+
+      <Space wrap className="mb-4">
+        <Select value={period} onChange={setPeriod} style={{ width: 140 }}>
+          <Option value={StatementPeriod.WEEKLY}>Weekly</Option>
+          <Option value={StatementPeriod.FORTNIGHTLY}>Fortnightly</Option>
+        </Select>
+        <DatePicker
+          value={endDate}
+          onChange={(val) => setEndDate(val || dayjs())}
+          allowClear={false}
+          format="DD MMM YYYY"
+        />
+        {statement && (
+          <span className="text-gray-500">
+            {dayjs(statement.startDate).format('DD MMM')} – {dayjs(statement.endDate).format('DD MMM YYYY')}
+          </span>
+        )}
+      </Space>
+
+      {statement && (
+        <Row gutter={16} className="mb-4">
+          <Col span={6}><Statistic title="Opening" value={formatCurrency(statement.openingBalance)} /></Col>
+          <Col span={6}><Statistic title="Purchases" value={formatCurrency(statement.totalPurchases)} /></Col>
+          <Col span={6}><Statistic title="Paid" value={formatCurrency(statement.totalPaid)} /></Col>
+          <Col span={6}><Statistic title="Closing" value={formatCurrency(statement.closingBalance)} /></Col>
+        </Row>
+      )}
+
+      <Table
+        dataSource={statement?.entries || []}
+        columns={columns}
+        rowKey={(record) => record.paymentId || `${record.date}-${record.description}-${record.balance}`}
+        loading={isLoading}
+        pagination={false}
+        size="small"
+      />
+    </Modal>
+  );
+};
+
+export default SupplierLedgerModal;
@@ -0,0 +1,127 @@
+/**
+ * Auth Context
+ *
+ * Provides the logged-in user, login/logout actions and role checks
+ * to all components.
+ */
+
+import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
+import { AuthUser, UserRole } from '../types';
+import { authApi, authToken, isNetworkError, setUnauthorizedHandler } from '../services/api';
+
+/** Service worker cache of the daily log's API reads (see vite.config.ts) */
+const OFFLINE_API_CACHE = 'api-daily-log';
+
+/**
+ * Auth context value type
+ */
+interface AuthContextValue {
+  user: AuthUser | null;
+  isLoading: boolean;
+  login: (username: string, password: string) => Promise<void>;
+  logout: () => void;
+  hasRole: (...roles: UserRole[]) => boolean;
+}
+
+/**
+ * Create context with default value
+ */
+const AuthContext = createContext<AuthContextValue | undefined>(undefined);
+
+/**
+ * Auth Provider Props
+ */
+interface AuthProviderProps {
+  children: ReactNode;
+}
+
+/**
+ * Auth Provider Component
+ */
+export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
+  const [user, setUser] = useState<AuthUser | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  /**
+   * Log out and drop the stored token and the cached API data
+   */
+  const logout = useCallback(() => {
+    authToken.clear();
+    setUser(null);
+    if ('caches' in window) {
+      caches.delete(OFFLINE_API_CACHE)
+        .catch((err) => console.error('Failed to clear offline data:', err));
+    }
+  }, []);
+
+  /**
+   * Restore the session from a stored token on mount
+   */
+  useEffect(() => {
+    setUnauthorizedHandler(logout);
+
+    const restoreSession = async () => {
+      if (!authToken.get()) {
+        setIsLoading(false);
+        return;
+      }
+      try {
+        setUser(await authApi.me());
+      } catch (err) {
+        console.error('Failed to restore session:', err);
+        // Offline is not logged out; keep the token for when the server is back
+        if (!isNetworkError(err)) authToken.clear();
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    restoreSession();
+    return () => setUnauthorizedHandler(null);
+  }, [logout]);
+
+  /**
+   * Log in and store the token
+   */
+  const login = async (username: string, password: string): Promise<void> => {
+    const result = await authApi.login(username, password);
+    authToken.set(result.token);
+    setUser(result.user);
+  };
+
+  /**
+   * Check whether the logged-in user has one of the given roles
+   */
+  const hasRole = (...roles: UserRole[]): boolean => {
+    return !!user && roles.includes(user.role);
+  };
+
+  const value: AuthContextValue = {
+    user,
+    isLoading,
+    login,
+    logout,
+    hasRole,
+  };
+
+  return (
+    <AuthContext.Provider value={value}>
+      {children}
+    </AuthContext.Provider>
+  );
+};
+
+/**
+ * Custom hook to use auth context
+ */
+export const useAuth = (): AuthContextValue => {
+  const context = useContext(AuthContext);
+
+  if (context === undefined) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+
+  return context;
+};
+
+export default AuthContext;
@@ -0,0 +1,204 @@
+/**
+ * Offline Sync Context
+ *
+ * Tracks whether the app is online, holds the daily log updates queued
+ * while it was not, and sends them once the connection is back. Queued
+ * edits that clash with newer changes on the server are kept as conflicts
+ * for the user to resolve.
+ */
+
+import React, { createContext, useContext, useState, useEffect, useCallback, useRef, ReactNode } from 'react';
+import { message } from 'antd';
+import {
+  DeliveryConflict,
+  DeliverySyncConflict,
+  QueuedDeliveryUpdate,
+} from '../types';
+import { deliveryApi, errorStatus, isNetworkError } from '../services/api';
+import { offlineStore } from '../services/offlineStore';
+import { useAuth } from './AuthContext';
+
+/**
+ * Statuses the server refuses an update with for good (invalid, not
+ * allowed, invoiced month); sending it again would be refused the same way
+ */
+const REFUSED_STATUSES = [400, 403, 409, 423];
+
+/**
+ * Offline sync context value type
+ */
+interface OfflineSyncContextValue {
+  isOnline: boolean;
+  isSyncing: boolean;
+  /** Updates waiting to be sent */
+  pendingCount: number;
+  conflicts: DeliverySyncConflict[];
+  /** Bumped whenever queued updates reach the server, to reload stale data */
+  syncedAt: number;
+  queueUpdate: (update: Omit<QueuedDeliveryUpdate, 'id' | 'queuedAt'>) => Promise<void>;
+  reportConflicts: (update: QueuedDeliveryUpdate, conflicts: DeliveryConflict[]) => void;
+  /** Keep the server's values, or save mine over them */
+  resolveConflict: (conflict: DeliverySyncConflict, keep: 'server' | 'mine') => Promise<void>;
+  syncNow: () => Promise<void>;
+}
+
+/**
+ * Create context with default value
+ */
+const OfflineSyncContext = createContext<OfflineSyncContextValue | undefined>(undefined);
+
+/**
+ * Offline Sync Provider Props
+ */
+interface OfflineSyncProviderProps {
+  children: ReactNode;
+}
+
+/**
+ * Offline Sync Provider Component
+ */
+export const OfflineSyncProvider: React.FC<OfflineSyncProviderProps> = ({ children }) => {
+  const { user } = useAuth();
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [pendingCount, setPendingCount] = useState(0);
+  const [conflicts, setConflicts] = useState<DeliverySyncConflict[]>([]);
+  const [syncedAt, setSyncedAt] = useState(0);
+  const syncing = useRef(false);
+  const userId = user?.id;
+
+  const refreshPending = useCallback(async () => {
+    setPendingCount(userId ? (await offlineStore.getQueue(userId)).length : 0);
+  }, [userId]);
+
+  const reportConflicts = useCallback((update: QueuedDeliveryUpdate, found: DeliveryConflict[]) => {
+    if (found.length === 0) return;
+    setConflicts((prev) => [...prev, { update, conflicts: found }]);
+  }, []);
+
+  /**
+   * Send the queued updates, oldest first. Updates the server refuses are
+   * dropped; anything else (offline, logged out, server error) stops the
+   * sync and keeps the rest queued for the next one.
+   */
+  const syncNow = useCallback(async () => {
+    if (!userId || syncing.current) return;
+    syncing.current = true;
+    setIsSyncing(true);
+    let sent = 0;
+    try {
+      for (const update of await offlineStore.getQueue(userId)) {
+        try {
+          const result = await deliveryApi.bulkUpdate(
+            update.date,
+            update.shift,
+            update.entries,
+            update.routeId,
+            update.productId
+          );
+          reportConflicts(update, result.conflicts);
+          sent++;
+        } catch (error) {
+          const status = errorStatus(error);
+          if (status === undefined || !REFUSED_STATUSES.includes(status)) break;
+          console.error('Failed to sync queued deliveries:', error);
+          message.error(`Deliveries for ${update.date} could not be saved: ${error instanceof Error ? error.message : 'unknown error'}`);
+        }
+        await offlineStore.dequeue(update.id as number);
+      }
+    } finally {
+      syncing.current = false;
+      setIsSyncing(false);
+      await refreshPending();
+    }
+    if (sent > 0) {
+      message.success(`Synced ${sent} offline ${sent === 1 ? 'update' : 'updates'}`);
+      setSyncedAt(Date.now());
+    }
+  }, [userId, refreshPending, reportConflicts]);
+
+  const queueUpdate = useCallback(async (update: Omit<QueuedDeliveryUpdate, 'id' | 'queuedAt'>) => {
+    await offlineStore.enqueue(update);
+    await refreshPending();
+  }, [refreshPending]);
+
+  const resolveConflict = useCallback(async (conflict: DeliverySyncConflict, keep: 'server' | 'mine') => {
+    if (keep === 'mine') {
+      const ids = new Set(conflict.conflicts.map((c) => c.customerId));
+      // Without the loaded `updatedAt` the server saves the entries unchecked
+      const entries = conflict.update.entries
+        .filter((e) => ids.has(e.customerId))
+        .map((e) => ({ ...e, updatedAt: undefined }));
+      const { userId: owner, date, shift, routeId, productId } = conflict.update;
+      try {
+        await deliveryApi.bulkUpdate(date, shift, entries, routeId, productId);
+        setSyncedAt(Date.now());
+      } catch (error) {
+        if (!isNetworkError(error)) throw error;
+        await queueUpdate({ userId: owner, date, shift, routeId, productId, entries });
+      }
+    }
+    setConflicts((prev) => prev.filter((c) => c !== conflict));
+  }, [queueUpdate]);
+
+  /**
+   * Follow the connection, syncing whenever it comes back
+   */
+  useEffect(() => {
+    // Another user's updates and conflicts are not shown; theirs stay queued
+    setConflicts([]);
+    if (!userId) {
+      setPendingCount(0);
+      return;
+    }
+
+    const goOnline = () => {
+      setIsOnline(true);
+      syncNow();
+    };
+    const goOffline = () => setIsOnline(false);
+
+    window.addEventListener('online', goOnline);
+    window.addEventListener('offline', goOffline);
+    if (navigator.onLine) syncNow();
+    else refreshPending();
+
+    return () => {
+      window.removeEventListener('online', goOnline);
+      window.removeEventListener('offline', goOffline);
+    };
+  }, [userId, syncNow, refreshPending]);
+
+  const value: OfflineSyncContextValue = {
+    isOnline,
+    isSyncing,
+    pendingCount,
+    conflicts,
+    syncedAt,
+    queueUpdate,
+    reportConflicts,
+    resolveConflict,
+    syncNow,
+  };
+
+  return (
+    <OfflineSyncContext.Provider value={value}>
+      {children}
+    </OfflineSyncContext.Provider>
+  );
+};
+
+/**
+ * Custom hook to use offline sync context
+ */
+export const useOfflineSync = (): OfflineSyncContextValue => {
+  const context = useContext(OfflineSyncContext);
+
+  if (context === undefined) {
+    throw new Error('useOfflineSync must be used within an OfflineSyncProvider');
+  }
+
+  return context;
+};
+
+export default OfflineSyncContext;
@@ -8,6 +8,7 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import { Settings } from '../types';
 import { settingsApi } from '../services/api';
+import { useAuth } from './AuthContext';
 
 /**
  * Default settings
@@ -20,7 +21,9 @@ const DEFAULT_SETTINGS: Settings = {
   currency: 'USD',
   currencySymbol: '$',
   maxCapacity: 2000,
-  paymentTermsDays: 5,
+  paymentTerms: 5,
+  invoicePrefix: 'INV-',
+  receiptPrefix: 'RCT-',
 };
 
 /**
@@ -51,14 +54,18 @@ interface SettingsProviderProps {
  * Settings Provider Component
  */
 export const SettingsProvider: React.FC<SettingsProviderProps> = ({ children }) => {
+  const { user } = useAuth();
   const [settings, setSettings] = useState<Settings>(DEFAULT_SETTINGS);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const userId = user?.id;
 
   /**
-   * Load settings on mount
+   * Load settings once a user is logged in
    */
   useEffect(() => {
+    if (!userId) return;
+
     const loadSettings = async () => {
       try {
         setIsLoading(true);
@@ -76,7 +83,7 @@ export const SettingsProvider: React.FC<SettingsProviderProps> = ({ children })
     };
 
     loadSettings();
-  }, []);
+  }, [userId]);
 
   /**
    * Update settings
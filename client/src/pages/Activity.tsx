@@ -0,0 +1,105 @@
+/**
+ * Activity Page
+ *
+ * Browse the audit log: every record created, changed or deleted, who did
+ * it and when, for a day and optionally one customer or kind of record.
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { Card, DatePicker, Select, Space, message } from 'antd';
+import dayjs from 'dayjs';
+import { auditApi, customerApi } from '../services/api';
+import { AuditLogEntry, Customer } from '../types';
+import AuditLogTable from '../components/AuditLogTable';
+
+/** Kinds of record offered as a filter */
+const ENTITY_OPTIONS = [
+  { value: 'Delivery', label: 'Deliveries' },
+  { value: 'Customer', label: 'Customers' },
+  { value: 'Payment', label: 'Payments' },
+  { value: 'Invoice', label: 'Invoices' },
+  { value: 'Stock', label: 'Stock collections' },
+  { value: 'StockMovement', label: 'Stock movements' },
+  { value: 'Product', label: 'Products' },
+  { value: 'Source', label: 'Sources' },
+  { value: 'SupplierPayment', label: 'Supplier payments' },
+  { value: 'DeliveryRoute', label: 'Routes' },
+  { value: 'Settings', label: 'Settings' },
+  { value: 'User', label: 'Users' },
+];
+
+const Activity: React.FC = () => {
+  const [day, setDay] = useState(dayjs());
+  const [customerId, setCustomerId] = useState<string | undefined>();
+  const [entity, setEntity] = useState<string | undefined>();
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    customerApi.getAll().then(setCustomers).catch(() => message.error('Failed to load customers'));
+  }, []);
+
+  const fetchEntries = useCallback(async () => {
+    setLoading(true);
+    try {
+      setEntries(await auditApi.getAll({
+        customerId,
+        entity,
+        from: day.startOf('day').toISOString(),
+        to: day.endOf('day').toISOString(),
+        limit: 1000,
+      }));
+    } catch (error) {
+      console.error('Failed to fetch activity', error);
+      message.error('Failed to load activity');
+    } finally {
+      setLoading(false);
+    }
+  }, [day, customerId, entity]);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [fetchEntries]);
+
+  return (
+    <div className="p-6">
+      <div className="mb-6 flex flex-wrap items-center justify-between gap-4">
+        <h1 className="text-2xl font-bold text-gray-800">Activity</h1>
+        <Space wrap>
+          <DatePicker
+            value={day}
+            onChange={(value) => value && setDay(value)}
+            format="DD MMM YYYY"
+            allowClear={false}
+            disabledDate={(current) => current.isAfter(dayjs(), 'day')}
+          />
+          <Select
+            value={customerId}
+            onChange={setCustomerId}
+            placeholder="All customers"
+            allowClear
+            showSearch
+            optionFilterProp="label"
+            style={{ width: 200 }}
+            options={customers.map((c) => ({ value: c.id, label: c.name }))}
+          />
+          <Select
+            value={entity}
+            onChange={setEntity}
+            placeholder="All records"
+            allowClear
+            style={{ width: 180 }}
+            options={ENTITY_OPTIONS}
+          />
+        </Space>
+      </div>
+
+      <Card>
+        <AuditLogTable entries={entries} loading={loading} showCustomer emptyText="No changes on this day" />
+      </Card>
+    </div>
+  );
+};
+
+export default Activity;
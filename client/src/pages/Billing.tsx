@@ -1,34 +1,75 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { 
     Button, 
     Card, 
     Table, 
+    TableProps,
     Modal, 
     Select, 
     Space, 
     Typography, 
     message,
     Tag,
-    Input
+    Input,
+    InputNumber,
+    Popconfirm,
+    Radio,
+    Tabs
 } from 'antd';
 import { 
     PrinterOutlined, 
+    FilePdfOutlined,
     EyeOutlined,
     SearchOutlined,
     DollarOutlined,
     CheckCircleOutlined,
     ClockCircleOutlined,
-    ExclamationCircleOutlined
+    ExclamationCircleOutlined,
+    FileAddOutlined,
+    SendOutlined,
+    StopOutlined,
+    DeleteOutlined,
+    MessageOutlined
 } from '@ant-design/icons';
 import { useSettings } from '../contexts/SettingsContext';
-import { billingApi } from '../services/api';
-import { CustomerBillingSummary, CustomerInvoice, CreatePaymentDTO } from '../types';
-import { getMonthName } from '@/utils/helpers';
+import PaymentHistory from '../components/PaymentHistory';
+import ReceivablesAging from '../components/ReceivablesAging';
+import SendMessagesModal from '../components/SendMessagesModal';
+import ExportButton from '../components/ExportButton';
+import { billingApi, invoiceApi } from '../services/api';
+import {
+    CustomerBillingSummary,
+    CustomerInvoice,
+    CreatePaymentDTO,
+    PeriodBalance,
+    InvoiceNoteFormData,
+    InvoiceStatus,
+    InvoiceSummary,
+    InvoiceType,
+    PaginationParams,
+} from '../types';
+import { getMonthName, tablePageParams } from '@/utils/helpers';
 import dayjs from 'dayjs';
 
 const { Title, Text } = Typography;
 const { Option } = Select;
 
+/** ID of the built-in milk product */
+const DEFAULT_PRODUCT_ID = 'milk';
+
+/** Bills per page */
+const PAGE_SIZE = 20;
+
+/** How long typing pauses before the search is sent */
+const SEARCH_DELAY_MS = 300;
+
+const INVOICE_STATUS_COLORS: Record<InvoiceStatus, string> = {
+  [InvoiceStatus.DRAFT]: 'default',
+  [InvoiceStatus.ISSUED]: 'processing',
+  [InvoiceStatus.PAID]: 'success',
+  [InvoiceStatus.VOID]: 'error',
+};
+
 interface InvoiceModalProps {
   isOpen: boolean;
   onClose: () => void;
@@ -49,6 +90,29 @@ const InvoiceModal: React.FC<InvoiceModalProps> = ({
   formatCurrency,
 }) => {
   const printRef = useRef<HTMLDivElement>(null);
+  const [isDownloading, setIsDownloading] = useState(false);
+  // Products other than milk are listed as separate line items
+  const otherItems = (invoice?.lineItems || []).filter((item) => item.productId !== DEFAULT_PRODUCT_ID);
+
+  const handleDownloadPdf = async () => {
+    if (!invoice) return;
+
+    try {
+      setIsDownloading(true);
+      const blob = await billingApi.getInvoicePdf(invoice.customer.id, year, month);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `invoice-${invoice.customer.name.replace(/[^a-z0-9]+/gi, '-').toLowerCase()}-${year}-${String(month).padStart(2, '0')}.pdf`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Failed to download invoice PDF:', error);
+      message.error('Failed to download invoice PDF');
+    } finally {
+      setIsDownloading(false);
+    }
+  };
 
   const handlePrint = () => {
     if (printRef.current) {
@@ -112,6 +176,7 @@ const InvoiceModal: React.FC<InvoiceModalProps> = ({
               <div class="header">
                 <div class="company-info">
                   <h1 class="title">INVOICE</h1>
+                  ${invoice?.invoiceNumber ? `<p><strong>No. ${invoice.invoiceNumber}</strong></p>` : ''}
                   <p><strong>${businessName}</strong></p>
                   <p>${businessAddress}</p>
                   <p>Phone: ${businessPhone}</p>
@@ -126,6 +191,12 @@ const InvoiceModal: React.FC<InvoiceModalProps> = ({
 
               <div class="section-title">Summary</div>
               <table class="summary-table">
+                ${otherItems.map(item => `
+                <tr>
+                  <td class="label">${item.productName} (${item.quantity.toFixed(1)} ${item.unit})</td>
+                  <td class="value">${currencySymbol}${item.amount.toFixed(2)}</td>
+                </tr>
+                `).join('')}
                 <tr>
                   <td class="label">Current Month Bill</td>
                   <td class="value">${currencySymbol}${invoice?.totalAmount.toFixed(2)}</td>
@@ -155,6 +226,7 @@ const InvoiceModal: React.FC<InvoiceModalProps> = ({
                     <th>Morning (L)</th>
                     <th>Evening (L)</th>
                     <th style="text-align: right">Total (L)</th>
+                    <th style="text-align: right">Amount</th>
                   </tr>
                 </thead>
                 <tbody>
@@ -164,6 +236,7 @@ const InvoiceModal: React.FC<InvoiceModalProps> = ({
                       <td>${day.morning > 0 ? day.morning : '-'}</td>
                       <td>${day.evening > 0 ? day.evening : '-'}</td>
                       <td class="breakdown-total" style="text-align: right">${(day.morning + day.evening).toFixed(1)}</td>
+                      <td style="text-align: right">${currencySymbol}${day.amount.toFixed(2)}</td>
                     </tr>
                   `).join('')}
                 </tbody>
@@ -174,7 +247,7 @@ const InvoiceModal: React.FC<InvoiceModalProps> = ({
               </div>
 
               <div class="footer">
-                Thank you for your business! Please pay within ${settings?.paymentTermsDays || 5} days.
+                Thank you for your business! Please pay within ${settings?.paymentTerms || 5} days.
                 <br>Generated on ${dayjs().format('DD/MM/YYYY HH:mm')}
               </div>
             </body>
@@ -192,6 +265,13 @@ const InvoiceModal: React.FC<InvoiceModalProps> = ({
   if (!invoice) return null;
 
   const periodLabel = `${getMonthName(month)} ${year}`;
+  // A mid-month price change bills each day at the rate in effect on that date
+  const rates = Array.from(new Set(invoice.dailyBreakdown.map((day) => day.pricePerLiter)));
+  const rateLabel = rates.length > 1
+    ? rates.map((rate) => formatCurrency(rate)).join(' / ')
+    : formatCurrency(rates[0] ?? invoice.customer.pricePerLiter);
+  const milkAmount = (invoice.lineItems || [])
+    .find((item) => item.productId === DEFAULT_PRODUCT_ID)?.amount ?? invoice.totalAmount;
 
   return (
     <Modal 
@@ -201,6 +281,7 @@ const InvoiceModal: React.FC<InvoiceModalProps> = ({
         title="Invoice Preview"
         footer={[
             <Button key="close" onClick={onClose}>Close</Button>,
+            <Button key="pdf" icon={<FilePdfOutlined />} onClick={handleDownloadPdf} loading={isDownloading}>Download PDF</Button>,
             <Button key="print" type="primary" icon={<PrinterOutlined />} onClick={handlePrint}>Print Invoice</Button>
         ]}
     >
@@ -208,6 +289,9 @@ const InvoiceModal: React.FC<InvoiceModalProps> = ({
         <div className="flex justify-between items-start">
           <div>
             <h1 className="text-3xl font-bold text-blue-600 m-0">INVOICE</h1>
+            {invoice.invoiceNumber && (
+              <p className="m-0 font-semibold text-gray-700">No. {invoice.invoiceNumber}</p>
+            )}
             <div className="mt-2 text-sm text-gray-500">
               <p className="m-0 font-bold">{settings?.businessName || 'MilkyWay Dairy Services'}</p>
               <p className="m-0">{settings?.businessAddress || '123 Farm Lane, Countryside'}</p>
@@ -230,9 +314,17 @@ const InvoiceModal: React.FC<InvoiceModalProps> = ({
             <div className="flex justify-between py-2 border-b border-gray-50">
               <span className="text-gray-500">Current Month Usage</span>
               <span className="font-semibold text-gray-900">
-                {invoice.totalLiters.toFixed(1)} L × {formatCurrency(invoice.customer.pricePerLiter)} = {formatCurrency(invoice.totalAmount)}
+                {invoice.totalLiters.toFixed(1)} L × {rateLabel} = {formatCurrency(otherItems.length > 0 ? milkAmount : invoice.totalAmount)}
               </span>
             </div>
+            {otherItems.map((item) => (
+              <div key={item.productId} className="flex justify-between py-2 border-b border-gray-50">
+                <span className="text-gray-500">{item.productName}</span>
+                <span className="font-semibold text-gray-900">
+                  {item.quantity.toFixed(1)} {item.unit} = {formatCurrency(item.amount)}
+                </span>
+              </div>
+            ))}
             <div className="flex justify-between py-2 border-b border-gray-50">
               <span className="text-gray-500">Previous Balance (Arrears)</span>
               <span className={`font-semibold ${(invoice as any).previousBalance > 0 ? 'text-red-500' : 'text-green-500'}`}>
@@ -268,6 +360,7 @@ const InvoiceModal: React.FC<InvoiceModalProps> = ({
                   <th className="pb-3 font-medium">Morning</th>
                   <th className="pb-3 font-medium">Evening</th>
                   <th className="pb-3 font-medium text-right">Total</th>
+                  <th className="pb-3 font-medium text-right">Amount</th>
                 </tr>
               </thead>
               <tbody className="divide-y divide-gray-50">
@@ -279,6 +372,9 @@ const InvoiceModal: React.FC<InvoiceModalProps> = ({
                     <td className="py-3 text-right font-semibold text-gray-900">
                       {(day.morning + day.evening).toFixed(1)} L
                     </td>
+                    <td className="py-3 text-right text-gray-500">
+                      {formatCurrency(day.amount)}
+                    </td>
                   </tr>
                 ))}
               </tbody>
@@ -288,7 +384,7 @@ const InvoiceModal: React.FC<InvoiceModalProps> = ({
 
         <div className="mt-12 border-t border-gray-100 pt-8 text-center">
             <p className="text-gray-400 text-sm">Thank you for your business!</p>
-            <p className="text-xs text-gray-300 mt-1 italic">Please pay within {settings?.paymentTermsDays || 5} days.</p>
+            <p className="text-xs text-gray-300 mt-1 italic">Please pay within {settings?.paymentTerms || 5} days.</p>
         </div>
       </div>
     </Modal>
@@ -305,33 +401,59 @@ interface PaymentModalProps {
 const PaymentModal: React.FC<PaymentModalProps> = ({ isOpen, onClose, summary, onSuccess }) => {
     const [amount, setAmount] = useState<number>(0);
     const [remarks, setRemarks] = useState('');
+    const [method, setMethod] = useState<string | undefined>();
     const [isSaving, setIsSaving] = useState(false);
+    const [isManual, setIsManual] = useState(false);
+    const [balances, setBalances] = useState<PeriodBalance[]>([]);
+    const [manualAmounts, setManualAmounts] = useState<Record<string, number>>({});
 
     useEffect(() => {
         if (summary) {
-            setAmount(summary.totalDue);
+            setAmount(Math.max(0, summary.totalDue));
+            setIsManual(false);
+            setManualAmounts({});
         }
     }, [summary]);
 
+    useEffect(() => {
+        if (!summary || !isManual) return;
+        billingApi.getPeriodBalances(summary.customerId)
+            .then((data) => setBalances(data.filter((b) => b.outstanding > 0)))
+            .catch(() => message.error('Failed to load outstanding months'));
+    }, [summary, isManual]);
+
+    const periodKey = (b: { month: number; year: number }) => `${b.year}-${b.month}`;
+    const manualTotal = Object.values(manualAmounts).reduce((acc, val) => acc + (val || 0), 0);
+
     const handleSave = async () => {
         if (!summary) return;
+        if (isManual && manualTotal > amount) {
+            message.error('Allocations exceed the payment amount');
+            return;
+        }
         try {
             setIsSaving(true);
             const paymentData: CreatePaymentDTO = {
                 customerId: summary.customerId,
                 amount,
                 date: dayjs().format('YYYY-MM-DD'),
-                month: summary.month,
-                year: summary.year,
-                remarks
+                method,
+                remarks,
+                ...(isManual && {
+                    allocations: balances
+                        .filter((b) => manualAmounts[periodKey(b)] > 0)
+                        .map((b) => ({ month: b.month, year: b.year, amount: manualAmounts[periodKey(b)] })),
+                }),
             };
-            await billingApi.recordPayment(paymentData);
-            message.success('Payment recorded successfully');
+            const payment = await billingApi.recordPayment(paymentData);
+            message.success(payment.unallocated
+                ? `Receipt ${payment.receiptNumber} recorded; ${payment.unallocated.toFixed(2)} kept as credit`
+                : `Receipt ${payment.receiptNumber} recorded`);
             onSuccess();
             onClose();
         } catch (error) {
             console.error('Failed to record payment:', error);
-            message.error('Failed to record payment');
+            message.error(error instanceof Error ? error.message : 'Failed to record payment');
         } finally {
             setIsSaving(false);
         }
@@ -358,6 +480,9 @@ const PaymentModal: React.FC<PaymentModalProps> = ({ isOpen, onClose, summary, o
                         <span className="text-gray-400">Arrears: {summary.previousBalance.toFixed(2)}</span>
                         <span className="text-gray-400">Current Month: {summary.totalAmount.toFixed(2)}</span>
                     </div>
+                    {summary.credit > 0 && (
+                        <div className="text-xs mt-1 text-green-600">Credit carried forward: {summary.credit.toFixed(2)}</div>
+                    )}
                 </div>
                 
                 <div>
@@ -370,6 +495,60 @@ const PaymentModal: React.FC<PaymentModalProps> = ({ isOpen, onClose, summary, o
                         className="mt-1"
                     />
                 </div>
+
+                <div>
+                    <Text strong>Method</Text>
+                    <Select
+                        value={method}
+                        onChange={setMethod}
+                        allowClear
+                        placeholder="Cash, bank or UPI"
+                        className="mt-1"
+                        style={{ width: '100%' }}
+                    >
+                        <Option value="cash">Cash</Option>
+                        <Option value="bank">Bank</Option>
+                        <Option value="upi">UPI</Option>
+                    </Select>
+                </div>
+
+                <div>
+                    <Text strong>Allocate To</Text>
+                    <div className="mt-1">
+                        <Radio.Group
+                            value={isManual}
+                            onChange={e => setIsManual(e.target.value)}
+                            optionType="button"
+                            options={[
+                                { label: 'Oldest months first', value: false },
+                                { label: 'Choose months', value: true },
+                            ]}
+                        />
+                    </div>
+                    {isManual && (
+                        <div className="mt-3 space-y-2">
+                            {balances.length === 0 && <Text type="secondary">No outstanding months</Text>}
+                            {balances.map((b) => (
+                                <div key={periodKey(b)} className="flex items-center justify-between gap-2">
+                                    <span className="text-sm">
+                                        {getMonthName(b.month)} {b.year}
+                                        <span className="text-gray-400"> · owes {b.outstanding.toFixed(2)}</span>
+                                    </span>
+                                    <InputNumber
+                                        min={0}
+                                        max={b.outstanding}
+                                        value={manualAmounts[periodKey(b)]}
+                                        onChange={val => setManualAmounts({ ...manualAmounts, [periodKey(b)]: val ?? 0 })}
+                                        style={{ width: 140 }}
+                                    />
+                                </div>
+                            ))}
+                            <div className="text-xs text-gray-500">
+                                Allocated {manualTotal.toFixed(2)}; the remaining {Math.max(0, amount - manualTotal).toFixed(2)} settles the oldest months first and any excess is kept as credit.
+                            </div>
+                        </div>
+                    )}
+                </div>
                 
                 <div>
                     <Text strong>Remarks (Optional)</Text>
@@ -386,40 +565,140 @@ const PaymentModal: React.FC<PaymentModalProps> = ({ isOpen, onClose, summary, o
     );
 };
 
+interface InvoiceNoteModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    summary: CustomerBillingSummary | null;
+    onSuccess: () => void;
+}
+
+const InvoiceNoteModal: React.FC<InvoiceNoteModalProps> = ({ isOpen, onClose, summary, onSuccess }) => {
+    const [note, setNote] = useState<InvoiceNoteFormData>({ type: InvoiceType.CREDIT_NOTE, amount: 0, reason: '' });
+    const [isSaving, setIsSaving] = useState(false);
+
+    useEffect(() => {
+        if (isOpen) {
+            setNote({ type: InvoiceType.CREDIT_NOTE, amount: 0, reason: '' });
+        }
+    }, [isOpen]);
+
+    const handleSave = async () => {
+        if (!summary?.invoice) return;
+        if (note.amount <= 0 || !note.reason.trim()) {
+            message.error('Enter an amount and a reason');
+            return;
+        }
+        try {
+            setIsSaving(true);
+            await invoiceApi.createNote(summary.invoice.id, { ...note, reason: note.reason.trim() });
+            message.success(`${note.type === InvoiceType.CREDIT_NOTE ? 'Credit' : 'Debit'} note issued`);
+            onSuccess();
+            onClose();
+        } catch (error) {
+            message.error(error instanceof Error ? error.message : 'Failed to issue note');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    if (!summary?.invoice) return null;
+
+    return (
+        <Modal
+            title={`Credit / Debit Note - ${summary.invoice.number}`}
+            open={isOpen}
+            onCancel={onClose}
+            onOk={handleSave}
+            confirmLoading={isSaving}
+            okText="Issue Note"
+        >
+            <div className="space-y-4 py-4">
+                <Radio.Group
+                    value={note.type}
+                    onChange={e => setNote({ ...note, type: e.target.value })}
+                    optionType="button"
+                    options={[
+                        { label: 'Credit (reduce due)', value: InvoiceType.CREDIT_NOTE },
+                        { label: 'Debit (add charge)', value: InvoiceType.DEBIT_NOTE },
+                    ]}
+                />
+                <div>
+                    <Text strong>Amount</Text>
+                    <InputNumber
+                        min={0}
+                        value={note.amount}
+                        onChange={val => setNote({ ...note, amount: val ?? 0 })}
+                        className="mt-1"
+                        style={{ width: '100%' }}
+                    />
+                </div>
+                <div>
+                    <Text strong>Reason</Text>
+                    <Input.TextArea
+                        rows={2}
+                        value={note.reason}
+                        onChange={e => setNote({ ...note, reason: e.target.value })}
+                        placeholder="e.g. 2 L short-delivered on the 12th"
+                        className="mt-1"
+                    />
+                </div>
+            </div>
+        </Modal>
+    );
+};
+
 const Billing: React.FC = () => {
   const { settings, formatCurrency } = useSettings();
   const currentDate = dayjs();
   const [month, setMonth] = useState(currentDate.month() + 1);
   const [year, setYear] = useState(currentDate.year());
   const [summaries, setSummaries] = useState<CustomerBillingSummary[]>([]);
+  const [total, setTotal] = useState(0);
+  const [pageParams, setPageParams] = useState<PaginationParams>({ page: 1, limit: PAGE_SIZE });
   const [searchText, setSearchText] = useState('');
+  const [search, setSearch] = useState('');
   const [isLoading, setIsLoading] = useState(true);
 
-  const filteredSummaries = summaries.filter(s => 
-    s.customerName.toLowerCase().includes(searchText.toLowerCase())
-  );
-
   const [selectedInvoice, setSelectedInvoice] = useState<CustomerInvoice | null>(null);
   const [selectedForPayment, setSelectedForPayment] = useState<CustomerBillingSummary | null>(null);
   const [isPaymentModalOpen, setIsPaymentModalOpen] = useState(false);
+  const [isMessagesOpen, setIsMessagesOpen] = useState(false);
   const [isLoadingInvoice, setIsLoadingInvoice] = useState(false);
+  const [selectedForNote, setSelectedForNote] = useState<CustomerBillingSummary | null>(null);
 
-  const fetchBilling = async () => {
+  const fetchBilling = useCallback(async () => {
     try {
       setIsLoading(true);
-      const data = await billingApi.getMonthly(year, month);
-      setSummaries(data);
+      const result = await billingApi.getMonthlyPage(year, month, {
+        ...pageParams,
+        search: search || undefined,
+      });
+      setSummaries(result.items);
+      setTotal(result.total);
     } catch (error) {
       console.error('Failed to fetch billing:', error);
       message.error('Failed to load billing data');
     } finally {
       setIsLoading(false);
     }
-  };
+  }, [year, month, pageParams, search]);
 
   useEffect(() => {
     fetchBilling();
-  }, [month, year]);
+  }, [fetchBilling]);
+
+  // Search once typing pauses, from the first page
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setSearch(searchText.trim());
+      setPageParams((prev) => (prev.page === 1 ? prev : { ...prev, page: 1 }));
+    }, SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [searchText]);
+
+  const handleTableChange: TableProps<CustomerBillingSummary>['onChange'] = (pagination, _filters, sorter) => {
+    setPageParams(tablePageParams(pagination, sorter));
+  };
 
   const handleViewBill = async (customerId: string) => {
     try {
@@ -434,6 +713,82 @@ const Billing: React.FC = () => {
     }
   };
 
+  /**
+   * Run an invoice lifecycle action and refresh the table
+   */
+  const runInvoiceAction = async (action: () => Promise<unknown>, successMessage: string) => {
+    try {
+      await action();
+      message.success(successMessage);
+      fetchBilling();
+    } catch (error) {
+      message.error(error instanceof Error ? error.message : 'Invoice action failed');
+    }
+  };
+
+  const renderInvoiceActions = (record: CustomerBillingSummary) => {
+    const invoice: InvoiceSummary | null | undefined = record.invoice;
+
+    if (!invoice || invoice.status === InvoiceStatus.VOID) {
+      return (
+        <Button
+          size="small"
+          icon={<FileAddOutlined />}
+          onClick={() => runInvoiceAction(
+            () => invoiceApi.create(record.customerId, month, year),
+            'Draft invoice created'
+          )}
+        >
+          Draft
+        </Button>
+      );
+    }
+
+    if (invoice.status === InvoiceStatus.DRAFT) {
+      return (
+        <Space size={4}>
+          <Popconfirm
+            title="Issue this invoice? Deliveries for the month will be locked."
+            onConfirm={() => runInvoiceAction(() => invoiceApi.issue(invoice.id), 'Invoice issued')}
+          >
+            <Button size="small" type="primary" icon={<SendOutlined />}>Issue</Button>
+          </Popconfirm>
+          <Popconfirm
+            title="Delete this draft?"
+            onConfirm={() => runInvoiceAction(() => invoiceApi.delete(invoice.id), 'Draft deleted')}
+          >
+            <Button size="small" type="text" danger icon={<DeleteOutlined />} />
+          </Popconfirm>
+        </Space>
+      );
+    }
+
+    const isPaid = invoice.status === InvoiceStatus.PAID;
+    return (
+      <Space size={4}>
+        <Button
+          size="small"
+          onClick={() => runInvoiceAction(
+            () => invoiceApi.updateStatus(invoice.id, isPaid ? InvoiceStatus.ISSUED : InvoiceStatus.PAID),
+            isPaid ? 'Invoice marked unpaid' : 'Invoice marked paid'
+          )}
+        >
+          {isPaid ? 'Unpaid' : 'Paid'}
+        </Button>
+        <Button size="small" onClick={() => setSelectedForNote(record)}>Note</Button>
+        <Popconfirm
+          title="Void this invoice and its notes? Deliveries for the month will be unlocked."
+          onConfirm={() => runInvoiceAction(
+            () => invoiceApi.updateStatus(invoice.id, InvoiceStatus.VOID),
+            'Invoice voided'
+          )}
+        >
+          <Button size="small" type="text" danger icon={<StopOutlined />} />
+        </Popconfirm>
+      </Space>
+    );
+  };
+
   const months = [
     'January', 'February', 'March', 'April', 'May', 'June',
     'July', 'August', 'September', 'October', 'November', 'December',
@@ -446,7 +801,8 @@ const Billing: React.FC = () => {
           title: 'Customer',
           dataIndex: 'customerName',
           key: 'customerName',
-          render: (text: string) => <Text strong>{text}</Text>
+          render: (text: string) => <Text strong>{text}</Text>,
+          sorter: true,
       },
       {
           title: 'Prev. Balance',
@@ -466,6 +822,15 @@ const Billing: React.FC = () => {
           align: 'right' as const,
           render: (val: number) => <Text>{formatCurrency(val)}</Text>
       },
+      {
+          title: 'Adjustments',
+          dataIndex: 'adjustments',
+          key: 'adjustments',
+          align: 'right' as const,
+          render: (val: number) => (
+              <Text type={val === 0 ? 'secondary' : undefined}>{formatCurrency(val || 0)}</Text>
+          )
+      },
       {
           title: 'Total Due',
           dataIndex: 'totalDue',
@@ -483,6 +848,23 @@ const Billing: React.FC = () => {
               return <Tag color="error" icon={<ExclamationCircleOutlined />}>UNPAID</Tag>;
           }
       },
+      {
+          title: 'Invoice',
+          key: 'invoice',
+          render: (_: any, record: CustomerBillingSummary) => (
+              <Space direction="vertical" size={2}>
+                  {record.invoice && record.invoice.status !== InvoiceStatus.VOID && (
+                      <Space size={4}>
+                          <Text>{record.invoice.number || 'Draft'}</Text>
+                          <Tag color={INVOICE_STATUS_COLORS[record.invoice.status]}>
+                              {record.invoice.status.toUpperCase()}
+                          </Tag>
+                      </Space>
+                  )}
+                  {renderInvoiceActions(record)}
+              </Space>
+          )
+      },
       {
           title: 'Actions',
           key: 'actions',
@@ -532,7 +914,10 @@ const Billing: React.FC = () => {
           />
           <Select
             value={month}
-            onChange={(val) => setMonth(val)}
+            onChange={(val) => {
+              setMonth(val);
+              setPageParams((prev) => ({ ...prev, page: 1 }));
+            }}
             style={{ width: 120 }}
           >
             {months.map((m, i) => (
@@ -543,7 +928,10 @@ const Billing: React.FC = () => {
           </Select>
           <Select
             value={year}
-            onChange={(val) => setYear(val)}
+            onChange={(val) => {
+              setYear(val);
+              setPageParams((prev) => ({ ...prev, page: 1 }));
+            }}
             style={{ width: 100 }}
           >
             {years.map((y) => (
@@ -552,17 +940,72 @@ const Billing: React.FC = () => {
               </Option>
             ))}
           </Select>
+          <Button icon={<MessageOutlined />} onClick={() => setIsMessagesOpen(true)} disabled={total === 0}>
+            Send Messages
+          </Button>
+          <ExportButton
+            fileName={`billing-${year}-${String(month).padStart(2, '0')}`}
+            onExport={(format) => billingApi.exportMonthly(year, month, format)}
+            disabled={total === 0}
+          />
         </Space>
       </div>
 
       <Card bodyStyle={{ padding: 0 }}>
-        <Table
-            dataSource={filteredSummaries}
-            columns={columns}
-            rowKey="customerId"
-            loading={isLoading}
-            pagination={false}
-            scroll={{ x: 'max-content' }}
+        <Tabs
+          className="px-4"
+          items={[
+            {
+              key: 'bills',
+              label: 'Monthly Bills',
+              children: (
+                <Table
+                    dataSource={summaries}
+                    columns={columns}
+                    rowKey="customerId"
+                    loading={isLoading}
+                    expandable={{
+                        rowExpandable: (record) => record.settlements.length > 0 || record.credit > 0,
+                        expandedRowRender: (record) => (
+                            <div className="space-y-1 pl-4">
+                                <Text type="secondary">Settled by</Text>
+                                {record.settlements.map((s) => (
+                                    <div key={s.paymentId} className="text-sm">
+                                        {dayjs(s.date).format('DD MMM YYYY')}: {formatCurrency(s.amount)}
+                                        {s.amount < s.paymentAmount && (
+                                            <span className="text-gray-400"> of a {formatCurrency(s.paymentAmount)} payment</span>
+                                        )}
+                                        {s.remarks && <span className="text-gray-400"> · {s.remarks}</span>}
+                                    </div>
+                                ))}
+                                {record.settlements.length === 0 && <div className="text-sm text-gray-400">No payments yet</div>}
+                                {record.credit > 0 && (
+                                    <div className="text-sm text-green-600">Credit carried forward: {formatCurrency(record.credit)}</div>
+                                )}
+                            </div>
+                        ),
+                    }}
+                    pagination={{
+                        current: pageParams.page,
+                        pageSize: pageParams.limit,
+                        total,
+                    }}
+                    onChange={handleTableChange}
+                    scroll={{ x: 'max-content' }}
+                />
+              ),
+            },
+            {
+              key: 'payments',
+              label: 'Payments',
+              children: <PaymentHistory onChange={fetchBilling} />,
+            },
+            {
+              key: 'aging',
+              label: 'Aging',
+              children: <ReceivablesAging />,
+            },
+          ]}
         />
       </Card>
 
@@ -585,6 +1028,20 @@ const Billing: React.FC = () => {
         summary={selectedForPayment}
         onSuccess={fetchBilling}
       />
+
+      <InvoiceNoteModal
+        isOpen={!!selectedForNote}
+        onClose={() => setSelectedForNote(null)}
+        summary={selectedForNote}
+        onSuccess={fetchBilling}
+      />
+
+      <SendMessagesModal
+        isOpen={isMessagesOpen}
+        onClose={() => setIsMessagesOpen(false)}
+        month={month}
+        year={year}
+      />
     </div>
   );
 };
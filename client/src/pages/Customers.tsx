@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { useSearchParams } from 'react-router-dom';
 import { 
     Button, 
@@ -17,7 +17,9 @@ import {
     message,
     Empty,
     Row,
-    Col
+    Col,
+    DatePicker,
+    Tag
 } from 'antd';
 import { 
     PlusOutlined, 
@@ -28,58 +30,115 @@ import {
     EnvironmentOutlined,
     DollarOutlined,
     HistoryOutlined,
+    ShareAltOutlined,
     SearchOutlined,
-    FilterOutlined
+    FilterOutlined,
+    PauseCircleOutlined,
+    CalendarOutlined,
+    ShoppingOutlined,
+    UploadOutlined,
+    DownloadOutlined
 } from '@ant-design/icons';
 import { useSettings } from '../contexts/SettingsContext';
 import { customerApi } from '../services/api';
-import { Customer, CustomerFormData, CustomerCategory } from '../types';
+import { Customer, CustomerFormData, CustomerCategory, CustomerPrice, PaginationParams } from '../types';
 import { stringToColor } from '@/utils/helpers';
+import dayjs from 'dayjs';
 import CustomerHistoryModal from '../components/CustomerHistoryModal';
+import CustomerPauseModal from '../components/CustomerPauseModal';
+import QuotaScheduleModal from '../components/QuotaScheduleModal';
+import CustomerProductsModal from '../components/CustomerProductsModal';
+import PortalLinkModal from '../components/PortalLinkModal';
+import CustomerImportModal from '../components/CustomerImportModal';
+import DeliveryExportModal from '../components/DeliveryExportModal';
 
 const { Title, Text } = Typography;
 const { Option } = Select;
 
+/** Cards per page; a multiple of every grid width */
+const PAGE_SIZE = 12;
+
+/** How long typing pauses before the search is sent */
+const SEARCH_DELAY_MS = 300;
+
+/** Sort choices, as `sortBy:sortOrder` */
+const SORT_OPTIONS = [
+  { value: 'name:asc', label: 'Name' },
+  { value: 'createdAt:desc', label: 'Newest first' },
+  { value: 'morningQuota:desc', label: 'Morning quota' },
+  { value: 'eveningQuota:desc', label: 'Evening quota' },
+  { value: 'pricePerLiter:desc', label: 'Price' },
+];
+
 const Customers: React.FC = () => {
   const [searchParams, setSearchParams] = useSearchParams();
   const { settings } = useSettings();
   const [customers, setCustomers] = useState<Customer[]>([]);
+  const [total, setTotal] = useState(0);
+  const [pageParams, setPageParams] = useState<PaginationParams>({
+    page: 1,
+    limit: PAGE_SIZE,
+    sortBy: 'name',
+    sortOrder: 'asc',
+  });
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingCustomer, setEditingCustomer] = useState<Customer | null>(null);
+  const [priceHistory, setPriceHistory] = useState<CustomerPrice[]>([]);
   
   const [searchText, setSearchText] = useState('');
+  const [search, setSearch] = useState('');
   const [categoryFilter, setCategoryFilter] = useState<CustomerCategory | 'ALL'>('ALL');
   
   const [historyCustomer, setHistoryCustomer] = useState<Customer | null>(null);
   const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+
+  const [pauseCustomer, setPauseCustomer] = useState<Customer | null>(null);
+  const [shareCustomer, setShareCustomer] = useState<Customer | null>(null);
+  const [productsCustomer, setProductsCustomer] = useState<Customer | null>(null);
+  const [isScheduleOpen, setIsScheduleOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
   
   const [form] = Form.useForm();
 
-  const fetchCustomers = async () => {
+  const fetchCustomers = useCallback(async () => {
     try {
       setIsLoading(true);
-      const data = await customerApi.getAll();
-      setCustomers(data.filter((c) => c.isActive));
+      const result = await customerApi.getPage({
+        ...pageParams,
+        active: true,
+        search: search || undefined,
+        category: categoryFilter === 'ALL' ? undefined : categoryFilter,
+      });
+      // Step back when the last customer on the last page was removed
+      if (result.items.length === 0 && result.page > 1) {
+        setPageParams((prev) => ({ ...prev, page: Math.max(1, result.totalPages) }));
+        return;
+      }
+      setCustomers(result.items);
+      setTotal(result.total);
     } catch (error) {
       console.error('Failed to fetch customers:', error);
       message.error('Failed to load customers');
     } finally {
       setIsLoading(false);
     }
-  };
-
-  const filteredCustomers = customers.filter(c => {
-    const matchesSearch = c.name.toLowerCase().includes(searchText.toLowerCase()) || 
-                         c.address.toLowerCase().includes(searchText.toLowerCase());
-    const matchesCategory = categoryFilter === 'ALL' || c.category === categoryFilter;
-    return matchesSearch && matchesCategory;
-  });
+  }, [pageParams, search, categoryFilter]);
 
   useEffect(() => {
     fetchCustomers();
-  }, []);
+  }, [fetchCustomers]);
+
+  // Search once typing pauses, from the first page
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setSearch(searchText.trim());
+      setPageParams((prev) => (prev.page === 1 ? prev : { ...prev, page: 1 }));
+    }, SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [searchText]);
 
   useEffect(() => {
     if (searchParams.get('action') === 'add') {
@@ -101,7 +160,7 @@ const Customers: React.FC = () => {
     setIsModalOpen(true);
   };
 
-  const handleOpenEdit = (customer: Customer) => {
+  const handleOpenEdit = async (customer: Customer) => {
     setEditingCustomer(customer);
     form.setFieldsValue({
         name: customer.name,
@@ -110,14 +169,21 @@ const Customers: React.FC = () => {
         category: customer.category,
         morningQuota: customer.morningQuota,
         eveningQuota: customer.eveningQuota,
-        pricePerLiter: customer.pricePerLiter
+        pricePerLiter: customer.pricePerLiter,
+        priceEffectiveFrom: dayjs()
     });
     setIsModalOpen(true);
+    try {
+      setPriceHistory(await customerApi.getPriceHistory(customer.id));
+    } catch (error) {
+      console.error('Failed to fetch price history:', error);
+    }
   };
 
   const handleCloseModal = () => {
     setIsModalOpen(false);
     setEditingCustomer(null);
+    setPriceHistory([]);
     form.resetFields();
   };
 
@@ -126,21 +192,25 @@ const Customers: React.FC = () => {
     setIsHistoryOpen(true);
   };
 
-  const handleSubmit = async (values: CustomerFormData) => {
+  const handleSubmit = async (values: Omit<CustomerFormData, 'priceEffectiveFrom'> & { priceEffectiveFrom?: dayjs.Dayjs }) => {
+    const { priceEffectiveFrom, ...customerValues } = values;
     try {
       setIsSaving(true);
       if (editingCustomer) {
-        await customerApi.update(editingCustomer.id, values);
+        await customerApi.update(editingCustomer.id, {
+          ...customerValues,
+          priceEffectiveFrom: priceEffectiveFrom?.format('YYYY-MM-DD'),
+        });
         message.success('Customer updated successfully');
       } else {
-        await customerApi.create(values);
+        await customerApi.create(customerValues);
         message.success('Customer added successfully');
       }
       handleCloseModal();
       await fetchCustomers();
     } catch (error) {
       console.error('Failed to save customer:', error);
-      message.error('Failed to save customer');
+      message.error(error instanceof Error ? error.message : 'Failed to save customer');
     } finally {
       setIsSaving(false);
     }
@@ -166,7 +236,7 @@ const Customers: React.FC = () => {
         </div>
         <div className="flex flex-col sm:flex-row sm:items-center gap-3 w-full sm:w-auto">
           <Input
-            placeholder="Search name or address..."
+            placeholder="Search name, address or phone..."
             prefix={<SearchOutlined />}
             value={searchText}
             onChange={e => setSearchText(e.target.value)}
@@ -175,7 +245,10 @@ const Customers: React.FC = () => {
           />
           <Select
             value={categoryFilter}
-            onChange={setCategoryFilter}
+            onChange={(value) => {
+              setCategoryFilter(value);
+              setPageParams((prev) => ({ ...prev, page: 1 }));
+            }}
             className="w-full sm:w-40"
             suffixIcon={<FilterOutlined />}
           >
@@ -183,6 +256,31 @@ const Customers: React.FC = () => {
             <Option value={CustomerCategory.REGULAR}>Regular</Option>
             <Option value={CustomerCategory.VARIABLE}>Variable</Option>
           </Select>
+          <Select
+            value={`${pageParams.sortBy}:${pageParams.sortOrder}`}
+            onChange={(value: string) => {
+              const [sortBy, sortOrder] = value.split(':');
+              setPageParams((prev) => ({ ...prev, page: 1, sortBy, sortOrder: sortOrder as 'asc' | 'desc' }));
+            }}
+            options={SORT_OPTIONS}
+            className="w-full sm:w-40"
+          />
+          <Button
+              onClick={() => setIsImportOpen(true)}
+              icon={<UploadOutlined />}
+              size="large"
+              className="w-full sm:w-auto"
+          >
+            Import
+          </Button>
+          <Button
+              onClick={() => setIsExportOpen(true)}
+              icon={<DownloadOutlined />}
+              size="large"
+              className="w-full sm:w-auto"
+          >
+            Export Deliveries
+          </Button>
           <Button 
               type="primary" 
               onClick={handleOpenAdd} 
@@ -197,17 +295,29 @@ const Customers: React.FC = () => {
 
       <List
         grid={{ gutter: 16, xs: 1, sm: 2, lg: 3, xl: 4 }}
-        dataSource={filteredCustomers}
+        dataSource={customers}
         loading={isLoading}
+        pagination={{
+          current: pageParams.page,
+          pageSize: pageParams.limit,
+          total,
+          showSizeChanger: true,
+          pageSizeOptions: [PAGE_SIZE, PAGE_SIZE * 2, PAGE_SIZE * 4],
+          onChange: (page, pageSize) => setPageParams((prev) => ({ ...prev, page, limit: pageSize })),
+        }}
         locale={{ emptyText: <Empty description="No customers found" /> }}
         renderItem={(customer) => (
           <List.Item>
             <Card
                 className="hover:shadow-md transition-shadow"
                 actions={[
-                    <Button type="text" icon={<EditOutlined />} onClick={() => handleOpenEdit(customer)}>Edit</Button>,
-                    <Button type="text" icon={<HistoryOutlined />} onClick={() => handleViewHistory(customer)}>History</Button>,
+                    <Button key="edit" type="text" icon={<EditOutlined />} onClick={() => handleOpenEdit(customer)}>Edit</Button>,
+                    <Button key="history" type="text" icon={<HistoryOutlined />} onClick={() => handleViewHistory(customer)}>History</Button>,
+                    <Button key="pause" type="text" icon={<PauseCircleOutlined />} onClick={() => setPauseCustomer(customer)}>Pause</Button>,
+                    <Button key="products" type="text" icon={<ShoppingOutlined />} onClick={() => setProductsCustomer(customer)}>Products</Button>,
+                    <Button key="share" type="text" icon={<ShareAltOutlined />} onClick={() => setShareCustomer(customer)}>Share</Button>,
                     <Popconfirm
+                        key="delete"
                         title="Delete customer?"
                         description="This action cannot be undone."
                         onConfirm={() => handleDelete(customer.id)}
@@ -332,6 +442,29 @@ const Customers: React.FC = () => {
                 </Col>
             </Row>
 
+            {editingCustomer && (
+                <Form.Item
+                    name="priceEffectiveFrom"
+                    label="Price Effective From"
+                    extra="A changed price applies to deliveries from this date; earlier bills keep the old rate."
+                >
+                    <DatePicker className="w-full" format="DD MMM YYYY" allowClear={false} />
+                </Form.Item>
+            )}
+
+            {editingCustomer && priceHistory.length > 0 && (
+                <div className="mb-4">
+                    <Text type="secondary" style={{ fontSize: 12 }}>Rate History</Text>
+                    <div className="mt-1 flex flex-wrap gap-1">
+                        {priceHistory.map((entry) => (
+                            <Tag key={entry.id}>
+                                {dayjs(entry.effectiveFrom).format('DD MMM YYYY')}: {settings?.currencySymbol}{entry.pricePerLiter}/L
+                            </Tag>
+                        ))}
+                    </div>
+                </div>
+            )}
+
             <Row gutter={16}>
                 <Col span={12}>
                     <Form.Item
@@ -352,6 +485,12 @@ const Customers: React.FC = () => {
                     </Form.Item>
                 </Col>
             </Row>
+
+            {editingCustomer && (
+                <Button type="link" icon={<CalendarOutlined />} onClick={() => setIsScheduleOpen(true)} style={{ padding: 0 }}>
+                    Weekday / alternate-day schedule
+                </Button>
+            )}
             
             <div className="flex justify-end gap-2 pt-4">
                 <Button onClick={handleCloseModal}>Cancel</Button>
@@ -367,6 +506,41 @@ const Customers: React.FC = () => {
         onClose={() => setIsHistoryOpen(false)}
         customer={historyCustomer}
       />
+
+      <QuotaScheduleModal
+        isOpen={isScheduleOpen}
+        onClose={() => setIsScheduleOpen(false)}
+        customer={editingCustomer}
+      />
+
+      <CustomerPauseModal
+        isOpen={!!pauseCustomer}
+        onClose={() => setPauseCustomer(null)}
+        customer={pauseCustomer}
+      />
+
+      <CustomerProductsModal
+        isOpen={!!productsCustomer}
+        onClose={() => setProductsCustomer(null)}
+        customer={productsCustomer}
+      />
+
+      <PortalLinkModal
+        isOpen={!!shareCustomer}
+        onClose={() => setShareCustomer(null)}
+        customer={shareCustomer}
+      />
+
+      <CustomerImportModal
+        isOpen={isImportOpen}
+        onClose={() => setIsImportOpen(false)}
+        onImported={fetchCustomers}
+      />
+
+      <DeliveryExportModal
+        isOpen={isExportOpen}
+        onClose={() => setIsExportOpen(false)}
+      />
     </div>
   );
 };
@@ -26,23 +26,39 @@ import {
   SearchOutlined
 } from '@ant-design/icons';
 import dayjs from 'dayjs';
-import { deliveryApi, customerApi, stockApi } from '../services/api';
-import { Customer, DeliveryEntry, Shift } from '../types';
+import { deliveryApi, customerApi, stockApi, routeApi, productApi, isNetworkError } from '../services/api';
+import { offlineStore } from '../services/offlineStore';
+import { useAuth } from '../contexts/AuthContext';
+import { useOfflineSync } from '../contexts/OfflineSyncContext';
+import { Customer, DeliveryEntry, DeliveryRoute, DeliveryShiftKey, Product, Shift, UserRole } from '../types';
+import { showUndoToast } from '@/utils/undoToast';
 
 const { Option } = Select;
 const { Title, Text } = Typography;
 
+/** ID of the built-in milk product */
+const DEFAULT_PRODUCT_ID = 'milk';
+
 interface StockInfo {
   totalStock: number;
   totalDelivered: number; // Already delivered in OTHER shifts for this date
 }
 
 const DailyLog: React.FC = () => {
+  const { user, hasRole } = useAuth();
+  const userId = user?.id ?? '';
+  const { queueUpdate, reportConflicts, syncedAt } = useOfflineSync();
   const [date, setDate] = useState(dayjs());
   const [shift, setShift] = useState<Shift>(Shift.MORNING);
+  const [routes, setRoutes] = useState<DeliveryRoute[]>([]);
+  const [routeId, setRouteId] = useState<string | undefined>(undefined);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [productId, setProductId] = useState(DEFAULT_PRODUCT_ID);
   const [customers, setCustomers] = useState<Customer[]>([]);
   const [searchText, setSearchText] = useState('');
   const [deliveries, setDeliveries] = useState<Map<string, DeliveryEntry>>(new Map());
+  const [pausedIds, setPausedIds] = useState<Set<string>>(new Set());
+  const [quotas, setQuotas] = useState<Map<string, number>>(new Map());
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
   const [stockInfo, setStockInfo] = useState<StockInfo>({ totalStock: 0, totalDelivered: 0 });
@@ -54,81 +70,131 @@ const DailyLog: React.FC = () => {
       
       const [customersData, deliveriesData, stockData] = await Promise.all([
         customerApi.getAll(),
-        deliveryApi.getByDate(dateStr, shift),
-        stockApi.getAvailability(dateStr),
+        deliveryApi.getByDate(dateStr, shift, routeId, productId),
+        stockApi.getAvailability(dateStr, productId),
       ]);
 
-      setCustomers(customersData.filter((c: Customer) => c.isActive));
+      // The delivery list decides which customers are shown and in what (stop) order
+      const customerById = new Map(customersData.map((c: Customer) => [c.id, c]));
+      setCustomers(
+        deliveriesData
+          .map((d) => customerById.get(d.customerId))
+          .filter((c): c is Customer => !!c && c.isActive)
+      );
       setStockInfo(stockData);
 
       const deliveryMap = new Map<string, DeliveryEntry>();
-      deliveriesData.forEach((d: { customerId: string; delivered: boolean; quantity?: number; actualAmount?: number }) => {
+      deliveriesData.forEach((d: { customerId: string; delivered: boolean; quantity?: number; actualAmount?: number; updatedAt?: Date | null }) => {
         deliveryMap.set(d.customerId, {
           customerId: d.customerId,
           delivered: d.delivered,
           quantity: d.quantity ?? d.actualAmount ?? 0,
+          updatedAt: d.updatedAt ? new Date(d.updatedAt).toISOString() : null,
         });
       });
+
+      // Edits not on the server yet: saves waiting to sync, then unsaved changes
+      const shiftKey: DeliveryShiftKey = { userId, date: dateStr, shift, routeId, productId };
+      const [queued, draft] = await Promise.all([
+        offlineStore.getQueued(shiftKey),
+        offlineStore.getDraft(shiftKey),
+      ]);
+      [...(queued?.entries ?? []), ...(draft ?? [])].forEach((entry) => deliveryMap.set(entry.customerId, entry));
+      if (draft) message.info('Restored your unsaved changes');
       setDeliveries(deliveryMap);
+      setPausedIds(new Set(deliveriesData.filter((d) => d.isPaused).map((d) => d.customerId)));
+      setQuotas(new Map(
+        deliveriesData
+          .filter((d) => d.quota !== undefined)
+          .map((d) => [d.customerId, d.quota as number])
+      ));
     } catch (error) {
       console.error('Failed to fetch data:', error);
       message.error('Failed to load delivery data');
     } finally {
       setIsLoading(false);
     }
-  }, [date, shift]);
+  }, [userId, date, shift, routeId, productId]);
 
+  // Reload once queued offline saves reach the server
   useEffect(() => {
     fetchData();
-  }, [fetchData]);
+  }, [fetchData, syncedAt]);
+
+  useEffect(() => {
+    routeApi.getAll()
+      .then((data) => setRoutes(data.filter((r) => r.isActive)))
+      .catch((error) => console.error('Failed to fetch routes:', error));
+    productApi.getAll(true)
+      .then(setProducts)
+      .catch((error) => console.error('Failed to fetch products:', error));
+  }, []);
+
+  const unit = products.find((p) => p.id === productId)?.unit ?? 'L';
+
+  // Scheduled quota for the selected date, falling back to the customer's base milk quota
+  const getQuota = (customer?: Customer): number => {
+    if (!customer) return 0;
+    const baseQuota = productId !== DEFAULT_PRODUCT_ID ? 0
+      : shift === Shift.MORNING ? customer.morningQuota : customer.eveningQuota;
+    return quotas.get(customer.id) ?? baseQuota;
+  };
 
   const filteredCustomers = customers.filter(c => 
     c.name.toLowerCase().includes(searchText.toLowerCase()) ||
     c.address.toLowerCase().includes(searchText.toLowerCase())
   );
 
+  const currentShift = (): DeliveryShiftKey => ({ userId, date: date.format('YYYY-MM-DD'), shift, routeId, productId });
+
+  // Edits are kept on the device until saved, so a reload or a lost connection does not lose them
+  const changeDeliveries = (newMap: Map<string, DeliveryEntry>) => {
+    setDeliveries(newMap);
+    offlineStore.saveDraft(currentShift(), Array.from(newMap.values()))
+      .catch((error) => console.error('Failed to keep unsaved changes:', error));
+  };
+
   const handleToggle = (customerId: string, delivered: boolean) => {
-    setDeliveries((prev) => {
-      const newMap = new Map(prev);
-      const existing = newMap.get(customerId);
-      const customer = customers.find(c => c.id === customerId);
-      const quota = shift === Shift.MORNING ? customer?.morningQuota : customer?.eveningQuota;
-      
-      // Auto-set quantity to quota if marking as delivered and quantity is 0
-      let quantity = existing?.quantity ?? 0;
-      if (delivered && quantity === 0) {
-          quantity = quota || 0;
-      } else if (!delivered) {
-          quantity = 0;
-      }
+    const newMap = new Map(deliveries);
+    const existing = newMap.get(customerId);
+    const customer = customers.find(c => c.id === customerId);
+    const quota = getQuota(customer);
+    
+    // Auto-set quantity to quota if marking as delivered and quantity is 0
+    let quantity = existing?.quantity ?? 0;
+    if (delivered && quantity === 0) {
+        quantity = quota || 0;
+    } else if (!delivered) {
+        quantity = 0;
+    }
 
-      newMap.set(customerId, {
-        customerId,
-        delivered,
-        quantity,
-      });
-      return newMap;
+    newMap.set(customerId, {
+      customerId,
+      delivered,
+      quantity,
+      updatedAt: existing?.updatedAt,
     });
+    changeDeliveries(newMap);
   };
 
   const handleQuantityChange = (customerId: string, quantity: number) => {
-    setDeliveries((prev) => {
-      const newMap = new Map(prev);
-      const existing = newMap.get(customerId);
-      newMap.set(customerId, {
-        customerId,
-        delivered: existing?.delivered ?? true,
-        quantity,
-      });
-      return newMap;
+    const newMap = new Map(deliveries);
+    const existing = newMap.get(customerId);
+    newMap.set(customerId, {
+      customerId,
+      delivered: existing?.delivered ?? true,
+      quantity,
+      updatedAt: existing?.updatedAt,
     });
+    changeDeliveries(newMap);
   };
 
   const handleAutofillAll = async () => {
     try {
       setIsSaving(true);
-      await deliveryApi.autofill(date.format('YYYY-MM-DD'), shift);
-      message.success('Deliveries autofilled from quotas');
+      const result = await deliveryApi.autofill(date.format('YYYY-MM-DD'), shift, routeId, productId);
+      showUndoToast(`Autofilled ${result.count} deliveries from quotas`, result.changeSet, fetchData);
+      await offlineStore.deleteDraft(currentShift());
       await fetchData();
     } catch (error) {
       console.error('Failed to autofill:', error);
@@ -141,8 +207,9 @@ const DailyLog: React.FC = () => {
   const handleClear = async () => {
     try {
       setIsSaving(true);
-      await deliveryApi.clear(date.format('YYYY-MM-DD'), shift);
-      message.success('Deliveries cleared');
+      const result = await deliveryApi.clear(date.format('YYYY-MM-DD'), shift, routeId, productId);
+      showUndoToast(`Cleared ${result.count} deliveries`, result.changeSet, fetchData);
+      await offlineStore.deleteDraft(currentShift());
       await fetchData();
     } catch (error) {
       console.error('Failed to clear:', error);
@@ -158,7 +225,7 @@ const DailyLog: React.FC = () => {
       Modal.confirm({
         title: 'Stock Overflow Warning',
         icon: <ExclamationCircleOutlined />,
-        content: `You are trying to deliver ${Math.abs(remainingStock).toFixed(1)}L more than available stock. Are you sure you want to proceed?`,
+        content: `You are trying to deliver ${Math.abs(remainingStock).toFixed(1)}${unit} more than available stock. Are you sure you want to proceed?`,
         okText: 'Save Anyway',
         okType: 'danger',
         cancelText: 'Cancel',
@@ -172,15 +239,28 @@ const DailyLog: React.FC = () => {
   };
 
   const performSave = async () => {
+    const shiftKey = currentShift();
+    const entries = Array.from(deliveries.values());
     try {
       setIsSaving(true);
-      const entries = Array.from(deliveries.values());
-      await deliveryApi.bulkUpdate(date.format('YYYY-MM-DD'), shift, entries);
-      message.success('Deliveries saved successfully');
+      const result = await deliveryApi.bulkUpdate(shiftKey.date, shift, entries, routeId, productId);
+      await offlineStore.deleteDraft(shiftKey);
+      if (result.conflicts.length > 0) {
+        reportConflicts({ ...shiftKey, entries, queuedAt: new Date().toISOString() }, result.conflicts);
+        message.warning(`${result.conflicts.length} deliveries were changed by someone else and were not saved`);
+      } else {
+        message.success('Deliveries saved successfully');
+      }
       await fetchData(); // Refresh to update stock info
     } catch (error) {
+      if (isNetworkError(error)) {
+        await queueUpdate({ ...shiftKey, entries });
+        await offlineStore.deleteDraft(shiftKey);
+        message.warning('You are offline. Deliveries are kept on this device and will sync when you are back online');
+        return;
+      }
       console.error('Failed to save:', error);
-      message.error('Failed to save deliveries');
+      message.error(error instanceof Error ? error.message : 'Failed to save deliveries');
     } finally {
       setIsSaving(false);
     }
@@ -201,7 +281,8 @@ const DailyLog: React.FC = () => {
   const remainingStock = stockInfo.totalStock - currentShiftTotal;
 
   const totalDeliveredCustomers = Array.from(deliveries.values()).filter(d => d.delivered).length;
-  const completionPercentage = Math.round((totalDeliveredCustomers / customers.length) * 100) || 0;
+  const expectedCustomers = customers.filter(c => !pausedIds.has(c.id)).length;
+  const completionPercentage = Math.min(Math.round((totalDeliveredCustomers / expectedCustomers) * 100) || 0, 100);
 
   const columns = [
     {
@@ -210,7 +291,10 @@ const DailyLog: React.FC = () => {
       key: 'name',
       render: (text: string, record: Customer) => (
           <div>
-              <div className="font-medium">{text}</div>
+              <div className="font-medium">
+                {text}
+                {pausedIds.has(record.id) && <Tag color="orange" className="ml-2">Paused</Tag>}
+              </div>
               <div className="text-xs text-gray-500">{record.address}</div>
           </div>
       )
@@ -219,8 +303,8 @@ const DailyLog: React.FC = () => {
       title: 'Quota',
       key: 'quota',
       render: (_: unknown, record: Customer) => {
-          const quota = shift === Shift.MORNING ? record.morningQuota : record.eveningQuota;
-          return <Tag color="blue">{quota} L</Tag>;
+          const quota = getQuota(record);
+          return <Tag color="blue">{quota} {unit}</Tag>;
       }
     },
     {
@@ -240,16 +324,16 @@ const DailyLog: React.FC = () => {
       }
     },
     {
-      title: 'Actual (L)',
+      title: `Actual (${unit})`,
       key: 'quantity',
       render: (_: unknown, record: Customer, index: number) => {
           const entry = deliveries.get(record.id);
-          const quota = shift === Shift.MORNING ? record.morningQuota : record.eveningQuota;
+          const quota = getQuota(record);
           const quantity = entry?.quantity ?? 0;
           const exceedsQuota = quantity > quota && quota > 0;
 
           return (
-              <Tooltip title={exceedsQuota ? `Exceeds quota of ${quota}L` : ''} open={exceedsQuota ? undefined : false}>
+              <Tooltip title={exceedsQuota ? `Exceeds quota of ${quota}${unit}` : ''} open={exceedsQuota ? undefined : false}>
                 <InputNumber
                   id={`quantity-${index}`}
                   min={0}
@@ -293,6 +377,30 @@ const DailyLog: React.FC = () => {
             style={{ width: 220 }}
             allowClear
           />
+          {products.length > 1 && (
+            <Select
+              value={productId}
+              onChange={(val) => setProductId(val)}
+              style={{ width: 140 }}
+            >
+              {products.map((product) => (
+                <Option key={product.id} value={product.id}>{product.name}</Option>
+              ))}
+            </Select>
+          )}
+          {routes.length > 0 && (
+            <Select
+              value={routeId}
+              onChange={(val) => setRouteId(val)}
+              placeholder={hasRole(UserRole.DELIVERY) ? 'All my routes' : 'All customers'}
+              allowClear
+              style={{ width: 180 }}
+            >
+              {routes.map((route) => (
+                <Option key={route.id} value={route.id}>{route.name}</Option>
+              ))}
+            </Select>
+          )}
           <DatePicker 
             value={date} 
             onChange={(val) => setDate(val || dayjs())} 
@@ -315,7 +423,7 @@ const DailyLog: React.FC = () => {
       {remainingStock < 0 && (
         <Alert
           message="Stock Overflow"
-          description={`You are allocating ${Math.abs(remainingStock).toFixed(1)}L more than available stock (${stockInfo.totalStock.toFixed(1)}L). Please reduce quantities or add more stock.`}
+          description={`You are allocating ${Math.abs(remainingStock).toFixed(1)}${unit} more than available stock (${stockInfo.totalStock.toFixed(1)}${unit}). Please reduce quantities or add more stock.`}
           type="error"
           showIcon
           icon={<WarningOutlined />}
@@ -353,13 +461,13 @@ const DailyLog: React.FC = () => {
             <div className="text-right">
               <Text type="secondary" className="block text-xs">Stock Available</Text>
               <Text strong className={`text-lg ${remainingStock < 0 ? 'text-red-500' : ''}`}>
-                {stockInfo.totalStock.toFixed(1)} L
+                {stockInfo.totalStock.toFixed(1)} {unit}
               </Text>
             </div>
             <div className="text-right">
               <Text type="secondary" className="block text-xs">Total Allocated</Text>
               <Text strong className={`text-lg ${remainingStock < 0 ? 'text-red-500' : ''}`}>
-                {currentShiftTotal.toFixed(1)} L
+                {currentShiftTotal.toFixed(1)} {unit}
               </Text>
             </div>
             <Button 
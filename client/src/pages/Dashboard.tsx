@@ -301,7 +301,12 @@ const Dashboard: React.FC = () => {
                                             <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
                                         ))}
                                     </Pie>
-                                    <RechartsTooltip />
+                                    <RechartsTooltip
+                                        formatter={(value, name, item) => {
+                                            const amount = Number(item.payload?.amount || 0);
+                                            return [amount > 0 ? `${value} L (${formatCurrency(amount)})` : `${value} L`, name];
+                                        }}
+                                    />
                                     <Legend />
                                 </PieChart>
                             </ResponsiveContainer>
@@ -0,0 +1,284 @@
+/**
+ * Delivery Routes Page
+ *
+ * Manage delivery routes, the agent assigned to each route and the
+ * order in which its customers are visited.
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Table, Button, Modal, Form, Input, Select, Switch, Tag, Popconfirm, message, Card, Space, List, Empty } from 'antd';
+import {
+  PlusOutlined,
+  EditOutlined,
+  DeleteOutlined,
+  OrderedListOutlined,
+  ArrowUpOutlined,
+  ArrowDownOutlined,
+  CloseOutlined,
+} from '@ant-design/icons';
+import { routeApi, customerApi } from '../services/api';
+import { Customer, DeliveryRoute, RouteFormData } from '../types';
+
+const { Option } = Select;
+
+const DeliveryRoutes: React.FC = () => {
+  const [routes, setRoutes] = useState<DeliveryRoute[]>([]);
+  const [agents, setAgents] = useState<{ id: string; name: string }[]>([]);
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [isModalVisible, setIsModalVisible] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form] = Form.useForm();
+
+  // Stop editor state
+  const [stopsRoute, setStopsRoute] = useState<DeliveryRoute | null>(null);
+  const [stopIds, setStopIds] = useState<string[]>([]);
+  const [isSavingStops, setIsSavingStops] = useState(false);
+
+  const fetchRoutes = async () => {
+    setLoading(true);
+    try {
+      setRoutes(await routeApi.getAll());
+    } catch (error) {
+      console.error('Failed to fetch routes', error);
+      message.error('Failed to load routes');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchRoutes();
+    routeApi.getAgents().then(setAgents).catch((error) => console.error('Failed to fetch agents', error));
+    customerApi.getAll(undefined, true).then(setCustomers).catch((error) => console.error('Failed to fetch customers', error));
+  }, []);
+
+  const handleAdd = () => {
+    setEditingId(null);
+    form.resetFields();
+    setIsModalVisible(true);
+  };
+
+  const handleEdit = (record: DeliveryRoute) => {
+    setEditingId(record.id);
+    form.setFieldsValue(record);
+    setIsModalVisible(true);
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await routeApi.delete(id);
+      message.success('Route deleted successfully');
+      fetchRoutes();
+    } catch (error) {
+      message.error(error instanceof Error ? error.message : 'Failed to delete route');
+    }
+  };
+
+  const handleOk = async () => {
+    let values: RouteFormData;
+    try {
+      values = await form.validateFields();
+    } catch (error) {
+      console.error('Validation failed:', error);
+      return;
+    }
+
+    try {
+      const data = { ...values, agentId: values.agentId ?? null };
+      if (editingId) {
+        await routeApi.update(editingId, data);
+        message.success('Route updated successfully');
+      } else {
+        await routeApi.create(data);
+        message.success('Route created successfully');
+      }
+      setIsModalVisible(false);
+      fetchRoutes();
+    } catch (error) {
+      message.error(error instanceof Error ? error.message : 'Failed to save route');
+    }
+  };
+
+  const openStops = async (record: DeliveryRoute) => {
+    try {
+      const route = await routeApi.getById(record.id);
+      setStopsRoute(route);
+      setStopIds((route.stops || []).map((stop) => stop.customerId));
+    } catch (error) {
+      console.error('Failed to fetch route stops', error);
+      message.error('Failed to load route stops');
+    }
+  };
+
+  const moveStop = (index: number, offset: number) => {
+    setStopIds((prev) => {
+      const next = [...prev];
+      const [moved] = next.splice(index, 1);
+      next.splice(index + offset, 0, moved);
+      return next;
+    });
+  };
+
+  const handleSaveStops = async () => {
+    if (!stopsRoute) return;
+    try {
+      setIsSavingStops(true);
+      await routeApi.setStops(stopsRoute.id, stopIds);
+      message.success('Route stops saved');
+      setStopsRoute(null);
+      fetchRoutes();
+    } catch (error) {
+      message.error(error instanceof Error ? error.message : 'Failed to save route stops');
+    } finally {
+      setIsSavingStops(false);
+    }
+  };
+
+  const customerById = new Map(customers.map((c) => [c.id, c]));
+
+  const columns = [
+    {
+      title: 'Name',
+      dataIndex: 'name',
+      key: 'name',
+      render: (name: string, record: DeliveryRoute) => (
+        <div>
+          <div className="font-medium">{name}</div>
+          {record.description && <div className="text-xs text-gray-500">{record.description}</div>}
+        </div>
+      ),
+    },
+    {
+      title: 'Agent',
+      key: 'agent',
+      render: (_: unknown, record: DeliveryRoute) =>
+        record.agent ? record.agent.name : <Tag>Unassigned</Tag>,
+    },
+    {
+      title: 'Stops',
+      key: 'stops',
+      render: (_: unknown, record: DeliveryRoute) => record._count?.stops ?? 0,
+    },
+    {
+      title: 'Status',
+      dataIndex: 'isActive',
+      key: 'isActive',
+      render: (isActive: boolean) => (
+        <Tag color={isActive ? 'success' : 'error'}>
+          {isActive ? 'ACTIVE' : 'INACTIVE'}
+        </Tag>
+      ),
+    },
+    {
+      title: 'Actions',
+      key: 'actions',
+      render: (_: unknown, record: DeliveryRoute) => (
+        <Space>
+          <Button icon={<OrderedListOutlined />} onClick={() => openStops(record)}>Stops</Button>
+          <Button icon={<EditOutlined />} onClick={() => handleEdit(record)} />
+          <Popconfirm title="Delete this route? Its customers become unassigned." onConfirm={() => handleDelete(record.id)}>
+            <Button danger icon={<DeleteOutlined />} />
+          </Popconfirm>
+        </Space>
+      ),
+    },
+  ];
+
+  return (
+    <div className="p-6">
+      <div className="mb-6 flex items-center justify-between">
+        <h1 className="text-2xl font-bold text-gray-800">Delivery Routes</h1>
+        <Button type="primary" icon={<PlusOutlined />} onClick={handleAdd}>
+          Add Route
+        </Button>
+      </div>
+
+      <Card>
+        <Table columns={columns} dataSource={routes} rowKey="id" loading={loading} />
+      </Card>
+
+      <Modal
+        title={editingId ? 'Edit Route' : 'Add Route'}
+        open={isModalVisible}
+        onOk={handleOk}
+        onCancel={() => setIsModalVisible(false)}
+      >
+        <Form form={form} layout="vertical">
+          <Form.Item name="name" label="Route Name" rules={[{ required: true, message: 'Please enter route name' }]}>
+            <Input />
+          </Form.Item>
+          <Form.Item name="description" label="Description">
+            <Input placeholder="e.g. Sector 4 and market road" />
+          </Form.Item>
+          <Form.Item name="agentId" label="Delivery Agent">
+            <Select allowClear placeholder="Unassigned">
+              {agents.map((agent) => (
+                <Option key={agent.id} value={agent.id}>{agent.name}</Option>
+              ))}
+            </Select>
+          </Form.Item>
+          {editingId && (
+            <Form.Item name="isActive" label="Active" valuePropName="checked">
+              <Switch />
+            </Form.Item>
+          )}
+        </Form>
+      </Modal>
+
+      <Modal
+        title={stopsRoute ? `Stops – ${stopsRoute.name}` : 'Stops'}
+        open={!!stopsRoute}
+        onOk={handleSaveStops}
+        okText="Save Order"
+        confirmLoading={isSavingStops}
+        onCancel={() => setStopsRoute(null)}
+        width={600}
+      >
+        <Select
+          showSearch
+          placeholder="Add a customer to the end of the route"
+          value={null}
+          optionFilterProp="children"
+          onChange={(id: string) => setStopIds((prev) => [...prev, id])}
+          style={{ width: '100%', marginBottom: 16 }}
+        >
+          {customers
+            .filter((c) => !stopIds.includes(c.id))
+            .map((c) => (
+              <Option key={c.id} value={c.id}>{c.name}</Option>
+            ))}
+        </Select>
+
+        {stopIds.length === 0 ? (
+          <Empty description="No stops on this route" />
+        ) : (
+          <List
+            size="small"
+            bordered
+            dataSource={stopIds}
+            renderItem={(id, index) => {
+              const customer = customerById.get(id);
+              return (
+                <List.Item
+                  actions={[
+                    <Button key="up" size="small" icon={<ArrowUpOutlined />} disabled={index === 0} onClick={() => moveStop(index, -1)} />,
+                    <Button key="down" size="small" icon={<ArrowDownOutlined />} disabled={index === stopIds.length - 1} onClick={() => moveStop(index, 1)} />,
+                    <Button key="remove" size="small" danger icon={<CloseOutlined />} onClick={() => setStopIds((prev) => prev.filter((s) => s !== id))} />,
+                  ]}
+                >
+                  <List.Item.Meta
+                    title={`${index + 1}. ${customer?.name ?? 'Inactive customer'}`}
+                    description={customer?.address}
+                  />
+                </List.Item>
+              );
+            }}
+          />
+        )}
+      </Modal>
+    </div>
+  );
+};
+
+export default DeliveryRoutes;
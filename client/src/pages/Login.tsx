@@ -0,0 +1,92 @@
+/**
+ * Login Page
+ *
+ * Username/password sign-in for staff accounts.
+ */
+
+import React, { useState } from 'react';
+import { Navigate, useLocation, useNavigate } from 'react-router-dom';
+import { Card, Form, Input, Button, Typography, Alert } from 'antd';
+import { UserOutlined, LockOutlined } from '@ant-design/icons';
+import { Droplet } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { getHomePath } from '../components/RequireAuth';
+
+const { Title, Text } = Typography;
+
+interface LoginFormValues {
+  username: string;
+  password: string;
+}
+
+const Login: React.FC = () => {
+  const { user, login } = useAuth();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const from = (location.state as { from?: { pathname: string } } | null)?.from?.pathname;
+
+  if (user) {
+    return <Navigate to={from || getHomePath(user.role)} replace />;
+  }
+
+  const handleSubmit = async (values: LoginFormValues) => {
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      await login(values.username, values.password);
+      navigate(from || '/', { replace: true });
+    } catch (err) {
+      console.error('Login failed:', err);
+      setError(err instanceof Error ? err.message : 'Login failed');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-gray-50 p-4">
+      <Card className="w-full max-w-sm shadow-sm">
+        <div className="mb-6 flex flex-col items-center gap-2">
+          <div style={{
+            width: 48, height: 48,
+            borderRadius: 8,
+            background: 'linear-gradient(135deg, #4285F4 0%, #1A73E8 100%)',
+            display: 'flex', alignItems: 'center', justifyContent: 'center',
+            color: 'white'
+          }}>
+            <Droplet size={28} />
+          </div>
+          <Title level={4} style={{ margin: 0 }}>Dairy Manager</Title>
+          <Text type="secondary">Sign in to continue</Text>
+        </div>
+
+        {error && <Alert type="error" message={error} showIcon className="mb-4" />}
+
+        <Form layout="vertical" onFinish={handleSubmit} requiredMark={false}>
+          <Form.Item
+            name="username"
+            label="Username"
+            rules={[{ required: true, message: 'Please enter your username' }]}
+          >
+            <Input prefix={<UserOutlined />} autoComplete="username" autoFocus />
+          </Form.Item>
+          <Form.Item
+            name="password"
+            label="Password"
+            rules={[{ required: true, message: 'Please enter your password' }]}
+          >
+            <Input.Password prefix={<LockOutlined />} autoComplete="current-password" />
+          </Form.Item>
+          <Button type="primary" htmlType="submit" block size="large" loading={isSubmitting}>
+            Sign In
+          </Button>
+        </Form>
+      </Card>
+    </div>
+  );
+};
+
+export default Login;
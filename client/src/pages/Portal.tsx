@@ -0,0 +1,160 @@
+import React, { useState, useEffect } from 'react';
+import { useParams } from 'react-router-dom';
+import { Card, List, Tag, Typography, Spin, Result, Descriptions, Collapse } from 'antd';
+import dayjs from 'dayjs';
+import { portalApi } from '../services/api';
+import { CustomerPortalView } from '../types';
+import { getMonthName } from '@/utils/helpers';
+
+const { Title, Text } = Typography;
+
+/**
+ * Read-only account page a customer opens through their portal link
+ */
+const Portal: React.FC = () => {
+  const { token = '' } = useParams<{ token: string }>();
+  const [view, setView] = useState<CustomerPortalView | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    portalApi.getView(token)
+      .then(setView)
+      .catch((err: Error) => setError(err.message));
+  }, [token]);
+
+  if (error) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-4">
+        <Result status="warning" title="Unable to open your account" subTitle={error} />
+      </div>
+    );
+  }
+
+  if (!view) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Spin size="large" />
+      </div>
+    );
+  }
+
+  const { business, current } = view;
+  const money = (amount: number) => `${business.currencySymbol}${amount.toFixed(2)}`;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-md mx-auto p-4 space-y-4">
+        <div className="text-center pt-2">
+          <Text type="secondary">{business.businessName}</Text>
+          <Title level={3} style={{ margin: 0 }}>{current.customerName}</Title>
+        </div>
+
+        <Card className="text-center">
+          <Text type="secondary" className="block text-xs uppercase">Amount Due Today</Text>
+          <div className={`text-3xl font-bold ${view.outstanding > 0 ? 'text-red-600' : 'text-green-600'}`}>
+            {money(Math.max(0, view.outstanding))}
+          </div>
+          {view.outstanding < 0 && (
+            <Text type="success">You have {money(-view.outstanding)} in advance</Text>
+          )}
+          {view.outstanding > 0 && (
+            <Text type="secondary" className="text-xs">
+              Bills are due {business.paymentTerms} days after month end
+            </Text>
+          )}
+        </Card>
+
+        <Card title={`${getMonthName(current.month)} ${current.year} so far`} size="small">
+          <Descriptions column={1} size="small">
+            <Descriptions.Item label="Milk">{current.totalLiters.toFixed(1)} L</Descriptions.Item>
+            {(current.lineItems ?? [])
+              .filter((item) => item.productId !== 'milk')
+              .map((item) => (
+                <Descriptions.Item key={item.productId} label={item.productName}>
+                  {item.quantity.toFixed(1)} {item.unit}
+                </Descriptions.Item>
+              ))}
+            <Descriptions.Item label="This month">{money(current.totalAmount + current.adjustments)}</Descriptions.Item>
+            <Descriptions.Item label="Previous balance">{money(current.previousBalance)}</Descriptions.Item>
+            <Descriptions.Item label="Paid">{money(current.paidAmount + current.credit)}</Descriptions.Item>
+          </Descriptions>
+
+          <Collapse
+            ghost
+            size="small"
+            items={[{
+              key: 'deliveries',
+              label: `Daily deliveries (${view.deliveries.filter((d) => d.delivered).length})`,
+              children: (
+                <List
+                  size="small"
+                  dataSource={view.deliveries}
+                  locale={{ emptyText: 'No deliveries yet this month' }}
+                  renderItem={(d) => (
+                    <List.Item>
+                      <span>
+                        {dayjs(d.date).format('DD MMM')}{' '}
+                        <Text type="secondary" className="text-xs capitalize">{d.shift.toLowerCase()}</Text>
+                      </span>
+                      {d.delivered
+                        ? <span>{d.productName} {d.quantity} {d.unit}</span>
+                        : <Tag>Skipped</Tag>}
+                    </List.Item>
+                  )}
+                />
+              ),
+            }]}
+          />
+        </Card>
+
+        <Card title="Past Bills" size="small">
+          <List
+            size="small"
+            dataSource={view.bills}
+            locale={{ emptyText: 'No earlier bills' }}
+            renderItem={(bill) => (
+              <List.Item>
+                <div>
+                  <div>{getMonthName(bill.month)} {bill.year}</div>
+                  {bill.invoiceNumber && <Text type="secondary" className="text-xs">{bill.invoiceNumber}</Text>}
+                </div>
+                <div className="text-right">
+                  <div>{money(bill.charges)}</div>
+                  {bill.outstanding > 0.005
+                    ? <Tag color="red">{money(bill.outstanding)} due</Tag>
+                    : <Tag color="green">Paid</Tag>}
+                </div>
+              </List.Item>
+            )}
+          />
+        </Card>
+
+        <Card title="Payments" size="small">
+          <List
+            size="small"
+            dataSource={view.payments}
+            locale={{ emptyText: 'No payments yet' }}
+            renderItem={(payment) => (
+              <List.Item>
+                <div>
+                  <div>{dayjs(payment.date).format('DD MMM YYYY')}</div>
+                  <Text type="secondary" className="text-xs">
+                    {payment.receiptNumber}{payment.method && ` · ${payment.method.toUpperCase()}`}
+                  </Text>
+                </div>
+                <Text strong>{money(payment.amount)}</Text>
+              </List.Item>
+            )}
+          />
+        </Card>
+
+        <div className="text-center text-xs text-gray-400 pb-4 space-y-1">
+          <div>Questions? Call {business.businessPhone}</div>
+          <div>This link is valid until {dayjs(view.expiresAt).format('DD MMM YYYY')}</div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Portal;
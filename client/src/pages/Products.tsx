@@ -0,0 +1,198 @@
+/**
+ * Products Page
+ *
+ * Manage the product catalogue (milk, curd, paneer, ...) with the unit
+ * each product is sold in and its default price.
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Table, Button, Modal, Form, Input, InputNumber, Switch, Tag, Popconfirm, message, Card, Space, DatePicker } from 'antd';
+import { PlusOutlined, EditOutlined, DeleteOutlined } from '@ant-design/icons';
+import dayjs from 'dayjs';
+import { productApi } from '../services/api';
+import { useSettings } from '../contexts/SettingsContext';
+import { Product, ProductFormData } from '../types';
+
+/** ID of the built-in milk product, which cannot be removed */
+const DEFAULT_PRODUCT_ID = 'milk';
+
+const Products: React.FC = () => {
+  const { formatCurrency } = useSettings();
+  const [products, setProducts] = useState<Product[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [isModalVisible, setIsModalVisible] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form] = Form.useForm();
+
+  const fetchProducts = async () => {
+    setLoading(true);
+    try {
+      setProducts(await productApi.getAll());
+    } catch (error) {
+      console.error('Failed to fetch products', error);
+      message.error('Failed to load products');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchProducts();
+  }, []);
+
+  const handleAdd = () => {
+    setEditingId(null);
+    form.resetFields();
+    setIsModalVisible(true);
+  };
+
+  const handleEdit = (record: Product) => {
+    setEditingId(record.id);
+    form.setFieldsValue({ ...record, priceEffectiveFrom: dayjs() });
+    setIsModalVisible(true);
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await productApi.delete(id);
+      message.success('Product removed');
+      fetchProducts();
+    } catch (error) {
+      message.error(error instanceof Error ? error.message : 'Failed to delete product');
+    }
+  };
+
+  const handleOk = async () => {
+    let values: Omit<ProductFormData, 'priceEffectiveFrom'> & { priceEffectiveFrom?: dayjs.Dayjs };
+    try {
+      values = await form.validateFields();
+    } catch (error) {
+      console.error('Validation failed:', error);
+      return;
+    }
+
+    const { priceEffectiveFrom, ...productValues } = values;
+    try {
+      if (editingId) {
+        await productApi.update(editingId, {
+          ...productValues,
+          priceEffectiveFrom: priceEffectiveFrom?.format('YYYY-MM-DD'),
+        });
+        message.success('Product updated successfully');
+      } else {
+        await productApi.create(productValues);
+        message.success('Product created successfully');
+      }
+      setIsModalVisible(false);
+      fetchProducts();
+    } catch (error) {
+      message.error(error instanceof Error ? error.message : 'Failed to save product');
+    }
+  };
+
+  const columns = [
+    {
+      title: 'Name',
+      dataIndex: 'name',
+      key: 'name',
+      render: (name: string, record: Product) => (
+        <span className="font-medium">
+          {name} {record.id === DEFAULT_PRODUCT_ID && <Tag color="blue">Default</Tag>}
+        </span>
+      ),
+    },
+    {
+      title: 'Unit',
+      dataIndex: 'unit',
+      key: 'unit',
+    },
+    {
+      title: 'Default Price',
+      dataIndex: 'defaultPrice',
+      key: 'defaultPrice',
+      render: (price: number, record: Product) => `${formatCurrency(price)} / ${record.unit}`,
+    },
+    {
+      title: 'Status',
+      dataIndex: 'isActive',
+      key: 'isActive',
+      render: (isActive: boolean) => (
+        <Tag color={isActive ? 'success' : 'error'}>
+          {isActive ? 'ACTIVE' : 'INACTIVE'}
+        </Tag>
+      ),
+    },
+    {
+      title: 'Actions',
+      key: 'actions',
+      render: (_: unknown, record: Product) => (
+        <Space>
+          <Button icon={<EditOutlined />} onClick={() => handleEdit(record)} />
+          {record.id !== DEFAULT_PRODUCT_ID && (
+            <Popconfirm
+              title="Delete this product? Products with deliveries or stock are deactivated instead."
+              onConfirm={() => handleDelete(record.id)}
+            >
+              <Button danger icon={<DeleteOutlined />} />
+            </Popconfirm>
+          )}
+        </Space>
+      ),
+    },
+  ];
+
+  return (
+    <div className="p-6">
+      <div className="mb-6 flex items-center justify-between">
+        <h1 className="text-2xl font-bold text-gray-800">Products</h1>
+        <Button type="primary" icon={<PlusOutlined />} onClick={handleAdd}>
+          Add Product
+        </Button>
+      </div>
+
+      <Card>
+        <Table columns={columns} dataSource={products} rowKey="id" loading={loading} />
+      </Card>
+
+      <Modal
+        title={editingId ? 'Edit Product' : 'Add Product'}
+        open={isModalVisible}
+        onOk={handleOk}
+        onCancel={() => setIsModalVisible(false)}
+      >
+        <Form form={form} layout="vertical">
+          <Form.Item name="name" label="Product Name" rules={[{ required: true, message: 'Please enter product name' }]}>
+            <Input placeholder="e.g. Curd" />
+          </Form.Item>
+          <Form.Item name="unit" label="Unit" rules={[{ required: true, message: 'Please enter a unit' }]}>
+            <Input placeholder="e.g. L, kg, pc" />
+          </Form.Item>
+          <Form.Item
+            name="defaultPrice"
+            label="Default Price per Unit"
+            rules={[{ required: true, message: 'Please enter a price' }]}
+            extra={editingId === DEFAULT_PRODUCT_ID ? 'Milk is billed at each customer\'s own rate.' : undefined}
+          >
+            <InputNumber min={0} step={0.5} style={{ width: '100%' }} />
+          </Form.Item>
+          {editingId && editingId !== DEFAULT_PRODUCT_ID && (
+            <Form.Item
+              name="priceEffectiveFrom"
+              label="Price Effective From"
+              extra="A changed price applies to deliveries from this date; earlier bills keep the old price."
+            >
+              <DatePicker className="w-full" format="DD MMM YYYY" allowClear={false} />
+            </Form.Item>
+          )}
+          {editingId && editingId !== DEFAULT_PRODUCT_ID && (
+            <Form.Item name="isActive" label="Active" valuePropName="checked">
+              <Switch />
+            </Form.Item>
+          )}
+        </Form>
+      </Modal>
+    </div>
+  );
+};
+
+export default Products;
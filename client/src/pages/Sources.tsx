@@ -5,33 +5,36 @@
  */
 
 import React, { useState, useEffect } from 'react';
-import { Table, Button, Modal, Form, Input, Select, Tag, Popconfirm, message, Card, Space } from 'antd';
-import { PlusOutlined, EditOutlined, DeleteOutlined } from '@ant-design/icons';
-import axios from 'axios';
+import { Table, Button, Modal, Form, Input, Select, Tag, Popconfirm, message, Card, Space, Statistic } from 'antd';
+import { PlusOutlined, EditOutlined, DeleteOutlined, TableOutlined, BookOutlined } from '@ant-design/icons';
+import { sourceApi } from '../services/api';
+import { useSettings } from '../contexts/SettingsContext';
+import { Source, SupplierPayable } from '../types';
+import SourceRateChartModal from '../components/SourceRateChartModal';
+import SupplierLedgerModal from '../components/SupplierLedgerModal';
 
 const { Option } = Select;
 
-interface Source {
-  id: string;
-  name: string;
-  type: string;
-  isActive: boolean;
-}
-
 const Sources: React.FC = () => {
+  const { formatCurrency } = useSettings();
   const [sources, setSources] = useState<Source[]>([]);
+  const [payables, setPayables] = useState<Map<string, SupplierPayable>>(new Map());
   const [loading, setLoading] = useState(false);
   const [isModalVisible, setIsModalVisible] = useState(false);
   const [form] = Form.useForm();
   const [editingId, setEditingId] = useState<string | null>(null);
+  const [rateChartSource, setRateChartSource] = useState<Source | null>(null);
+  const [ledgerSource, setLedgerSource] = useState<Source | null>(null);
 
   const fetchSources = async () => {
     setLoading(true);
     try {
-      const response = await axios.get('/api/sources');
-      if (response.data.success) {
-        setSources(response.data.data);
-      }
+      const [sourcesData, payablesData] = await Promise.all([
+        sourceApi.getAll(),
+        sourceApi.getPayables(),
+      ]);
+      setSources(sourcesData);
+      setPayables(new Map(payablesData.map((p) => [p.sourceId, p])));
     } catch (error) {
       console.error('Failed to fetch sources', error);
       message.error('Failed to load sources');
@@ -58,11 +61,11 @@ const Sources: React.FC = () => {
 
   const handleDelete = async (id: string) => {
     try {
-      await axios.delete(`/api/sources/${id}`);
+      await sourceApi.delete(id);
       message.success('Source deleted successfully');
       fetchSources();
     } catch (error) {
-      message.error('Failed to delete source');
+      message.error(error instanceof Error ? error.message : 'Failed to delete source');
     }
   };
 
@@ -71,11 +74,11 @@ const Sources: React.FC = () => {
       const values = await form.validateFields();
       if (editingId) {
         // Update
-        await axios.put(`/api/sources/${editingId}`, values);
+        await sourceApi.update(editingId, values);
         message.success('Source updated successfully');
       } else {
         // Create
-        await axios.post('/api/sources', values);
+        await sourceApi.create(values);
         message.success('Source created successfully');
       }
       setIsModalVisible(false);
@@ -111,11 +114,31 @@ const Sources: React.FC = () => {
         </Tag>
       ),
     },
+    {
+      title: 'Payable',
+      key: 'payable',
+      render: (_: unknown, record: Source) => {
+        const payable = payables.get(record.id);
+        if (!payable) return '-';
+        return (
+          <div>
+            <div className={`font-medium ${payable.balance > 0 ? 'text-red-500' : ''}`}>
+              {formatCurrency(payable.balance)}
+            </div>
+            {payable.unpricedQuantity > 0 && (
+              <div className="text-xs text-gray-500">{payable.unpricedQuantity.toFixed(1)} L not priced</div>
+            )}
+          </div>
+        );
+      },
+    },
     {
       title: 'Actions',
       key: 'actions',
       render: (_: any, record: Source) => (
         <Space>
+          <Button icon={<BookOutlined />} onClick={() => setLedgerSource(record)}>Ledger</Button>
+          <Button icon={<TableOutlined />} onClick={() => setRateChartSource(record)}>Rate Chart</Button>
           <Button icon={<EditOutlined />} onClick={() => handleEdit(record)} />
           <Popconfirm title="Are you sure?" onConfirm={() => handleDelete(record.id)}>
              <Button danger icon={<DeleteOutlined />} />
@@ -134,6 +157,13 @@ const Sources: React.FC = () => {
         </Button>
       </div>
 
+      <Card className="mb-6">
+        <Statistic
+          title="Total Outstanding Payables"
+          value={formatCurrency(Array.from(payables.values()).reduce((acc, p) => acc + p.balance, 0))}
+        />
+      </Card>
+
       <Card>
         <Table columns={columns} dataSource={sources} rowKey="id" loading={loading} />
       </Card>
@@ -162,6 +192,19 @@ const Sources: React.FC = () => {
           )}
         </Form>
       </Modal>
+
+      <SourceRateChartModal
+        isOpen={!!rateChartSource}
+        onClose={() => setRateChartSource(null)}
+        source={rateChartSource}
+      />
+
+      <SupplierLedgerModal
+        isOpen={!!ledgerSource}
+        onClose={() => setLedgerSource(null)}
+        source={ledgerSource}
+        onChange={fetchSources}
+      />
     </div>
   );
 };
@@ -1,8 +1,9 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { 
   Card, 
   Button, 
   Table, 
+  TableProps,
   Form, 
   InputNumber, 
   Select, 
@@ -18,42 +19,63 @@ import {
 import { 
   PlusOutlined, 
   DeleteOutlined, 
-  ExperimentOutlined 
+  ExperimentOutlined,
+  HistoryOutlined
 } from '@ant-design/icons';
 import dayjs from 'dayjs';
-import { stockApi } from '../services/api';
-import { Stock as StockType, StockFormData, Shift } from '../types';
+import { stockApi, productApi } from '../services/api';
+import { Stock as StockType, StockFormData, Shift, Product, ProductInventory, PaginationParams } from '../types';
 import { useSettings } from '../contexts/SettingsContext';
+import StockLedgerModal from '../components/StockLedgerModal';
+import ExportButton from '../components/ExportButton';
+import { showUndoToast } from '@/utils/undoToast';
+import { tablePageParams } from '@/utils/helpers';
 
 const { Option } = Select;
+const { RangePicker } = DatePicker;
+
+/** ID of the built-in milk product */
+const DEFAULT_PRODUCT_ID = 'milk';
 
 const Stock: React.FC = () => {
-  const { settings } = useSettings();
+  const { settings, formatCurrency } = useSettings();
   const [form] = Form.useForm();
   
   const [stocks, setStocks] = useState<StockType[]>([]);
+  const [stockTotal, setStockTotal] = useState(0);
+  const [pageParams, setPageParams] = useState<PaginationParams>({ page: 1, limit: 5 });
   const [sourcesList, setSourcesList] = useState<any[]>([]);
   const [inventory, setInventory] = useState(0);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [productInventory, setProductInventory] = useState<ProductInventory[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
+  const [isLedgerOpen, setIsLedgerOpen] = useState(false);
+  const [exportRange, setExportRange] = useState<[dayjs.Dayjs, dayjs.Dayjs] | null>([dayjs().startOf('month'), dayjs()]);
 
   // Fetch initial data
-  const fetchData = async () => {
+  const fetchData = useCallback(async () => {
     try {
       setIsLoading(true);
-      const [stocksData, inventoryData] = await Promise.all([
-        stockApi.getAll(),
+      const [stocksPage, inventoryData] = await Promise.all([
+        stockApi.getPage(pageParams),
         stockApi.getInventory(),
       ]);
-      setStocks(stocksData);
+      setStocks(stocksPage.items);
+      setStockTotal(stocksPage.total);
       setInventory(inventoryData.currentInventory);
+      setProductInventory(inventoryData.products || []);
     } catch (error) {
       console.error('Failed to fetch stock data:', error);
       message.error('Failed to load stock data');
     } finally {
       setIsLoading(false);
     }
-  };
+  }, [pageParams]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
 
   const fetchSources = async () => {
       try {
@@ -66,9 +88,14 @@ const Stock: React.FC = () => {
 
   useEffect(() => {
     fetchSources();
-    fetchData();
+    productApi.getAll(true)
+      .then(setProducts)
+      .catch((error) => console.error('Failed to fetch products', error));
   }, []);
 
+  const productById = new Map(products.map((p) => [p.id, p]));
+  const milkInventory = productInventory.find((p) => p.productId === DEFAULT_PRODUCT_ID);
+
   const handleSubmit = async (values: any) => {
     try {
       setIsSaving(true);
@@ -76,7 +103,10 @@ const Stock: React.FC = () => {
           date: values.date.format('YYYY-MM-DD'),
           shift: values.shift,
           source: values.source,
-          quantity: values.quantity
+          quantity: values.quantity,
+          productId: values.productId,
+          fat: values.fat ?? undefined,
+          snf: values.snf ?? undefined
       };
       
       await stockApi.create(payload);
@@ -86,7 +116,8 @@ const Stock: React.FC = () => {
       // Reset date to today and shift to morning default
       form.setFieldsValue({
           date: dayjs(),
-          shift: Shift.MORNING
+          shift: Shift.MORNING,
+          productId: DEFAULT_PRODUCT_ID
       });
       
       await fetchData();
@@ -100,8 +131,8 @@ const Stock: React.FC = () => {
 
   const handleDelete = async (id: string) => {
     try {
-      await stockApi.delete(id);
-      message.success('Stock entry deleted');
+      const changeSet = await stockApi.delete(id);
+      showUndoToast('Stock entry deleted', changeSet, fetchData);
       await fetchData();
     } catch (error) {
       console.error('Failed to delete stock:', error);
@@ -109,11 +140,16 @@ const Stock: React.FC = () => {
     }
   };
 
+  const handleTableChange: TableProps<StockType>['onChange'] = (pagination, _filters, sorter) => {
+    setPageParams(tablePageParams(pagination, sorter));
+  };
+
   const columns = [
     {
       title: 'Date',
       dataIndex: 'date',
       key: 'date',
+      sorter: true,
       render: (text: string) => dayjs(text).format('DD MMM YYYY'),
     },
     {
@@ -132,11 +168,36 @@ const Stock: React.FC = () => {
       key: 'sourceName',
       render: (text: string, record: StockType) => text || record.source,
     },
+    ...(products.length > 1 ? [{
+      title: 'Product',
+      dataIndex: 'productId',
+      key: 'productId',
+      render: (productId: string) => productById.get(productId)?.name ?? productId,
+    }] : []),
     {
-      title: 'Quantity (L)',
+      title: 'Quantity',
       dataIndex: 'quantity',
       key: 'quantity',
-      render: (val: number) => <span className="font-medium text-green-600">+{val} L</span>,
+      sorter: true,
+      render: (val: number, record: StockType) => (
+        <span className="font-medium text-green-600">
+          +{val} {productById.get(record.productId ?? DEFAULT_PRODUCT_ID)?.unit ?? 'L'}
+        </span>
+      ),
+    },
+    {
+      title: 'Value',
+      dataIndex: 'amount',
+      key: 'amount',
+      sorter: true,
+      render: (amount: number | null | undefined, record: StockType) => (
+        amount !== null && amount !== undefined ? (
+          <div>
+            <div className="font-medium">{formatCurrency(amount)}</div>
+            <div className="text-xs text-gray-500">Fat {record.fat}% · SNF {record.snf}%</div>
+          </div>
+        ) : '-'
+      ),
     },
     {
       title: 'Actions',
@@ -176,8 +237,23 @@ const Stock: React.FC = () => {
               initialValues={{
                 date: dayjs(),
                 shift: Shift.MORNING,
+                productId: DEFAULT_PRODUCT_ID,
               }}
             >
+              {products.length > 1 && (
+                <Form.Item
+                  name="productId"
+                  label="Product"
+                  rules={[{ required: true, message: 'Please select product' }]}
+                >
+                  <Select>
+                    {products.map((product) => (
+                      <Option key={product.id} value={product.id}>{product.name} ({product.unit})</Option>
+                    ))}
+                  </Select>
+                </Form.Item>
+              )}
+
               <Row gutter={16}>
                 <Col span={12}>
                   <Form.Item
@@ -219,7 +295,7 @@ const Stock: React.FC = () => {
                 <Col span={12}>
                   <Form.Item
                     name="quantity"
-                    label="Quantity Collected (L)"
+                    label="Quantity Collected"
                     rules={[
                         { required: true, message: 'Enter quantity' },
                         { type: 'number', min: 0.1, message: 'Must be greater than 0' }
@@ -230,6 +306,28 @@ const Stock: React.FC = () => {
                 </Col>
               </Row>
 
+              <Row gutter={16}>
+                <Col span={12}>
+                  <Form.Item
+                    name="fat"
+                    label="Fat %"
+                    extra="Prices the collection from the source's rate chart"
+                    rules={[{ type: 'number', min: 0, max: 100, message: 'Enter a percentage' }]}
+                  >
+                    <InputNumber className="w-full" step={0.1} placeholder="e.g. 4.2" />
+                  </Form.Item>
+                </Col>
+                <Col span={12}>
+                  <Form.Item
+                    name="snf"
+                    label="SNF %"
+                    rules={[{ type: 'number', min: 0, max: 100, message: 'Enter a percentage' }]}
+                  >
+                    <InputNumber className="w-full" step={0.1} placeholder="e.g. 8.5" />
+                  </Form.Item>
+                </Col>
+              </Row>
+
               <Form.Item>
                 <Button 
                     type="primary" 
@@ -260,23 +358,68 @@ const Stock: React.FC = () => {
                     />
                     <div className="mt-2 text-xs text-blue-500">
                         {((inventory / (settings?.maxCapacity || 2000)) * 100).toFixed(0)}% of max capacity
+                        {milkInventory?.lastCountDate && ` · counted ${dayjs(milkInventory.lastCountDate).format('DD MMM')}`}
                     </div>
+                    {productInventory.filter((p) => p.productId !== DEFAULT_PRODUCT_ID && p.current !== 0).map((p) => (
+                        <div key={p.productId} className="mt-1 flex justify-between text-sm text-blue-600">
+                            <span>{p.name}</span>
+                            <span className="font-medium">{p.current.toFixed(1)} {p.unit}</span>
+                        </div>
+                    ))}
+                    <Button
+                        className="mt-3"
+                        icon={<HistoryOutlined />}
+                        onClick={() => setIsLedgerOpen(true)}
+                    >
+                        Ledger &amp; Adjustments
+                    </Button>
                 </Card>
 
                 {/* Recent Stocks Table */}
-                <Card title="Recent Collections" className="shadow-sm" bodyStyle={{ padding: 0 }}>
+                <Card title="Collections" className="shadow-sm" bodyStyle={{ padding: 0 }}>
                     <Table
-                        dataSource={stocks.slice(0, 5)}
+                        dataSource={stocks}
                         columns={columns}
                         rowKey="id"
-                        pagination={false}
+                        pagination={{
+                            current: pageParams.page,
+                            pageSize: pageParams.limit,
+                            total: stockTotal,
+                            size: 'small',
+                            className: 'px-3',
+                        }}
+                        onChange={handleTableChange}
                         size="small"
                         loading={isLoading}
                     />
+                    <div className="flex flex-wrap items-center gap-2 p-3 border-t border-gray-100">
+                        <RangePicker
+                            size="small"
+                            value={exportRange}
+                            onChange={(dates) => setExportRange(dates as [dayjs.Dayjs, dayjs.Dayjs] | null)}
+                            allowClear
+                        />
+                        <ExportButton
+                            size="small"
+                            fileName="stock-collections"
+                            onExport={(format) => stockApi.export(
+                                format,
+                                exportRange?.[0].format('YYYY-MM-DD'),
+                                exportRange?.[1].format('YYYY-MM-DD')
+                            )}
+                        />
+                    </div>
                 </Card>
              </Space>
         </Col>
       </Row>
+
+      <StockLedgerModal
+        isOpen={isLedgerOpen}
+        onClose={() => setIsLedgerOpen(false)}
+        products={products}
+        onChange={fetchData}
+      />
     </div>
   );
 };
@@ -0,0 +1,200 @@
+/**
+ * Users Management Page
+ *
+ * Owner-only management of staff accounts and their roles.
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Table, Button, Modal, Form, Input, Select, Switch, Tag, Popconfirm, message, Card, Space } from 'antd';
+import { PlusOutlined, EditOutlined, StopOutlined } from '@ant-design/icons';
+import { userApi } from '../services/api';
+import { useAuth } from '../contexts/AuthContext';
+import { User, UserFormData, UserRole } from '../types';
+
+const { Option } = Select;
+
+const ROLE_LABELS: Record<UserRole, { label: string; color: string }> = {
+  [UserRole.OWNER]: { label: 'Owner', color: 'purple' },
+  [UserRole.ACCOUNTANT]: { label: 'Accountant', color: 'blue' },
+  [UserRole.DELIVERY]: { label: 'Delivery Staff', color: 'green' },
+};
+
+const Users: React.FC = () => {
+  const { user: currentUser } = useAuth();
+  const [users, setUsers] = useState<User[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [isModalVisible, setIsModalVisible] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form] = Form.useForm();
+
+  const fetchUsers = async () => {
+    setLoading(true);
+    try {
+      setUsers(await userApi.getAll());
+    } catch (error) {
+      console.error('Failed to fetch users', error);
+      message.error('Failed to load users');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchUsers();
+  }, []);
+
+  const handleAdd = () => {
+    setEditingId(null);
+    form.resetFields();
+    form.setFieldsValue({ role: UserRole.DELIVERY });
+    setIsModalVisible(true);
+  };
+
+  const handleEdit = (record: User) => {
+    setEditingId(record.id);
+    form.setFieldsValue({ ...record, password: undefined });
+    setIsModalVisible(true);
+  };
+
+  const handleDeactivate = async (id: string) => {
+    try {
+      await userApi.delete(id);
+      message.success('User deactivated');
+      fetchUsers();
+    } catch (error) {
+      message.error(error instanceof Error ? error.message : 'Failed to deactivate user');
+    }
+  };
+
+  const handleOk = async () => {
+    let values: UserFormData;
+    try {
+      values = await form.validateFields();
+    } catch (error) {
+      console.error('Validation failed:', error);
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      if (editingId) {
+        // The username cannot be changed once the account exists
+        await userApi.update(editingId, {
+          name: values.name,
+          role: values.role,
+          isActive: values.isActive,
+          password: values.password || undefined,
+        });
+        message.success('User updated successfully');
+      } else {
+        await userApi.create(values);
+        message.success('User created successfully');
+      }
+      setIsModalVisible(false);
+      fetchUsers();
+    } catch (error) {
+      message.error(error instanceof Error ? error.message : 'Failed to save user');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const columns = [
+    {
+      title: 'Name',
+      dataIndex: 'name',
+      key: 'name',
+    },
+    {
+      title: 'Username',
+      dataIndex: 'username',
+      key: 'username',
+    },
+    {
+      title: 'Role',
+      dataIndex: 'role',
+      key: 'role',
+      render: (role: UserRole) => (
+        <Tag color={ROLE_LABELS[role]?.color}>{ROLE_LABELS[role]?.label || role}</Tag>
+      ),
+    },
+    {
+      title: 'Status',
+      dataIndex: 'isActive',
+      key: 'isActive',
+      render: (isActive: boolean) => (
+        <Tag color={isActive ? 'success' : 'error'}>
+          {isActive ? 'ACTIVE' : 'INACTIVE'}
+        </Tag>
+      ),
+    },
+    {
+      title: 'Actions',
+      key: 'actions',
+      render: (_: unknown, record: User) => (
+        <Space>
+          <Button icon={<EditOutlined />} onClick={() => handleEdit(record)} />
+          {record.isActive && record.id !== currentUser?.id && (
+            <Popconfirm title="Deactivate this user?" onConfirm={() => handleDeactivate(record.id)}>
+              <Button danger icon={<StopOutlined />} />
+            </Popconfirm>
+          )}
+        </Space>
+      ),
+    },
+  ];
+
+  return (
+    <div className="p-6">
+      <div className="mb-6 flex items-center justify-between">
+        <h1 className="text-2xl font-bold text-gray-800">User Management</h1>
+        <Button type="primary" icon={<PlusOutlined />} onClick={handleAdd}>
+          Add User
+        </Button>
+      </div>
+
+      <Card>
+        <Table columns={columns} dataSource={users} rowKey="id" loading={loading} />
+      </Card>
+
+      <Modal
+        title={editingId ? 'Edit User' : 'Add User'}
+        open={isModalVisible}
+        onOk={handleOk}
+        confirmLoading={isSaving}
+        onCancel={() => setIsModalVisible(false)}
+      >
+        <Form form={form} layout="vertical">
+          <Form.Item name="name" label="Full Name" rules={[{ required: true, message: 'Please enter name' }]}>
+            <Input />
+          </Form.Item>
+          <Form.Item name="username" label="Username" rules={[{ required: true, message: 'Please enter username' }]}>
+            <Input disabled={!!editingId} autoComplete="off" />
+          </Form.Item>
+          <Form.Item
+            name="password"
+            label={editingId ? 'New Password (leave blank to keep)' : 'Password'}
+            rules={[{ required: !editingId, message: 'Please enter password' }, { min: 6, message: 'At least 6 characters' }]}
+          >
+            <Input.Password autoComplete="new-password" />
+          </Form.Item>
+          <Form.Item name="role" label="Role" rules={[{ required: true, message: 'Please select role' }]}>
+            <Select disabled={editingId === currentUser?.id}>
+              {Object.values(UserRole).map((role) => (
+                <Option key={role} value={role}>{ROLE_LABELS[role].label}</Option>
+              ))}
+            </Select>
+          </Form.Item>
+          {editingId && editingId !== currentUser?.id && (
+            <Form.Item name="isActive" label="Active" valuePropName="checked">
+              <Switch />
+            </Form.Item>
+          )}
+        </Form>
+      </Modal>
+    </div>
+  );
+};
+
+export default Users;
@@ -10,21 +10,80 @@ import {
   Customer,
   CustomerFormData,
   CustomerCategory,
+  CustomerPrice,
+  CustomerStatement,
+  CustomerImportMapping,
+  CustomerImportResult,
+  ExportFormat,
+  RestoreMode,
+  RestoreResult,
+  StoredBackup,
+  AuditLogEntry,
+  AuditLogFilters,
+  BulkDeliveryResult,
+  BulkDeliveryUpdateResult,
+  ChangeSetRef,
+  UndoResult,
+  CustomerPause,
+  CustomerPauseFormData,
+  QuotaSchedule,
+  QuotaScheduleFormData,
   Delivery,
   DeliveryEntry,
+  DeliveryRoute,
+  RouteStop,
+  RouteFormData,
+  Product,
+  ProductFormData,
+  CustomerProduct,
+  CustomerProductFormData,
   Stock,
   StockFormData,
   StockSourceOption,
+  StockMovement,
+  StockMovementFormData,
+  StockLedger,
   Settings,
   CustomerBillingSummary,
   CustomerInvoice,
+  Invoice,
+  InvoiceStatus,
+  InvoiceType,
+  InvoiceNoteFormData,
   DashboardStats,
   YesterdayComparison,
   InventoryData,
   ApiResponse,
+  PaginatedResponse,
+  PaginationParams,
+  CustomerDeliveryPage,
+  CustomerListFilters,
+  StockListFilters,
+  MonthlyBillingFilters,
+  PaymentFilters,
   Shift,
   CreatePaymentDTO,
+  UpdatePaymentDTO,
   Payment,
+  PeriodBalance,
+  AgingReport,
+  AuthUser,
+  LoginResponse,
+  User,
+  UserFormData,
+  Source,
+  SourceRateChart,
+  RateChartFormData,
+  SupplierPayable,
+  SupplierPayment,
+  SupplierPaymentFormData,
+  SupplierStatement,
+  StatementPeriod,
+  MessageLog,
+  SendMessagesDTO,
+  SendMessagesResult,
+  PortalLink,
+  CustomerPortalView,
 } from '../types';
 
 /**
@@ -43,18 +102,140 @@ const api: AxiosInstance = axios.create({
   timeout: 15000,
 });
 
+/**
+ * Auth token persistence
+ */
+const TOKEN_STORAGE_KEY = 'dairy-auth-token';
+
+export const authToken = {
+  get: (): string | null => localStorage.getItem(TOKEN_STORAGE_KEY),
+  set: (token: string): void => localStorage.setItem(TOKEN_STORAGE_KEY, token),
+  clear: (): void => localStorage.removeItem(TOKEN_STORAGE_KEY),
+};
+
+/**
+ * Called when the server rejects the token (expired or deactivated account)
+ */
+let unauthorizedHandler: (() => void) | null = null;
+
+export const setUnauthorizedHandler = (handler: (() => void) | null): void => {
+  unauthorizedHandler = handler;
+};
+
+/**
+ * Request interceptor to attach the auth token
+ */
+api.interceptors.request.use((config) => {
+  const token = authToken.get();
+  if (token) {
+    config.headers.Authorization = `Bearer ${token}`;
+  }
+  return config;
+});
+
+const NETWORK_ERROR = 'NetworkError';
+
+/**
+ * Whether a request failed without reaching the server
+ */
+export const isNetworkError = (error: unknown): boolean =>
+  error instanceof Error && error.name === NETWORK_ERROR;
+
+/**
+ * HTTP status the server refused a request with, if it answered
+ */
+export const errorStatus = (error: unknown): number | undefined =>
+  error instanceof Error ? (error as Error & { status?: number }).status : undefined;
+
 /**
  * Response interceptor for error handling
  */
 api.interceptors.response.use(
   (response) => response,
   (error: AxiosError<ApiResponse<null>>) => {
+    if (error.response?.status === 401 && unauthorizedHandler) {
+      unauthorizedHandler();
+    }
     const message = error.response?.data?.error || error.message || 'An unexpected error occurred';
     console.error('API Error:', message);
-    return Promise.reject(new Error(message));
+    const apiError: Error & { status?: number } = new Error(message);
+    apiError.status = error.response?.status;
+    // No response: the device is offline or the server is unreachable
+    if (!error.response) apiError.name = NETWORK_ERROR;
+    return Promise.reject(apiError);
   }
 );
 
+// ============================================================================
+// Auth API
+// ============================================================================
+
+export const authApi = {
+  /**
+   * Log in with username and password
+   */
+  login: async (username: string, password: string): Promise<LoginResponse> => {
+    const response = await api.post<ApiResponse<LoginResponse>>('/auth/login', { username, password });
+    if (!response.data.data) throw new Error('Login failed');
+    return response.data.data;
+  },
+
+  /**
+   * Get the currently logged-in user
+   */
+  me: async (): Promise<AuthUser> => {
+    const response = await api.get<ApiResponse<AuthUser>>('/auth/me');
+    if (!response.data.data) throw new Error('Not logged in');
+    return response.data.data;
+  },
+
+  /**
+   * Change the current user's password
+   */
+  changePassword: async (currentPassword: string, newPassword: string): Promise<void> => {
+    await api.post('/auth/change-password', { currentPassword, newPassword });
+  },
+};
+
+// ============================================================================
+// User API
+// ============================================================================
+
+export const userApi = {
+  /**
+   * Get all user accounts
+   */
+  getAll: async (): Promise<User[]> => {
+    const response = await api.get<ApiResponse<User[]>>('/users');
+    return response.data.data || [];
+  },
+
+  /**
+   * Create a user account
+   */
+  create: async (data: UserFormData): Promise<User> => {
+    const response = await api.post<ApiResponse<User>>('/users', data);
+    if (!response.data.data) throw new Error('Failed to create user');
+    return response.data.data;
+  },
+
+  /**
+   * Update a user account
+   */
+  update: async (id: string, data: Partial<UserFormData>): Promise<User> => {
+    const response = await api.put<ApiResponse<User>>(`/users/${id}`, data);
+    if (!response.data.data) throw new Error('Failed to update user');
+    return response.data.data;
+  },
+
+  /**
+   * Deactivate a user account
+   */
+  delete: async (id: string): Promise<void> => {
+    await api.delete(`/users/${id}`);
+  },
+};
+
 // ============================================================================
 // Customer API
 // ============================================================================
@@ -72,6 +253,17 @@ export const customerApi = {
     return response.data.data || [];
   },
 
+  /**
+   * Get one page of customers, filtered and sorted on the server
+   */
+  getPage: async (filters: CustomerListFilters = {}): Promise<PaginatedResponse<Customer>> => {
+    const response = await api.get<ApiResponse<PaginatedResponse<Customer>>>('/customers', {
+      params: { page: 1, ...filters },
+    });
+    if (!response.data.data) throw new Error('Failed to fetch customers');
+    return response.data.data;
+  },
+
   /**
    * Get customers by category
    */
@@ -98,6 +290,22 @@ export const customerApi = {
     return response.data.data;
   },
 
+  /**
+   * Import customers from a CSV or XLSX file; a dry run only validates it
+   */
+  import: async (file: File, mapping: CustomerImportMapping, dryRun: boolean): Promise<CustomerImportResult> => {
+    const form = new FormData();
+    form.append('file', file);
+    form.append('mapping', JSON.stringify(mapping));
+    const response = await api.post<ApiResponse<CustomerImportResult>>('/customers/import', form, {
+      params: { dryRun },
+      headers: { 'Content-Type': 'multipart/form-data' },
+      timeout: 60000,
+    });
+    if (!response.data.data) throw new Error('Failed to import customers');
+    return response.data.data;
+  },
+
   /**
    * Update an existing customer
    */
@@ -107,6 +315,123 @@ export const customerApi = {
     return response.data.data;
   },
 
+  /**
+   * Get a customer's price history (newest first)
+   */
+  getPriceHistory: async (id: string): Promise<CustomerPrice[]> => {
+    const response = await api.get<ApiResponse<CustomerPrice[]>>(`/customers/${id}/prices`);
+    return response.data.data || [];
+  },
+
+  /**
+   * Get a customer's account statement with running balance
+   */
+  getStatement: async (id: string, from: string, to: string): Promise<CustomerStatement> => {
+    const response = await api.get<ApiResponse<CustomerStatement>>(`/customers/${id}/statement`, {
+      params: { from, to },
+    });
+    if (!response.data.data) throw new Error('Statement not found');
+    return response.data.data;
+  },
+
+  /**
+   * Download a customer's account statement as a PDF
+   */
+  getStatementPdf: async (id: string, from: string, to: string): Promise<Blob> => {
+    const response = await api.get<Blob>(`/customers/${id}/statement/pdf`, {
+      params: { from, to },
+      responseType: 'blob',
+    });
+    return response.data;
+  },
+
+  /**
+   * Create a signed link to the customer's read-only portal
+   */
+  createPortalLink: async (id: string, expiresInDays: number): Promise<PortalLink> => {
+    const response = await api.post<ApiResponse<PortalLink>>(`/customers/${id}/portal-link`, { expiresInDays });
+    if (!response.data.data) throw new Error('Failed to create portal link');
+    return response.data.data;
+  },
+
+  /**
+   * Revoke every portal link issued to the customer so far
+   */
+  revokePortalLinks: async (id: string): Promise<void> => {
+    await api.delete(`/customers/${id}/portal-link`);
+  },
+
+  /**
+   * Get a customer's quota schedule (null when only base quotas apply)
+   */
+  getQuotaSchedule: async (id: string): Promise<QuotaSchedule | null> => {
+    const response = await api.get<ApiResponse<QuotaSchedule | null>>(`/customers/${id}/quota-schedule`);
+    return response.data.data || null;
+  },
+
+  /**
+   * Create or replace a customer's quota schedule
+   */
+  setQuotaSchedule: async (id: string, data: QuotaScheduleFormData): Promise<QuotaSchedule> => {
+    const response = await api.put<ApiResponse<QuotaSchedule>>(`/customers/${id}/quota-schedule`, data);
+    if (!response.data.data) throw new Error('Failed to save quota schedule');
+    return response.data.data;
+  },
+
+  /**
+   * Remove a customer's quota schedule
+   */
+  deleteQuotaSchedule: async (id: string): Promise<void> => {
+    await api.delete(`/customers/${id}/quota-schedule`);
+  },
+
+  /**
+   * Get a customer's delivery pauses (most recent first)
+   */
+  getPauses: async (id: string): Promise<CustomerPause[]> => {
+    const response = await api.get<ApiResponse<CustomerPause[]>>(`/customers/${id}/pauses`);
+    return response.data.data || [];
+  },
+
+  /**
+   * Pause a customer's deliveries for a date range
+   */
+  addPause: async (id: string, data: CustomerPauseFormData): Promise<CustomerPause> => {
+    const response = await api.post<ApiResponse<CustomerPause>>(`/customers/${id}/pauses`, data);
+    if (!response.data.data) throw new Error('Failed to pause customer');
+    return response.data.data;
+  },
+
+  /**
+   * Remove a customer pause
+   */
+  deletePause: async (id: string, pauseId: string): Promise<void> => {
+    await api.delete(`/customers/${id}/pauses/${pauseId}`);
+  },
+
+  /**
+   * Get a customer's products (other than milk) with quotas and prices
+   */
+  getProducts: async (id: string): Promise<CustomerProduct[]> => {
+    const response = await api.get<ApiResponse<CustomerProduct[]>>(`/customers/${id}/products`);
+    return response.data.data || [];
+  },
+
+  /**
+   * Replace a customer's products (other than milk)
+   */
+  setProducts: async (
+    id: string,
+    products: CustomerProductFormData[],
+    priceEffectiveFrom?: string
+  ): Promise<CustomerProduct[]> => {
+    const response = await api.put<ApiResponse<CustomerProduct[]>>(`/customers/${id}/products`, {
+      products,
+      priceEffectiveFrom,
+    });
+    return response.data.data || [];
+  },
+
   /**
    * Delete a customer
    */
@@ -123,10 +448,17 @@ export const deliveryApi = {
   /**
    * Get deliveries for a specific date and shift
    */
-  getByDate: async (date: string, shift: Shift): Promise<Delivery[]> => {
-    const response = await api.get<ApiResponse<Delivery[]>>(
-      `/deliveries?date=${date}&shift=${shift}`
-    );
+  getByDate: async (
+    date: string,
+    shift: Shift,
+    routeId?: string,
+    productId?: string
+  ): Promise<Delivery[]> => {
+    const params = new URLSearchParams({ date, shift });
+    if (routeId) params.append('routeId', routeId);
+    if (productId) params.append('productId', productId);
+
+    const response = await api.get<ApiResponse<Delivery[]>>(`/deliveries?${params}`);
     return response.data.data || [];
   },
 
@@ -140,6 +472,24 @@ export const deliveryApi = {
     return response.data.data || { total: 0, date: '' };
   },
 
+  /**
+   * Download the delivery register for a date range as CSV or XLSX
+   */
+  export: async (filters: {
+    startDate: string;
+    endDate: string;
+    shift?: Shift;
+    productId?: string;
+    customerId?: string;
+    routeId?: string;
+  }, format: ExportFormat): Promise<Blob> => {
+    const response = await api.get<Blob>('/deliveries/export', {
+      params: { ...filters, format },
+      responseType: 'blob',
+    });
+    return response.data;
+  },
+
   /**
    * Create or update a single delivery
    */
@@ -147,15 +497,14 @@ export const deliveryApi = {
     customerId: string;
     date: string;
     shift: Shift;
+    productId?: string;
     quantity: number;
     delivered: boolean;
     notes?: string;
   }): Promise<Delivery> => {
     // Map quantity to actualAmount for backend
-    const payload = {
-      ...data,
-      actualAmount: data.quantity,
-    };
+    const { quantity, ...rest } = data;
+    const payload = { ...rest, actualAmount: quantity };
     const response = await api.post<ApiResponse<Delivery>>('/deliveries', payload);
     if (!response.data.data) throw new Error('Failed to save delivery');
     return response.data.data;
@@ -167,48 +516,66 @@ export const deliveryApi = {
   bulkUpdate: async (
     date: string,
     shift: Shift,
-    entries: DeliveryEntry[]
-  ): Promise<void> => {
-    await api.post('/deliveries/bulk', {
+    entries: DeliveryEntry[],
+    routeId?: string,
+    productId?: string
+  ): Promise<BulkDeliveryUpdateResult> => {
+    const response = await api.post<ApiResponse<BulkDeliveryUpdateResult>>('/deliveries/bulk', {
       date,
       shift,
+      routeId,
+      productId,
       deliveries: entries.map(e => ({
         customerId: e.customerId,
         actualAmount: e.quantity, // Map quantity to actualAmount
         delivered: e.delivered,
         notes: e.notes,
+        baseUpdatedAt: e.updatedAt,
       })),
     });
+    return response.data.data || { saved: entries.length, conflicts: [] };
   },
 
   /**
    * Autofill deliveries with customer quotas
    */
-  autofill: async (date: string, shift: Shift): Promise<{ count: number }> => {
-    const response = await api.post<ApiResponse<{ count: number }>>('/deliveries/autofill', {
+  autofill: async (
+    date: string,
+    shift: Shift,
+    routeId?: string,
+    productId?: string
+  ): Promise<BulkDeliveryResult> => {
+    const response = await api.post<ApiResponse<BulkDeliveryResult>>('/deliveries/autofill', {
       date,
       shift,
+      routeId,
+      productId,
     });
-    return response.data.data || { count: 0 };
+    return response.data.data || { count: 0, changeSet: null };
   },
 
   /**
    * Clear all deliveries for a date and shift
    */
-  clear: async (date: string, shift: Shift): Promise<void> => {
-    await api.post('/deliveries/clear', { date, shift });
+  clear: async (date: string, shift: Shift, routeId?: string, productId?: string): Promise<BulkDeliveryResult> => {
+    const response = await api.post<ApiResponse<BulkDeliveryResult>>('/deliveries/clear', { date, shift, routeId, productId });
+    return response.data.data || { count: 0, changeSet: null };
   },
 
   /**
-   * Get deliveries for a specific customer
+   * Get one page of a customer's deliveries
    */
-  getByCustomer: async (id: string, startDate?: string, endDate?: string): Promise<Delivery[]> => {
-    const params = new URLSearchParams();
-    if (startDate) params.append('startDate', startDate);
-    if (endDate) params.append('endDate', endDate);
-    
-    const response = await api.get<ApiResponse<Delivery[]>>(`/deliveries/customer/${id}?${params}`);
-    return response.data.data || [];
+  getByCustomer: async (
+    id: string,
+    startDate?: string,
+    endDate?: string,
+    pageParams: PaginationParams = {}
+  ): Promise<CustomerDeliveryPage> => {
+    const response = await api.get<ApiResponse<CustomerDeliveryPage>>(`/deliveries/customer/${id}`, {
+      params: { startDate, endDate, page: 1, ...pageParams },
+    });
+    if (!response.data.data) throw new Error('Failed to fetch deliveries');
+    return response.data.data;
   },
 };
 
@@ -218,16 +585,30 @@ export const deliveryApi = {
 
 export const stockApi = {
   /**
-   * Get all stock records
+   * Get one page of stock records, filtered and sorted on the server
    */
-  getAll: async (startDate?: string, endDate?: string, limit = 50): Promise<Stock[]> => {
-    const params = new URLSearchParams();
-    if (startDate) params.append('startDate', startDate);
-    if (endDate) params.append('endDate', endDate);
-    params.append('limit', String(limit));
-    
-    const response = await api.get<ApiResponse<Stock[]>>(`/stock?${params}`);
-    return response.data.data || [];
+  getPage: async (filters: StockListFilters = {}): Promise<PaginatedResponse<Stock>> => {
+    const response = await api.get<ApiResponse<PaginatedResponse<Stock>>>('/stock', {
+      params: { page: 1, ...filters },
+    });
+    if (!response.data.data) throw new Error('Failed to fetch stock records');
+    return response.data.data;
+  },
+
+  /**
+   * Download stock collections as CSV or XLSX
+   */
+  export: async (
+    format: ExportFormat,
+    startDate?: string,
+    endDate?: string,
+    productId?: string
+  ): Promise<Blob> => {
+    const response = await api.get<Blob>('/stock/export', {
+      params: { startDate, endDate, productId, format },
+      responseType: 'blob',
+    });
+    return response.data;
   },
 
   /**
@@ -259,8 +640,11 @@ export const stockApi = {
     return response.data.data || [];
   },
 
-  getAvailability: async (date: string): Promise<{ totalStock: number; totalDelivered: number }> => {
-    const response = await api.get<ApiResponse<{ totalStock: number; totalDelivered: number }>>('/stock/availability', { params: { date } });
+  getAvailability: async (
+    date: string,
+    productId?: string
+  ): Promise<{ totalStock: number; totalDelivered: number }> => {
+    const response = await api.get<ApiResponse<{ totalStock: number; totalDelivered: number }>>('/stock/availability', { params: { date, productId } });
     return response.data.data || { totalStock: 0, totalDelivered: 0 };
   },
 
@@ -274,10 +658,41 @@ export const stockApi = {
   },
 
   /**
-   * Delete a stock record
+   * Delete a stock record; the returned change set can undo it
    */
-  delete: async (id: string): Promise<void> => {
-    await api.delete(`/stock/${id}`);
+  delete: async (id: string): Promise<ChangeSetRef | null> => {
+    const response = await api.delete<ApiResponse<ChangeSetRef | null>>(`/stock/${id}`);
+    return response.data.data ?? null;
+  },
+
+  /**
+   * Get a product's inventory ledger for a date range
+   */
+  getLedger: async (
+    startDate: string,
+    endDate: string,
+    productId?: string
+  ): Promise<StockLedger | null> => {
+    const response = await api.get<ApiResponse<StockLedger>>('/stock/ledger', {
+      params: { startDate, endDate, productId },
+    });
+    return response.data.data || null;
+  },
+
+  /**
+   * Record wastage, spoilage, a counter sale, an adjustment or a physical count
+   */
+  recordMovement: async (data: StockMovementFormData): Promise<StockMovement> => {
+    const response = await api.post<ApiResponse<StockMovement>>('/stock/movements', data);
+    if (!response.data.data) throw new Error('Failed to record stock movement');
+    return response.data.data;
+  },
+
+  /**
+   * Delete a stock movement
+   */
+  deleteMovement: async (id: string): Promise<void> => {
+    await api.delete(`/stock/movements/${id}`);
   },
 };
 
@@ -296,6 +711,32 @@ export const billingApi = {
     return response.data.data || [];
   },
 
+  /**
+   * Get one page of the monthly billing summary
+   */
+  getMonthlyPage: async (
+    year: number,
+    month: number,
+    filters: MonthlyBillingFilters = {}
+  ): Promise<PaginatedResponse<CustomerBillingSummary>> => {
+    const response = await api.get<ApiResponse<PaginatedResponse<CustomerBillingSummary>>>('/billing/monthly', {
+      params: { month, year, page: 1, ...filters },
+    });
+    if (!response.data.data) throw new Error('Failed to fetch billing');
+    return response.data.data;
+  },
+
+  /**
+   * Download the monthly billing summary as CSV or XLSX
+   */
+  exportMonthly: async (year: number, month: number, format: ExportFormat): Promise<Blob> => {
+    const response = await api.get<Blob>('/billing/export', {
+      params: { month, year, format },
+      responseType: 'blob',
+    });
+    return response.data;
+  },
+
   /**
    * Get billing details for a specific customer
    */
@@ -326,6 +767,21 @@ export const billingApi = {
     return response.data.data;
   },
 
+  /**
+   * Download a customer's invoice as a PDF
+   */
+  getInvoicePdf: async (
+    customerId: string,
+    year: number,
+    month: number
+  ): Promise<Blob> => {
+    const response = await api.get<Blob>(`/billing/invoice/${customerId}/pdf`, {
+      params: { month, year },
+      responseType: 'blob',
+    });
+    return response.data;
+  },
+
   /**
    * Get today's revenue
    */
@@ -336,6 +792,14 @@ export const billingApi = {
     return response.data.data || { revenue: 0, date: '' };
   },
 
+  /**
+   * Get a customer's billed months with their outstanding amounts
+   */
+  getPeriodBalances: async (customerId: string): Promise<PeriodBalance[]> => {
+    const response = await api.get<ApiResponse<PeriodBalance[]>>(`/billing/customer/${customerId}/balances`);
+    return response.data.data || [];
+  },
+
   /**
    * Record a payment
    */
@@ -344,6 +808,195 @@ export const billingApi = {
     if (!response.data.data) throw new Error('Failed to record payment');
     return response.data.data;
   },
+
+  /**
+   * Get customer payments, newest first
+   */
+  getPayments: async (filters: PaymentFilters = {}): Promise<PaginatedResponse<Payment>> => {
+    const response = await api.get<ApiResponse<PaginatedResponse<Payment>>>('/billing/payments', {
+      params: { page: 1, ...filters },
+    });
+    if (!response.data.data) throw new Error('Failed to fetch payments');
+    return response.data.data;
+  },
+
+  /**
+   * Download payments matching the same filters as CSV or XLSX
+   */
+  exportPayments: async (filters: {
+    customerId?: string;
+    startDate?: string;
+    endDate?: string;
+    method?: string;
+    includeVoided?: boolean;
+  }, format: ExportFormat): Promise<Blob> => {
+    const response = await api.get<Blob>('/billing/payments/export', {
+      params: { ...filters, format },
+      responseType: 'blob',
+    });
+    return response.data;
+  },
+
+  /**
+   * Correct a payment; the original is voided and a replacement recorded
+   */
+  updatePayment: async (id: string, data: UpdatePaymentDTO): Promise<Payment> => {
+    const response = await api.put<ApiResponse<Payment>>(`/billing/payments/${id}`, data);
+    if (!response.data.data) throw new Error('Failed to update payment');
+    return response.data.data;
+  },
+
+  /**
+   * Void a payment
+   */
+  voidPayment: async (id: string, reason: string): Promise<Payment> => {
+    const response = await api.post<ApiResponse<Payment>>(`/billing/payments/${id}/void`, { reason });
+    if (!response.data.data) throw new Error('Failed to void payment');
+    return response.data.data;
+  },
+
+  /**
+   * Download a payment receipt as a PDF
+   */
+  getReceipt: async (id: string): Promise<Blob> => {
+    const response = await api.get<Blob>(`/billing/payments/${id}/receipt`, { responseType: 'blob' });
+    return response.data;
+  },
+
+  /**
+   * Get outstanding balances bucketed by days past due
+   */
+  getAging: async (): Promise<AgingReport> => {
+    const response = await api.get<ApiResponse<AgingReport>>('/billing/aging');
+    if (!response.data.data) throw new Error('Failed to load aging report');
+    return response.data.data;
+  },
+
+  /**
+   * Download the aging report as CSV
+   */
+  getAgingCsv: async (): Promise<Blob> => {
+    const response = await api.get<Blob>('/billing/aging/csv', { responseType: 'blob' });
+    return response.data;
+  },
+};
+
+// ============================================================================
+// Invoice API
+// ============================================================================
+
+export const invoiceApi = {
+  /**
+   * Get invoices and credit/debit notes
+   */
+  getAll: async (filters: {
+    month?: number;
+    year?: number;
+    customerId?: string;
+    status?: InvoiceStatus;
+    type?: InvoiceType;
+  } = {}): Promise<Invoice[]> => {
+    const response = await api.get<ApiResponse<Invoice[]>>('/invoices', { params: filters });
+    return response.data.data || [];
+  },
+
+  /**
+   * Get an invoice with its credit and debit notes
+   */
+  getById: async (id: string): Promise<Invoice> => {
+    const response = await api.get<ApiResponse<Invoice>>(`/invoices/${id}`);
+    if (!response.data.data) throw new Error('Invoice not found');
+    return response.data.data;
+  },
+
+  /**
+   * Create a draft invoice for a customer's month
+   */
+  create: async (customerId: string, month: number, year: number): Promise<Invoice> => {
+    const response = await api.post<ApiResponse<Invoice>>('/invoices', { customerId, month, year });
+    if (!response.data.data) throw new Error('Failed to create invoice');
+    return response.data.data;
+  },
+
+  /**
+   * Issue a draft invoice, assigning its number
+   */
+  issue: async (id: string): Promise<Invoice> => {
+    const response = await api.post<ApiResponse<Invoice>>(`/invoices/${id}/issue`);
+    if (!response.data.data) throw new Error('Failed to issue invoice');
+    return response.data.data;
+  },
+
+  /**
+   * Mark an issued invoice paid or unpaid, or void it
+   */
+  updateStatus: async (id: string, status: InvoiceStatus): Promise<Invoice> => {
+    const response = await api.patch<ApiResponse<Invoice>>(`/invoices/${id}/status`, { status });
+    if (!response.data.data) throw new Error('Failed to update invoice');
+    return response.data.data;
+  },
+
+  /**
+   * Raise a credit or debit note against an issued invoice
+   */
+  createNote: async (id: string, data: InvoiceNoteFormData): Promise<Invoice> => {
+    const response = await api.post<ApiResponse<Invoice>>(`/invoices/${id}/notes`, data);
+    if (!response.data.data) throw new Error('Failed to create note');
+    return response.data.data;
+  },
+
+  /**
+   * Delete a draft invoice
+   */
+  delete: async (id: string): Promise<void> => {
+    await api.delete(`/invoices/${id}`);
+  },
+
+  /**
+   * Download a stored invoice as a PDF
+   */
+  getPdf: async (id: string): Promise<Blob> => {
+    const response = await api.get<Blob>(`/invoices/${id}/pdf`, { responseType: 'blob' });
+    return response.data;
+  },
+};
+
+// ============================================================================
+// Message API
+// ============================================================================
+
+export const messageApi = {
+  /**
+   * Get sent messages, newest first
+   */
+  getAll: async (filters: { customerId?: string; limit?: number } = {}): Promise<MessageLog[]> => {
+    const response = await api.get<ApiResponse<MessageLog[]>>('/messages', { params: filters });
+    return response.data.data || [];
+  },
+
+  /**
+   * Send a templated message to the month's billed customers
+   */
+  send: async (data: SendMessagesDTO): Promise<SendMessagesResult> => {
+    const response = await api.post<ApiResponse<SendMessagesResult>>('/messages/send', data);
+    if (!response.data.data) throw new Error('Failed to send messages');
+    return response.data.data;
+  },
+};
+
+// ============================================================================
+// Portal API
+// ============================================================================
+
+export const portalApi = {
+  /**
+   * Get a customer's account view through their portal link (no login)
+   */
+  getView: async (token: string): Promise<CustomerPortalView> => {
+    const response = await api.get<ApiResponse<CustomerPortalView>>(`/portal/${encodeURIComponent(token)}`);
+    if (!response.data.data) throw new Error('Failed to load your account');
+    return response.data.data;
+  },
 };
 
 // ============================================================================
@@ -411,6 +1064,223 @@ export const dashboardApi = {
   },
 };
 
+// ============================================================================
+// Source API
+// ============================================================================
+
+export const sourceApi = {
+  /**
+   * Get all sources
+   */
+  getAll: async (): Promise<Source[]> => {
+    const response = await api.get<ApiResponse<Source[]>>('/sources');
+    return response.data.data || [];
+  },
+
+  /**
+   * Create a new source
+   */
+  create: async (data: Partial<Source>): Promise<Source> => {
+    const response = await api.post<ApiResponse<Source>>('/sources', data);
+    if (!response.data.data) throw new Error('Failed to create source');
+    return response.data.data;
+  },
+
+  /**
+   * Update a source
+   */
+  update: async (id: string, data: Partial<Source>): Promise<Source> => {
+    const response = await api.put<ApiResponse<Source>>(`/sources/${id}`, data);
+    if (!response.data.data) throw new Error('Failed to update source');
+    return response.data.data;
+  },
+
+  /**
+   * Delete a source
+   */
+  delete: async (id: string): Promise<void> => {
+    await api.delete(`/sources/${id}`);
+  },
+
+  /**
+   * Get a source's fat/SNF rate chart (null when not set)
+   */
+  getRateChart: async (id: string): Promise<SourceRateChart | null> => {
+    const response = await api.get<ApiResponse<SourceRateChart | null>>(`/sources/${id}/rate-chart`);
+    return response.data.data ?? null;
+  },
+
+  /**
+   * Create or replace a source's rate chart
+   */
+  setRateChart: async (id: string, data: RateChartFormData): Promise<SourceRateChart> => {
+    const response = await api.put<ApiResponse<SourceRateChart>>(`/sources/${id}/rate-chart`, data);
+    if (!response.data.data) throw new Error('Failed to save rate chart');
+    return response.data.data;
+  },
+
+  /**
+   * Remove a source's rate chart
+   */
+  deleteRateChart: async (id: string): Promise<void> => {
+    await api.delete(`/sources/${id}/rate-chart`);
+  },
+
+  /**
+   * Get purchases, payments and outstanding balance per source
+   */
+  getPayables: async (): Promise<SupplierPayable[]> => {
+    const response = await api.get<ApiResponse<SupplierPayable[]>>('/sources/payables');
+    return response.data.data || [];
+  },
+
+  /**
+   * Get payments made to a source
+   */
+  getPayments: async (id: string): Promise<SupplierPayment[]> => {
+    const response = await api.get<ApiResponse<SupplierPayment[]>>(`/sources/${id}/payments`);
+    return response.data.data || [];
+  },
+
+  /**
+   * Record a payment made to a source
+   */
+  recordPayment: async (id: string, data: SupplierPaymentFormData): Promise<SupplierPayment> => {
+    const response = await api.post<ApiResponse<SupplierPayment>>(`/sources/${id}/payments`, data);
+    if (!response.data.data) throw new Error('Failed to record supplier payment');
+    return response.data.data;
+  },
+
+  /**
+   * Delete a payment made to a source
+   */
+  deletePayment: async (id: string, paymentId: string): Promise<void> => {
+    await api.delete(`/sources/${id}/payments/${paymentId}`);
+  },
+
+  /**
+   * Get a source's statement for the period ending on endDate
+   */
+  getStatement: async (
+    id: string,
+    period: StatementPeriod,
+    endDate?: string
+  ): Promise<SupplierStatement> => {
+    const params = new URLSearchParams({ period });
+    if (endDate) params.append('endDate', endDate);
+
+    const response = await api.get<ApiResponse<SupplierStatement>>(`/sources/${id}/statement?${params}`);
+    if (!response.data.data) throw new Error('Failed to load supplier statement');
+    return response.data.data;
+  },
+};
+
+// ============================================================================
+// Product API
+// ============================================================================
+
+export const productApi = {
+  /**
+   * Get the product catalogue
+   */
+  getAll: async (active?: boolean): Promise<Product[]> => {
+    const params = new URLSearchParams();
+    if (active !== undefined) params.append('active', String(active));
+
+    const response = await api.get<ApiResponse<Product[]>>(`/products?${params}`);
+    return response.data.data || [];
+  },
+
+  /**
+   * Create a new product
+   */
+  create: async (data: ProductFormData): Promise<Product> => {
+    const response = await api.post<ApiResponse<Product>>('/products', data);
+    if (!response.data.data) throw new Error('Failed to create product');
+    return response.data.data;
+  },
+
+  /**
+   * Update a product
+   */
+  update: async (id: string, data: Partial<ProductFormData>): Promise<Product> => {
+    const response = await api.put<ApiResponse<Product>>(`/products/${id}`, data);
+    if (!response.data.data) throw new Error('Failed to update product');
+    return response.data.data;
+  },
+
+  /**
+   * Delete a product (deactivated instead if it has history)
+   */
+  delete: async (id: string): Promise<void> => {
+    await api.delete(`/products/${id}`);
+  },
+};
+
+// ============================================================================
+// Route API
+// ============================================================================
+
+export const routeApi = {
+  /**
+   * Get delivery routes (delivery staff only receive their own)
+   */
+  getAll: async (): Promise<DeliveryRoute[]> => {
+    const response = await api.get<ApiResponse<DeliveryRoute[]>>('/routes');
+    return response.data.data || [];
+  },
+
+  /**
+   * Get a route with its stops in delivery order
+   */
+  getById: async (id: string): Promise<DeliveryRoute> => {
+    const response = await api.get<ApiResponse<DeliveryRoute>>(`/routes/${id}`);
+    if (!response.data.data) throw new Error('Route not found');
+    return response.data.data;
+  },
+
+  /**
+   * Get delivery staff who can be assigned to a route
+   */
+  getAgents: async (): Promise<{ id: string; name: string }[]> => {
+    const response = await api.get<ApiResponse<{ id: string; name: string }[]>>('/routes/agents');
+    return response.data.data || [];
+  },
+
+  /**
+   * Create a new route
+   */
+  create: async (data: RouteFormData): Promise<DeliveryRoute> => {
+    const response = await api.post<ApiResponse<DeliveryRoute>>('/routes', data);
+    if (!response.data.data) throw new Error('Failed to create route');
+    return response.data.data;
+  },
+
+  /**
+   * Update a route
+   */
+  update: async (id: string, data: Partial<RouteFormData>): Promise<DeliveryRoute> => {
+    const response = await api.put<ApiResponse<DeliveryRoute>>(`/routes/${id}`, data);
+    if (!response.data.data) throw new Error('Failed to update route');
+    return response.data.data;
+  },
+
+  /**
+   * Replace a route's stops with customers in delivery order
+   */
+  setStops: async (id: string, customerIds: string[]): Promise<RouteStop[]> => {
+    const response = await api.put<ApiResponse<RouteStop[]>>(`/routes/${id}/stops`, { customerIds });
+    return response.data.data || [];
+  },
+
+  /**
+   * Delete a route
+   */
+  delete: async (id: string): Promise<void> => {
+    await api.delete(`/routes/${id}`);
+  },
+};
+
 // ============================================================================
 // Settings API
 // ============================================================================
@@ -444,4 +1314,85 @@ export const settingsApi = {
   },
 };
 
+// ============================================================================
+// Backup API
+// ============================================================================
+
+export const backupApi = {
+  /**
+   * Download a backup of the whole database as ZIP or JSON
+   */
+  download: async (format: 'zip' | 'json'): Promise<Blob> => {
+    const response = await api.get<Blob>('/backup', {
+      params: { format },
+      responseType: 'blob',
+      timeout: 120000,
+    });
+    return response.data;
+  },
+
+  /**
+   * Restore a JSON or ZIP backup, replacing or merging with current data
+   */
+  restore: async (file: File, mode: RestoreMode): Promise<RestoreResult> => {
+    const form = new FormData();
+    form.append('file', file);
+    form.append('mode', mode);
+    const response = await api.post<ApiResponse<RestoreResult>>('/backup/restore', form, {
+      headers: { 'Content-Type': 'multipart/form-data' },
+      timeout: 600000,
+    });
+    if (!response.data.data) throw new Error('Failed to restore backup');
+    return response.data.data;
+  },
+
+  /**
+   * List the scheduled backups kept on the server
+   */
+  getStored: async (): Promise<StoredBackup[]> => {
+    const response = await api.get<ApiResponse<StoredBackup[]>>('/backups');
+    return response.data.data || [];
+  },
+
+  /**
+   * Download a scheduled backup kept on the server
+   */
+  downloadStored: async (name: string): Promise<Blob> => {
+    const response = await api.get<Blob>(`/backups/${encodeURIComponent(name)}`, {
+      responseType: 'blob',
+      timeout: 120000,
+    });
+    return response.data;
+  },
+};
+
+// ============================================================================
+// Undo API
+// ============================================================================
+
+export const changeSetApi = {
+  /**
+   * Undo a clear, autofill or stock deletion shortly after it was made
+   */
+  undo: async (id: string): Promise<UndoResult> => {
+    const response = await api.post<ApiResponse<UndoResult>>(`/change-sets/${id}/undo`);
+    if (!response.data.data) throw new Error('Failed to undo');
+    return response.data.data;
+  },
+};
+
+// ============================================================================
+// Audit API
+// ============================================================================
+
+export const auditApi = {
+  /**
+   * Get the log of changes, newest first
+   */
+  getAll: async (filters: AuditLogFilters = {}): Promise<AuditLogEntry[]> => {
+    const response = await api.get<ApiResponse<AuditLogEntry[]>>('/audit', { params: filters });
+    return response.data.data || [];
+  },
+};
+
 export default api;
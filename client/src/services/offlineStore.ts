@@ -0,0 +1,112 @@
+/**
+ * Offline Store
+ *
+ * Keeps daily log work on the device in IndexedDB: unsaved edits per
+ * shift (drafts), so they survive a reload, and bulk delivery updates
+ * that could not be sent yet (the sync queue). Both belong to the user
+ * who made them, as a device can be shared.
+ */
+
+import { openDB, DBSchema, IDBPDatabase } from 'idb';
+import { DeliveryEntry, DeliveryShiftKey, QueuedDeliveryUpdate } from '../types';
+
+interface DeliveryDraft {
+  key: string;
+  entries: DeliveryEntry[];
+  savedAt: string;
+}
+
+interface OfflineDB extends DBSchema {
+  drafts: {
+    key: string;
+    value: DeliveryDraft;
+  };
+  queue: {
+    key: number;
+    value: QueuedDeliveryUpdate;
+  };
+}
+
+let dbPromise: Promise<IDBPDatabase<OfflineDB>> | null = null;
+
+const getDB = () => {
+  if (!dbPromise) {
+    dbPromise = openDB<OfflineDB>('dairy-offline', 1, {
+      upgrade(db) {
+        db.createObjectStore('drafts', { keyPath: 'key' });
+        db.createObjectStore('queue', { keyPath: 'id', autoIncrement: true });
+      },
+    });
+  }
+  return dbPromise;
+};
+
+/**
+ * Key of a shift: user, date, shift, route and product
+ */
+const shiftKey = (shift: DeliveryShiftKey) =>
+  [shift.userId, shift.date, shift.shift, shift.routeId ?? 'all', shift.productId].join('|');
+
+export const offlineStore = {
+  /**
+   * Unsaved edits for a shift, if any
+   */
+  getDraft: async (shift: DeliveryShiftKey): Promise<DeliveryEntry[] | null> => {
+    const draft = await (await getDB()).get('drafts', shiftKey(shift));
+    return draft?.entries ?? null;
+  },
+
+  /**
+   * Keep a shift's unsaved edits
+   */
+  saveDraft: async (shift: DeliveryShiftKey, entries: DeliveryEntry[]): Promise<void> => {
+    await (await getDB()).put('drafts', {
+      key: shiftKey(shift),
+      entries,
+      savedAt: new Date().toISOString(),
+    });
+  },
+
+  /**
+   * Drop a shift's unsaved edits once they are saved or queued
+   */
+  deleteDraft: async (shift: DeliveryShiftKey): Promise<void> => {
+    await (await getDB()).delete('drafts', shiftKey(shift));
+  },
+
+  /**
+   * Queue a bulk update to send when back online. It replaces any update
+   * already queued for the shift, as it carries all of the shift's entries.
+   */
+  enqueue: async (update: Omit<QueuedDeliveryUpdate, 'id' | 'queuedAt'>): Promise<void> => {
+    const tx = (await getDB()).transaction('queue', 'readwrite');
+    for (const queued of await tx.store.getAll()) {
+      if (shiftKey(queued) === shiftKey(update)) await tx.store.delete(queued.id as number);
+    }
+    await tx.store.add({ ...update, queuedAt: new Date().toISOString() });
+    await tx.done;
+  },
+
+  /**
+   * Update queued for a shift, if any
+   */
+  getQueued: async (shift: DeliveryShiftKey): Promise<QueuedDeliveryUpdate | null> => {
+    const queue = await (await getDB()).getAll('queue');
+    return queue.find((queued) => shiftKey(queued) === shiftKey(shift)) ?? null;
+  },
+
+  /**
+   * A user's queued updates, oldest first
+   */
+  getQueue: async (userId: string): Promise<QueuedDeliveryUpdate[]> => {
+    const queue = await (await getDB()).getAll('queue');
+    return queue.filter((queued) => queued.userId === userId);
+  },
+
+  /**
+   * Remove an update from the queue
+   */
+  dequeue: async (id: number): Promise<void> => {
+    await (await getDB()).delete('queue', id);
+  },
+};
@@ -33,6 +33,104 @@ export enum StockSource {
   OTHER = 'OTHER',
 }
 
+/**
+ * User roles
+ */
+export enum UserRole {
+  OWNER = 'owner',
+  ACCOUNTANT = 'accountant',
+  DELIVERY = 'delivery',
+}
+
+/**
+ * Logged-in user
+ */
+export interface AuthUser {
+  id: string;
+  username: string;
+  name: string;
+  role: UserRole;
+}
+
+/**
+ * User account interface
+ */
+export interface User extends AuthUser {
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * User form data
+ */
+export interface UserFormData {
+  username: string;
+  name: string;
+  password?: string;
+  role: UserRole;
+  isActive?: boolean;
+}
+
+/**
+ * Login response
+ */
+export interface LoginResponse {
+  token: string;
+  user: AuthUser;
+}
+
+/**
+ * Source (farm, market, etc.)
+ */
+export interface Source {
+  id: string;
+  name: string;
+  type: string;
+  isActive: boolean;
+}
+
+/**
+ * How a source's collections are priced
+ */
+export enum RateChartType {
+  GRID = 'grid',
+  FORMULA = 'formula',
+}
+
+/**
+ * Fat × SNF rate table; rates[i][j] is the rate for fatSteps[i] and snfSteps[j]
+ */
+export interface RateGrid {
+  fatSteps: number[];
+  snfSteps: number[];
+  rates: number[][];
+}
+
+/**
+ * Source rate chart interface
+ */
+export interface SourceRateChart {
+  id: string;
+  sourceId: string;
+  type: RateChartType;
+  grid?: RateGrid | null;
+  baseRate: number;
+  fatRate: number;
+  snfRate: number;
+}
+
+/**
+ * Rate chart form data
+ */
+export interface RateChartFormData {
+  type: RateChartType;
+  grid?: RateGrid | null;
+  baseRate?: number;
+  fatRate?: number;
+  snfRate?: number;
+}
+
 /**
  * Customer interface
  */
@@ -61,6 +159,234 @@ export interface CustomerFormData {
   morningQuota: number;
   eveningQuota: number;
   pricePerLiter: number;
+  priceEffectiveFrom?: string;
+}
+
+/**
+ * Which file column (by header text) feeds each customer field
+ */
+export type CustomerImportMapping = Partial<Record<keyof Omit<CustomerFormData, 'priceEffectiveFrom'>, string>>;
+
+/**
+ * One file row checked for import
+ */
+export interface CustomerImportRow {
+  /** Line number in the file, counting the header as line 1 */
+  row: number;
+  data: Omit<CustomerFormData, 'priceEffectiveFrom'>;
+  status: 'valid' | 'invalid' | 'duplicate';
+  errors: string[];
+  /** What the row duplicates, e.g. 'Existing customer Ravi Kumar' or 'Row 4' */
+  duplicateOf: string | null;
+}
+
+/**
+ * Outcome of a customer import or of its dry run
+ */
+export interface CustomerImportResult {
+  dryRun: boolean;
+  headers: string[];
+  mapping: CustomerImportMapping;
+  rows: CustomerImportRow[];
+  valid: number;
+  invalid: number;
+  duplicates: number;
+  created: number;
+}
+
+/**
+ * File format of a data export
+ */
+export type ExportFormat = 'csv' | 'xlsx';
+
+/**
+ * How a restore treats the data already in the database
+ */
+export enum RestoreMode {
+  REPLACE = 'replace',
+  MERGE = 'merge',
+}
+
+/**
+ * Outcome of restoring a backup, with the rows written per table
+ */
+export interface RestoreResult {
+  mode: RestoreMode;
+  backupCreatedAt: string;
+  restored: Record<string, number>;
+}
+
+/**
+ * Scheduled backup kept on the server
+ */
+export interface StoredBackup {
+  name: string;
+  size: number;
+  createdAt: string;
+}
+
+/**
+ * Customer price history entry
+ */
+export interface CustomerPrice {
+  id: string;
+  customerId: string;
+  pricePerLiter: number;
+  effectiveFrom: string;
+  createdAt: string;
+}
+
+/**
+ * Quantities for one weekday; an omitted shift uses the base quota
+ */
+export interface WeekdayQuota {
+  morning?: number;
+  evening?: number;
+}
+
+/**
+ * Per-weekday quantities keyed by day number (Sunday = 0 ... Saturday = 6)
+ */
+export type WeekdayQuotas = Partial<Record<number, WeekdayQuota>>;
+
+/**
+ * Customer quota schedule (weekday quantities and every-N-days recurrence)
+ */
+export interface QuotaSchedule {
+  id: string;
+  customerId: string;
+  weekdayQuotas?: WeekdayQuotas | null;
+  intervalDays: number;
+  startDate: string;
+}
+
+/**
+ * Quota schedule form data
+ */
+export interface QuotaScheduleFormData {
+  weekdayQuotas?: WeekdayQuotas | null;
+  intervalDays: number;
+  startDate: string;
+}
+
+/**
+ * Customer delivery pause (e.g. vacation)
+ */
+export interface CustomerPause {
+  id: string;
+  customerId: string;
+  startDate: string;
+  endDate: string;
+  /** Paused shift; null pauses both shifts */
+  shift?: string | null;
+  reason?: string | null;
+  createdAt: string;
+}
+
+/**
+ * Customer pause form data
+ */
+export interface CustomerPauseFormData {
+  startDate: string;
+  endDate: string;
+  shift?: Shift | null;
+  reason?: string;
+}
+
+/**
+ * Catalogue product, e.g. milk (L), curd (kg) or paneer (kg)
+ */
+export interface Product {
+  id: string;
+  name: string;
+  unit: string;
+  defaultPrice: number;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Product form data
+ */
+export interface ProductFormData {
+  name: string;
+  unit: string;
+  defaultPrice: number;
+  isActive?: boolean;
+  priceEffectiveFrom?: string; // YYYY-MM-DD, for default price changes
+}
+
+/**
+ * A customer's quotas and price for a product other than milk
+ */
+export interface CustomerProduct {
+  id: string;
+  customerId: string;
+  productId: string;
+  morningQuota: number;
+  eveningQuota: number;
+  /** Customer-specific price; null uses the product's default price */
+  price?: number | null;
+  product?: Product;
+}
+
+/**
+ * Customer product form data
+ */
+export interface CustomerProductFormData {
+  productId: string;
+  morningQuota: number;
+  eveningQuota: number;
+  price?: number | null;
+}
+
+/**
+ * Billed quantity and value of one product
+ */
+export interface ProductLineItem {
+  productId: string;
+  productName: string;
+  unit: string;
+  quantity: number;
+  amount: number;
+}
+
+/**
+ * Delivery route (round) with its assigned agent
+ */
+export interface DeliveryRoute {
+  id: string;
+  name: string;
+  description?: string | null;
+  isActive: boolean;
+  agentId?: string | null;
+  agent?: { id: string; name: string } | null;
+  _count?: { stops: number };
+  stops?: RouteStop[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Route stop in delivery order
+ */
+export interface RouteStop {
+  id: string;
+  routeId: string;
+  customerId: string;
+  sequence: number;
+  customer: Customer;
+}
+
+/**
+ * Route form data
+ */
+export interface RouteFormData {
+  name: string;
+  description?: string;
+  agentId?: string | null;
+  isActive?: boolean;
 }
 
 /**
@@ -72,8 +398,13 @@ export interface Delivery {
   customerName?: string;
   date: string;
   shift: Shift;
+  productId?: string;
   quantity: number;
+  /** Scheduled quantity for this date and shift */
+  quota?: number;
   delivered: boolean;
+  /** Customer is paused for this date and shift */
+  isPaused?: boolean;
   notes?: string;
   createdAt?: Date | null;
   updatedAt?: Date | null;
@@ -87,6 +418,55 @@ export interface DeliveryEntry {
   quantity: number;
   delivered: boolean;
   notes?: string;
+  /** Server `updatedAt` the entry was loaded with, null for a new delivery */
+  updatedAt?: string | null;
+}
+
+/**
+ * Delivery whose edit was skipped because it changed on the server since
+ */
+export interface DeliveryConflict {
+  customerId: string;
+  customerName: string;
+  mine: { actualAmount: number; delivered: boolean };
+  server: { actualAmount: number; delivered: boolean; updatedAt: string };
+}
+
+/**
+ * Result of a bulk delivery update
+ */
+export interface BulkDeliveryUpdateResult {
+  saved: number;
+  conflicts: DeliveryConflict[];
+}
+
+/**
+ * Daily log shift, as keyed for offline drafts and the sync queue
+ */
+export interface DeliveryShiftKey {
+  /** User whose edits they are; only they see and sync them */
+  userId: string;
+  date: string;
+  shift: Shift;
+  routeId?: string;
+  productId: string;
+}
+
+/**
+ * Bulk delivery update saved on the device until it can be sent
+ */
+export interface QueuedDeliveryUpdate extends DeliveryShiftKey {
+  id?: number;
+  entries: DeliveryEntry[];
+  queuedAt: string;
+}
+
+/**
+ * Queued update whose edits conflicted with newer server changes
+ */
+export interface DeliverySyncConflict {
+  update: QueuedDeliveryUpdate;
+  conflicts: DeliveryConflict[];
 }
 
 /**
@@ -98,7 +478,14 @@ export interface Stock {
   shift: Shift;
   source: string; // Changed from StockSource enum to string (ID)
   sourceName: string; // Added sourceName
+  productId?: string;
   quantity: number;
+  fat?: number | null;
+  snf?: number | null;
+  /** Purchase rate per unit from the source's rate chart */
+  rate?: number | null;
+  /** Purchase value (quantity × rate) */
+  amount?: number | null;
   createdAt?: Date;
 }
 
@@ -110,6 +497,9 @@ export interface StockFormData {
   shift: Shift;
   source: string; // Changed from StockSource enum to string
   quantity: number;
+  productId?: string;
+  fat?: number;
+  snf?: number;
 }
 
 /**
@@ -131,7 +521,9 @@ export interface Settings {
   currency: string;
   currencySymbol: string;
   maxCapacity: number;
-  paymentTermsDays: number;
+  paymentTerms: number;
+  invoicePrefix: string;
+  receiptPrefix: string;
 }
 
 /**
@@ -141,15 +533,94 @@ export interface CustomerBillingSummary {
   customerId: string;
   customerName: string;
   customerAddress?: string;
+  customerPhone?: string | null;
   month: number;
   year: number;
   totalLiters: number;
   pricePerLiter: number;
   totalAmount: number;
   previousBalance: number;
+  /** Payments allocated to the month */
   paidAmount: number;
+  /** Issued debit notes less credit notes for the month */
+  adjustments: number;
+  /** Unallocated overpayment carried forward */
+  credit: number;
   totalDue: number;
+  /** Payments that settled the month */
+  settlements: PaymentSettlement[];
   dailyBreakdown?: DailyDeliveryRecord[];
+  lineItems?: ProductLineItem[];
+  /** Stored invoice for the month, if one has been created */
+  invoice?: InvoiceSummary | null;
+}
+
+/**
+ * Invoice lifecycle. Issued and paid invoices lock deliveries in their month.
+ */
+export enum InvoiceStatus {
+  DRAFT = 'draft',
+  ISSUED = 'issued',
+  PAID = 'paid',
+  VOID = 'void',
+}
+
+/**
+ * Invoice document types
+ */
+export enum InvoiceType {
+  INVOICE = 'invoice',
+  CREDIT_NOTE = 'credit_note',
+  DEBIT_NOTE = 'debit_note',
+}
+
+/**
+ * Stored invoice, credit note or debit note
+ */
+export interface Invoice {
+  id: string;
+  type: InvoiceType;
+  status: InvoiceStatus;
+  /** Assigned when issued */
+  number: string | null;
+  customerId: string;
+  customerName?: string;
+  month: number;
+  year: number;
+  pricePerLiter: number;
+  totalLiters: number;
+  lineItems: ProductLineItem[];
+  dailyBreakdown: DailyBreakdown[];
+  previousBalance: number;
+  /** Charges for the month, or the note amount */
+  totalAmount: number;
+  totalDue: number;
+  reason?: string | null;
+  invoiceId?: string | null;
+  notes?: Invoice[];
+  issuedAt: string | null;
+  voidedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Invoice reference shown alongside a billing summary
+ */
+export interface InvoiceSummary {
+  id: string;
+  number: string | null;
+  status: InvoiceStatus;
+  totalDue: number;
+}
+
+/**
+ * Credit or debit note form data
+ */
+export interface InvoiceNoteFormData {
+  type: InvoiceType.CREDIT_NOTE | InvoiceType.DEBIT_NOTE;
+  amount: number;
+  reason: string;
 }
 
 /**
@@ -157,28 +628,224 @@ export interface CustomerBillingSummary {
  */
 export interface Payment {
   id: string;
+  receiptNumber: string;
   customerId: string;
+  customerName?: string;
   amount: number;
   date: string;
   month: number;
   year: number;
-  remarks?: string;
+  method?: string | null;
+  remarks?: string | null;
+  voidedAt?: string | null;
+  voidReason?: string | null;
+  /** Payment this one corrected */
+  replacesId?: string | null;
+  allocations?: PaymentAllocation[];
+  /** Part of the payment kept as credit */
+  unallocated?: number;
   createdAt: string;
   updatedAt: string;
 }
 
 /**
- * Payment creation DTO
+ * Part of a payment applied to a billing month
+ */
+export interface PaymentAllocation {
+  id: string;
+  paymentId: string;
+  month: number;
+  year: number;
+  amount: number;
+}
+
+/**
+ * Manual allocation of a payment to a billing month
+ */
+export interface PaymentAllocationInput {
+  month: number;
+  year: number;
+  amount: number;
+}
+
+/**
+ * Payment creation DTO. Without allocations the payment settles the
+ * oldest outstanding months first.
  */
 export interface CreatePaymentDTO {
   customerId: string;
   amount: number;
   date: string;
+  method?: string;
+  remarks?: string;
+  allocations?: PaymentAllocationInput[];
+}
+
+/**
+ * Payment correction data. The original is voided and replaced.
+ */
+export type UpdatePaymentDTO = Omit<CreatePaymentDTO, 'customerId'>;
+
+/**
+ * A payment's share in settling a billing month
+ */
+export interface PaymentSettlement {
+  paymentId: string;
+  date: string;
+  amount: number;
+  paymentAmount: number;
+  remarks?: string | null;
+}
+
+/**
+ * Charges and settlement of one of a customer's billing months
+ */
+export interface PeriodBalance {
   month: number;
   year: number;
+  charges: number;
+  allocated: number;
+  outstanding: number;
+}
+
+/**
+ * Outstanding amounts grouped by days past the due date
+ */
+export interface AgingBuckets {
+  current: number;
+  days1to30: number;
+  days31to60: number;
+  days61to90: number;
+  over90: number;
+}
+
+/**
+ * A customer's row in the receivables aging report
+ */
+export interface CustomerAging extends AgingBuckets {
+  customerId: string;
+  customerName: string;
+  phone: string | null;
+  credit: number;
+  total: number;
+  oldestDueDate: string | null;
+  daysOverdue: number;
+}
+
+/**
+ * Receivables aging report
+ */
+export interface AgingReport {
+  asOf: string;
+  paymentTerms: number;
+  customers: CustomerAging[];
+  totals: AgingBuckets & { credit: number; total: number };
+}
+
+/**
+ * Payment made to a source
+ */
+export interface SupplierPayment {
+  id: string;
+  sourceId: string;
+  amount: number;
+  date: string;
+  method?: string | null;
+  remarks?: string | null;
+  createdAt: string;
+}
+
+/**
+ * Supplier payment form data
+ */
+export interface SupplierPaymentFormData {
+  amount: number;
+  date: string;
+  method?: string;
   remarks?: string;
 }
 
+/**
+ * What is owed to one source
+ */
+export interface SupplierPayable {
+  sourceId: string;
+  sourceName: string;
+  type: string;
+  totalPurchases: number;
+  totalPaid: number;
+  balance: number;
+  /** Quantity collected without a rate */
+  unpricedQuantity: number;
+}
+
+/**
+ * Supplier statement periods
+ */
+export enum StatementPeriod {
+  WEEKLY = 'weekly',
+  FORTNIGHTLY = 'fortnightly',
+}
+
+/**
+ * One line of a supplier statement
+ */
+export interface SupplierStatementEntry {
+  date: string;
+  type: 'purchase' | 'payment';
+  paymentId?: string;
+  description: string;
+  quantity?: number;
+  debit: number;
+  credit: number;
+  balance: number;
+}
+
+/**
+ * One line of a customer account statement
+ */
+export interface CustomerStatementEntry {
+  date: string;
+  type: 'delivery' | 'payment' | InvoiceType.CREDIT_NOTE | InvoiceType.DEBIT_NOTE;
+  /** Receipt or note number */
+  reference?: string | null;
+  description: string;
+  debit: number;
+  credit: number;
+  balance: number;
+}
+
+/**
+ * Customer account statement for a date range
+ */
+export interface CustomerStatement {
+  customerId: string;
+  customerName: string;
+  customerAddress: string;
+  from: string;
+  to: string;
+  openingBalance: number;
+  totalDebits: number;
+  totalCredits: number;
+  closingBalance: number;
+  entries: CustomerStatementEntry[];
+}
+
+/**
+ * Supplier statement for a period
+ */
+export interface SupplierStatement {
+  sourceId: string;
+  sourceName: string;
+  startDate: string;
+  endDate: string;
+  openingBalance: number;
+  totalPurchases: number;
+  totalPaid: number;
+  closingBalance: number;
+  entries: SupplierStatementEntry[];
+}
+
 /**
  * Daily breakdown for invoice
  */
@@ -186,6 +853,8 @@ export interface DailyBreakdown {
   date: string;
   morning: number;
   evening: number;
+  pricePerLiter: number;
+  amount: number;
 }
 
 /**
@@ -200,7 +869,13 @@ export interface CustomerInvoice {
   };
   totalLiters: number;
   totalAmount: number;
+  lineItems: ProductLineItem[];
   dailyBreakdown: DailyBreakdown[];
+  /** Set once the month's invoice has been issued */
+  invoiceNumber?: string | null;
+  status?: InvoiceStatus;
+  previousBalance?: number;
+  totalDue?: number;
 }
 
 /**
@@ -211,6 +886,8 @@ export interface DailyDeliveryRecord {
   morningAmount: number;
   eveningAmount: number;
   totalAmount: number;
+  pricePerLiter: number;
+  amount: number;
 }
 
 /**
@@ -253,6 +930,346 @@ export interface InventoryData {
   maxCapacity: number;
   percentage: number;
   lowStock: boolean;
+  products?: ProductInventory[];
+}
+
+/**
+ * Inventory level of one product
+ */
+export interface ProductInventory {
+  productId: string;
+  name: string;
+  unit: string;
+  stockIn: number;
+  delivered: number;
+  /** Level at the latest physical count (0 if never counted) */
+  countedLevel: number;
+  /** Net of wastage, spoilage, counter sales and adjustments */
+  otherMovements: number;
+  current: number;
+  /** Date of the latest physical count; the other figures cover the days after it */
+  lastCountDate: string | null;
+}
+
+/**
+ * Inventory ledger entry types. Collections and deliveries are derived;
+ * the rest are recorded as stock movements.
+ */
+export enum StockMovementType {
+  COLLECTION = 'collection',
+  DELIVERY = 'delivery',
+  WASTAGE = 'wastage',
+  SPOILAGE = 'spoilage',
+  COUNTER_SALE = 'counter_sale',
+  ADJUSTMENT = 'adjustment',
+  COUNT = 'count',
+}
+
+/**
+ * Stock movement record
+ */
+export interface StockMovement {
+  id: string;
+  date: string;
+  type: StockMovementType;
+  productId: string;
+  /** Amount removed; signed change for adjustments; counted level for counts */
+  quantity: number;
+  reason: string;
+  createdById: string;
+  createdByName?: string;
+  createdAt: string;
+}
+
+/**
+ * Stock movement form data
+ */
+export interface StockMovementFormData {
+  date: string;
+  type: StockMovementType;
+  productId?: string;
+  quantity: number;
+  reason: string;
+}
+
+/**
+ * One line of a product's inventory ledger
+ */
+export interface StockLedgerEntry {
+  date: string;
+  type: StockMovementType;
+  /** Set for recorded stock movements, which can be deleted */
+  movementId?: string;
+  description: string;
+  /** Change to the level (for counts, the variance from the computed level) */
+  change: number;
+  balance: number;
+  reason?: string;
+  createdByName?: string;
+}
+
+/**
+ * Inventory ledger of a product for a date range
+ */
+export interface StockLedger {
+  productId: string;
+  startDate: string;
+  endDate: string;
+  openingBalance: number;
+  closingBalance: number;
+  entries: StockLedgerEntry[];
+}
+
+/**
+ * Channels a customer message can be sent over
+ */
+export enum MessageChannel {
+  SMS = 'sms',
+  WHATSAPP = 'whatsapp',
+}
+
+/**
+ * Customer message templates
+ */
+export enum MessageTemplate {
+  BALANCE_REMINDER = 'balance_reminder',
+  MONTHLY_BILL = 'monthly_bill',
+}
+
+/**
+ * Message send record
+ */
+export interface MessageLog {
+  id: string;
+  customerId: string;
+  customerName?: string;
+  channel: MessageChannel;
+  template: MessageTemplate;
+  phone: string;
+  body: string;
+  provider: string;
+  status: 'sent' | 'failed';
+  providerMessageId: string | null;
+  error: string | null;
+  month: number | null;
+  year: number | null;
+  createdAt: string;
+}
+
+/**
+ * Bulk message request
+ */
+export interface SendMessagesDTO {
+  template: MessageTemplate;
+  channel: MessageChannel;
+  month: number;
+  year: number;
+  customerIds?: string[];
+  /** Only customers whose total due is above this */
+  minTotalDue?: number;
+}
+
+/**
+ * Outcome of a bulk send
+ */
+export interface SendMessagesResult {
+  sent: number;
+  failed: number;
+  skipped: { customerId: string; customerName: string; reason: string }[];
+  logs: MessageLog[];
+}
+
+/**
+ * Signed link to a customer's portal
+ */
+export interface PortalLink {
+  token: string;
+  expiresAt: string;
+}
+
+/**
+ * What a customer sees through their portal link
+ */
+export interface CustomerPortalView {
+  business: Pick<Settings, 'businessName' | 'businessPhone' | 'currency' | 'currencySymbol' | 'paymentTerms'>;
+  current: CustomerBillingSummary;
+  deliveries: {
+    date: string;
+    shift: string;
+    productName: string;
+    unit: string;
+    quantity: number;
+    delivered: boolean;
+  }[];
+  bills: {
+    month: number;
+    year: number;
+    invoiceNumber: string | null;
+    charges: number;
+    paid: number;
+    outstanding: number;
+  }[];
+  payments: {
+    receiptNumber: string;
+    date: string;
+    amount: number;
+    method: string | null;
+  }[];
+  outstanding: number;
+  expiresAt: string;
+}
+
+/**
+ * Action that can be undone for a while after it was made
+ */
+export enum ChangeSetAction {
+  CLEAR_DELIVERIES = 'clear_deliveries',
+  AUTOFILL_DELIVERIES = 'autofill_deliveries',
+  DELETE_STOCK = 'delete_stock',
+}
+
+/**
+ * Handle for undoing an action until it expires
+ */
+export interface ChangeSetRef {
+  id: string;
+  action: ChangeSetAction;
+  expiresAt: string;
+}
+
+/**
+ * Result of clearing or autofilling a shift's deliveries
+ */
+export interface BulkDeliveryResult {
+  count: number;
+  /** Null when nothing changed */
+  changeSet: ChangeSetRef | null;
+}
+
+/**
+ * Result of undoing an action
+ */
+export interface UndoResult {
+  action: ChangeSetAction;
+  restored: number;
+}
+
+/**
+ * What happened to an audited record
+ */
+export enum AuditAction {
+  CREATE = 'create',
+  UPDATE = 'update',
+  DELETE = 'delete',
+  RESTORE = 'restore',
+}
+
+/**
+ * One record created, changed or deleted, with who did it and when
+ */
+export interface AuditLogEntry {
+  id: string;
+  /** Record type, e.g. 'Delivery' */
+  entity: string;
+  entityId: string | null;
+  action: AuditAction;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  /** e.g. 'POST /api/deliveries/bulk' */
+  request: string;
+  customerId: string | null;
+  customerName?: string;
+  userId: string | null;
+  userName?: string;
+  createdAt: string;
+}
+
+/**
+ * Filters for the audit log; `from` and `to` are ISO timestamps
+ */
+export interface AuditLogFilters {
+  customerId?: string;
+  entity?: string;
+  from?: string;
+  to?: string;
+  limit?: number;
+}
+
+/**
+ * Page and sort of a paginated list request
+ */
+export interface PaginationParams {
+  page?: number;
+  limit?: number;
+  sortBy?: string;
+  sortOrder?: 'asc' | 'desc';
+}
+
+/**
+ * One page of a list with its total count
+ */
+export interface PaginatedResponse<T> {
+  items: T[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
+/**
+ * One page of a customer's deliveries with the litres delivered across all pages
+ */
+export interface CustomerDeliveryPage extends PaginatedResponse<Delivery> {
+  totalQuantity: number;
+}
+
+/**
+ * Filters for the customer list; `search` matches name, address or phone
+ */
+export interface CustomerListFilters extends PaginationParams {
+  category?: CustomerCategory;
+  active?: boolean;
+  search?: string;
+}
+
+/**
+ * Filters for the stock list; `search` matches the source name
+ */
+export interface StockListFilters extends PaginationParams {
+  startDate?: string;
+  endDate?: string;
+  productId?: string;
+  shift?: Shift;
+  source?: string;
+  search?: string;
+}
+
+/**
+ * Filters for the monthly bills; `search` matches the customer name
+ */
+export interface MonthlyBillingFilters extends PaginationParams {
+  search?: string;
+}
+
+/**
+ * Filters for the payments list
+ */
+export interface PaymentFilters extends PaginationParams {
+  customerId?: string;
+  startDate?: string;
+  endDate?: string;
+  method?: string;
+  includeVoided?: boolean;
+}
+
+/**
+ * One problem with a request field, as reported by a 400 response
+ */
+export interface ValidationIssue {
+  location: 'params' | 'query' | 'body';
+  /** e.g. 'date' or 'deliveries[2].actualAmount' */
+  field: string;
+  message: string;
 }
 
 /**
@@ -263,6 +1280,8 @@ export interface ApiResponse<T> {
   data?: T;
   error?: string;
   message?: string;
+  /** Every field problem of a rejected request */
+  errors?: ValidationIssue[];
 }
 
 /**
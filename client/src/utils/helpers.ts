@@ -1,3 +1,7 @@
+import type { TablePaginationConfig } from 'antd';
+import type { SorterResult } from 'antd/es/table/interface';
+import { PaginationParams } from '../types';
+
 export const stringToColor = (string: string) => {
   let hash = 0;
   for (let i = 0; i < string.length; i++) {
@@ -36,3 +40,20 @@ export const getCurrentShift = (): string => {
   const hour = new Date().getHours();
   return hour < 14 ? 'MORNING' : 'EVENING';
 };
+
+/**
+ * Page and sort of an antd table change, for lists paged on the server.
+ * Columns are sorted by their `key`, which must be a `sortBy` the list accepts.
+ */
+export const tablePageParams = <T>(
+  pagination: TablePaginationConfig,
+  sorter: SorterResult<T> | SorterResult<T>[]
+): PaginationParams => {
+  const sort = Array.isArray(sorter) ? sorter[0] : sorter;
+  return {
+    page: pagination.current,
+    limit: pagination.pageSize,
+    sortBy: sort?.order ? String(sort.columnKey) : undefined,
+    sortOrder: sort?.order ? (sort.order === 'ascend' ? 'asc' : 'desc') : undefined,
+  };
+};
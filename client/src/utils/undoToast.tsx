@@ -0,0 +1,44 @@
+import toast from 'react-hot-toast';
+import { changeSetApi } from '../services/api';
+import { ChangeSetRef } from '../types';
+
+/** How long the Undo action stays on screen */
+const UNDO_TOAST_MS = 10000;
+
+/**
+ * Confirm an action with a toast offering to undo it. `onUndone` runs after
+ * a successful undo, e.g. to reload the data.
+ */
+export const showUndoToast = (text: string, changeSet: ChangeSetRef | null, onUndone: () => void) => {
+  if (!changeSet) {
+    toast.success(text);
+    return;
+  }
+
+  const undo = async (toastId: string) => {
+    toast.dismiss(toastId);
+    try {
+      await changeSetApi.undo(changeSet.id);
+      toast.success('Undone');
+      onUndone();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to undo');
+    }
+  };
+
+  toast.success(
+    (t) => (
+      <span className="flex items-center gap-3">
+        {text}
+        <button
+          type="button"
+          className="font-semibold text-blue-300 hover:text-blue-200"
+          onClick={() => undo(t.id)}
+        >
+          Undo
+        </button>
+      </span>
+    ),
+    { duration: UNDO_TOAST_MS }
+  );
+};
@@ -1,8 +1,55 @@
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
+import { VitePWA } from 'vite-plugin-pwa';
 import path from 'path';
+/**
+ * API reads the daily log needs to open offline, served from cache when the
+ * network is down. Whole paths only, so other customer and delivery data is
+ * never kept on the device.
+ */
+var OFFLINE_API = /^\/api\/(auth\/me|deliveries|customers|products|routes|stock\/availability|settings)$/;
 export default defineConfig({
-    plugins: [react()],
+    plugins: [
+        react(),
+        VitePWA({
+            registerType: 'autoUpdate',
+            includeAssets: ['favicon.svg'],
+            manifest: {
+                name: 'Daily Dairy Manager',
+                short_name: 'Dairy',
+                description: 'Manage your milk delivery business efficiently',
+                theme_color: '#1f2937',
+                background_color: '#f8f9fa',
+                display: 'standalone',
+                start_url: '/daily-log',
+                icons: [
+                    { src: 'favicon.svg', sizes: 'any', type: 'image/svg+xml', purpose: 'any maskable' },
+                ],
+            },
+            workbox: {
+                // The app ships as one bundle, which must be cached for it to open offline
+                maximumFileSizeToCacheInBytes: 5 * 1024 * 1024,
+                navigateFallback: '/index.html',
+                navigateFallbackDenylist: [/^\/api\//],
+                runtimeCaching: [
+                    {
+                        urlPattern: function (_a) {
+                            var url = _a.url, request = _a.request;
+                            return request.method === 'GET' && OFFLINE_API.test(url.pathname);
+                        },
+                        handler: 'NetworkFirst',
+                        options: {
+                            // Cleared on logout (AuthContext)
+                            cacheName: 'api-daily-log',
+                            networkTimeoutSeconds: 5,
+                            expiration: { maxEntries: 200, maxAgeSeconds: 7 * 24 * 60 * 60 },
+                            cacheableResponse: { statuses: [200] },
+                        },
+                    },
+                ],
+            },
+        }),
+    ],
     resolve: {
         alias: {
             '@': path.resolve(__dirname, './src'),
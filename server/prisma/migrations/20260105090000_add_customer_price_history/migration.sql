@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "CustomerPrice" (
+    "id" TEXT NOT NULL,
+    "pricePerLiter" DOUBLE PRECISION NOT NULL,
+    "effectiveFrom" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "customerId" TEXT NOT NULL,
+
+    CONSTRAINT "CustomerPrice_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CustomerPrice_customerId_effectiveFrom_key" ON "CustomerPrice"("customerId", "effectiveFrom");
+
+-- AddForeignKey
+ALTER TABLE "CustomerPrice" ADD CONSTRAINT "CustomerPrice_customerId_fkey" FOREIGN KEY ("customerId") REFERENCES "Customer"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill: each existing customer's current rate becomes their opening rate
+INSERT INTO "CustomerPrice" ("id", "pricePerLiter", "effectiveFrom", "customerId")
+SELECT gen_random_uuid()::text, "pricePerLiter", to_char("createdAt", 'YYYY-MM-DD'), "id" FROM "Customer";
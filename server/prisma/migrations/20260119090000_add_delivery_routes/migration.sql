@@ -0,0 +1,40 @@
+-- CreateTable
+CREATE TABLE "DeliveryRoute" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "agentId" TEXT,
+
+    CONSTRAINT "DeliveryRoute_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "RouteStop" (
+    "id" TEXT NOT NULL,
+    "sequence" INTEGER NOT NULL,
+    "routeId" TEXT NOT NULL,
+    "customerId" TEXT NOT NULL,
+
+    CONSTRAINT "RouteStop_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DeliveryRoute_name_key" ON "DeliveryRoute"("name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RouteStop_customerId_key" ON "RouteStop"("customerId");
+
+-- CreateIndex
+CREATE INDEX "RouteStop_routeId_sequence_idx" ON "RouteStop"("routeId", "sequence");
+
+-- AddForeignKey
+ALTER TABLE "DeliveryRoute" ADD CONSTRAINT "DeliveryRoute_agentId_fkey" FOREIGN KEY ("agentId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RouteStop" ADD CONSTRAINT "RouteStop_routeId_fkey" FOREIGN KEY ("routeId") REFERENCES "DeliveryRoute"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RouteStop" ADD CONSTRAINT "RouteStop_customerId_fkey" FOREIGN KEY ("customerId") REFERENCES "Customer"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "CustomerPause" (
+    "id" TEXT NOT NULL,
+    "startDate" TEXT NOT NULL,
+    "endDate" TEXT NOT NULL,
+    "shift" TEXT,
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "customerId" TEXT NOT NULL,
+
+    CONSTRAINT "CustomerPause_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "CustomerPause_customerId_startDate_idx" ON "CustomerPause"("customerId", "startDate");
+
+-- AddForeignKey
+ALTER TABLE "CustomerPause" ADD CONSTRAINT "CustomerPause_customerId_fkey" FOREIGN KEY ("customerId") REFERENCES "Customer"("id") ON DELETE CASCADE ON UPDATE CASCADE;
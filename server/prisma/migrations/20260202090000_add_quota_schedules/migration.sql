@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "QuotaSchedule" (
+    "id" TEXT NOT NULL,
+    "weekdayQuotas" JSONB,
+    "intervalDays" INTEGER NOT NULL DEFAULT 1,
+    "startDate" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "customerId" TEXT NOT NULL,
+
+    CONSTRAINT "QuotaSchedule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "QuotaSchedule_customerId_key" ON "QuotaSchedule"("customerId");
+
+-- AddForeignKey
+ALTER TABLE "QuotaSchedule" ADD CONSTRAINT "QuotaSchedule_customerId_fkey" FOREIGN KEY ("customerId") REFERENCES "Customer"("id") ON DELETE CASCADE ON UPDATE CASCADE;
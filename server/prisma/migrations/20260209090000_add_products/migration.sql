@@ -0,0 +1,58 @@
+-- CreateTable
+CREATE TABLE "Product" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "unit" TEXT NOT NULL,
+    "defaultPrice" DOUBLE PRECISION NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Product_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "CustomerProduct" (
+    "id" TEXT NOT NULL,
+    "morningQuota" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "eveningQuota" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "price" DOUBLE PRECISION,
+    "customerId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+
+    CONSTRAINT "CustomerProduct_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Product_name_key" ON "Product"("name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CustomerProduct_customerId_productId_key" ON "CustomerProduct"("customerId", "productId");
+
+-- Seed the default product that existing deliveries and stock belong to
+INSERT INTO "Product" ("id", "name", "unit", "defaultPrice", "updatedAt")
+SELECT 'milk', 'Milk', 'L', COALESCE((SELECT "defaultPricePerLiter" FROM "Settings" WHERE "id" = 1), 0), CURRENT_TIMESTAMP;
+
+-- AlterTable
+ALTER TABLE "Delivery" ADD COLUMN "productId" TEXT NOT NULL DEFAULT 'milk';
+
+-- AlterTable
+ALTER TABLE "Stock" ADD COLUMN "productId" TEXT NOT NULL DEFAULT 'milk';
+
+-- DropIndex
+DROP INDEX "Delivery_customerId_date_shift_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Delivery_customerId_date_shift_productId_key" ON "Delivery"("customerId", "date", "shift", "productId");
+
+-- AddForeignKey
+ALTER TABLE "CustomerProduct" ADD CONSTRAINT "CustomerProduct_customerId_fkey" FOREIGN KEY ("customerId") REFERENCES "Customer"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CustomerProduct" ADD CONSTRAINT "CustomerProduct_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Delivery" ADD CONSTRAINT "Delivery_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Stock" ADD CONSTRAINT "Stock_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,26 @@
+-- AlterTable
+ALTER TABLE "Stock" ADD COLUMN "fat" DOUBLE PRECISION,
+ADD COLUMN "snf" DOUBLE PRECISION,
+ADD COLUMN "rate" DOUBLE PRECISION,
+ADD COLUMN "amount" DOUBLE PRECISION;
+
+-- CreateTable
+CREATE TABLE "SourceRateChart" (
+    "id" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "grid" JSONB,
+    "baseRate" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "fatRate" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "snfRate" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "sourceId" TEXT NOT NULL,
+
+    CONSTRAINT "SourceRateChart_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SourceRateChart_sourceId_key" ON "SourceRateChart"("sourceId");
+
+-- AddForeignKey
+ALTER TABLE "SourceRateChart" ADD CONSTRAINT "SourceRateChart_sourceId_fkey" FOREIGN KEY ("sourceId") REFERENCES "Source"("id") ON DELETE CASCADE ON UPDATE CASCADE;
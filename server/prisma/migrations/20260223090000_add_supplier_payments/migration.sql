@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "SupplierPayment" (
+    "id" TEXT NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "date" TEXT NOT NULL,
+    "method" TEXT,
+    "remarks" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "sourceId" TEXT NOT NULL,
+
+    CONSTRAINT "SupplierPayment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "SupplierPayment_sourceId_date_idx" ON "SupplierPayment"("sourceId", "date");
+
+-- AddForeignKey
+ALTER TABLE "SupplierPayment" ADD CONSTRAINT "SupplierPayment_sourceId_fkey" FOREIGN KEY ("sourceId") REFERENCES "Source"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,44 @@
+-- AlterTable
+ALTER TABLE "Settings" ADD COLUMN "invoicePrefix" TEXT NOT NULL DEFAULT 'INV-';
+
+-- CreateTable
+CREATE TABLE "Invoice" (
+    "id" TEXT NOT NULL,
+    "type" TEXT NOT NULL DEFAULT 'invoice',
+    "status" TEXT NOT NULL DEFAULT 'draft',
+    "sequence" INTEGER,
+    "number" TEXT,
+    "month" INTEGER NOT NULL,
+    "year" INTEGER NOT NULL,
+    "pricePerLiter" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "totalLiters" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "lineItems" JSONB NOT NULL DEFAULT '[]',
+    "dailyBreakdown" JSONB NOT NULL DEFAULT '[]',
+    "previousBalance" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "totalAmount" DOUBLE PRECISION NOT NULL,
+    "totalDue" DOUBLE PRECISION NOT NULL,
+    "reason" TEXT,
+    "issuedAt" TIMESTAMP(3),
+    "voidedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "customerId" TEXT NOT NULL,
+    "invoiceId" TEXT,
+
+    CONSTRAINT "Invoice_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Invoice_sequence_key" ON "Invoice"("sequence");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Invoice_number_key" ON "Invoice"("number");
+
+-- CreateIndex
+CREATE INDEX "Invoice_customerId_year_month_idx" ON "Invoice"("customerId", "year", "month");
+
+-- AddForeignKey
+ALTER TABLE "Invoice" ADD CONSTRAINT "Invoice_customerId_fkey" FOREIGN KEY ("customerId") REFERENCES "Customer"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Invoice" ADD CONSTRAINT "Invoice_invoiceId_fkey" FOREIGN KEY ("invoiceId") REFERENCES "Invoice"("id") ON DELETE SET NULL ON UPDATE CASCADE;
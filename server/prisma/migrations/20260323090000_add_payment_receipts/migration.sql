@@ -0,0 +1,37 @@
+-- AlterTable
+ALTER TABLE "Settings" ADD COLUMN "receiptPrefix" TEXT NOT NULL DEFAULT 'RCT-';
+
+-- AlterTable
+ALTER TABLE "Payment" ADD COLUMN "receiptSequence" INTEGER,
+ADD COLUMN "receiptNumber" TEXT,
+ADD COLUMN "method" TEXT,
+ADD COLUMN "voidedAt" TIMESTAMP(3),
+ADD COLUMN "voidReason" TEXT,
+ADD COLUMN "replacesId" TEXT;
+
+-- Number existing payments in the order they were received
+UPDATE "Payment" p
+SET "receiptSequence" = r."seq",
+    "receiptNumber" = 'RCT-' || lpad(r."seq"::text, 5, '0')
+FROM (
+    SELECT "id", row_number() OVER (ORDER BY "date", "createdAt") AS "seq" FROM "Payment"
+) r
+WHERE p."id" = r."id";
+
+ALTER TABLE "Payment" ALTER COLUMN "receiptSequence" SET NOT NULL,
+ALTER COLUMN "receiptNumber" SET NOT NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Payment_receiptSequence_key" ON "Payment"("receiptSequence");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Payment_receiptNumber_key" ON "Payment"("receiptNumber");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Payment_replacesId_key" ON "Payment"("replacesId");
+
+-- CreateIndex
+CREATE INDEX "Payment_customerId_date_idx" ON "Payment"("customerId", "date");
+
+-- AddForeignKey
+ALTER TABLE "Payment" ADD CONSTRAINT "Payment_replacesId_fkey" FOREIGN KEY ("replacesId") REFERENCES "Payment"("id") ON DELETE SET NULL ON UPDATE CASCADE;
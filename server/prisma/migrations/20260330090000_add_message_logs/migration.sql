@@ -0,0 +1,28 @@
+-- CreateTable
+CREATE TABLE "MessageLog" (
+    "id" TEXT NOT NULL,
+    "channel" TEXT NOT NULL,
+    "template" TEXT NOT NULL,
+    "phone" TEXT NOT NULL,
+    "body" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "providerMessageId" TEXT,
+    "error" TEXT,
+    "month" INTEGER,
+    "year" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "customerId" TEXT NOT NULL,
+    "sentById" TEXT,
+
+    CONSTRAINT "MessageLog_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "MessageLog_customerId_createdAt_idx" ON "MessageLog"("customerId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "MessageLog" ADD CONSTRAINT "MessageLog_customerId_fkey" FOREIGN KEY ("customerId") REFERENCES "Customer"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MessageLog" ADD CONSTRAINT "MessageLog_sentById_fkey" FOREIGN KEY ("sentById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "ChangeSet" (
+    "id" TEXT NOT NULL,
+    "action" TEXT NOT NULL,
+    "entity" TEXT NOT NULL,
+    "rows" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "undoneAt" TIMESTAMP(3),
+    "createdById" TEXT NOT NULL,
+
+    CONSTRAINT "ChangeSet_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ChangeSet_expiresAt_idx" ON "ChangeSet"("expiresAt");
+
+-- AddForeignKey
+ALTER TABLE "ChangeSet" ADD CONSTRAINT "ChangeSet_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,47 @@
+-- CreateTable
+CREATE TABLE "ProductPrice" (
+    "id" TEXT NOT NULL,
+    "price" DOUBLE PRECISION NOT NULL,
+    "effectiveFrom" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "productId" TEXT NOT NULL,
+
+    CONSTRAINT "ProductPrice_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "CustomerProductPrice" (
+    "id" TEXT NOT NULL,
+    "price" DOUBLE PRECISION,
+    "effectiveFrom" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "customerId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+
+    CONSTRAINT "CustomerProductPrice_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ProductPrice_productId_effectiveFrom_key" ON "ProductPrice"("productId", "effectiveFrom");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CustomerProductPrice_customerId_productId_effectiveFrom_key" ON "CustomerProductPrice"("customerId", "productId", "effectiveFrom");
+
+-- AddForeignKey
+ALTER TABLE "ProductPrice" ADD CONSTRAINT "ProductPrice_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CustomerProductPrice" ADD CONSTRAINT "CustomerProductPrice_customerId_fkey" FOREIGN KEY ("customerId") REFERENCES "Customer"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CustomerProductPrice" ADD CONSTRAINT "CustomerProductPrice_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill: each product's current default price becomes its opening price
+INSERT INTO "ProductPrice" ("id", "price", "effectiveFrom", "productId")
+SELECT gen_random_uuid()::text, "defaultPrice", to_char("createdAt", 'YYYY-MM-DD'), "id" FROM "Product";
+
+-- Backfill: each customer's own product price applies from the start, as it
+-- did before (an own price has no opening period for earlier dates)
+INSERT INTO "CustomerProductPrice" ("id", "price", "effectiveFrom", "customerId", "productId")
+SELECT gen_random_uuid()::text, "price", '2000-01-01', "customerId", "productId"
+FROM "CustomerProduct" WHERE "price" IS NOT NULL;
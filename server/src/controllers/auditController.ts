@@ -0,0 +1,79 @@
+/**
+ * Audit Controller
+ *
+ * Lists the audit log of changes made through the API.
+ */
+
+import { Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
+import prisma from '../lib/prisma.js';
+import { ApiResponse, AuditAction, AuditLogEntry } from '../types/index.js';
+
+/**
+ * Get audit entries, newest first, optionally for one customer, one kind
+ * of record or a time window (`from` and `to` as ISO timestamps)
+ */
+export const getAuditLog = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { customerId, entity, from, to, limit } = req.query;
+
+    const fromDate = from ? new Date(from as string) : null;
+    const toDate = to ? new Date(to as string) : null;
+    if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'from and to must be valid timestamps',
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const where: Prisma.AuditLogWhereInput = {};
+    if (customerId) where.customerId = customerId as string;
+    if (entity) where.entity = entity as string;
+    if (fromDate || toDate) {
+      where.createdAt = {
+        ...(fromDate ? { gte: fromDate } : {}),
+        ...(toDate ? { lte: toDate } : {}),
+      };
+    }
+
+    const logs = await prisma.auditLog.findMany({
+      where,
+      include: { user: { select: { name: true } } },
+      orderBy: { createdAt: 'desc' },
+      take: Math.min(parseInt(limit as string, 10) || 200, 1000),
+    });
+
+    const customerIds = [...new Set(logs.map((log) => log.customerId).filter((id): id is string => !!id))];
+    const customers = await prisma.customer.findMany({
+      where: { id: { in: customerIds } },
+      select: { id: true, name: true },
+    });
+    const customerNames = new Map(customers.map((c) => [c.id, c.name]));
+
+    const response: ApiResponse<AuditLogEntry[]> = {
+      success: true,
+      data: logs.map(({ user, ...log }) => ({
+        ...log,
+        action: log.action as AuditAction,
+        before: log.before as Record<string, unknown> | null,
+        after: log.after as Record<string, unknown> | null,
+        customerName: log.customerId ? customerNames.get(log.customerId) : undefined,
+        userName: user?.name,
+      })),
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error fetching audit log:', error);
+    const response: ApiResponse<null> = {
+      success: false,
+      error: 'Failed to fetch audit log',
+    };
+    res.status(500).json(response);
+  }
+};
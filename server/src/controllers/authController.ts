@@ -0,0 +1,164 @@
+/**
+ * Auth Controller
+ *
+ * Handles login and retrieval of the currently authenticated user.
+ */
+
+import { Request, Response } from 'express';
+import prisma from '../lib/prisma.js';
+import { signToken, verifyPassword, hashPassword } from '../lib/auth.js';
+import {
+  AuthUser,
+  LoginDTO,
+  LoginResponse,
+  UserRole,
+  ApiResponse,
+} from '../types/index.js';
+
+/**
+ * Log in with username and password
+ */
+export const login = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { username, password }: LoginDTO = req.body;
+
+    if (!username || !password) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Username and password are required',
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const user = await prisma.user.findUnique({ where: { username } });
+
+    if (!user || !user.isActive || !(await verifyPassword(password, user.passwordHash))) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Invalid username or password',
+      };
+      res.status(401).json(response);
+      return;
+    }
+
+    const authUser: AuthUser = {
+      id: user.id,
+      username: user.username,
+      name: user.name,
+      role: user.role as UserRole,
+    };
+
+    const response: ApiResponse<LoginResponse> = {
+      success: true,
+      data: {
+        token: signToken(authUser),
+        user: authUser,
+      },
+      message: 'Logged in successfully',
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error logging in:', error);
+    const response: ApiResponse<null> = {
+      success: false,
+      error: 'Failed to log in',
+    };
+    res.status(500).json(response);
+  }
+};
+
+/**
+ * Get the currently authenticated user
+ */
+export const getCurrentUser = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const user = await prisma.user.findUnique({ where: { id: req.user!.id } });
+
+    if (!user || !user.isActive) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Account is no longer active',
+      };
+      res.status(401).json(response);
+      return;
+    }
+
+    const response: ApiResponse<AuthUser> = {
+      success: true,
+      data: {
+        id: user.id,
+        username: user.username,
+        name: user.name,
+        role: user.role as UserRole,
+      },
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error fetching current user:', error);
+    const response: ApiResponse<null> = {
+      success: false,
+      error: 'Failed to fetch current user',
+    };
+    res.status(500).json(response);
+  }
+};
+
+/**
+ * Change the current user's password
+ */
+export const changePassword = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { currentPassword, newPassword } = req.body;
+
+    if (!currentPassword || !newPassword) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Current and new password are required',
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const user = await prisma.user.findUnique({ where: { id: req.user!.id } });
+
+    if (!user || !(await verifyPassword(currentPassword, user.passwordHash))) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Current password is incorrect',
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { passwordHash: await hashPassword(newPassword) },
+    });
+
+    const response: ApiResponse<null> = {
+      success: true,
+      message: 'Password changed successfully',
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error changing password:', error);
+    const response: ApiResponse<null> = {
+      success: false,
+      error: 'Failed to change password',
+    };
+    res.status(500).json(response);
+  }
+};
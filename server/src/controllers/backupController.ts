@@ -0,0 +1,198 @@
+/**
+ * Backup Controller
+ *
+ * Downloads a full database backup, restores one, and lists and downloads
+ * the scheduled backups kept on the server.
+ */
+
+import { Request, Response } from 'express';
+import path from 'path';
+import { Prisma } from '@prisma/client';
+import { ApiResponse, AuditAction, RestoreMode, RestoreResult, StoredBackup } from '../types/index.js';
+import { pauseAudit, recordAudit } from '../lib/audit.js';
+import {
+  BackupArchive,
+  backupDirectory,
+  backupToJson,
+  backupToZip,
+  createBackup,
+  isStoredBackupName,
+  listStoredBackups,
+  readBackupFile,
+  restoreBackup,
+  validateBackup,
+} from '../lib/backup.js';
+
+/**
+ * Download every table as a JSON or ZIP backup
+ */
+export const downloadBackup = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const format = (req.query.format as string) || 'zip';
+    if (format !== 'zip' && format !== 'json') {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Format must be zip or json',
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const archive = await createBackup();
+    const stamp = archive.createdAt.slice(0, 19).replace(/[-:]/g, '').replace('T', '-');
+
+    res.setHeader('Content-Disposition', `attachment; filename="dairy-backup-${stamp}.${format}"`);
+    if (format === 'zip') {
+      res.setHeader('Content-Type', 'application/zip');
+      res.send(await backupToZip(archive));
+    } else {
+      res.setHeader('Content-Type', 'application/json; charset=utf-8');
+      res.send(backupToJson(archive));
+    }
+  } catch (error) {
+    console.error('Error creating backup:', error);
+    const response: ApiResponse<null> = {
+      success: false,
+      error: 'Failed to create backup',
+    };
+    res.status(500).json(response);
+  }
+};
+
+/**
+ * Restore an uploaded JSON or ZIP backup, replacing or merging with the
+ * current data. Nothing changes unless the whole backup is restored.
+ */
+export const restoreFromBackup = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const mode = req.body.mode as RestoreMode;
+
+    if (!req.file || !Object.values(RestoreMode).includes(mode)) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'A backup file and a mode of replace or merge are required',
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    let archive: unknown;
+    try {
+      archive = await readBackupFile(req.file.buffer);
+    } catch (error) {
+      console.error('Error reading backup file:', error);
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'The file could not be read as a JSON or ZIP backup',
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const invalid = validateBackup(archive);
+    if (invalid) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: invalid,
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    // One summary entry instead of an audit entry per restored row
+    pauseAudit();
+    const result = await restoreBackup(archive as BackupArchive, mode, req.user!.id);
+    recordAudit({
+      entity: 'Backup',
+      entityId: null,
+      action: AuditAction.RESTORE,
+      before: null,
+      after: { ...result },
+      customerId: null,
+    });
+
+    const response: ApiResponse<RestoreResult> = {
+      success: true,
+      data: result,
+      message: 'Backup restored successfully',
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error restoring backup:', error);
+    // A merge stops at a record whose parent was kept out by an existing
+    // record with the same unique key
+    const conflict = error instanceof Prisma.PrismaClientKnownRequestError &&
+      ['P2002', 'P2003'].includes(error.code);
+    const response: ApiResponse<null> = {
+      success: false,
+      error: conflict
+        ? 'The backup conflicts with existing data; nothing was restored. Restore it in replace mode instead.'
+        : 'Failed to restore backup; nothing was restored',
+    };
+    res.status(conflict ? 409 : 500).json(response);
+  }
+};
+
+/**
+ * List the scheduled backups kept on the server, newest first
+ */
+export const getStoredBackups = async (
+  _req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const response: ApiResponse<StoredBackup[]> = {
+      success: true,
+      data: await listStoredBackups(),
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error listing backups:', error);
+    const response: ApiResponse<null> = {
+      success: false,
+      error: 'Failed to list backups',
+    };
+    res.status(500).json(response);
+  }
+};
+
+/**
+ * Download one of the scheduled backups kept on the server
+ */
+export const downloadStoredBackup = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { name } = req.params;
+    const stored = isStoredBackupName(name)
+      ? (await listStoredBackups()).find((b) => b.name === name)
+      : undefined;
+
+    if (!stored) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Backup not found',
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    res.download(path.join(backupDirectory(), stored.name));
+  } catch (error) {
+    console.error('Error downloading backup:', error);
+    const response: ApiResponse<null> = {
+      success: false,
+      error: 'Failed to download backup',
+    };
+    res.status(500).json(response);
+  }
+};
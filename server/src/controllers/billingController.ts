@@ -2,31 +2,47 @@
  * Billing Controller
  * 
  * Handles all billing-related operations including monthly billing summaries,
- * invoice generation, and customer billing history.
+ * invoice generation (JSON and PDF), customer billing history, the
+ * receivables aging report and billing exports.
  */
 
 import { Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
 import prisma from '../lib/prisma.js';
 import {
+  AgingReport,
   CustomerBillingSummary,
-  DailyDeliveryRecord,
   ApiResponse,
   Customer,
   Settings,
-  Shift,
-  CreatePaymentDTO,
-  Payment,
+  PeriodBalance,
+  CustomerInvoiceResponse,
+  PaginatedResponse,
 } from '../types/index.js';
+import {
+  loadProductPricing,
+  resolveProductPrice,
+} from '../lib/products.js';
+import { buildMonthlyBilling, loadCustomerBilling } from '../lib/billingSummary.js';
+import { loadCustomerInvoice } from '../lib/invoices.js';
+import { loadPeriodBalances } from '../lib/payments.js';
+import { renderInvoicePdf } from '../lib/invoicePdf.js';
+import { agingReportToCsv, buildAgingReport } from '../lib/aging.js';
+import { billingExportTable, resolveExportFormat, sendExport } from '../lib/exports.js';
+import { BILLING_SORT_FIELDS, pageArgs, readPageQuery, toPaginated } from '../lib/pagination.js';
+import { DEFAULT_SETTINGS } from './settingsController.js';
 
 /**
- * Get monthly billing summary for all customers
+ * Get monthly billing summary for all customers.
+ * With `page` or `limit` the response is one page of customers, optionally
+ * matched by name with `search`, with the total count.
  */
 export const getMonthlyBilling = async (
   req: Request,
   res: Response
 ): Promise<void> => {
   try {
-    const { month, year } = req.query;
+    const { month, year, search } = req.query;
     
     if (!month || !year) {
       const response: ApiResponse<null> = {
@@ -36,130 +52,43 @@ export const getMonthlyBilling = async (
       res.status(400).json(response);
       return;
     }
-    
+
     const monthNum = parseInt(month as string, 10);
     const yearNum = parseInt(year as string, 10);
-    
-    // Calculate date range for the month
-    const startDate = `${yearNum}-${String(monthNum).padStart(2, '0')}-01`;
-    const lastDay = new Date(yearNum, monthNum, 0).getDate();
-    const endDate = `${yearNum}-${String(monthNum).padStart(2, '0')}-${lastDay}`;
-    
-    // Get all active customers
-    const customers = await prisma.customer.findMany({
-      where: { isActive: true },
-      orderBy: { name: 'asc' },
-    });
-    
-    // Get all deliveries for this month
-    const allDeliveries = await prisma.delivery.findMany({
-      where: {
-        date: {
-          gte: startDate,
-          lte: endDate,
-        },
-        delivered: true,
-      },
-    });
-    
-    // Group deliveries by customer
-    const deliveryMap = new Map<string, typeof allDeliveries>();
-    allDeliveries.forEach(d => {
-       const list = deliveryMap.get(d.customerId) || [];
-       list.push(d);
-       deliveryMap.set(d.customerId, list);
-    });
-
-    const billingData: CustomerBillingSummary[] = [];
-    
-    for (const customer of customers) {
-      const customerDeliveries = deliveryMap.get(customer.id) || [];
-      
-      // Calculate totals
-      let totalLiters = 0;
-      const dailyMap = new Map<string, { morning: number; evening: number }>();
-      
-      customerDeliveries.forEach((delivery) => {
-        const amount = delivery.actualAmount || 0;
-        totalLiters += amount;
-        
-        const dateStr = delivery.date as unknown as string;
-        const existing = dailyMap.get(dateStr) || { morning: 0, evening: 0 };
-        if (delivery.shift === Shift.MORNING) {
-          existing.morning += amount;
-        } else {
-          existing.evening += amount;
-        }
-        dailyMap.set(dateStr, existing);
-      });
-      
-      // Convert to daily breakdown array
-      const dailyBreakdown: DailyDeliveryRecord[] = Array.from(dailyMap.entries())
-        .sort((a, b) => a[0].localeCompare(b[0]))
-        .map(([date, amounts]) => ({
-          date,
-          morningAmount: amounts.morning,
-          eveningAmount: amounts.evening,
-          totalAmount: amounts.morning + amounts.evening,
-        }));
-      
-      const totalConsumptionAmount = totalLiters * customer.pricePerLiter;
+    const { page, orderBy } = readPageQuery(req.query, BILLING_SORT_FIELDS, 'customerName', 'asc');
 
-      // Calculate previous balance (Total historical consumption BEFORE this month - Total historical payments BEFORE this month)
-      const historicalDeliveries = await prisma.delivery.findMany({
-        where: {
-          customerId: customer.id,
-          date: { lt: startDate },
-          delivered: true
-        },
-        include: { customer: true }
-      });
-      
-      const totalHistoricalDebit = historicalDeliveries.reduce((acc, d) => 
-        acc + (d.actualAmount * (d.customer?.pricePerLiter || customer.pricePerLiter)), 0
-      );
-
-      const historicalPayments = await prisma.payment.findMany({
-        where: {
-          customerId: customer.id,
-          OR: [
-            { year: { lt: yearNum } },
-            { year: yearNum, month: { lt: monthNum } }
-          ]
-        }
-      });
-      const totalHistoricalCredit = historicalPayments.reduce((acc: number, p) => acc + p.amount, 0);
-      const previousBalance = totalHistoricalDebit - totalHistoricalCredit;
+    if (!page && !search) {
+      const response: ApiResponse<CustomerBillingSummary[]> = {
+        success: true,
+        data: await buildMonthlyBilling(monthNum, yearNum),
+      };
+      res.json(response);
+      return;
+    }
 
-      // Calculate payments for current month
-      const currentMonthPayments = await prisma.payment.findMany({
-        where: {
-          customerId: customer.id,
-          month: monthNum,
-          year: yearNum
-        }
-      });
-      const paidAmount = currentMonthPayments.reduce((acc: number, p) => acc + p.amount, 0);
+    // Page the customers first so only their bills are built
+    const where: Prisma.CustomerWhereInput = {
+      isActive: true,
+      ...(search && { name: { contains: String(search).trim(), mode: 'insensitive' as const } }),
+    };
+    const [customers, total] = await prisma.$transaction([
+      prisma.customer.findMany({
+        where,
+        select: { id: true },
+        orderBy: [orderBy, { id: 'asc' }],
+        ...pageArgs(page),
+      }),
+      prisma.customer.count({ where }),
+    ]);
+    const ids = customers.map((c) => c.id);
+    const summaries = new Map(
+      (await buildMonthlyBilling(monthNum, yearNum, ids)).map((s) => [s.customerId, s])
+    );
+    const items = ids.flatMap((id) => summaries.get(id) ?? []);
 
-      billingData.push({
-        customerId: customer.id,
-        customerName: customer.name,
-        customerAddress: customer.address,
-        month: monthNum,
-        year: yearNum,
-        totalLiters,
-        pricePerLiter: customer.pricePerLiter,
-        totalAmount: totalConsumptionAmount,
-        previousBalance,
-        paidAmount,
-        totalDue: previousBalance + totalConsumptionAmount - paidAmount,
-        dailyBreakdown,
-      });
-    }
-    
-    const response: ApiResponse<CustomerBillingSummary[]> = {
+    const response: ApiResponse<CustomerBillingSummary[] | PaginatedResponse<CustomerBillingSummary>> = {
       success: true,
-      data: billingData,
+      data: page ? toPaginated(items, total, page) : items,
     };
     
     res.json(response);
@@ -173,6 +102,46 @@ export const getMonthlyBilling = async (
   }
 };
 
+/**
+ * Download the monthly billing summary as CSV or XLSX
+ */
+export const exportMonthlyBilling = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { month, year } = req.query;
+    const format = resolveExportFormat(req.query.format);
+
+    if (!month || !year || !format) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Month and year are required and format must be csv or xlsx',
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const monthNum = parseInt(month as string, 10);
+    const yearNum = parseInt(year as string, 10);
+    const billingData = await buildMonthlyBilling(monthNum, yearNum);
+
+    await sendExport(
+      res,
+      billingExportTable(billingData),
+      `billing-${yearNum}-${String(monthNum).padStart(2, '0')}`,
+      format
+    );
+  } catch (error) {
+    console.error('Error exporting monthly billing:', error);
+    const response: ApiResponse<null> = {
+      success: false,
+      error: 'Failed to export monthly billing',
+    };
+    res.status(500).json(response);
+  }
+};
+
 /**
  * Get billing details for a specific customer
  */
@@ -210,98 +179,13 @@ export const getCustomerBilling = async (
       return;
     }
     
-    // Calculate date range
-    const startDate = `${yearNum}-${String(monthNum).padStart(2, '0')}-01`;
-    const lastDay = new Date(yearNum, monthNum, 0).getDate();
-    const endDate = `${yearNum}-${String(monthNum).padStart(2, '0')}-${lastDay}`;
-    
-    // Get deliveries
-    const deliveries = await prisma.delivery.findMany({
-      where: {
-        customerId,
-        date: {
-          gte: startDate,
-          lte: endDate,
-        },
-        delivered: true,
-      },
-    });
-    
-    let totalLiters = 0;
-    const dailyMap = new Map<string, { morning: number; evening: number }>();
-    
-    deliveries.forEach((delivery) => {
-      const amount = delivery.actualAmount || 0;
-      totalLiters += amount;
-      
-      const dateStr = delivery.date as unknown as string;
-      const existing = dailyMap.get(dateStr) || { morning: 0, evening: 0 };
-      if (delivery.shift === Shift.MORNING) {
-        existing.morning += amount;
-      } else {
-        existing.evening += amount;
-      }
-      dailyMap.set(dateStr, existing);
-    });
-    
-    const dailyBreakdown: DailyDeliveryRecord[] = Array.from(dailyMap.entries())
-      .sort((a, b) => a[0].localeCompare(b[0]))
-      .map(([date, amounts]) => ({
-        date,
-        morningAmount: amounts.morning,
-        eveningAmount: amounts.evening,
-        totalAmount: amounts.morning + amounts.evening,
-      }));
-    
-    // Calculate balances for specific customer
-    const historicalDeliveries = await prisma.delivery.findMany({
-      where: {
-        customerId,
-        date: { lt: startDate },
-        delivered: true
-      }
-    });
-    const totalHistoricalDebit = historicalDeliveries.reduce((acc, d) => acc + (d.actualAmount * customer.pricePerLiter), 0);
-
-    const historicalPayments = await prisma.payment.findMany({
-      where: {
-        customerId,
-        OR: [
-          { year: { lt: yearNum } },
-          { year: yearNum, month: { lt: monthNum } }
-        ]
-      }
-    });
-    const totalHistoricalCredit = historicalPayments.reduce((acc: number, p) => acc + p.amount, 0);
-    const previousBalance = totalHistoricalDebit - totalHistoricalCredit;
-
-    const currentMonthPayments = await prisma.payment.findMany({
-      where: {
-        customerId,
-        month: monthNum,
-        year: yearNum
-      }
-    });
-    const paidAmount = currentMonthPayments.reduce((acc: number, p) => acc + p.amount, 0);
+    const summary = await loadCustomerBilling(customer, monthNum, yearNum);
 
     // Get business settings for invoice
     const settings = await prisma.settings.findUnique({ where: { id: 1 }});
-    
-    const totalAmount = totalLiters * customer.pricePerLiter;
 
     const billingDetail: CustomerBillingSummary & { settings?: Settings | null } = {
-      customerId: customer.id,
-      customerName: customer.name,
-      customerAddress: customer.address,
-      month: monthNum,
-      year: yearNum,
-      totalLiters,
-      pricePerLiter: customer.pricePerLiter,
-      totalAmount,
-      previousBalance,
-      paidAmount,
-      totalDue: previousBalance + totalAmount - paidAmount,
-      dailyBreakdown,
+      ...summary,
       settings: settings as unknown as Settings,
     };
     
@@ -342,11 +226,12 @@ export const getTodayRevenue = async (
       }
     });
     
+    const pricing = await loadProductPricing(deliveries.map(d => d.customerId));
     let totalRevenue = 0;
     
     deliveries.forEach((delivery) => {
         const amount = delivery.actualAmount || 0;
-        const price = delivery.customer?.pricePerLiter || 0;
+        const price = resolveProductPrice(pricing, delivery.customer, delivery.productId, delivery.date);
         totalRevenue += amount * price;
     });
     
@@ -367,26 +252,8 @@ export const getTodayRevenue = async (
 };
 
 /**
- * Customer Invoice Response Type
- */
-interface CustomerInvoiceResponse {
-  customer: {
-    id: string;
-    name: string;
-    address: string;
-    pricePerLiter: number;
-  };
-  totalLiters: number;
-  totalAmount: number;
-  dailyBreakdown: Array<{
-    date: string;
-    morning: number;
-    evening: number;
-  }>;
-}
-
-/**
- * Get customer invoice with detailed daily breakdown
+ * Get customer invoice with detailed daily breakdown.
+ * An issued invoice is returned as its stored snapshot.
  */
 export const getCustomerInvoice = async (
   req: Request,
@@ -408,12 +275,9 @@ export const getCustomerInvoice = async (
     const monthNum = parseInt(month as string, 10);
     const yearNum = parseInt(year as string, 10);
     
-    // Get customer
-    const customer = await prisma.customer.findUnique({
-      where: { id: customerId },
-    });
+    const invoice = await loadCustomerInvoice(customerId, monthNum, yearNum);
     
-    if (!customer) {
+    if (!invoice) {
       const response: ApiResponse<null> = {
         success: false,
         error: 'Customer not found',
@@ -422,60 +286,6 @@ export const getCustomerInvoice = async (
       return;
     }
     
-    // Calculate date range
-    const startDate = `${yearNum}-${String(monthNum).padStart(2, '0')}-01`;
-    const lastDay = new Date(yearNum, monthNum, 0).getDate();
-    const endDate = `${yearNum}-${String(monthNum).padStart(2, '0')}-${lastDay}`;
-    
-    // Get deliveries
-    const deliveries = await prisma.delivery.findMany({
-      where: {
-        customerId,
-        date: {
-            gte: startDate,
-            lte: endDate
-        },
-        delivered: true,
-      }
-    });
-    
-    let totalLiters = 0;
-    const dailyMap = new Map<string, { morning: number; evening: number }>();
-    
-    deliveries.forEach((delivery) => {
-      const amount = delivery.actualAmount || 0;
-      totalLiters += amount;
-      
-      const dateStr = delivery.date as unknown as string;
-      const existing = dailyMap.get(dateStr) || { morning: 0, evening: 0 };
-      if (delivery.shift === Shift.MORNING) {
-        existing.morning += amount;
-      } else {
-        existing.evening += amount;
-      }
-      dailyMap.set(dateStr, existing);
-    });
-    
-    const dailyBreakdown = Array.from(dailyMap.entries())
-      .sort((a, b) => a[0].localeCompare(b[0]))
-      .map(([date, amounts]) => ({
-        date,
-        morning: amounts.morning,
-        evening: amounts.evening,
-      }));
-    
-    const invoice: CustomerInvoiceResponse = {
-      customer: {
-        id: customer.id,
-        name: customer.name,
-        address: customer.address,
-        pricePerLiter: customer.pricePerLiter,
-      },
-      totalLiters,
-      totalAmount: totalLiters * customer.pricePerLiter,
-      dailyBreakdown,
-    };
-    
     const response: ApiResponse<CustomerInvoiceResponse> = {
       success: true,
       data: invoice,
@@ -493,47 +303,141 @@ export const getCustomerInvoice = async (
 };
 
 /**
- * Record a payment for a customer
+ * Download a customer's monthly invoice as a PDF
  */
-export const recordPayment = async (
+export const getCustomerInvoicePdf = async (
   req: Request,
   res: Response
 ): Promise<void> => {
   try {
-    const paymentData: CreatePaymentDTO = req.body;
+    const { customerId } = req.params;
+    const { month, year } = req.query;
+    
+    const monthNum = parseInt(month as string, 10);
+    const yearNum = parseInt(year as string, 10);
     
-    if (!paymentData.customerId || paymentData.amount === undefined || !paymentData.date || !paymentData.month || !paymentData.year) {
+    if (!(monthNum >= 1 && monthNum <= 12) || !yearNum) {
       const response: ApiResponse<null> = {
         success: false,
-        error: 'Missing required payment fields',
+        error: 'Month and year are required',
       };
       res.status(400).json(response);
       return;
     }
+    
+    const [invoice, settings] = await Promise.all([
+      loadCustomerInvoice(customerId, monthNum, yearNum),
+      prisma.settings.findUnique({ where: { id: 1 } }),
+    ]);
+    
+    if (!invoice) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Customer not found',
+      };
+      res.status(404).json(response);
+      return;
+    }
+    
+    const periodLabel = new Date(Date.UTC(yearNum, monthNum - 1, 1))
+      .toLocaleString('en-US', { month: 'long', year: 'numeric', timeZone: 'UTC' });
+    const fileName = `invoice-${invoice.customer.name.replace(/[^a-z0-9]+/gi, '-').toLowerCase()}-${yearNum}-${String(monthNum).padStart(2, '0')}.pdf`;
+    
+    const doc = renderInvoicePdf(invoice, settings ?? DEFAULT_SETTINGS, periodLabel);
+    
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+    doc.pipe(res);
+    doc.end();
+  } catch (error) {
+    console.error('Error generating invoice PDF:', error);
+    const response: ApiResponse<null> = {
+      success: false,
+      error: 'Failed to generate invoice PDF',
+    };
+    res.status(500).json(response);
+  }
+};
 
-    const payment = await prisma.payment.create({
-      data: {
-        customerId: paymentData.customerId,
-        amount: paymentData.amount,
-        date: paymentData.date,
-        month: paymentData.month,
-        year: paymentData.year,
-        remarks: paymentData.remarks,
-      }
-    });
+/**
+ * Get a customer's billed months with what is still outstanding on each
+ */
+export const getCustomerPeriodBalances = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { customerId } = req.params;
 
-    const response: ApiResponse<Payment> = {
+    const customer = await prisma.customer.findUnique({ where: { id: customerId } });
+    if (!customer) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Customer not found',
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    const response: ApiResponse<PeriodBalance[]> = {
       success: true,
-      data: payment as unknown as Payment,
-      message: 'Payment recorded successfully',
+      data: await loadPeriodBalances(customerId),
     };
-    
-    res.status(201).json(response);
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error fetching period balances:', error);
+    const response: ApiResponse<null> = {
+      success: false,
+      error: 'Failed to fetch period balances',
+    };
+    res.status(500).json(response);
+  }
+};
+
+/**
+ * Get the receivables aging report: every customer's outstanding balance
+ * bucketed by days past due
+ */
+export const getAgingReport = async (
+  _req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const response: ApiResponse<AgingReport> = {
+      success: true,
+      data: await buildAgingReport(),
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error building aging report:', error);
+    const response: ApiResponse<null> = {
+      success: false,
+      error: 'Failed to build aging report',
+    };
+    res.status(500).json(response);
+  }
+};
+
+/**
+ * Download the receivables aging report as CSV
+ */
+export const getAgingReportCsv = async (
+  _req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const report = await buildAgingReport();
+
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="aging-${report.asOf}.csv"`);
+    res.send(agingReportToCsv(report));
   } catch (error) {
-    console.error('Error recording payment:', error);
+    console.error('Error exporting aging report:', error);
     const response: ApiResponse<null> = {
       success: false,
-      error: 'Failed to record payment',
+      error: 'Failed to export aging report',
     };
     res.status(500).json(response);
   }
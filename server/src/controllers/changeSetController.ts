@@ -0,0 +1,45 @@
+/**
+ * Change Set Controller
+ *
+ * Undoes a bulk or destructive action shortly after it was made.
+ */
+
+import { Request, Response } from 'express';
+import { ApiResponse, UndoResult } from '../types/index.js';
+import { undoChangeSet } from '../lib/changeSets.js';
+
+/**
+ * Put back the rows an action changed
+ */
+export const undoChange = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const outcome = await undoChangeSet(req.params.id, req.user!);
+
+    if ('error' in outcome) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: outcome.error,
+      };
+      res.status(outcome.status).json(response);
+      return;
+    }
+
+    const response: ApiResponse<UndoResult> = {
+      success: true,
+      data: outcome.result,
+      message: 'Action undone',
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error undoing change:', error);
+    const response: ApiResponse<null> = {
+      success: false,
+      error: 'Failed to undo',
+    };
+    res.status(500).json(response);
+  }
+};
@@ -6,51 +6,88 @@
  */
 
 import { Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
 import prisma from '../lib/prisma.js';
 import {
   Customer,
   CreateCustomerDTO,
   UpdateCustomerDTO,
   CustomerCategory,
+  CustomerPrice,
+  CustomerPause,
+  CreateCustomerPauseDTO,
+  QuotaSchedule,
+  SetQuotaScheduleDTO,
+  WeekdayQuotas,
+  Shift,
+  CustomerStatement,
+  CustomerImportMapping,
+  CustomerImportResult,
   ApiResponse,
+  PaginatedResponse,
 } from '../types/index.js';
 import { v4 as uuidv4 } from 'uuid';
+import { loadPriceHistory, resolvePrice, recordPriceChange } from '../lib/pricing.js';
+import { buildCustomerStatement } from '../lib/billing.js';
+import { loadLockedInvoicesFrom, lockedPeriodMessage } from '../lib/invoices.js';
+import { settleCreditForCustomers } from '../lib/payments.js';
+import { renderStatementPdf } from '../lib/statementPdf.js';
+import {
+  ImportSheet,
+  IMPORT_FIELDS,
+  readImportSheet,
+  resolveColumnMapping,
+  validateImportRows,
+} from '../lib/customerImport.js';
+import { CUSTOMER_SORT_FIELDS, pageArgs, readPageQuery, toPaginated } from '../lib/pagination.js';
+import { DEFAULT_SETTINGS } from './settingsController.js';
 
 /**
- * Get all customers with optional filtering
+ * Get customers with optional filtering, searching and sorting.
+ * With `page` or `limit` the response is one page with the total count.
  */
 export const getAllCustomers = async (
   req: Request,
   res: Response
 ): Promise<void> => {
   try {
-    const { category, active } = req.query;
+    const { category, active, search } = req.query;
+    const { page, orderBy } = readPageQuery(req.query, CUSTOMER_SORT_FIELDS, 'name', 'asc');
     
-    const where: any = {};
+    const where: Prisma.CustomerWhereInput = {};
     
     // Filter by category if provided
     if (category && Object.values(CustomerCategory).includes(category as CustomerCategory)) {
-      where.category = category;
+      where.category = category as string;
     }
     
     // Filter by active status if provided
     if (active !== undefined) {
       where.isActive = active === 'true';
     }
+
+    // Match name, address or phone
+    if (search) {
+      const contains = { contains: String(search).trim(), mode: 'insensitive' as const };
+      where.OR = [{ name: contains }, { address: contains }, { phone: contains }];
+    }
     
-    const customers = await prisma.customer.findMany({
-      where,
-      orderBy: {
-        name: 'asc',
-      },
-    });
+    const [customers, total] = await prisma.$transaction([
+      prisma.customer.findMany({
+        where,
+        // Name, then id, keeps pages stable when the sort field has ties
+        orderBy: [orderBy, { name: 'asc' }, { id: 'asc' }],
+        ...pageArgs(page),
+      }),
+      prisma.customer.count({ where }),
+    ]);
     
     // Prisma returns Date objects, so we cast to our Customer interface (which expects Date)
-    // The previous implementation mapped Timestamp to Date, but here it is already Date.
+    const items = customers as unknown as Customer[];
     
-    const response: ApiResponse<Customer[]> = {
+    const response: ApiResponse<Customer[] | PaginatedResponse<Customer>> = {
       success: true,
-      data: customers as unknown as Customer[], 
+      data: page ? toPaginated(items, total, page) : items,
     };
     
     res.json(response);
@@ -117,6 +154,12 @@ export const createCustomer = async (
       data: {
         ...customerData,
         isActive: true, // Default to true
+        priceHistory: {
+          create: {
+            pricePerLiter: customerData.pricePerLiter,
+            effectiveFrom: new Date().toISOString().split('T')[0],
+          },
+        },
       },
     });
     
@@ -137,6 +180,134 @@ export const createCustomer = async (
   }
 };
 
+/**
+ * Import customers from an uploaded CSV or XLSX file. With `dryRun=true`
+ * only the validation preview is returned; otherwise every valid row is
+ * created in one transaction, or none if any row is invalid. Rows that
+ * duplicate an existing customer or an earlier row are skipped.
+ */
+export const importCustomers = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const dryRun = req.query.dryRun === 'true';
+
+    if (!req.file || !/\.(csv|xlsx)$/i.test(req.file.originalname)) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'A .csv or .xlsx file is required',
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    let mapping: CustomerImportMapping | null;
+    try {
+      mapping = req.body.mapping ? JSON.parse(req.body.mapping) : {};
+    } catch {
+      mapping = null;
+    }
+    if (!mapping || typeof mapping !== 'object' || Array.isArray(mapping)) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'mapping must be a JSON object of field to column header',
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    let sheet: ImportSheet;
+    try {
+      sheet = await readImportSheet(req.file.originalname, req.file.buffer);
+    } catch (error) {
+      console.error('Error reading customer import file:', error);
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'The file could not be read as CSV or XLSX',
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const unknownColumn = Object.entries(mapping).find(([field, header]) =>
+      !IMPORT_FIELDS.includes(field as keyof CreateCustomerDTO) ||
+      (header !== '' && !sheet.headers.includes(header as string)));
+    if (unknownColumn) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: `Column '${unknownColumn[1] ?? ''}' for ${unknownColumn[0]} is not in the file`,
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const columns = resolveColumnMapping(sheet.headers, mapping);
+    if (!columns.name || !columns.address) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Choose the columns holding the customer name and address',
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const settings = await prisma.settings.findUnique({ where: { id: 1 } });
+    const defaultPrice = (settings ?? DEFAULT_SETTINGS).defaultPricePerLiter;
+    const rows = await validateImportRows(sheet, columns, defaultPrice);
+    const valid = rows.filter((r) => r.status === 'valid');
+    const invalid = rows.filter((r) => r.status === 'invalid').length;
+
+    if (!dryRun && invalid > 0) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: `${invalid} row${invalid === 1 ? ' has' : 's have'} errors; fix them and import again`,
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    if (!dryRun && valid.length > 0) {
+      const effectiveFrom = new Date().toISOString().split('T')[0];
+      const customers = valid.map((r) => ({ id: uuidv4(), ...r.data, isActive: true }));
+      await prisma.$transaction([
+        prisma.customer.createMany({ data: customers }),
+        prisma.customerPrice.createMany({
+          data: customers.map((c) => ({ customerId: c.id, pricePerLiter: c.pricePerLiter, effectiveFrom })),
+        }),
+      ]);
+    }
+
+    const result: CustomerImportResult = {
+      dryRun,
+      headers: sheet.headers,
+      mapping: columns,
+      rows,
+      valid: valid.length,
+      invalid,
+      duplicates: rows.filter((r) => r.status === 'duplicate').length,
+      created: dryRun ? 0 : valid.length,
+    };
+
+    const response: ApiResponse<CustomerImportResult> = {
+      success: true,
+      data: result,
+      message: dryRun
+        ? `${result.valid} ready to import, ${result.invalid} with errors, ${result.duplicates} duplicates`
+        : `${result.created} customers imported`,
+    };
+
+    res.status(dryRun ? 200 : 201).json(response);
+  } catch (error) {
+    console.error('Error importing customers:', error);
+    const response: ApiResponse<null> = {
+      success: false,
+      error: 'Failed to import customers',
+    };
+    res.status(500).json(response);
+  }
+};
+
 /**
  * Update an existing customer
  */
@@ -159,9 +330,42 @@ export const updateCustomer = async (
       return;
     }
 
-    const updatedCustomer = await prisma.customer.update({
-      where: { id },
-      data: updateData,
+    const { pricePerLiter, priceEffectiveFrom, ...customerFields } = updateData;
+    const effectiveFrom = priceEffectiveFrom || new Date().toISOString().split('T')[0];
+
+    // A price change opens a new rate period instead of overwriting the old rate,
+    // so deliveries before effectiveFrom keep billing at the price that applied then
+    const history = (await loadPriceHistory([id])).get(id);
+    const priceChanged = pricePerLiter !== undefined &&
+      resolvePrice(history, effectiveFrom, existing.pricePerLiter) !== pricePerLiter;
+
+    // The new rate would reprice invoiced months, like editing their deliveries
+    if (priceChanged) {
+      const locked = await loadLockedInvoicesFrom(id, effectiveFrom);
+      if (locked.length > 0) {
+        const response: ApiResponse<null> = {
+          success: false,
+          error: lockedPeriodMessage(locked, 'a month this price applies to'),
+        };
+        res.status(409).json(response);
+        return;
+      }
+    }
+
+    const updatedCustomer = await prisma.$transaction(async (tx) => {
+      const currentPrice = priceChanged
+        ? await recordPriceChange(tx, id, pricePerLiter as number, effectiveFrom)
+        : undefined;
+
+      const updated = await tx.customer.update({
+        where: { id },
+        data: {
+          ...customerFields,
+          ...(currentPrice !== undefined && { pricePerLiter: currentPrice }),
+        },
+      });
+      if (priceChanged) await settleCreditForCustomers(tx, [id]);
+      return updated;
     });
     
     const response: ApiResponse<Customer> = {
@@ -279,3 +483,452 @@ export const getCustomersByCategory = async (
     res.status(500).json(response);
   }
 };
+
+
+/**
+ * Get the effective-dated price history for a customer
+ */
+export const getCustomerPriceHistory = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const existing = await prisma.customer.findUnique({ where: { id } });
+    if (!existing) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Customer not found',
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    const history = await prisma.customerPrice.findMany({
+      where: { customerId: id },
+      orderBy: { effectiveFrom: 'desc' },
+    });
+
+    const response: ApiResponse<CustomerPrice[]> = {
+      success: true,
+      data: history as unknown as CustomerPrice[],
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error fetching price history:', error);
+    const response: ApiResponse<null> = {
+      success: false,
+      error: 'Failed to fetch price history',
+    };
+    res.status(500).json(response);
+  }
+};
+
+/**
+ * Get a customer's pauses (most recent first)
+ */
+export const getCustomerPauses = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const existing = await prisma.customer.findUnique({ where: { id } });
+    if (!existing) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Customer not found',
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    const pauses = await prisma.customerPause.findMany({
+      where: { customerId: id },
+      orderBy: { startDate: 'desc' },
+    });
+
+    const response: ApiResponse<CustomerPause[]> = {
+      success: true,
+      data: pauses as unknown as CustomerPause[],
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error fetching customer pauses:', error);
+    const response: ApiResponse<null> = {
+      success: false,
+      error: 'Failed to fetch customer pauses',
+    };
+    res.status(500).json(response);
+  }
+};
+
+/**
+ * Pause a customer's deliveries for a date range
+ */
+export const createCustomerPause = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { startDate, endDate, shift, reason }: CreateCustomerPauseDTO = req.body;
+    const normalizedShift = shift ? (shift.toLowerCase() as Shift) : null;
+
+    if (!startDate || !endDate || startDate > endDate) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'A start date on or before the end date is required',
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    if (normalizedShift && !Object.values(Shift).includes(normalizedShift)) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Shift must be morning or evening',
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const existing = await prisma.customer.findUnique({ where: { id } });
+    if (!existing) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Customer not found',
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    const pause = await prisma.customerPause.create({
+      data: {
+        customerId: id,
+        startDate,
+        endDate,
+        shift: normalizedShift,
+        reason: reason || null,
+      },
+    });
+
+    const response: ApiResponse<CustomerPause> = {
+      success: true,
+      data: pause as unknown as CustomerPause,
+      message: 'Customer paused successfully',
+    };
+
+    res.status(201).json(response);
+  } catch (error) {
+    console.error('Error creating customer pause:', error);
+    const response: ApiResponse<null> = {
+      success: false,
+      error: 'Failed to pause customer',
+    };
+    res.status(500).json(response);
+  }
+};
+
+/**
+ * Remove a customer pause
+ */
+export const deleteCustomerPause = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id, pauseId } = req.params;
+
+    const pause = await prisma.customerPause.findFirst({
+      where: { id: pauseId, customerId: id },
+    });
+    if (!pause) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Pause not found',
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    await prisma.customerPause.delete({ where: { id: pauseId } });
+
+    const response: ApiResponse<null> = {
+      success: true,
+      message: 'Pause removed successfully',
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error deleting customer pause:', error);
+    const response: ApiResponse<null> = {
+      success: false,
+      error: 'Failed to remove pause',
+    };
+    res.status(500).json(response);
+  }
+};
+
+/**
+ * Check that weekday quotas only use day keys 0-6 and non-negative quantities
+ */
+const isValidWeekdayQuotas = (weekdayQuotas: WeekdayQuotas): boolean => {
+  return Object.entries(weekdayQuotas).every(([day, quota]) =>
+    /^[0-6]$/.test(day) &&
+    !!quota &&
+    [quota.morning, quota.evening].every((q) => q === undefined || (typeof q === 'number' && q >= 0))
+  );
+};
+
+/**
+ * Get a customer's quota schedule (null when only base quotas apply)
+ */
+export const getQuotaSchedule = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const existing = await prisma.customer.findUnique({ where: { id } });
+    if (!existing) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Customer not found',
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    const schedule = await prisma.quotaSchedule.findUnique({ where: { customerId: id } });
+
+    const response: ApiResponse<QuotaSchedule | null> = {
+      success: true,
+      data: schedule as unknown as QuotaSchedule | null,
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error fetching quota schedule:', error);
+    const response: ApiResponse<null> = {
+      success: false,
+      error: 'Failed to fetch quota schedule',
+    };
+    res.status(500).json(response);
+  }
+};
+
+/**
+ * Create or replace a customer's quota schedule
+ */
+export const setQuotaSchedule = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { weekdayQuotas, intervalDays = 1, startDate }: SetQuotaScheduleDTO = req.body;
+    const cycleStart = startDate || new Date().toISOString().split('T')[0];
+
+    if (!Number.isInteger(intervalDays) || intervalDays < 1) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'intervalDays must be a whole number of at least 1',
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    if (weekdayQuotas && !isValidWeekdayQuotas(weekdayQuotas)) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'weekdayQuotas must map days 0-6 to non-negative morning/evening quantities',
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const existing = await prisma.customer.findUnique({ where: { id } });
+    if (!existing) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Customer not found',
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    const data = {
+      weekdayQuotas: weekdayQuotas
+        ? (weekdayQuotas as Prisma.InputJsonValue)
+        : Prisma.DbNull,
+      intervalDays,
+      startDate: cycleStart,
+    };
+
+    const schedule = await prisma.quotaSchedule.upsert({
+      where: { customerId: id },
+      update: data,
+      create: { ...data, customerId: id },
+    });
+
+    const response: ApiResponse<QuotaSchedule> = {
+      success: true,
+      data: schedule as unknown as QuotaSchedule,
+      message: 'Quota schedule saved successfully',
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error saving quota schedule:', error);
+    const response: ApiResponse<null> = {
+      success: false,
+      error: 'Failed to save quota schedule',
+    };
+    res.status(500).json(response);
+  }
+};
+
+/**
+ * Remove a customer's quota schedule so only base quotas apply
+ */
+export const deleteQuotaSchedule = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    await prisma.quotaSchedule.deleteMany({ where: { customerId: id } });
+
+    const response: ApiResponse<null> = {
+      success: true,
+      message: 'Quota schedule removed successfully',
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error deleting quota schedule:', error);
+    const response: ApiResponse<null> = {
+      success: false,
+      error: 'Failed to remove quota schedule',
+    };
+    res.status(500).json(response);
+  }
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Statement range from the query: `from` defaults to the first of the
+ * current month and `to` to today. Returns null if either is malformed.
+ */
+const parseStatementRange = (query: Request['query']): { from: string; to: string } | null => {
+  const today = new Date().toISOString().slice(0, 10);
+  const from = (query.from as string) || `${today.slice(0, 8)}01`;
+  const to = (query.to as string) || today;
+  if (!DATE_PATTERN.test(from) || !DATE_PATTERN.test(to) || from > to) return null;
+  return { from, to };
+};
+
+/**
+ * Get a customer's account statement with opening, running and closing balances
+ */
+export const getCustomerStatement = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const range = parseStatementRange(req.query);
+    if (!range) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'from and to must be YYYY-MM-DD dates with from on or before to',
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const customer = await prisma.customer.findUnique({ where: { id } });
+    if (!customer) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Customer not found',
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    const response: ApiResponse<CustomerStatement> = {
+      success: true,
+      data: await buildCustomerStatement(customer, range.from, range.to),
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error fetching customer statement:', error);
+    const response: ApiResponse<null> = {
+      success: false,
+      error: 'Failed to fetch customer statement',
+    };
+    res.status(500).json(response);
+  }
+};
+
+/**
+ * Download a customer's account statement as a PDF
+ */
+export const getCustomerStatementPdf = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const range = parseStatementRange(req.query);
+    if (!range) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'from and to must be YYYY-MM-DD dates with from on or before to',
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const [customer, settings] = await Promise.all([
+      prisma.customer.findUnique({ where: { id } }),
+      prisma.settings.findUnique({ where: { id: 1 } }),
+    ]);
+    if (!customer) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Customer not found',
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    const statement = await buildCustomerStatement(customer, range.from, range.to);
+    const doc = renderStatementPdf(statement, settings ?? DEFAULT_SETTINGS);
+    const fileName = `statement-${customer.name.replace(/[^a-z0-9]+/gi, '-').toLowerCase()}-${range.from}-${range.to}.pdf`;
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+    doc.pipe(res);
+    doc.end();
+  } catch (error) {
+    console.error('Error generating customer statement PDF:', error);
+    const response: ApiResponse<null> = {
+      success: false,
+      error: 'Failed to generate customer statement',
+    };
+    res.status(500).json(response);
+  }
+};
@@ -13,6 +13,10 @@ import {
   ApiResponse,
   Shift,
 } from '../types/index.js';
+import { loadPausedCustomerIds } from '../lib/pauses.js';
+import { isMorningShift, loadQuotaSchedules, resolveQuota } from '../lib/quota.js';
+import { DEFAULT_PRODUCT_ID, loadProductPricing, resolveProductPrice } from '../lib/products.js';
+import { loadInventoryLevel } from '../lib/inventory.js';
 
 /**
  * Get the start of the current week (Monday)
@@ -62,12 +66,17 @@ export const getDashboardStats = async (
     let totalMilkToday = 0;
     let estimatedRevenueToday = 0;
     
+    const pricing = await loadProductPricing(todayDeliveries.map(d => d.customerId));
+    
+    // Revenue covers every product; volume counts milk only
     todayDeliveries.forEach((delivery) => {
       const amount = delivery.actualAmount || 0;
-      totalMilkToday += amount;
+      if (delivery.productId === DEFAULT_PRODUCT_ID) {
+        totalMilkToday += amount;
+      }
       
-      const pricePerLiter = delivery.customer?.pricePerLiter || 0;
-      estimatedRevenueToday += amount * pricePerLiter;
+      const price = resolveProductPrice(pricing, delivery.customer, delivery.productId, delivery.date);
+      estimatedRevenueToday += amount * price;
     });
     
     // 3. Get active customers count
@@ -75,46 +84,37 @@ export const getDashboardStats = async (
       where: { isActive: true },
     });
     
-    // 4. Calculate current stock (Total In - Total Out)
-    const stockAgg = await prisma.stock.aggregate({ _sum: { quantity: true } });
-    const totalStockIn = stockAgg._sum.quantity || 0;
-    
-    const deliveryAgg = await prisma.delivery.aggregate({ 
-        where: { delivered: true },
-        _sum: { actualAmount: true } 
-    });
-    const totalDelivered = deliveryAgg._sum.actualAmount || 0;
-    
-    const currentStock = Math.max(0, totalStockIn - totalDelivered);
+    // 4. Calculate current stock from the inventory ledger
+    const { current: currentStock } = await loadInventoryLevel(DEFAULT_PRODUCT_ID);
     
     // Get max capacity from settings
     const settings = await prisma.settings.findUnique({ where: { id: 1 } });
     const maxCapacity = settings?.maxCapacity || 2000;
     
-    const stockPercentage = Math.min((currentStock / maxCapacity) * 100, 100);
+    const stockPercentage = Math.max(0, Math.min((currentStock / maxCapacity) * 100, 100));
     const lowStockAlert = stockPercentage < 20;
     
-    // 5. Get pending deliveries for current shift
+    // 5. Get pending deliveries for current shift (paused customers are not pending)
     const allCustomers = await prisma.customer.findMany({
       where: { isActive: true },
     });
+    const pausedIds = await loadPausedCustomerIds(todayStr, currentShift);
+    const schedules = await loadQuotaSchedules();
 
     // Get who has received delivery this shift
     const satisfiedCustomers = new Set(
         // We can optimize this by adding shift filter to todayDeliveries if we only fetched today's deliveries for *all* shifts?
         // But todayDeliveries fetched above is for *all* shifts of today.
         todayDeliveries
-            .filter(d => d.shift === currentShift && d.delivered)
+            .filter(d => d.productId === DEFAULT_PRODUCT_ID && isMorningShift(d.shift) === isMorningShift(currentShift) && d.delivered)
             .map(d => d.customerId)
     );
     
     let pendingDeliveries = 0;
     allCustomers.forEach((customer) => {
-      const quota = currentShift === Shift.MORNING 
-        ? customer.morningQuota 
-        : customer.eveningQuota;
+      const quota = resolveQuota(customer, schedules.get(customer.id), todayStr, currentShift);
       
-      if (quota > 0 && !satisfiedCustomers.has(customer.id)) {
+      if (quota > 0 && !satisfiedCustomers.has(customer.id) && !pausedIds.has(customer.id)) {
         pendingDeliveries++;
       }
     });
@@ -135,6 +135,7 @@ export const getDashboardStats = async (
         where: {
             date: { in: weekDates },
             delivered: true,
+            productId: DEFAULT_PRODUCT_ID,
         },
         _sum: {
             actualAmount: true,
@@ -195,13 +196,13 @@ export const getYesterdayComparison = async (
     const yesterdayStr = formatDate(yesterday);
     
     const todayAgg = await prisma.delivery.aggregate({
-        where: { date: todayStr, delivered: true },
+        where: { date: todayStr, delivered: true, productId: DEFAULT_PRODUCT_ID },
         _sum: { actualAmount: true }
     });
     const todayTotal = todayAgg._sum.actualAmount || 0;
 
     const yesterdayAgg = await prisma.delivery.aggregate({
-        where: { date: yesterdayStr, delivered: true },
+        where: { date: yesterdayStr, delivered: true, productId: DEFAULT_PRODUCT_ID },
         _sum: { actualAmount: true }
     });
     const yesterdayTotal = yesterdayAgg._sum.actualAmount || 0;
@@ -260,6 +261,7 @@ export const getDeliveryTrends = async (
             lte: formatDate(end),
         },
         delivered: true,
+        productId: DEFAULT_PRODUCT_ID,
     };
 
     if (customerId && customerId !== 'all') {
@@ -322,21 +324,25 @@ export const getSourceStats = async (
                   gte: formatDate(start),
                   lte: formatDate(end),
               },
+              productId: DEFAULT_PRODUCT_ID,
           },
       });
 
       // Group by sourceName manually since we want display names
-      const sourceMap = new Map<string, number>();
+      const sourceMap = new Map<string, { value: number; amount: number }>();
       
       stocks.forEach(stock => {
           const name = stock.sourceName || 'Unknown';
-          const qty = stock.quantity || 0;
-          sourceMap.set(name, (sourceMap.get(name) || 0) + qty);
+          const existing = sourceMap.get(name) || { value: 0, amount: 0 };
+          existing.value += stock.quantity || 0;
+          existing.amount += stock.amount || 0;
+          sourceMap.set(name, existing);
       });
 
-      const data = Array.from(sourceMap.entries()).map(([name, value]) => ({
+      // value is the quantity collected, amount its purchase value
+      const data = Array.from(sourceMap.entries()).map(([name, totals]) => ({
           name,
-          value
+          ...totals
       }));
   
       const response: ApiResponse<any[]> = {
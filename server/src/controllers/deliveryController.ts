@@ -2,28 +2,59 @@
  * Delivery Controller
  * 
  * Handles all delivery-related operations including daily logs,
- * delivery tracking, and autofill functionality.
+ * delivery tracking, autofill functionality and the delivery register export.
  */
 
 import { Request, Response } from 'express';
 import prisma from '../lib/prisma.js';
+import { resolveRouteScope, RouteScopeResult } from '../lib/routeScope.js';
+import { loadPausedCustomerIds } from '../lib/pauses.js';
+import { customerDeliveryWhere, loadDeliveryRegister } from '../lib/deliveries.js';
+import { deliveryExportTable, resolveExportFormat, sendExport } from '../lib/exports.js';
+import { DEFAULT_PRODUCT_ID, loadQuotaResolver } from '../lib/products.js';
+import { loadLockedCustomers, lockedPeriodMessage } from '../lib/invoices.js';
+import { ChangedRow, recordChangeSet } from '../lib/changeSets.js';
+import { settleCreditForCustomers } from '../lib/payments.js';
+import { DELIVERY_SORT_FIELDS, pageArgs, readPageQuery, toPaginated } from '../lib/pagination.js';
 import {
   Delivery,
   CreateDeliveryDTO,
   BulkDeliveryUpdateDTO,
+  BulkDeliveryUpdateResult,
+  BulkDeliveryResult,
+  DeliveryConflict,
+  ChangeSetAction,
   Shift,
   ApiResponse,
+  CustomerDeliveryPage,
+  UserRole,
 } from '../types/index.js';
 
 /**
- * Get deliveries for a specific date and shift
+ * Send the error for a route scope the user may not access
+ */
+const sendScopeError = (
+  res: Response,
+  result: Extract<RouteScopeResult, { error: string }>
+): void => {
+  const response: ApiResponse<null> = {
+    success: false,
+    error: result.error,
+  };
+  res.status(result.status).json(response);
+};
+
+/**
+ * Get deliveries for a specific date and shift.
+ * With a routeId (or for delivery staff) customers come back in stop order.
  */
 export const getDeliveriesByDateAndShift = async (
   req: Request,
   res: Response
 ): Promise<void> => {
   try {
-    const { date, shift } = req.query;
+    const { date, shift, routeId } = req.query;
+    const productId = (req.query.productId as string) || DEFAULT_PRODUCT_ID;
     
     if (!date || !shift) {
       const response: ApiResponse<null> = {
@@ -34,17 +65,21 @@ export const getDeliveriesByDateAndShift = async (
       return;
     }
     
-    // Get all active customers
-    const customers = await prisma.customer.findMany({
-      where: { isActive: true },
-      orderBy: { name: 'asc' },
-    });
+    // Get the active customers on the requested route(s)
+    const result = await resolveRouteScope(req.user, routeId as string | undefined);
+    if ('error' in result) {
+      sendScopeError(res, result);
+      return;
+    }
+    const { customers, restricted } = result.scope;
     
-    // Get existing deliveries for the date and shift
+    // Get existing deliveries of the product for the date and shift
     const existingDeliveries = await prisma.delivery.findMany({
       where: {
         date: date as string,
         shift: shift as string,
+        productId,
+        ...(restricted && { customerId: { in: customers.map((c) => c.id) } }),
       },
     });
     
@@ -52,16 +87,28 @@ export const getDeliveriesByDateAndShift = async (
     existingDeliveries.forEach((d) => {
       deliveryMap.set(d.customerId, d);
     });
+
+    const pausedIds = await loadPausedCustomerIds(date as string, shift as string);
+    const quotaFor = await loadQuotaResolver(customers.map((c) => c.id), productId);
+
+    // Other products only list customers who take them or already received them
+    const productCustomers = productId === DEFAULT_PRODUCT_ID
+      ? customers
+      : customers.filter((c) => deliveryMap.has(c.id) ||
+          quotaFor(c, date as string, Shift.MORNING) > 0 ||
+          quotaFor(c, date as string, Shift.EVENING) > 0);
     
     // Combine customers with their deliveries
-    const deliveryData = customers.map((customer) => {
+    const deliveryData = productCustomers.map((customer) => {
       const existingDelivery = deliveryMap.get(customer.id);
-      const quota = shift === Shift.MORNING ? customer.morningQuota : customer.eveningQuota;
+      const quota = quotaFor(customer, date as string, shift as string);
+      const isPaused = pausedIds.has(customer.id);
 
       if (existingDelivery) {
         return {
            ...existingDelivery,
-           customerName: customer.name
+           customerName: customer.name,
+           isPaused,
         } as unknown as Delivery;
       }
       
@@ -69,11 +116,13 @@ export const getDeliveriesByDateAndShift = async (
         id: '',
         customerId: customer.id,
         customerName: customer.name,
+        productId,
         date: date as string,
         shift: shift as Shift,
         quota,
         actualAmount: 0,
         delivered: false,
+        isPaused,
         createdAt: null,
         updatedAt: null,
       } as unknown as Delivery;
@@ -118,10 +167,37 @@ export const upsertDelivery = async (
       res.status(404).json(response);
       return;
     }
+
+    // Delivery staff may only record deliveries on their own routes
+    if (req.user?.role === UserRole.DELIVERY) {
+      const stop = await prisma.routeStop.findUnique({
+        where: { customerId: customer.id },
+        include: { route: true },
+      });
+      if (!stop || stop.route.agentId !== req.user.id) {
+        const response: ApiResponse<null> = {
+          success: false,
+          error: 'This customer is not on your route',
+        };
+        res.status(403).json(response);
+        return;
+      }
+    }
+    
+    // Issued invoices freeze the month's deliveries
+    const locked = await loadLockedCustomers(deliveryData.date, [customer.id]);
+    if (locked.has(customer.id)) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: lockedPeriodMessage([locked.get(customer.id) as string]),
+      };
+      res.status(409).json(response);
+      return;
+    }
     
-    const quota = deliveryData.shift === Shift.MORNING 
-      ? customer.morningQuota 
-      : customer.eveningQuota;
+    const productId = deliveryData.productId || DEFAULT_PRODUCT_ID;
+    const quotaFor = await loadQuotaResolver([customer.id], productId);
+    const quota = quotaFor(customer, deliveryData.date, deliveryData.shift);
     
     // Manual upsert
     let delivery = await prisma.delivery.findFirst({
@@ -129,6 +205,7 @@ export const upsertDelivery = async (
              customerId: deliveryData.customerId,
              date: deliveryData.date,
              shift: deliveryData.shift,
+             productId,
         }
     });
 
@@ -145,6 +222,7 @@ export const upsertDelivery = async (
         delivery = await prisma.delivery.create({
             data: {
                 customerId: deliveryData.customerId,
+                productId,
                 date: deliveryData.date,
                 shift: deliveryData.shift,
                 quota,
@@ -154,6 +232,7 @@ export const upsertDelivery = async (
             }
         });
     }
+    await prisma.$transaction((tx) => settleCreditForCustomers(tx, [customer.id]));
 
     const responseData = {
         ...delivery,
@@ -179,7 +258,7 @@ export const upsertDelivery = async (
 };
 
 /**
- * Bulk update deliveries for a date and shift
+ * Bulk update deliveries for a date and shift, optionally for one route
  */
 export const bulkUpdateDeliveries = async (
   req: Request,
@@ -187,24 +266,74 @@ export const bulkUpdateDeliveries = async (
 ): Promise<void> => {
   try {
     const bulkData: BulkDeliveryUpdateDTO = req.body;
+
+    const result = await resolveRouteScope(req.user, bulkData.routeId);
+    if ('error' in result) {
+      sendScopeError(res, result);
+      return;
+    }
+
+    if (result.scope.restricted) {
+      const allowed = new Set(result.scope.customers.map((c) => c.id));
+      if (bulkData.deliveries.some((input) => !allowed.has(input.customerId))) {
+        const response: ApiResponse<null> = {
+          success: false,
+          error: 'Some deliveries are for customers outside the selected route',
+        };
+        res.status(403).json(response);
+        return;
+      }
+    }
+    
+    const locked = await loadLockedCustomers(bulkData.date, bulkData.deliveries.map((d) => d.customerId));
+    if (locked.size > 0) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: lockedPeriodMessage(Array.from(locked.values())),
+      };
+      res.status(409).json(response);
+      return;
+    }
+    
+    const productId = bulkData.productId || DEFAULT_PRODUCT_ID;
+    const quotaFor = await loadQuotaResolver(bulkData.deliveries.map((d) => d.customerId), productId);
+    
+    const conflicts: DeliveryConflict[] = [];
+    let saved = 0;
+    const savedCustomerIds: string[] = [];
     
     await prisma.$transaction(async (tx) => {
         for (const input of bulkData.deliveries) {
              const customer = await tx.customer.findUnique({ where: { id: input.customerId } });
              if (!customer) continue;
 
-             const quota = bulkData.shift === Shift.MORNING 
-                ? customer.morningQuota 
-                : customer.eveningQuota;
+             const quota = quotaFor(customer, bulkData.date, bulkData.shift);
 
              const existing = await tx.delivery.findFirst({
                  where: {
                      customerId: input.customerId,
                      date: bulkData.date,
-                     shift: bulkData.shift
+                     shift: bulkData.shift,
+                     productId,
                  }
              });
 
+             // An edit made offline must not silently overwrite a newer one
+             if (
+               existing &&
+               input.baseUpdatedAt !== undefined &&
+               (input.baseUpdatedAt === null || existing.updatedAt.getTime() !== new Date(input.baseUpdatedAt).getTime())
+             ) {
+                 conflicts.push({
+                     customerId: customer.id,
+                     customerName: customer.name,
+                     mine: { actualAmount: input.actualAmount, delivered: input.delivered },
+                     server: { actualAmount: existing.actualAmount, delivered: existing.delivered, updatedAt: existing.updatedAt },
+                 });
+                 continue;
+             }
+             saved++;
+
              if (existing) {
                  await tx.delivery.update({
                      where: { id: existing.id },
@@ -218,6 +347,7 @@ export const bulkUpdateDeliveries = async (
                  await tx.delivery.create({
                      data: {
                         customerId: input.customerId,
+                        productId,
                         date: bulkData.date,
                         shift: bulkData.shift,
                         quota,
@@ -227,12 +357,17 @@ export const bulkUpdateDeliveries = async (
                      }
                  });
              }
+             savedCustomerIds.push(customer.id);
         }
+        await settleCreditForCustomers(tx, savedCustomerIds);
     });
 
-    const response: ApiResponse<null> = {
+    const response: ApiResponse<BulkDeliveryUpdateResult> = {
       success: true,
-      message: 'Deliveries updated successfully',
+      data: { saved, conflicts },
+      message: conflicts.length > 0
+        ? `${conflicts.length} deliveries changed since and were not saved`
+        : 'Deliveries updated successfully',
     };
     
     res.json(response);
@@ -247,14 +382,15 @@ export const bulkUpdateDeliveries = async (
 };
 
 /**
- * Autofill deliveries with customer quotas
+ * Autofill deliveries with customer quotas, optionally for one route
  */
 export const autofillDeliveries = async (
   req: Request,
   res: Response
 ): Promise<void> => {
   try {
-    const { date, shift } = req.body;
+    const { date, shift, routeId } = req.body;
+    const productId: string = req.body.productId || DEFAULT_PRODUCT_ID;
     
     if (!date || !shift) {
       const response: ApiResponse<null> = {
@@ -265,23 +401,32 @@ export const autofillDeliveries = async (
       return;
     }
     
-    const customers = await prisma.customer.findMany({
-      where: { isActive: true },
-    });
+    const result = await resolveRouteScope(req.user, routeId);
+    if ('error' in result) {
+      sendScopeError(res, result);
+      return;
+    }
+    const { customers } = result.scope;
+    const pausedIds = await loadPausedCustomerIds(date, shift);
+    const quotaFor = await loadQuotaResolver(customers.map((c) => c.id), productId);
+    // Customers with an issued invoice for the month are left untouched
+    const locked = await loadLockedCustomers(date);
     
-    let count = 0;
+    const changed: ChangedRow[] = [];
+    const filledCustomerIds: string[] = [];
     
-    await prisma.$transaction(async (tx) => {
+    const changeSet = await prisma.$transaction(async (tx) => {
         for (const customer of customers) {
-            const quota = shift === Shift.MORNING ? customer.morningQuota : customer.eveningQuota;
+            const quota = quotaFor(customer, date, shift);
             
-            if (quota <= 0) continue;
+            if (quota <= 0 || pausedIds.has(customer.id) || locked.has(customer.id)) continue;
 
             const existing = await tx.delivery.findFirst({
                 where: {
                     customerId: customer.id,
                     date,
-                    shift
+                    shift,
+                    productId,
                 }
             });
 
@@ -289,14 +434,17 @@ export const autofillDeliveries = async (
                 await tx.delivery.update({
                     where: { id: existing.id },
                     data: {
+                        quota,
                         actualAmount: quota,
                         delivered: true,
                     }
                 });
+                changed.push({ id: existing.id, before: existing });
             } else {
-                await tx.delivery.create({
+                const created = await tx.delivery.create({
                     data: {
                         customerId: customer.id,
+                        productId,
                         date,
                         shift,
                         quota,
@@ -304,15 +452,19 @@ export const autofillDeliveries = async (
                         delivered: true,
                     }
                 });
+                changed.push({ id: created.id, before: null });
             }
-            count++;
+            filledCustomerIds.push(customer.id);
         }
+        await settleCreditForCustomers(tx, filledCustomerIds);
+
+        return recordChangeSet(tx, ChangeSetAction.AUTOFILL_DELIVERIES, 'Delivery', changed, req.user!.id);
     });
     
-    const response: ApiResponse<{ count: number }> = {
+    const response: ApiResponse<BulkDeliveryResult> = {
       success: true,
-      data: { count },
-      message: `Autofilled ${count} deliveries`,
+      data: { count: changed.length, changeSet },
+      message: `Autofilled ${changed.length} deliveries`,
     };
     
     res.json(response);
@@ -327,14 +479,15 @@ export const autofillDeliveries = async (
 };
 
 /**
- * Clear all deliveries for a date and shift
+ * Clear all deliveries for a date and shift, optionally for one route
  */
 export const clearDeliveries = async (
   req: Request,
   res: Response
 ): Promise<void> => {
   try {
-    const { date, shift } = req.body;
+    const { date, shift, routeId } = req.body;
+    const productId: string = req.body.productId || DEFAULT_PRODUCT_ID;
     
     if (!date || !shift) {
       const response: ApiResponse<null> = {
@@ -345,19 +498,46 @@ export const clearDeliveries = async (
       return;
     }
     
-    await prisma.delivery.updateMany({
-        where: {
-            date,
-            shift,
-        },
-        data: {
-            actualAmount: 0,
-            delivered: false,
-        }
+    const result = await resolveRouteScope(req.user, routeId);
+    if ('error' in result) {
+      sendScopeError(res, result);
+      return;
+    }
+    const { customers, restricted } = result.scope;
+    // Customers with an issued invoice for the month are left untouched
+    const locked = await loadLockedCustomers(date);
+    
+    const where = {
+        date,
+        shift,
+        productId,
+        AND: [
+          ...(restricted ? [{ customerId: { in: customers.map((c) => c.id) } }] : []),
+          { customerId: { notIn: Array.from(locked.keys()) } },
+        ],
+    };
+    
+    const { count, changeSet } = await prisma.$transaction(async (tx) => {
+        const existing = await tx.delivery.findMany({ where });
+        await tx.delivery.updateMany({
+            where: { id: { in: existing.map((d) => d.id) } },
+            data: {
+                actualAmount: 0,
+                delivered: false,
+            }
+        });
+        // Cleared deliveries are no longer charged; credit applied to them is freed
+        await settleCreditForCustomers(tx, [...new Set(existing.map((d) => d.customerId))]);
+        const changed = existing.map((d) => ({ id: d.id, before: d }));
+        return {
+            count: existing.length,
+            changeSet: await recordChangeSet(tx, ChangeSetAction.CLEAR_DELIVERIES, 'Delivery', changed, req.user!.id),
+        };
     });
     
-    const response: ApiResponse<null> = {
+    const response: ApiResponse<BulkDeliveryResult> = {
       success: true,
+      data: { count, changeSet },
       message: 'Deliveries cleared successfully',
     };
     
@@ -373,7 +553,7 @@ export const clearDeliveries = async (
 };
 
 /**
- * Get total deliveries for today
+ * Get total deliveries of the default milk product for today
  */
 export const getTodayTotal = async (
   req: Request,
@@ -385,6 +565,7 @@ export const getTodayTotal = async (
     const aggregate = await prisma.delivery.aggregate({
         where: {
             date: today,
+            productId: DEFAULT_PRODUCT_ID,
             delivered: true,
         },
         _sum: {
@@ -410,7 +591,9 @@ export const getTodayTotal = async (
   }
 };
 /**
- * Get deliveries for a specific customer with date range
+ * Get deliveries for a specific customer, newest first by default, with
+ * optional date range, shift, product and delivered filters. With `page`
+ * or `limit` the response is one page with the total count.
  */
 export const getDeliveriesByCustomer = async (
   req: Request,
@@ -418,7 +601,7 @@ export const getDeliveriesByCustomer = async (
 ): Promise<void> => {
   try {
     const { id } = req.params;
-    const { startDate, endDate } = req.query;
+    const { startDate, endDate, shift, productId, delivered } = req.query;
     
     if (!id) {
       const response: ApiResponse<null> = {
@@ -429,24 +612,32 @@ export const getDeliveriesByCustomer = async (
       return;
     }
 
-    const whereClause: any = {
-      customerId: id,
-    };
-
-    if (startDate || endDate) {
-      whereClause.date = {};
-      if (startDate) whereClause.date.gte = String(startDate);
-      if (endDate) whereClause.date.lte = String(endDate);
-    }
-
-    const deliveries = await prisma.delivery.findMany({
-      where: whereClause,
-      orderBy: { date: 'desc' },
+    const where = customerDeliveryWhere(id, {
+      startDate: startDate ? String(startDate) : undefined,
+      endDate: endDate ? String(endDate) : undefined,
+      shift: shift ? String(shift) : undefined,
+      productId: productId ? String(productId) : undefined,
+      delivered: delivered ? delivered === 'true' : undefined,
     });
+    const { page, orderBy } = readPageQuery(req.query, DELIVERY_SORT_FIELDS, 'date', 'desc');
+
+    const [deliveries, total, litres] = await prisma.$transaction([
+      prisma.delivery.findMany({
+        where,
+        // Morning before evening within a day
+        orderBy: [orderBy, { date: 'desc' }, { shift: 'desc' }, { id: 'asc' }],
+        ...pageArgs(page),
+      }),
+      prisma.delivery.count({ where }),
+      prisma.delivery.aggregate({ where: { AND: [where, { delivered: true }] }, _sum: { actualAmount: true } }),
+    ]);
+    const items = deliveries as unknown as Delivery[];
 
-    const response: ApiResponse<typeof deliveries> = {
+    const response: ApiResponse<Delivery[] | CustomerDeliveryPage> = {
       success: true,
-      data: deliveries,
+      data: page
+        ? { ...toPaginated(items, total, page), totalQuantity: litres._sum.actualAmount ?? 0 }
+        : items,
     };
     
     res.json(response);
@@ -459,3 +650,55 @@ export const getDeliveriesByCustomer = async (
     res.status(500).json(response);
   }
 };
+
+/**
+ * Download the delivery register for a date range as CSV or XLSX.
+ * A shift, product, customer or route narrows it; delivery staff only get
+ * their own routes' customers.
+ */
+export const exportDeliveries = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { startDate, endDate, shift, productId, customerId, routeId } = req.query;
+    const format = resolveExportFormat(req.query.format);
+
+    if (!startDate || !endDate || startDate > endDate || !format) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'A start date on or before the end date is required and format must be csv or xlsx',
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const result = await resolveRouteScope(req.user, routeId as string | undefined);
+    if ('error' in result) {
+      sendScopeError(res, result);
+      return;
+    }
+    const { customers, restricted } = result.scope;
+    const scopedIds = restricted ? customers.map((c) => c.id) : undefined;
+    const customerIds = customerId
+      ? (scopedIds ?? [customerId as string]).filter((id) => id === customerId)
+      : scopedIds;
+
+    const deliveries = await loadDeliveryRegister({
+      startDate: startDate as string,
+      endDate: endDate as string,
+      shift: (shift as string | undefined)?.toLowerCase(),
+      productId: productId as string | undefined,
+      customerIds,
+    });
+
+    await sendExport(res, deliveryExportTable(deliveries), `deliveries-${startDate}-to-${endDate}`, format);
+  } catch (error) {
+    console.error('Error exporting deliveries:', error);
+    const response: ApiResponse<null> = {
+      success: false,
+      error: 'Failed to export deliveries',
+    };
+    res.status(500).json(response);
+  }
+};
@@ -0,0 +1,503 @@
+/**
+ * Invoice Controller
+ *
+ * Handles stored invoices: drafts, issuing with a sequential number,
+ * status changes, credit and debit notes, and PDFs of issued snapshots.
+ */
+
+import { Request, Response } from 'express';
+import prisma from '../lib/prisma.js';
+import {
+  ApiResponse,
+  CreateInvoiceDTO,
+  CreateInvoiceNoteDTO,
+  Invoice,
+  InvoiceStatus,
+  InvoiceType,
+} from '../types/index.js';
+import {
+  LOCKING_STATUSES,
+  STATUS_TRANSITIONS,
+  allocateInvoiceNumber,
+  buildInvoiceSnapshot,
+  snapshotToInvoiceResponse,
+  toInvoice,
+} from '../lib/invoices.js';
+import { renderInvoicePdf } from '../lib/invoicePdf.js';
+import { settleCreditForCustomers, settleCustomerCredit } from '../lib/payments.js';
+import { DEFAULT_SETTINGS } from './settingsController.js';
+
+/**
+ * Get invoices and notes with optional filters
+ */
+export const getInvoices = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { month, year, customerId, status, type } = req.query;
+
+    const invoices = await prisma.invoice.findMany({
+      where: {
+        ...(month && { month: parseInt(month as string, 10) }),
+        ...(year && { year: parseInt(year as string, 10) }),
+        ...(customerId && { customerId: customerId as string }),
+        ...(status && { status: status as string }),
+        ...(type && { type: type as string }),
+      },
+      include: { customer: { select: { name: true } } },
+      orderBy: [{ year: 'desc' }, { month: 'desc' }, { createdAt: 'desc' }],
+    });
+
+    const response: ApiResponse<Invoice[]> = {
+      success: true,
+      data: invoices.map((invoice) => toInvoice(invoice)),
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error fetching invoices:', error);
+    const response: ApiResponse<null> = {
+      success: false,
+      error: 'Failed to fetch invoices',
+    };
+    res.status(500).json(response);
+  }
+};
+
+/**
+ * Get an invoice with its credit and debit notes
+ */
+export const getInvoiceById = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const invoice = await prisma.invoice.findUnique({
+      where: { id },
+      include: {
+        customer: { select: { name: true } },
+        notes: { orderBy: { createdAt: 'asc' } },
+      },
+    });
+
+    if (!invoice) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Invoice not found',
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    const response: ApiResponse<Invoice> = {
+      success: true,
+      data: toInvoice(invoice),
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error fetching invoice:', error);
+    const response: ApiResponse<null> = {
+      success: false,
+      error: 'Failed to fetch invoice',
+    };
+    res.status(500).json(response);
+  }
+};
+
+/**
+ * Create a draft invoice for a customer's month
+ */
+export const createInvoice = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { customerId, month, year }: CreateInvoiceDTO = req.body;
+
+    if (!customerId || !(month >= 1 && month <= 12) || !year) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'customerId, month and year are required',
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const existing = await prisma.invoice.findFirst({
+      where: {
+        customerId,
+        month,
+        year,
+        type: InvoiceType.INVOICE,
+        status: { not: InvoiceStatus.VOID },
+      },
+    });
+    if (existing) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: existing.number
+          ? `Invoice ${existing.number} already exists for this month`
+          : 'A draft invoice already exists for this month',
+      };
+      res.status(409).json(response);
+      return;
+    }
+
+    const snapshot = await buildInvoiceSnapshot(customerId, month, year);
+    if (!snapshot) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Customer not found',
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    const invoice = await prisma.invoice.create({
+      data: { customerId, month, year, ...snapshot },
+      include: { customer: { select: { name: true } } },
+    });
+
+    const response: ApiResponse<Invoice> = {
+      success: true,
+      data: toInvoice(invoice),
+      message: 'Draft invoice created successfully',
+    };
+
+    res.status(201).json(response);
+  } catch (error) {
+    console.error('Error creating invoice:', error);
+    const response: ApiResponse<null> = {
+      success: false,
+      error: 'Failed to create invoice',
+    };
+    res.status(500).json(response);
+  }
+};
+
+/** Building the snapshot reads the customer's whole history */
+const ISSUE_TRANSACTION_OPTIONS = { timeout: 30_000 };
+
+/**
+ * Issue a draft invoice: refresh its snapshot from current deliveries,
+ * assign the next number and lock the month's deliveries
+ */
+export const issueInvoice = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const draft = await prisma.invoice.findUnique({ where: { id } });
+    if (!draft) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Invoice not found',
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    if (draft.status !== InvoiceStatus.DRAFT) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Only draft invoices can be issued',
+      };
+      res.status(409).json(response);
+      return;
+    }
+
+    const invoice = await prisma.$transaction(async (tx) => {
+      // Claim the draft first: a concurrent issue waits on the row and then
+      // finds it no longer a draft, so it takes no number
+      const claimed = await tx.invoice.updateMany({
+        where: { id, status: InvoiceStatus.DRAFT },
+        data: { status: InvoiceStatus.ISSUED, issuedAt: new Date() },
+      });
+      if (claimed.count === 0) return null;
+
+      // Apply any credit carried forward before freezing the balance
+      await settleCustomerCredit(tx, draft.customerId);
+      const snapshot = await buildInvoiceSnapshot(draft.customerId, draft.month, draft.year, tx);
+      const { sequence, number } = await allocateInvoiceNumber(tx);
+      return tx.invoice.update({
+        where: { id },
+        data: { ...snapshot, sequence, number },
+        include: { customer: { select: { name: true } } },
+      });
+    }, ISSUE_TRANSACTION_OPTIONS);
+
+    if (!invoice) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Only draft invoices can be issued',
+      };
+      res.status(409).json(response);
+      return;
+    }
+
+    const response: ApiResponse<Invoice> = {
+      success: true,
+      data: toInvoice(invoice),
+      message: `Invoice ${invoice.number} issued successfully`,
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error issuing invoice:', error);
+    const response: ApiResponse<null> = {
+      success: false,
+      error: 'Failed to issue invoice',
+    };
+    res.status(500).json(response);
+  }
+};
+
+/**
+ * Mark an issued invoice paid or unpaid, or void it.
+ * Voiding an invoice also voids its notes and unlocks its month.
+ */
+export const updateInvoiceStatus = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { status } = req.body as { status: InvoiceStatus };
+
+    const existing = await prisma.invoice.findUnique({ where: { id } });
+    if (!existing) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Invoice not found',
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    // Notes can only be voided
+    const allowed = existing.type === InvoiceType.INVOICE
+      ? STATUS_TRANSITIONS[existing.status] || []
+      : existing.status === InvoiceStatus.ISSUED ? [InvoiceStatus.VOID] : [];
+    if (!allowed.includes(status)) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: `Cannot change a ${existing.status} ${existing.type.replace('_', ' ')} to ${status}`,
+      };
+      res.status(409).json(response);
+      return;
+    }
+
+    const isVoid = status === InvoiceStatus.VOID;
+    const invoice = await prisma.$transaction(async (tx) => {
+      if (isVoid) {
+        await tx.invoice.updateMany({
+          where: { invoiceId: id, status: { not: InvoiceStatus.VOID } },
+          data: { status: InvoiceStatus.VOID, voidedAt: new Date() },
+        });
+      }
+      const updated = await tx.invoice.update({
+        where: { id },
+        data: { status, ...(isVoid && { voidedAt: new Date() }) },
+        include: { customer: { select: { name: true } } },
+      });
+      // Voided notes no longer adjust the month's charges
+      if (isVoid) await settleCreditForCustomers(tx, [existing.customerId]);
+      return updated;
+    });
+
+    const response: ApiResponse<Invoice> = {
+      success: true,
+      data: toInvoice(invoice),
+      message: `${invoice.number} marked ${status}`,
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error updating invoice status:', error);
+    const response: ApiResponse<null> = {
+      success: false,
+      error: 'Failed to update invoice status',
+    };
+    res.status(500).json(response);
+  }
+};
+
+/**
+ * Delete a draft invoice (issued invoices are voided instead)
+ */
+export const deleteInvoice = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const existing = await prisma.invoice.findUnique({ where: { id } });
+    if (!existing) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Invoice not found',
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    if (existing.status !== InvoiceStatus.DRAFT) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Only drafts can be deleted; void an issued invoice instead',
+      };
+      res.status(409).json(response);
+      return;
+    }
+
+    await prisma.invoice.delete({ where: { id } });
+
+    const response: ApiResponse<null> = {
+      success: true,
+      message: 'Draft invoice deleted successfully',
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error deleting invoice:', error);
+    const response: ApiResponse<null> = {
+      success: false,
+      error: 'Failed to delete invoice',
+    };
+    res.status(500).json(response);
+  }
+};
+
+/**
+ * Raise a credit or debit note against an issued invoice.
+ * Notes are issued immediately with their own number.
+ */
+export const createInvoiceNote = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { type, amount, reason }: CreateInvoiceNoteDTO = req.body;
+
+    if (
+      (type !== InvoiceType.CREDIT_NOTE && type !== InvoiceType.DEBIT_NOTE) ||
+      typeof amount !== 'number' || amount <= 0 || !reason?.trim()
+    ) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'type (credit_note or debit_note), a positive amount and a reason are required',
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const invoice = await prisma.invoice.findUnique({ where: { id } });
+    if (!invoice || invoice.type !== InvoiceType.INVOICE) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Invoice not found',
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    if (!LOCKING_STATUSES.includes(invoice.status)) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Notes can only be raised against issued invoices',
+      };
+      res.status(409).json(response);
+      return;
+    }
+
+    const note = await prisma.$transaction(async (tx) => {
+      const { sequence, number } = await allocateInvoiceNumber(tx);
+      const created = await tx.invoice.create({
+        data: {
+          type,
+          status: InvoiceStatus.ISSUED,
+          sequence,
+          number,
+          month: invoice.month,
+          year: invoice.year,
+          totalAmount: amount,
+          totalDue: amount,
+          reason: reason.trim(),
+          issuedAt: new Date(),
+          customerId: invoice.customerId,
+          invoiceId: invoice.id,
+        },
+        include: { customer: { select: { name: true } } },
+      });
+      await settleCreditForCustomers(tx, [invoice.customerId]);
+      return created;
+    });
+
+    const response: ApiResponse<Invoice> = {
+      success: true,
+      data: toInvoice(note),
+      message: `${type === InvoiceType.CREDIT_NOTE ? 'Credit' : 'Debit'} note ${note.number} issued successfully`,
+    };
+
+    res.status(201).json(response);
+  } catch (error) {
+    console.error('Error creating invoice note:', error);
+    const response: ApiResponse<null> = {
+      success: false,
+      error: 'Failed to create invoice note',
+    };
+    res.status(500).json(response);
+  }
+};
+
+/**
+ * Download a stored invoice as a PDF
+ */
+export const getInvoicePdf = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const [invoice, settings] = await Promise.all([
+      prisma.invoice.findUnique({ where: { id }, include: { customer: true } }),
+      prisma.settings.findUnique({ where: { id: 1 } }),
+    ]);
+
+    if (!invoice || invoice.type !== InvoiceType.INVOICE) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Invoice not found',
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    const periodLabel = new Date(Date.UTC(invoice.year, invoice.month - 1, 1))
+      .toLocaleString('en-US', { month: 'long', year: 'numeric', timeZone: 'UTC' });
+    const fileName = `${invoice.number || `draft-${invoice.id.slice(0, 8)}`}.pdf`;
+
+    const doc = renderInvoicePdf(snapshotToInvoiceResponse(invoice), settings ?? DEFAULT_SETTINGS, periodLabel);
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+    doc.pipe(res);
+    doc.end();
+  } catch (error) {
+    console.error('Error generating invoice PDF:', error);
+    const response: ApiResponse<null> = {
+      success: false,
+      error: 'Failed to generate invoice PDF',
+    };
+    res.status(500).json(response);
+  }
+};
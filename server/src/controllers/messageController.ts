@@ -0,0 +1,105 @@
+/**
+ * Message Controller
+ *
+ * Sends templated balance reminders and bill summaries to customers and
+ * lists the send log.
+ */
+
+import { Request, Response } from 'express';
+import prisma from '../lib/prisma.js';
+import {
+  ApiResponse,
+  MessageChannel,
+  MessageLog,
+  MessageTemplate,
+  SendMessagesDTO,
+  SendMessagesResult,
+} from '../types/index.js';
+import { sendCustomerMessages, toMessageLog } from '../lib/messaging.js';
+import { DEFAULT_SETTINGS } from './settingsController.js';
+
+/**
+ * Get sent messages, newest first, optionally for one customer
+ */
+export const getMessages = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { customerId, limit } = req.query;
+
+    const messages = await prisma.messageLog.findMany({
+      where: customerId ? { customerId: customerId as string } : {},
+      include: { customer: { select: { name: true } } },
+      orderBy: { createdAt: 'desc' },
+      take: Math.min(parseInt(limit as string, 10) || 100, 500),
+    });
+
+    const response: ApiResponse<MessageLog[]> = {
+      success: true,
+      data: messages.map(toMessageLog),
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error fetching messages:', error);
+    const response: ApiResponse<null> = {
+      success: false,
+      error: 'Failed to fetch messages',
+    };
+    res.status(500).json(response);
+  }
+};
+
+/**
+ * Send a templated message to the month's billed customers, optionally
+ * limited to some customers or to those owing more than an amount
+ */
+export const sendMessages = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const data: SendMessagesDTO = req.body;
+
+    const validTemplate = Object.values(MessageTemplate).includes(data.template);
+    const validChannel = Object.values(MessageChannel).includes(data.channel);
+    if (!validTemplate || !validChannel || !(data.month >= 1 && data.month <= 12) || !Number.isInteger(data.year)) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Template, channel, month and year are required',
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    if (data.customerIds && !Array.isArray(data.customerIds)) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'customerIds must be a list',
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const settings = await prisma.settings.findUnique({ where: { id: 1 } });
+    const result = await sendCustomerMessages(data, settings ?? DEFAULT_SETTINGS, req.user?.id ?? null);
+
+    const response: ApiResponse<SendMessagesResult> = {
+      success: true,
+      data: result,
+      message: `${result.sent} sent, ${result.failed} failed, ${result.skipped.length} skipped`,
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error sending messages:', error);
+    const response: ApiResponse<null> = {
+      success: false,
+      error: error instanceof Error && error.message.startsWith('Unknown MESSAGE_PROVIDER')
+        ? error.message
+        : 'Failed to send messages',
+    };
+    res.status(500).json(response);
+  }
+};
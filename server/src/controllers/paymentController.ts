@@ -0,0 +1,393 @@
+/**
+ * Payment Controller
+ *
+ * Handles customer payments: recording with allocation to billing months,
+ * listing and exports, corrections, voids and printable receipts. Payments
+ * are never deleted; a correction voids the original and records a
+ * replacement.
+ */
+
+import { Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
+import prisma from '../lib/prisma.js';
+import {
+  ApiResponse,
+  CreatePaymentDTO,
+  PaginatedResponse,
+  Payment,
+  PeriodBalance,
+  UpdatePaymentDTO,
+} from '../types/index.js';
+import {
+  PAYMENT_INCLUDE,
+  createAllocatedPayment,
+  loadPeriodBalances,
+  settleCustomerCredit,
+  toPayment,
+  validateManualAllocations,
+} from '../lib/payments.js';
+import { renderReceiptPdf } from '../lib/receiptPdf.js';
+import { paymentExportTable, resolveExportFormat, sendExport } from '../lib/exports.js';
+import { PAYMENT_SORT_FIELDS, pageArgs, readPageQuery, toPaginated } from '../lib/pagination.js';
+import { DEFAULT_SETTINGS } from './settingsController.js';
+
+/**
+ * Prisma filter for the payment list's query parameters
+ */
+const paymentFilter = (query: Request['query']): Prisma.PaymentWhereInput => {
+  const { customerId, startDate, endDate, method, includeVoided } = query;
+
+  const where: Prisma.PaymentWhereInput = {};
+  if (customerId) where.customerId = customerId as string;
+  if (method) where.method = method as string;
+  if (includeVoided !== 'true') where.voidedAt = null;
+  if (startDate || endDate) {
+    where.date = {
+      ...(startDate && { gte: startDate as string }),
+      ...(endDate && { lte: endDate as string }),
+    };
+  }
+  return where;
+};
+
+/**
+ * Get payments with optional filters and sorting, newest first by default.
+ * With `page` or `limit` the response is one page with the total count.
+ */
+export const getPayments = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const where = paymentFilter(req.query);
+    const { page, orderBy } = readPageQuery(req.query, PAYMENT_SORT_FIELDS, 'date', 'desc');
+
+    const [payments, total] = await prisma.$transaction([
+      prisma.payment.findMany({
+        where,
+        include: PAYMENT_INCLUDE,
+        orderBy: [orderBy, { receiptSequence: 'desc' }],
+        ...pageArgs(page),
+      }),
+      prisma.payment.count({ where }),
+    ]);
+    const items = payments.map(toPayment);
+
+    const response: ApiResponse<Payment[] | PaginatedResponse<Payment>> = {
+      success: true,
+      data: page ? toPaginated(items, total, page) : items,
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error fetching payments:', error);
+    const response: ApiResponse<null> = {
+      success: false,
+      error: 'Failed to fetch payments',
+    };
+    res.status(500).json(response);
+  }
+};
+
+/**
+ * Download payments as CSV or XLSX, oldest first, with the list's filters
+ */
+export const exportPayments = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const format = resolveExportFormat(req.query.format);
+    if (!format) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Format must be csv or xlsx',
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const payments = await prisma.payment.findMany({
+      where: paymentFilter(req.query),
+      include: PAYMENT_INCLUDE,
+      orderBy: [{ date: 'asc' }, { receiptSequence: 'asc' }],
+    });
+
+    await sendExport(res, paymentExportTable(payments.map(toPayment)), 'payments', format);
+  } catch (error) {
+    console.error('Error exporting payments:', error);
+    const response: ApiResponse<null> = {
+      success: false,
+      error: 'Failed to export payments',
+    };
+    res.status(500).json(response);
+  }
+};
+
+/**
+ * Record a payment for a customer. Manual allocations are applied first;
+ * the rest settles the oldest outstanding months and any excess is kept
+ * as credit.
+ */
+export const recordPayment = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const paymentData: CreatePaymentDTO = req.body;
+
+    if (!paymentData.customerId || !(paymentData.amount > 0) || !paymentData.date) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Missing required payment fields',
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    if (paymentData.allocations?.length) {
+      const balances = await loadPeriodBalances(paymentData.customerId);
+      const allocationError = validateManualAllocations(paymentData.allocations, paymentData.amount, balances);
+      if (allocationError) {
+        const response: ApiResponse<null> = {
+          success: false,
+          error: allocationError,
+        };
+        res.status(400).json(response);
+        return;
+      }
+    }
+
+    const payment = await prisma.$transaction((tx) => createAllocatedPayment(tx, paymentData));
+
+    const response: ApiResponse<Payment> = {
+      success: true,
+      data: toPayment(payment),
+      message: `Payment recorded with receipt ${payment.receiptNumber}`,
+    };
+
+    res.status(201).json(response);
+  } catch (error) {
+    console.error('Error recording payment:', error);
+    const response: ApiResponse<null> = {
+      success: false,
+      error: 'Failed to record payment',
+    };
+    res.status(500).json(response);
+  }
+};
+
+/**
+ * Correct a payment: the original is voided and kept for audit, and a
+ * replacement with a new receipt number is recorded and allocated
+ */
+export const updatePayment = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const data: UpdatePaymentDTO = req.body;
+
+    if (!(data.amount > 0) || !data.date) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Amount and date are required',
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const original = await prisma.payment.findUnique({
+      where: { id },
+      include: { allocations: true },
+    });
+    if (!original) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Payment not found',
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    if (original.voidedAt) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: `Receipt ${original.receiptNumber} has been voided and cannot be corrected`,
+      };
+      res.status(409).json(response);
+      return;
+    }
+
+    if (data.allocations?.length) {
+      // The original's allocations are released by the correction
+      const balances: PeriodBalance[] = (await loadPeriodBalances(original.customerId)).map((b) => {
+        const released = original.allocations
+          .filter((a) => a.month === b.month && a.year === b.year)
+          .reduce((acc, a) => acc + a.amount, 0);
+        return { ...b, allocated: b.allocated - released, outstanding: b.outstanding + released };
+      });
+      const allocationError = validateManualAllocations(data.allocations, data.amount, balances);
+      if (allocationError) {
+        const response: ApiResponse<null> = {
+          success: false,
+          error: allocationError,
+        };
+        res.status(400).json(response);
+        return;
+      }
+    }
+
+    const payment = await prisma.$transaction(async (tx) => {
+      await tx.paymentAllocation.deleteMany({ where: { paymentId: id } });
+      await tx.payment.update({
+        where: { id },
+        data: { voidedAt: new Date(), voidReason: 'Corrected' },
+      });
+
+      return createAllocatedPayment(tx, {
+        customerId: original.customerId,
+        amount: data.amount,
+        date: data.date,
+        method: data.method ?? original.method ?? undefined,
+        remarks: data.remarks ?? original.remarks ?? undefined,
+        allocations: data.allocations,
+      }, id);
+    });
+
+    const response: ApiResponse<Payment> = {
+      success: true,
+      data: toPayment(payment),
+      message: `Receipt ${original.receiptNumber} replaced by ${payment.receiptNumber}`,
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error updating payment:', error);
+    const response: ApiResponse<null> = {
+      success: false,
+      error: 'Failed to update payment',
+    };
+    res.status(500).json(response);
+  }
+};
+
+/**
+ * Void a payment. Its allocations are released and the customer's other
+ * credit is re-applied oldest-first.
+ */
+export const voidPayment = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { reason } = req.body as { reason?: string };
+
+    if (!reason?.trim()) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'A reason is required to void a payment',
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const existing = await prisma.payment.findUnique({ where: { id } });
+    if (!existing) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Payment not found',
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    if (existing.voidedAt) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: `Receipt ${existing.receiptNumber} is already void`,
+      };
+      res.status(409).json(response);
+      return;
+    }
+
+    const payment = await prisma.$transaction(async (tx) => {
+      await tx.paymentAllocation.deleteMany({ where: { paymentId: id } });
+      await tx.payment.update({
+        where: { id },
+        data: { voidedAt: new Date(), voidReason: reason.trim() },
+      });
+      await settleCustomerCredit(tx, existing.customerId);
+      return tx.payment.findUniqueOrThrow({ where: { id }, include: PAYMENT_INCLUDE });
+    });
+
+    const response: ApiResponse<Payment> = {
+      success: true,
+      data: toPayment(payment),
+      message: `Receipt ${payment.receiptNumber} voided`,
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error voiding payment:', error);
+    const response: ApiResponse<null> = {
+      success: false,
+      error: 'Failed to void payment',
+    };
+    res.status(500).json(response);
+  }
+};
+
+/**
+ * Download a payment receipt as a PDF
+ */
+export const getPaymentReceipt = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const [payment, settings] = await Promise.all([
+      prisma.payment.findUnique({
+        where: { id },
+        include: {
+          ...PAYMENT_INCLUDE,
+          customer: { select: { name: true, address: true } },
+          replaces: { select: { receiptNumber: true } },
+        },
+      }),
+      prisma.settings.findUnique({ where: { id: 1 } }),
+    ]);
+
+    if (!payment) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Payment not found',
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    const doc = renderReceiptPdf(
+      toPayment(payment),
+      payment.customer,
+      settings ?? DEFAULT_SETTINGS,
+      payment.replaces?.receiptNumber
+    );
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="receipt-${payment.receiptNumber}.pdf"`);
+    doc.pipe(res);
+    doc.end();
+  } catch (error) {
+    console.error('Error generating payment receipt:', error);
+    const response: ApiResponse<null> = {
+      success: false,
+      error: 'Failed to generate payment receipt',
+    };
+    res.status(500).json(response);
+  }
+};
@@ -0,0 +1,162 @@
+/**
+ * Portal Controller
+ *
+ * Issues and revokes signed, expiring portal links for customers and
+ * serves the read-only portal view behind them without a staff login.
+ */
+
+import { Request, Response } from 'express';
+import prisma from '../lib/prisma.js';
+import { ApiResponse, CustomerPortalView, PortalLink } from '../types/index.js';
+import { signPortalToken, verifyPortalToken } from '../lib/auth.js';
+import { buildPortalView } from '../lib/portal.js';
+import { DEFAULT_SETTINGS } from './settingsController.js';
+
+/**
+ * Longest a portal link may stay valid
+ */
+const MAX_LINK_DAYS = 365;
+
+/**
+ * Create a portal link for a customer
+ */
+export const createPortalLink = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { expiresInDays = 30 } = req.body as { expiresInDays?: number };
+
+    if (!Number.isInteger(expiresInDays) || expiresInDays < 1 || expiresInDays > MAX_LINK_DAYS) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: `Links can be valid for 1 to ${MAX_LINK_DAYS} days`,
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const customer = await prisma.customer.findUnique({ where: { id } });
+    if (!customer) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Customer not found',
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    if (!customer.isActive) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Inactive customers cannot be given portal links',
+      };
+      res.status(409).json(response);
+      return;
+    }
+
+    const response: ApiResponse<PortalLink> = {
+      success: true,
+      data: signPortalToken(customer.id, customer.portalTokenVersion, expiresInDays),
+    };
+
+    res.status(201).json(response);
+  } catch (error) {
+    console.error('Error creating portal link:', error);
+    const response: ApiResponse<null> = {
+      success: false,
+      error: 'Failed to create portal link',
+    };
+    res.status(500).json(response);
+  }
+};
+
+/**
+ * Revoke every portal link issued to a customer so far
+ */
+export const revokePortalLinks = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const revoked = await prisma.customer.updateMany({
+      where: { id },
+      data: { portalTokenVersion: { increment: 1 } },
+    });
+    if (revoked.count === 0) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Customer not found',
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    const response: ApiResponse<null> = {
+      success: true,
+      message: 'Portal links revoked',
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error revoking portal links:', error);
+    const response: ApiResponse<null> = {
+      success: false,
+      error: 'Failed to revoke portal links',
+    };
+    res.status(500).json(response);
+  }
+};
+
+/**
+ * Get the portal view for a portal link token
+ */
+export const getPortalView = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const claims = verifyPortalToken(req.params.token);
+
+    if (claims === 'expired') {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'This link has expired. Please ask us for a new one.',
+      };
+      res.status(410).json(response);
+      return;
+    }
+
+    const settings = await prisma.settings.findUnique({ where: { id: 1 } });
+    const view = claims
+      ? await buildPortalView(claims.customerId, claims.version, settings ?? DEFAULT_SETTINGS, claims.expiresAt)
+      : null;
+
+    if (!view) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'This link is not valid',
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    res.setHeader('Cache-Control', 'no-store');
+    const response: ApiResponse<CustomerPortalView> = {
+      success: true,
+      data: view,
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error fetching portal view:', error);
+    const response: ApiResponse<null> = {
+      success: false,
+      error: 'Failed to load your account',
+    };
+    res.status(500).json(response);
+  }
+};
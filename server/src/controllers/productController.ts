@@ -0,0 +1,447 @@
+/**
+ * Product Controller
+ *
+ * Handles the product catalogue and the products each customer
+ * subscribes to, with their per-product quotas and prices.
+ */
+
+import { Request, Response } from 'express';
+import prisma from '../lib/prisma.js';
+import {
+  CreateProductDTO,
+  UpdateProductDTO,
+  SetCustomerProductsDTO,
+  ApiResponse,
+} from '../types/index.js';
+import {
+  DEFAULT_PRODUCT_ID,
+  loadCustomerProductPrices,
+  loadProductPrices,
+  recordCustomerProductPriceChange,
+  recordProductPriceChange,
+  resolveDefaultPrice,
+  resolveOwnPrice,
+} from '../lib/products.js';
+import { settleCreditForCustomers } from '../lib/payments.js';
+import { loadLockedProductInvoices, lockedPeriodMessage } from '../lib/invoices.js';
+
+/**
+ * Get all products (optionally only active ones)
+ */
+export const getAllProducts = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { active } = req.query;
+
+    const products = await prisma.product.findMany({
+      where: active !== undefined ? { isActive: active === 'true' } : {},
+      orderBy: { name: 'asc' },
+    });
+
+    const response: ApiResponse<typeof products> = {
+      success: true,
+      data: products,
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error fetching products:', error);
+    const response: ApiResponse<null> = {
+      success: false,
+      error: 'Failed to fetch products',
+    };
+    res.status(500).json(response);
+  }
+};
+
+/**
+ * Create a new product
+ */
+export const createProduct = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { name, unit, defaultPrice }: CreateProductDTO = req.body;
+
+    if (!name || !unit || defaultPrice === undefined || defaultPrice < 0) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Name, unit and a non-negative default price are required',
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const existing = await prisma.product.findUnique({ where: { name } });
+    if (existing) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'A product with this name already exists',
+      };
+      res.status(409).json(response);
+      return;
+    }
+
+    const product = await prisma.product.create({
+      data: {
+        name,
+        unit,
+        defaultPrice,
+        priceHistory: { create: { price: defaultPrice, effectiveFrom: new Date().toISOString().split('T')[0] } },
+      },
+    });
+
+    const response: ApiResponse<typeof product> = {
+      success: true,
+      data: product,
+      message: 'Product created successfully',
+    };
+
+    res.status(201).json(response);
+  } catch (error) {
+    console.error('Error creating product:', error);
+    const response: ApiResponse<null> = {
+      success: false,
+      error: 'Failed to create product',
+    };
+    res.status(500).json(response);
+  }
+};
+
+/**
+ * Update an existing product
+ */
+export const updateProduct = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { name, unit, defaultPrice, isActive, priceEffectiveFrom }: UpdateProductDTO = req.body;
+
+    const product = await prisma.product.findUnique({ where: { id } });
+    if (!product) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Product not found',
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    if (id === DEFAULT_PRODUCT_ID && isActive === false) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'The default milk product cannot be deactivated',
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    if (defaultPrice !== undefined && defaultPrice < 0) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Default price cannot be negative',
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    if (name && name !== product.name) {
+      const existing = await prisma.product.findUnique({ where: { name } });
+      if (existing) {
+        const response: ApiResponse<null> = {
+          success: false,
+          error: 'A product with this name already exists',
+        };
+        res.status(409).json(response);
+        return;
+      }
+    }
+
+    // A price change opens a new price period, so deliveries before
+    // effectiveFrom keep billing at the price that applied then
+    const effectiveFrom = priceEffectiveFrom || new Date().toISOString().split('T')[0];
+    const history = (await loadProductPrices([id])).get(id);
+    const priceChanged = defaultPrice !== undefined &&
+      resolveDefaultPrice(history, effectiveFrom, product.defaultPrice) !== defaultPrice;
+
+    // The new price would reprice invoiced months of customers billed at the default
+    if (priceChanged) {
+      const ownPrices = await loadCustomerProductPrices();
+      const locked = await loadLockedProductInvoices(id, effectiveFrom, undefined,
+        (d) => resolveOwnPrice(ownPrices.get(d.customerId)?.get(id), d.date) === null);
+      if (locked.length > 0) {
+        const response: ApiResponse<null> = {
+          success: false,
+          error: lockedPeriodMessage(locked, 'a month this price applies to'),
+        };
+        res.status(409).json(response);
+        return;
+      }
+    }
+
+    const updated = await prisma.$transaction(async (tx) => {
+      const currentPrice = priceChanged
+        ? await recordProductPriceChange(tx, id, defaultPrice as number, effectiveFrom)
+        : undefined;
+
+      const product = await tx.product.update({
+        where: { id },
+        data: {
+          name,
+          unit,
+          isActive,
+          ...(currentPrice !== undefined && { defaultPrice: currentPrice }),
+        },
+      });
+      // The new price applies to every customer without their own
+      if (priceChanged) await settleCreditForCustomers(tx);
+      return product;
+    });
+
+    const response: ApiResponse<typeof updated> = {
+      success: true,
+      data: updated,
+      message: 'Product updated successfully',
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error updating product:', error);
+    const response: ApiResponse<null> = {
+      success: false,
+      error: 'Failed to update product',
+    };
+    res.status(500).json(response);
+  }
+};
+
+/**
+ * Delete a product. Products with deliveries or stock are deactivated
+ * instead so past bills keep their line items.
+ */
+export const deleteProduct = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    if (id === DEFAULT_PRODUCT_ID) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'The default milk product cannot be deleted',
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const product = await prisma.product.findUnique({
+      where: { id },
+      include: { _count: { select: { deliveries: true, stock: true, movements: true } } },
+    });
+    if (!product) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Product not found',
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    if (product._count.deliveries > 0 || product._count.stock > 0 || product._count.movements > 0) {
+      await prisma.product.update({ where: { id }, data: { isActive: false } });
+
+      const response: ApiResponse<null> = {
+        success: true,
+        message: 'Product has history and was deactivated instead',
+      };
+      res.json(response);
+      return;
+    }
+
+    await prisma.product.delete({ where: { id } });
+
+    const response: ApiResponse<null> = {
+      success: true,
+      message: 'Product deleted successfully',
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error deleting product:', error);
+    const response: ApiResponse<null> = {
+      success: false,
+      error: 'Failed to delete product',
+    };
+    res.status(500).json(response);
+  }
+};
+
+/**
+ * Get the products a customer subscribes to
+ */
+export const getCustomerProducts = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const entries = await prisma.customerProduct.findMany({
+      where: { customerId: id },
+      include: { product: true },
+      orderBy: { product: { name: 'asc' } },
+    });
+
+    const response: ApiResponse<typeof entries> = {
+      success: true,
+      data: entries,
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error fetching customer products:', error);
+    const response: ApiResponse<null> = {
+      success: false,
+      error: 'Failed to fetch customer products',
+    };
+    res.status(500).json(response);
+  }
+};
+
+/**
+ * Replace a customer's product list with the given quotas and prices. A
+ * changed price, including one dropped back to the default by clearing it
+ * or removing the product, opens a new price period from priceEffectiveFrom.
+ */
+export const setCustomerProducts = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { products, priceEffectiveFrom }: SetCustomerProductsDTO = req.body;
+
+    const productIds = Array.isArray(products) ? products.map(p => p.productId) : [];
+    if (!Array.isArray(products) || new Set(productIds).size !== productIds.length) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'products must be a list with each product at most once',
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    if (productIds.includes(DEFAULT_PRODUCT_ID)) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Milk quota and price are set on the customer itself',
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const invalid = products.some(p =>
+      p.morningQuota < 0 || p.eveningQuota < 0 || (p.price !== undefined && p.price !== null && p.price < 0)
+    );
+    if (invalid) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Quotas and prices cannot be negative',
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const customer = await prisma.customer.findUnique({ where: { id } });
+    if (!customer) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Customer not found',
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    const found = await prisma.product.count({ where: { id: { in: productIds } } });
+    if (found !== productIds.length) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'One or more products were not found',
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const effectiveFrom = priceEffectiveFrom || new Date().toISOString().split('T')[0];
+    const history = (await loadCustomerProductPrices([id])).get(id);
+    const prices = new Map(products.map(p => [p.productId, p.price ?? null]));
+    const changedPrices = [...new Set([...prices.keys(), ...(history?.keys() ?? [])])]
+      .filter(productId => resolveOwnPrice(history?.get(productId), effectiveFrom) !== (prices.get(productId) ?? null));
+
+    // Changed prices would reprice the customer's invoiced months
+    const locked = new Set<string>();
+    for (const productId of changedPrices) {
+      (await loadLockedProductInvoices(productId, effectiveFrom, [id])).forEach((number) => locked.add(number));
+    }
+    if (locked.size > 0) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: lockedPeriodMessage([...locked], 'a month these prices apply to'),
+      };
+      res.status(409).json(response);
+      return;
+    }
+
+    await prisma.$transaction(async (tx) => {
+      const currentPrices = new Map<string, number | null>();
+      for (const productId of changedPrices) {
+        currentPrices.set(
+          productId,
+          await recordCustomerProductPriceChange(tx, id, productId, prices.get(productId) ?? null, effectiveFrom)
+        );
+      }
+
+      await tx.customerProduct.deleteMany({ where: { customerId: id } });
+      await tx.customerProduct.createMany({
+        data: products.map(p => ({
+          customerId: id,
+          productId: p.productId,
+          morningQuota: p.morningQuota || 0,
+          eveningQuota: p.eveningQuota || 0,
+          // The own price that applies today
+          price: currentPrices.has(p.productId)
+            ? currentPrices.get(p.productId)
+            : resolveOwnPrice(history?.get(p.productId), new Date().toISOString().split('T')[0]),
+        })),
+      });
+      if (changedPrices.length > 0) await settleCreditForCustomers(tx, [id]);
+    });
+
+    const entries = await prisma.customerProduct.findMany({
+      where: { customerId: id },
+      include: { product: true },
+      orderBy: { product: { name: 'asc' } },
+    });
+
+    const response: ApiResponse<typeof entries> = {
+      success: true,
+      data: entries,
+      message: 'Customer products updated successfully',
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error updating customer products:', error);
+    const response: ApiResponse<null> = {
+      success: false,
+      error: 'Failed to update customer products',
+    };
+    res.status(500).json(response);
+  }
+};
@@ -0,0 +1,390 @@
+/**
+ * Route Controller
+ *
+ * Handles delivery routes, their ordered customer stops and the
+ * delivery agent assigned to each route.
+ */
+
+import { Request, Response } from 'express';
+import prisma from '../lib/prisma.js';
+import {
+  CreateRouteDTO,
+  UpdateRouteDTO,
+  SetRouteStopsDTO,
+  UserRole,
+  ApiResponse,
+} from '../types/index.js';
+
+/**
+ * Relations included when returning a route
+ */
+const routeInclude = {
+  agent: { select: { id: true, name: true } },
+  _count: { select: { stops: true } },
+};
+
+/**
+ * Check that an agent ID refers to an active delivery staff account
+ */
+const isValidAgent = async (agentId: string): Promise<boolean> => {
+  const agent = await prisma.user.findUnique({ where: { id: agentId } });
+  return !!agent && agent.isActive && agent.role === UserRole.DELIVERY;
+};
+
+/**
+ * Get all routes (delivery staff only see routes assigned to them)
+ */
+export const getAllRoutes = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const routes = await prisma.deliveryRoute.findMany({
+      where: req.user?.role === UserRole.DELIVERY
+        ? { agentId: req.user.id, isActive: true }
+        : {},
+      include: routeInclude,
+      orderBy: { name: 'asc' },
+    });
+
+    const response: ApiResponse<typeof routes> = {
+      success: true,
+      data: routes,
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error fetching routes:', error);
+    const response: ApiResponse<null> = {
+      success: false,
+      error: 'Failed to fetch routes',
+    };
+    res.status(500).json(response);
+  }
+};
+
+/**
+ * Get a single route with its stops in delivery order
+ */
+export const getRouteById = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const route = await prisma.deliveryRoute.findUnique({
+      where: { id },
+      include: {
+        ...routeInclude,
+        stops: {
+          include: { customer: true },
+          orderBy: { sequence: 'asc' },
+        },
+      },
+    });
+
+    if (!route || (req.user?.role === UserRole.DELIVERY && route.agentId !== req.user.id)) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Route not found',
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    const response: ApiResponse<typeof route> = {
+      success: true,
+      data: route,
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error fetching route:', error);
+    const response: ApiResponse<null> = {
+      success: false,
+      error: 'Failed to fetch route',
+    };
+    res.status(500).json(response);
+  }
+};
+
+/**
+ * Get active delivery staff who can be assigned to a route
+ */
+export const getRouteAgents = async (
+  _req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const agents = await prisma.user.findMany({
+      where: { role: UserRole.DELIVERY, isActive: true },
+      select: { id: true, name: true },
+      orderBy: { name: 'asc' },
+    });
+
+    const response: ApiResponse<typeof agents> = {
+      success: true,
+      data: agents,
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error fetching route agents:', error);
+    const response: ApiResponse<null> = {
+      success: false,
+      error: 'Failed to fetch delivery staff',
+    };
+    res.status(500).json(response);
+  }
+};
+
+/**
+ * Create a new route
+ */
+export const createRoute = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { name, description, agentId }: CreateRouteDTO = req.body;
+
+    if (!name) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Route name is required',
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    if (agentId && !(await isValidAgent(agentId))) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Agent must be an active delivery staff account',
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const existing = await prisma.deliveryRoute.findUnique({ where: { name } });
+    if (existing) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'A route with this name already exists',
+      };
+      res.status(409).json(response);
+      return;
+    }
+
+    const route = await prisma.deliveryRoute.create({
+      data: {
+        name,
+        description,
+        agentId: agentId || null,
+      },
+      include: routeInclude,
+    });
+
+    const response: ApiResponse<typeof route> = {
+      success: true,
+      data: route,
+      message: 'Route created successfully',
+    };
+
+    res.status(201).json(response);
+  } catch (error) {
+    console.error('Error creating route:', error);
+    const response: ApiResponse<null> = {
+      success: false,
+      error: 'Failed to create route',
+    };
+    res.status(500).json(response);
+  }
+};
+
+/**
+ * Update an existing route
+ */
+export const updateRoute = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { name, description, agentId, isActive }: UpdateRouteDTO = req.body;
+
+    const route = await prisma.deliveryRoute.findUnique({ where: { id } });
+    if (!route) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Route not found',
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    if (agentId && !(await isValidAgent(agentId))) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Agent must be an active delivery staff account',
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    if (name && name !== route.name) {
+      const existing = await prisma.deliveryRoute.findUnique({ where: { name } });
+      if (existing) {
+        const response: ApiResponse<null> = {
+          success: false,
+          error: 'A route with this name already exists',
+        };
+        res.status(409).json(response);
+        return;
+      }
+    }
+
+    const updated = await prisma.deliveryRoute.update({
+      where: { id },
+      data: {
+        name,
+        description,
+        isActive,
+        // null unassigns the agent, undefined leaves it unchanged
+        agentId: agentId === undefined ? undefined : agentId || null,
+      },
+      include: routeInclude,
+    });
+
+    const response: ApiResponse<typeof updated> = {
+      success: true,
+      data: updated,
+      message: 'Route updated successfully',
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error updating route:', error);
+    const response: ApiResponse<null> = {
+      success: false,
+      error: 'Failed to update route',
+    };
+    res.status(500).json(response);
+  }
+};
+
+/**
+ * Replace a route's stops with the given customers, in order.
+ * Customers currently on another route are moved to this one.
+ */
+export const setRouteStops = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { customerIds }: SetRouteStopsDTO = req.body;
+
+    if (!Array.isArray(customerIds) || new Set(customerIds).size !== customerIds.length) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'customerIds must be a list of unique customer IDs',
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const route = await prisma.deliveryRoute.findUnique({ where: { id } });
+    if (!route) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Route not found',
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    const found = await prisma.customer.count({ where: { id: { in: customerIds } } });
+    if (found !== customerIds.length) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'One or more customers were not found',
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    await prisma.$transaction([
+      prisma.routeStop.deleteMany({
+        where: { OR: [{ routeId: id }, { customerId: { in: customerIds } }] },
+      }),
+      prisma.routeStop.createMany({
+        data: customerIds.map((customerId, index) => ({
+          routeId: id,
+          customerId,
+          sequence: index + 1,
+        })),
+      }),
+    ]);
+
+    const stops = await prisma.routeStop.findMany({
+      where: { routeId: id },
+      include: { customer: true },
+      orderBy: { sequence: 'asc' },
+    });
+
+    const response: ApiResponse<typeof stops> = {
+      success: true,
+      data: stops,
+      message: 'Route stops updated successfully',
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error updating route stops:', error);
+    const response: ApiResponse<null> = {
+      success: false,
+      error: 'Failed to update route stops',
+    };
+    res.status(500).json(response);
+  }
+};
+
+/**
+ * Delete a route (its customers become unassigned)
+ */
+export const deleteRoute = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const route = await prisma.deliveryRoute.findUnique({ where: { id } });
+    if (!route) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Route not found',
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    await prisma.deliveryRoute.delete({ where: { id } });
+
+    const response: ApiResponse<null> = {
+      success: true,
+      message: 'Route deleted successfully',
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error deleting route:', error);
+    const response: ApiResponse<null> = {
+      success: false,
+      error: 'Failed to delete route',
+    };
+    res.status(500).json(response);
+  }
+};
@@ -12,7 +12,7 @@ import { Settings, ApiResponse } from '../types/index.js';
 /**
  * Default settings configuration
  */
-const DEFAULT_SETTINGS: Omit<Settings, 'id'> = {
+export const DEFAULT_SETTINGS: Omit<Settings, 'id'> = {
   businessName: 'MilkyWay Dairy Services',
   businessAddress: '123 Farm Lane, Countryside',
   businessPhone: '+91 234 567 890',
@@ -21,6 +21,8 @@ const DEFAULT_SETTINGS: Omit<Settings, 'id'> = {
   currencySymbol: '₹',
   maxCapacity: 2000,
   paymentTerms: 5,
+  invoicePrefix: 'INV-',
+  receiptPrefix: 'RCT-',
 };
 
 /**
@@ -1,12 +1,20 @@
 /**
  * Source Controller
  * 
- * Handles management of stock sources (e.g., Farms, Markets).
+ * Handles management of stock sources (e.g., Farms, Markets) and the
+ * fat/SNF rate charts used to price their collections.
  */
 
 import { Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
 import prisma from '../lib/prisma.js';
-import { ApiResponse } from '../types/index.js';
+import {
+  ApiResponse,
+  RateChartType,
+  SetRateChartDTO,
+  SourceRateChart,
+} from '../types/index.js';
+import { isValidRateGrid } from '../lib/procurement.js';
 
 export const getAllSources = async (req: Request, res: Response): Promise<void> => {
   try {
@@ -93,6 +101,16 @@ export const deleteSource = async (req: Request, res: Response): Promise<void> =
   try {
     const { id } = req.params;
 
+    // Payments are kept for the supplier ledger, so paid sources can only be deactivated
+    const payments = await prisma.supplierPayment.count({ where: { sourceId: id } });
+    if (payments > 0) {
+        res.status(409).json({
+            success: false,
+            error: 'Source has supplier payments. Deactivate it instead.'
+        });
+        return;
+    }
+
     // Hard delete or soft delete? 
     // Usually soft delete or check dependency. For now, simple delete.
     await prisma.source.delete({
@@ -111,3 +129,151 @@ export const deleteSource = async (req: Request, res: Response): Promise<void> =
     });
   }
 };
+
+/**
+ * Get a source's rate chart (null when collections are not priced)
+ */
+export const getRateChart = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const source = await prisma.source.findUnique({ where: { id } });
+    if (!source) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Source not found',
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    const chart = await prisma.sourceRateChart.findUnique({ where: { sourceId: id } });
+
+    const response: ApiResponse<SourceRateChart | null> = {
+      success: true,
+      data: chart as unknown as SourceRateChart | null,
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error fetching rate chart:', error);
+    const response: ApiResponse<null> = {
+      success: false,
+      error: 'Failed to fetch rate chart',
+    };
+    res.status(500).json(response);
+  }
+};
+
+/**
+ * Create or replace a source's rate chart.
+ * Existing collections keep the rate they were recorded with.
+ */
+export const setRateChart = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { type, grid, baseRate = 0, fatRate = 0, snfRate = 0 }: SetRateChartDTO = req.body;
+
+    if (!Object.values(RateChartType).includes(type)) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: "type must be 'grid' or 'formula'",
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    if (type === RateChartType.GRID && !isValidRateGrid(grid)) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'grid needs ascending fatSteps and snfSteps and a non-negative rate for every fat/SNF pair',
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    if (type === RateChartType.FORMULA && [baseRate, fatRate, snfRate].some((v) => typeof v !== 'number')) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'baseRate, fatRate and snfRate must be numbers',
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const source = await prisma.source.findUnique({ where: { id } });
+    if (!source) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Source not found',
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    const data = {
+      type,
+      grid: type === RateChartType.GRID
+        ? (grid as unknown as Prisma.InputJsonValue)
+        : Prisma.DbNull,
+      baseRate: type === RateChartType.FORMULA ? baseRate : 0,
+      fatRate: type === RateChartType.FORMULA ? fatRate : 0,
+      snfRate: type === RateChartType.FORMULA ? snfRate : 0,
+    };
+
+    const chart = await prisma.sourceRateChart.upsert({
+      where: { sourceId: id },
+      update: data,
+      create: { ...data, sourceId: id },
+    });
+
+    const response: ApiResponse<SourceRateChart> = {
+      success: true,
+      data: chart as unknown as SourceRateChart,
+      message: 'Rate chart saved successfully',
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error saving rate chart:', error);
+    const response: ApiResponse<null> = {
+      success: false,
+      error: 'Failed to save rate chart',
+    };
+    res.status(500).json(response);
+  }
+};
+
+/**
+ * Remove a source's rate chart so new collections are not priced
+ */
+export const deleteRateChart = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    await prisma.sourceRateChart.deleteMany({ where: { sourceId: id } });
+
+    const response: ApiResponse<null> = {
+      success: true,
+      message: 'Rate chart removed successfully',
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error deleting rate chart:', error);
+    const response: ApiResponse<null> = {
+      success: false,
+      error: 'Failed to remove rate chart',
+    };
+    res.status(500).json(response);
+  }
+};
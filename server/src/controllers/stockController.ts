@@ -2,49 +2,92 @@
  * Stock Controller
  * 
  * Handles all stock-related operations including recording collections,
- * tracking inventory levels, and managing stock sources.
+ * stock movements (wastage, adjustments, counts), tracking inventory levels
+ * and the inventory ledger, exporting collections, and managing stock sources.
  */
 
 import { Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
 import prisma from '../lib/prisma.js';
 import {
   Stock,
   CreateStockDTO,
+  ProductInventory,
+  StockLedger,
+  StockMovement,
+  StockMovementType,
+  CreateStockMovementDTO,
+  ChangeSetAction,
+  ChangeSetRef,
   ApiResponse,
+  PaginatedResponse,
 } from '../types/index.js';
+import { DEFAULT_PRODUCT_ID } from '../lib/products.js';
+import { loadRateChart, resolveProcurementRate } from '../lib/procurement.js';
+import {
+  RECORDED_MOVEMENT_TYPES,
+  buildStockLedger,
+  isValidMovementQuantity,
+  loadInventoryLevel,
+} from '../lib/inventory.js';
+import { resolveExportFormat, sendExport, stockExportTable } from '../lib/exports.js';
+import { recordChangeSet } from '../lib/changeSets.js';
+import { STOCK_SORT_FIELDS, pageArgs, readPageQuery, toPaginated } from '../lib/pagination.js';
+
+/**
+ * Whether an optional percentage reading is missing or between 0 and 100
+ */
+const isValidPercentage = (value: unknown): boolean => {
+  return value === undefined || value === null ||
+    (typeof value === 'number' && value >= 0 && value <= 100);
+};
+
+/**
+ * Prisma filter for the stock list's query parameters
+ */
+const stockFilter = (query: Request['query']): Prisma.StockWhereInput => {
+  const { startDate, endDate, productId, shift, source, search } = query;
+
+  const where: Prisma.StockWhereInput = {};
+  if (productId) where.productId = productId as string;
+  if (shift) where.shift = shift as string;
+  if (source) where.source = source as string;
+  if (search) where.sourceName = { contains: String(search).trim(), mode: 'insensitive' };
+  if (startDate || endDate) {
+    where.date = {
+      ...(startDate && { gte: startDate as string }),
+      ...(endDate && { lte: endDate as string }),
+    };
+  }
+  return where;
+};
 
 /**
- * Get all stock records with optional date filtering
+ * Get stock records with optional filtering and sorting, newest first by
+ * default. With `page` or `limit` the response is one page with the total
+ * count.
  */
 export const getAllStock = async (
   req: Request,
   res: Response
 ): Promise<void> => {
   try {
-    const { startDate, endDate, limit = '50' } = req.query;
+    const where = stockFilter(req.query);
+    const { page, orderBy } = readPageQuery(req.query, STOCK_SORT_FIELDS, 'date', 'desc');
     
-    const where: any = {};
+    const [stockRecords, total] = await prisma.$transaction([
+      prisma.stock.findMany({
+        where,
+        orderBy: [orderBy, { createdAt: 'desc' }, { id: 'asc' }],
+        ...pageArgs(page),
+      }),
+      prisma.stock.count({ where }),
+    ]);
+    const items = stockRecords as unknown as Stock[];
     
-    if (startDate) {
-      where.date = { gte: startDate as string };
-    }
-    
-    if (endDate) {
-      where.date = { ...where.date, lte: endDate as string }; // Merge with existing date filter if any
-    }
-    
-    const stockRecords = await prisma.stock.findMany({
-      where,
-      orderBy: [
-        { date: 'desc' },
-        { createdAt: 'desc' },
-      ],
-      take: parseInt(limit as string, 10),
-    });
-    
-    const response: ApiResponse<Stock[]> = {
+    const response: ApiResponse<Stock[] | PaginatedResponse<Stock>> = {
       success: true,
-      data: stockRecords as unknown as Stock[],
+      data: page ? toPaginated(items, total, page) : items,
     };
     
     res.json(response);
@@ -58,6 +101,45 @@ export const getAllStock = async (
   }
 };
 
+/**
+ * Download stock collections as CSV or XLSX, oldest first, with the list's
+ * date and product filters
+ */
+export const exportStock = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const format = resolveExportFormat(req.query.format);
+    if (!format) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Format must be csv or xlsx',
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const collections = await prisma.stock.findMany({
+      where: stockFilter(req.query),
+      include: { product: { select: { name: true, unit: true } } },
+      orderBy: [
+        { date: 'asc' },
+        { createdAt: 'asc' },
+      ],
+    });
+
+    await sendExport(res, stockExportTable(collections), 'stock-collections', format);
+  } catch (error) {
+    console.error('Error exporting stock records:', error);
+    const response: ApiResponse<null> = {
+      success: false,
+      error: 'Failed to export stock records',
+    };
+    res.status(500).json(response);
+  }
+};
+
 /**
  * Get recent stock collections
  */
@@ -104,33 +186,54 @@ export const createStock = async (
     // For backward compatibility or ease, let's assume UI sends the Source Name or ID.
     // Ideally, we link relation, but for now we store the string values as per schema.
     
+    if (!isValidPercentage(stockData.fat) || !isValidPercentage(stockData.snf)) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Fat and SNF must be percentages between 0 and 100',
+      };
+      res.status(400).json(response);
+      return;
+    }
+
     const source = await prisma.source.findUnique({
         where: { name: stockData.source as string } // Assuming source passed is the Name
+    }) ?? await prisma.source.findUnique({
+        // Fallback check if it's an ID
+        where: { id: stockData.source as string }
     });
 
     if (!source) {
-         // Fallback check if it's an ID
-         const sourceById = await prisma.source.findUnique({
-             where: { id: stockData.source as string }
-         });
-         
-         if (!sourceById) {
-            const response: ApiResponse<null> = {
-                success: false,
-                error: 'Invalid source. Please select a valid source.',
-            };
-            res.status(400).json(response);
-            return;
-         }
+        const response: ApiResponse<null> = {
+            success: false,
+            error: 'Invalid source. Please select a valid source.',
+        };
+        res.status(400).json(response);
+        return;
     }
 
     // Logic: If source found, use its name for storage to keep historical data intact?
     // Or we should store sourceID. The current schema `Stock` has `source` and `sourceName` as Strings.
     // Plan: `source` = ID/Key, `sourceName` = Human Readable.
     
-    const sourceName = source ? source.name : await prisma.source.findUnique({
-        where: { id: stockData.source as string }
-    }).then(s => s?.name || 'Unknown');
+    const sourceName = source.name;
+
+    // Price the collection from the source's rate chart; the rate is stored
+    // so later chart changes do not alter past purchase values
+    const hasReading = typeof stockData.fat === 'number' && typeof stockData.snf === 'number';
+    const rate = hasReading
+      ? resolveProcurementRate(await loadRateChart(source.id), stockData.fat as number, stockData.snf as number)
+      : null;
+
+    const productId = stockData.productId || DEFAULT_PRODUCT_ID;
+    const product = await prisma.product.findUnique({ where: { id: productId } });
+    if (!product) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Invalid product',
+      };
+      res.status(400).json(response);
+      return;
+    }
 
     const newStock = await prisma.stock.create({
       data: {
@@ -139,6 +242,11 @@ export const createStock = async (
         source: stockData.source as string, // Store key/ID
         sourceName: sourceName,
         quantity: stockData.quantity,
+        productId,
+        fat: stockData.fat ?? null,
+        snf: stockData.snf ?? null,
+        rate,
+        amount: rate !== null ? rate * stockData.quantity : null,
       },
     });
     
@@ -179,10 +287,14 @@ export const deleteStock = async (
       return;
     }
 
-    await prisma.stock.delete({ where: { id } });
+    const changeSet = await prisma.$transaction(async (tx) => {
+      await tx.stock.delete({ where: { id } });
+      return recordChangeSet(tx, ChangeSetAction.DELETE_STOCK, 'Stock', [{ id, before: existing }], req.user!.id);
+    });
     
-    const response: ApiResponse<null> = {
+    const response: ApiResponse<ChangeSetRef | null> = {
       success: true,
+      data: changeSet,
       message: 'Stock record deleted successfully',
     };
     
@@ -198,28 +310,27 @@ export const deleteStock = async (
 };
 
 /**
- * Calculate current inventory level
+ * Calculate current inventory level.
+ * Top-level figures are for the default milk product; `products` breaks
+ * the level down per product, starting from each product's latest count.
  */
 export const getCurrentInventory = async (
   req: Request,
   res: Response
 ): Promise<void> => {
   try {
-    // Total Stock In
-    const stockAgg = await prisma.stock.aggregate({
-        _sum: { quantity: true }
-    });
-    const totalStockIn = stockAgg._sum.quantity || 0;
-    
-    // Total Delivered
-    const deliveryAgg = await prisma.delivery.aggregate({
-        where: { delivered: true },
-        _sum: { actualAmount: true }
-    });
-    const totalDelivered = deliveryAgg._sum.actualAmount || 0;
-    
+    const products = await prisma.product.findMany({ orderBy: { name: 'asc' } });
+    const levels = await Promise.all(products.map((product) => loadInventoryLevel(product.id)));
+
+    const productInventory: ProductInventory[] = products.map((product, i) => ({
+      productId: product.id,
+      name: product.name,
+      unit: product.unit,
+      ...levels[i],
+    }));
+
     // Calculate current inventory
-    const currentInventory = totalStockIn - totalDelivered;
+    const currentInventory = productInventory.find((p) => p.productId === DEFAULT_PRODUCT_ID)?.current || 0;
     
     // Get max capacity from settings
     const settings = await prisma.settings.findUnique({ where: { id: 1 } });
@@ -232,13 +343,15 @@ export const getCurrentInventory = async (
       maxCapacity: number;
       percentage: number;
       lowStock: boolean;
+      products: ProductInventory[];
     }> = {
       success: true,
       data: {
-        currentInventory: Math.max(0, currentInventory),
+        currentInventory,
         maxCapacity,
         percentage: Math.max(0, percentage),
         lowStock: percentage < 20,
+        products: productInventory,
       },
     };
     
@@ -253,6 +366,168 @@ export const getCurrentInventory = async (
   }
 };
 
+/**
+ * Get a product's inventory ledger (collections, deliveries and stock
+ * movements with a running balance) for a date range
+ */
+export const getStockLedger = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { startDate, endDate, productId } = req.query;
+
+    if (!startDate || !endDate) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'startDate and endDate are required',
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const ledger = await buildStockLedger(
+      productId ? String(productId) : DEFAULT_PRODUCT_ID,
+      String(startDate),
+      String(endDate)
+    );
+
+    const response: ApiResponse<StockLedger> = {
+      success: true,
+      data: ledger,
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error fetching stock ledger:', error);
+    const response: ApiResponse<null> = {
+      success: false,
+      error: 'Failed to fetch stock ledger',
+    };
+    res.status(500).json(response);
+  }
+};
+
+/**
+ * Record wastage, spoilage, a counter sale, a manual adjustment or a
+ * physical count. The signed-in user is recorded as the author.
+ */
+export const createStockMovement = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { date, type, quantity, reason, productId }: CreateStockMovementDTO = req.body;
+
+    if (!date || !RECORDED_MOVEMENT_TYPES.includes(type)) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: `date and a type of ${RECORDED_MOVEMENT_TYPES.join(', ')} are required`,
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    if (!isValidMovementQuantity(type, quantity)) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: type === StockMovementType.ADJUSTMENT
+          ? 'Adjustment quantity must be a non-zero number'
+          : type === StockMovementType.COUNT
+            ? 'Counted quantity must be zero or more'
+            : 'Quantity must be greater than zero',
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    if (!reason?.trim()) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'A reason is required',
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const product = await prisma.product.findUnique({ where: { id: productId || DEFAULT_PRODUCT_ID } });
+    if (!product) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Product not found',
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    const movement = await prisma.stockMovement.create({
+      data: {
+        date,
+        type,
+        quantity,
+        reason: reason.trim(),
+        productId: product.id,
+        createdById: req.user!.id,
+      },
+      include: { createdBy: { select: { name: true } } },
+    });
+
+    const { createdBy, ...rest } = movement;
+    const response: ApiResponse<StockMovement> = {
+      success: true,
+      data: { ...rest, createdByName: createdBy.name } as StockMovement,
+      message: 'Stock movement recorded successfully',
+    };
+
+    res.status(201).json(response);
+  } catch (error) {
+    console.error('Error recording stock movement:', error);
+    const response: ApiResponse<null> = {
+      success: false,
+      error: 'Failed to record stock movement',
+    };
+    res.status(500).json(response);
+  }
+};
+
+/**
+ * Delete a stock movement
+ */
+export const deleteStockMovement = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const existing = await prisma.stockMovement.findUnique({ where: { id } });
+    if (!existing) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Stock movement not found',
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    await prisma.stockMovement.delete({ where: { id } });
+
+    const response: ApiResponse<null> = {
+      success: true,
+      message: 'Stock movement deleted successfully',
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error deleting stock movement:', error);
+    const response: ApiResponse<null> = {
+      success: false,
+      error: 'Failed to delete stock movement',
+    };
+    res.status(500).json(response);
+  }
+};
+
 /**
  * Get stock sources list (Dynamic)
  */
@@ -297,7 +572,7 @@ export const getStockAvailability = async (
   res: Response
 ): Promise<void> => {
   try {
-    const { date } = req.query;
+    const { date, productId } = req.query;
     
     if (!date) {
       const response: ApiResponse<null> = {
@@ -309,10 +584,11 @@ export const getStockAvailability = async (
     }
 
     const dateStr = String(date);
+    const product = productId ? String(productId) : DEFAULT_PRODUCT_ID;
 
     // 1. Get total stock IN for the date
     const stockAgg = await prisma.stock.aggregate({
-        where: { date: dateStr },
+        where: { date: dateStr, productId: product },
         _sum: { quantity: true }
     });
     const totalStock = stockAgg._sum.quantity || 0;
@@ -321,7 +597,8 @@ export const getStockAvailability = async (
     const deliveryAgg = await prisma.delivery.aggregate({
         where: { 
             date: dateStr,
-            delivered: true
+            delivered: true,
+            productId: product,
         },
         _sum: { actualAmount: true }
     });
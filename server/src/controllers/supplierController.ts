@@ -0,0 +1,246 @@
+/**
+ * Supplier Controller
+ *
+ * Handles what is owed to each source: outstanding payables, payments
+ * made to a source and periodic supplier statements.
+ */
+
+import { Request, Response } from 'express';
+import prisma from '../lib/prisma.js';
+import {
+  ApiResponse,
+  CreateSupplierPaymentDTO,
+  StatementPeriod,
+  SupplierPayable,
+  SupplierPayment,
+  SupplierStatement,
+} from '../types/index.js';
+import { buildSupplierStatement, loadSupplierPayables } from '../lib/payables.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Number of days covered by each statement period
+ */
+const PERIOD_DAYS: Record<StatementPeriod, number> = {
+  [StatementPeriod.WEEKLY]: 7,
+  [StatementPeriod.FORTNIGHTLY]: 14,
+};
+
+/**
+ * Format date as YYYY-MM-DD
+ */
+const formatDate = (date: Date): string => {
+  return date.toISOString().split('T')[0];
+};
+
+/**
+ * Get purchases, payments and outstanding balance for every source
+ */
+export const getSupplierPayables = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const payables = await loadSupplierPayables();
+
+    const response: ApiResponse<SupplierPayable[]> = {
+      success: true,
+      data: payables,
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error fetching supplier payables:', error);
+    const response: ApiResponse<null> = {
+      success: false,
+      error: 'Failed to fetch supplier payables',
+    };
+    res.status(500).json(response);
+  }
+};
+
+/**
+ * Get payments made to a source (most recent first)
+ */
+export const getSupplierPayments = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const payments = await prisma.supplierPayment.findMany({
+      where: { sourceId: id },
+      orderBy: [{ date: 'desc' }, { createdAt: 'desc' }],
+    });
+
+    const response: ApiResponse<SupplierPayment[]> = {
+      success: true,
+      data: payments as unknown as SupplierPayment[],
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error fetching supplier payments:', error);
+    const response: ApiResponse<null> = {
+      success: false,
+      error: 'Failed to fetch supplier payments',
+    };
+    res.status(500).json(response);
+  }
+};
+
+/**
+ * Record a payment made to a source
+ */
+export const recordSupplierPayment = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { amount, date, method, remarks }: CreateSupplierPaymentDTO = req.body;
+
+    if (typeof amount !== 'number' || amount <= 0 || !date) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'A positive amount and a date are required',
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const source = await prisma.source.findUnique({ where: { id } });
+    if (!source) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Source not found',
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    const payment = await prisma.supplierPayment.create({
+      data: { sourceId: id, amount, date, method, remarks },
+    });
+
+    const response: ApiResponse<SupplierPayment> = {
+      success: true,
+      data: payment as unknown as SupplierPayment,
+      message: 'Supplier payment recorded successfully',
+    };
+
+    res.status(201).json(response);
+  } catch (error) {
+    console.error('Error recording supplier payment:', error);
+    const response: ApiResponse<null> = {
+      success: false,
+      error: 'Failed to record supplier payment',
+    };
+    res.status(500).json(response);
+  }
+};
+
+/**
+ * Delete a payment made to a source
+ */
+export const deleteSupplierPayment = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id, paymentId } = req.params;
+
+    const payment = await prisma.supplierPayment.findFirst({
+      where: { id: paymentId, sourceId: id },
+    });
+    if (!payment) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Supplier payment not found',
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    await prisma.supplierPayment.delete({ where: { id: paymentId } });
+
+    const response: ApiResponse<null> = {
+      success: true,
+      message: 'Supplier payment deleted successfully',
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error deleting supplier payment:', error);
+    const response: ApiResponse<null> = {
+      success: false,
+      error: 'Failed to delete supplier payment',
+    };
+    res.status(500).json(response);
+  }
+};
+
+/**
+ * Get a source's statement for a weekly or fortnightly period ending on
+ * endDate (default today), or for an explicit startDate..endDate range
+ */
+export const getSupplierStatement = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const period = (req.query.period as StatementPeriod) || StatementPeriod.WEEKLY;
+    const endDate = (req.query.endDate as string) || formatDate(new Date());
+
+    if (!PERIOD_DAYS[period]) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: "period must be 'weekly' or 'fortnightly'",
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const end = new Date(`${endDate}T00:00:00Z`);
+    if (isNaN(end.getTime())) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'endDate must be in YYYY-MM-DD format',
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const startDate = (req.query.startDate as string) ||
+      formatDate(new Date(end.getTime() - (PERIOD_DAYS[period] - 1) * DAY_MS));
+
+    const source = await prisma.source.findUnique({ where: { id } });
+    if (!source) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Source not found',
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    const statement = await buildSupplierStatement(source, startDate, endDate);
+
+    const response: ApiResponse<SupplierStatement> = {
+      success: true,
+      data: statement,
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error fetching supplier statement:', error);
+    const response: ApiResponse<null> = {
+      success: false,
+      error: 'Failed to fetch supplier statement',
+    };
+    res.status(500).json(response);
+  }
+};
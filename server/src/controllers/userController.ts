@@ -0,0 +1,233 @@
+/**
+ * User Controller
+ *
+ * Handles management of staff user accounts and their roles.
+ */
+
+import { Request, Response } from 'express';
+import prisma from '../lib/prisma.js';
+import { hashPassword } from '../lib/auth.js';
+import {
+  User,
+  CreateUserDTO,
+  UpdateUserDTO,
+  UserRole,
+  ApiResponse,
+} from '../types/index.js';
+
+/**
+ * Fields returned for a user (never the password hash)
+ */
+const userSelect = {
+  id: true,
+  username: true,
+  name: true,
+  role: true,
+  isActive: true,
+  createdAt: true,
+  updatedAt: true,
+};
+
+/**
+ * Get all user accounts
+ */
+export const getAllUsers = async (
+  _req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const users = await prisma.user.findMany({
+      select: userSelect,
+      orderBy: { name: 'asc' },
+    });
+
+    const response: ApiResponse<User[]> = {
+      success: true,
+      data: users as unknown as User[],
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error fetching users:', error);
+    const response: ApiResponse<null> = {
+      success: false,
+      error: 'Failed to fetch users',
+    };
+    res.status(500).json(response);
+  }
+};
+
+/**
+ * Create a new user account
+ */
+export const createUser = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { username, name, password, role }: CreateUserDTO = req.body;
+
+    if (!username || !name || !password || !Object.values(UserRole).includes(role)) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Username, name, password and a valid role are required',
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const existing = await prisma.user.findUnique({ where: { username } });
+    if (existing) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Username is already taken',
+      };
+      res.status(409).json(response);
+      return;
+    }
+
+    const user = await prisma.user.create({
+      data: {
+        username,
+        name,
+        role,
+        passwordHash: await hashPassword(password),
+      },
+      select: userSelect,
+    });
+
+    const response: ApiResponse<User> = {
+      success: true,
+      data: user as unknown as User,
+      message: 'User created successfully',
+    };
+
+    res.status(201).json(response);
+  } catch (error) {
+    console.error('Error creating user:', error);
+    const response: ApiResponse<null> = {
+      success: false,
+      error: 'Failed to create user',
+    };
+    res.status(500).json(response);
+  }
+};
+
+/**
+ * Update a user account (name, role, status or password reset)
+ */
+export const updateUser = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { name, role, isActive, password }: UpdateUserDTO = req.body;
+
+    const existing = await prisma.user.findUnique({ where: { id } });
+    if (!existing) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'User not found',
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    if (role && !Object.values(UserRole).includes(role)) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Invalid role',
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    // Owners cannot lock themselves out
+    if (id === req.user?.id && (isActive === false || (role && role !== UserRole.OWNER))) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'You cannot deactivate or demote your own account',
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const user = await prisma.user.update({
+      where: { id },
+      // Only the editable fields; never the username or password hash
+      data: {
+        ...(name !== undefined && { name }),
+        ...(role !== undefined && { role }),
+        ...(isActive !== undefined && { isActive }),
+        ...(password && { passwordHash: await hashPassword(password) }),
+      },
+      select: userSelect,
+    });
+
+    const response: ApiResponse<User> = {
+      success: true,
+      data: user as unknown as User,
+      message: 'User updated successfully',
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error updating user:', error);
+    const response: ApiResponse<null> = {
+      success: false,
+      error: 'Failed to update user',
+    };
+    res.status(500).json(response);
+  }
+};
+
+/**
+ * Deactivate a user account
+ */
+export const deleteUser = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    if (id === req.user?.id) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'You cannot deactivate your own account',
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const existing = await prisma.user.findUnique({ where: { id } });
+    if (!existing) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'User not found',
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    await prisma.user.update({
+      where: { id },
+      data: { isActive: false },
+    });
+
+    const response: ApiResponse<null> = {
+      success: true,
+      message: 'User deactivated successfully',
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Error deactivating user:', error);
+    const response: ApiResponse<null> = {
+      success: false,
+      error: 'Failed to deactivate user',
+    };
+    res.status(500).json(response);
+  }
+};
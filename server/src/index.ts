@@ -11,9 +11,11 @@ import cors from 'cors';
 import helmet from 'helmet';
 import morgan from 'morgan';
 import routes from './routes/index.js';
+import { ensureOwnerAccount } from './lib/auth.js';
+import { scheduleBackups } from './lib/backup.js';
 
 // Validate required environment variables
-const requiredEnvVars = ['PORT'];
+const requiredEnvVars = ['PORT', 'JWT_SECRET'];
 for (const envVar of requiredEnvVars) {
   if (!process.env[envVar]) {
     console.warn(`Warning: ${envVar} environment variable is not set`);
@@ -94,6 +96,14 @@ app.use((err: Error, _req: Request, res: Response, _next: NextFunction) => {
 // Server Startup
 // ============================================================================
 
+ensureOwnerAccount().catch((error) => {
+  console.error('Failed to create owner account:', error);
+});
+
+scheduleBackups().catch((error) => {
+  console.error('Failed to schedule backups:', error);
+});
+
 app.listen(PORT, () => {
   console.log(`
 ╔════════════════════════════════════════════════════════════╗
@@ -0,0 +1,165 @@
+/**
+ * Receivables Aging
+ *
+ * Buckets each customer's outstanding months by how far past due they are.
+ * A month falls due `paymentTerms` days after its last day; unapplied
+ * payments and months whose credits exceed their charges are shown as
+ * credit and netted off the customer's total.
+ */
+
+import prisma from './prisma.js';
+import { AgingBuckets, AgingReport, CustomerAging } from '../types/index.js';
+import { loadPaymentCreditsByCustomer, loadPeriodBalancesByCustomer } from './payments.js';
+import { toCsv } from './csv.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Amounts below this are treated as settled
+ */
+const EPSILON = 0.005;
+
+const roundAmount = (amount: number): number => Math.round(amount * 100) / 100;
+
+/**
+ * Column labels of the buckets, in report order
+ */
+export const AGING_BUCKETS: { key: keyof AgingBuckets; label: string }[] = [
+  { key: 'current', label: 'Current' },
+  { key: 'days1to30', label: '1-30 days' },
+  { key: 'days31to60', label: '31-60 days' },
+  { key: 'days61to90', label: '61-90 days' },
+  { key: 'over90', label: '90+ days' },
+];
+
+/**
+ * Due date (YYYY-MM-DD) of a billing month
+ */
+export const resolveDueDate = (month: number, year: number, paymentTerms: number): string =>
+  new Date(Date.UTC(year, month, paymentTerms)).toISOString().slice(0, 10);
+
+/**
+ * Bucket for an amount that is `daysOverdue` days past due
+ */
+export const resolveAgingBucket = (daysOverdue: number): keyof AgingBuckets => {
+  if (daysOverdue <= 0) return 'current';
+  if (daysOverdue <= 30) return 'days1to30';
+  if (daysOverdue <= 60) return 'days31to60';
+  if (daysOverdue <= 90) return 'days61to90';
+  return 'over90';
+};
+
+const emptyBuckets = (): AgingBuckets => ({
+  current: 0,
+  days1to30: 0,
+  days31to60: 0,
+  days61to90: 0,
+  over90: 0,
+});
+
+/**
+ * Age every customer's outstanding balance as of today. Customers with
+ * nothing owed and no credit are left out; the rest are ordered by how
+ * long they have been overdue, then by amount.
+ */
+export const buildAgingReport = async (): Promise<AgingReport> => {
+  const asOf = new Date().toISOString().slice(0, 10);
+  const asOfMs = Date.parse(asOf);
+
+  const [settings, customers, balancesByCustomer, creditsByCustomer] = await Promise.all([
+    prisma.settings.findUnique({ where: { id: 1 } }),
+    prisma.customer.findMany({
+      select: { id: true, name: true, phone: true },
+      orderBy: { name: 'asc' },
+    }),
+    loadPeriodBalancesByCustomer(),
+    loadPaymentCreditsByCustomer(),
+  ]);
+  const paymentTerms = settings?.paymentTerms ?? 5;
+
+  const rows = customers.map((customer): CustomerAging => {
+    const balances = balancesByCustomer.get(customer.id) ?? [];
+    const credits = creditsByCustomer.get(customer.id) ?? [];
+
+    const buckets = emptyBuckets();
+    const unpaid = balances
+      .filter((b) => b.outstanding > EPSILON)
+      .map((b) => ({ ...b, dueDate: resolveDueDate(b.month, b.year, paymentTerms) }));
+    unpaid.forEach((b) => {
+      buckets[resolveAgingBucket(Math.round((asOfMs - Date.parse(b.dueDate)) / DAY_MS))] += b.outstanding;
+    });
+    const oldestDueDate = unpaid[0]?.dueDate ?? null;
+
+    // A month credited beyond its charges is owed back like a payment
+    const overCredited = balances
+      .filter((b) => b.outstanding < -EPSILON)
+      .reduce((acc, b) => acc - b.outstanding, 0);
+    const credit = roundAmount(credits.reduce((acc, c) => acc + c.remaining, 0) + overCredited);
+    const owed = Object.values(buckets).reduce((acc, amount) => acc + amount, 0);
+
+    return {
+      customerId: customer.id,
+      customerName: customer.name,
+      phone: customer.phone,
+      current: roundAmount(buckets.current),
+      days1to30: roundAmount(buckets.days1to30),
+      days31to60: roundAmount(buckets.days31to60),
+      days61to90: roundAmount(buckets.days61to90),
+      over90: roundAmount(buckets.over90),
+      credit,
+      total: roundAmount(owed - credit),
+      oldestDueDate,
+      daysOverdue: oldestDueDate
+        ? Math.max(0, Math.round((asOfMs - Date.parse(oldestDueDate)) / DAY_MS))
+        : 0,
+    };
+  });
+
+  const owing = rows
+    .filter((row) => row.total > EPSILON || row.credit > EPSILON)
+    .sort((a, b) => b.daysOverdue - a.daysOverdue || b.total - a.total);
+
+  const totals = { ...emptyBuckets(), credit: 0, total: 0 };
+  owing.forEach((row) => {
+    AGING_BUCKETS.forEach(({ key }) => {
+      totals[key] += row[key];
+    });
+    totals.credit += row.credit;
+    totals.total += row.total;
+  });
+
+  return {
+    asOf,
+    paymentTerms,
+    customers: owing,
+    totals: {
+      current: roundAmount(totals.current),
+      days1to30: roundAmount(totals.days1to30),
+      days31to60: roundAmount(totals.days31to60),
+      days61to90: roundAmount(totals.days61to90),
+      over90: roundAmount(totals.over90),
+      credit: roundAmount(totals.credit),
+      total: roundAmount(totals.total),
+    },
+  };
+};
+
+/**
+ * The aging report as CSV, one row per customer and a totals row
+ */
+export const agingReportToCsv = (report: AgingReport): string =>
+  toCsv(
+    ['Customer', 'Phone', ...AGING_BUCKETS.map((b) => b.label), 'Credit', 'Total', 'Oldest Due', 'Days Overdue'],
+    [
+      ...report.customers.map((row) => [
+        row.customerName,
+        row.phone,
+        ...AGING_BUCKETS.map((b) => row[b.key]),
+        row.credit,
+        row.total,
+        row.oldestDueDate,
+        row.daysOverdue,
+      ]),
+      ['Total', '', ...AGING_BUCKETS.map((b) => report.totals[b.key]), report.totals.credit, report.totals.total, '', ''],
+    ]
+  );
@@ -0,0 +1,247 @@
+/**
+ * Audit Trail
+ *
+ * Records every row the API creates, changes or deletes, with the row
+ * before and after the change and the user who made it. A Prisma extension
+ * collects the writes made while handling a request into that request's
+ * audit context; the middleware saves them once the response has
+ * succeeded, so changes rolled back by a failed request leave no entries.
+ *
+ * Writes made outside a request (startup, scheduled backups) are not
+ * audited, and nested writes are recorded only as part of their parent row.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { AuditAction } from '../types/index.js';
+
+type Row = Record<string, unknown>;
+
+export interface AuditEntry {
+  entity: string;
+  entityId: string | null;
+  action: AuditAction;
+  before: Row | null;
+  after: Row | null;
+  customerId: string | null;
+  createdAt: Date;
+}
+
+export interface AuditContext {
+  userId: string | null;
+  /** e.g. 'POST /api/deliveries/bulk' */
+  request: string;
+  entries: AuditEntry[];
+  /** Set while a write records its own summary entry instead */
+  paused: boolean;
+}
+
+interface ReadDelegate {
+  findUnique: (args: { where: unknown }) => Promise<Row | null>;
+  findMany: (args: { where: unknown }) => Promise<Row[]>;
+}
+
+const storage = new AsyncLocalStorage<AuditContext>();
+
+/** Client of the interactive transaction the current code runs in */
+const transactionStorage = new AsyncLocalStorage<object>();
+
+/** Logs and undo bookkeeping, not audited */
+const UNAUDITED_MODELS = new Set(['AuditLog', 'MessageLog', 'ChangeSet']);
+
+/** Columns never copied into the audit log */
+const REDACTED_FIELDS = ['passwordHash'];
+
+/** Columns that change on every write, ignored when comparing rows */
+const IGNORED_FIELDS = ['updatedAt'];
+
+/**
+ * Run `next` with a fresh audit context for one request
+ */
+export const runWithAudit = (context: AuditContext, next: () => void): void => {
+  storage.run(context, next);
+};
+
+/**
+ * Stop recording individual writes for the rest of the current request
+ */
+export const pauseAudit = (): void => {
+  const context = storage.getStore();
+  if (context) context.paused = true;
+};
+
+/**
+ * Add an entry to the current request's audit log by hand, e.g. a summary
+ * of a write too large to record row by row
+ */
+export const recordAudit = (entry: Omit<AuditEntry, 'createdAt'>): void => {
+  storage.getStore()?.entries.push({ ...entry, createdAt: new Date() });
+};
+
+/**
+ * Copy of a row safe to store as JSON
+ */
+const toSnapshot = (row: Row | null): Row | null => {
+  if (!row) return null;
+  const snapshot: Row = JSON.parse(JSON.stringify(row));
+  REDACTED_FIELDS.forEach((field) => delete snapshot[field]);
+  return snapshot;
+};
+
+/**
+ * Whether an update left every compared column as it was
+ */
+const isUnchanged = (before: Row, after: Row): boolean =>
+  Object.keys(after)
+    .filter((key) => !IGNORED_FIELDS.includes(key))
+    .every((key) => JSON.stringify(before[key]) === JSON.stringify(after[key]));
+
+/**
+ * Row an `updateMany` leaves behind, from the row before and the update data
+ */
+const applyUpdate = (before: Row, data: Row): Row => {
+  const after = { ...before };
+  for (const [key, value] of Object.entries(data)) {
+    if (value === undefined) continue;
+    if (value === null || typeof value !== 'object' || value instanceof Date) {
+      after[key] = value;
+      continue;
+    }
+    const operation = value as Record<string, number>;
+    const current = Number(before[key]);
+    if ('set' in operation) after[key] = operation.set;
+    else if ('increment' in operation) after[key] = current + operation.increment;
+    else if ('decrement' in operation) after[key] = current - operation.decrement;
+    else if ('multiply' in operation) after[key] = current * operation.multiply;
+    else if ('divide' in operation) after[key] = current / operation.divide;
+  }
+  return after;
+};
+
+/**
+ * Add one row's change to the current audit context
+ */
+const record = (
+  context: AuditContext,
+  entity: string,
+  action: AuditAction,
+  before: Row | null,
+  after: Row | null
+): void => {
+  if (action === AuditAction.UPDATE && before && after && isUnchanged(before, after)) return;
+
+  const row = after ?? before ?? {};
+  const customerId = entity === 'Customer' ? row.id : row.customerId;
+  context.entries.push({
+    entity,
+    entityId: typeof row.id === 'string' ? row.id : null,
+    action,
+    before: toSnapshot(before),
+    after: toSnapshot(after),
+    customerId: typeof customerId === 'string' ? customerId : null,
+    createdAt: new Date(),
+  });
+};
+
+/**
+ * Make an extended client's interactive transactions known to the audit
+ * extension, so it reads rows before a change through the transaction:
+ * it sees the transaction's own earlier writes and uses its connection
+ * instead of taking a second one from the pool
+ */
+export const trackTransactions = <T extends object>(extended: T): T =>
+  new Proxy(extended, {
+    get(target, prop) {
+      const value = Reflect.get(target, prop);
+      if (prop !== '$transaction' || typeof value !== 'function') return value;
+
+      return (arg: unknown, options?: unknown) =>
+        typeof arg === 'function'
+          ? value.call(target, (tx: object) => transactionStorage.run(tx, () => arg(tx)), options)
+          : value.call(target, arg, options);
+    },
+  });
+
+/**
+ * Prisma extension recording the writes made while handling a request.
+ * Rows before a change are read through the current transaction (see
+ * `trackTransactions`), or through `client` outside one.
+ */
+export const auditExtension = (client: PrismaClient) =>
+  Prisma.defineExtension({
+    name: 'audit',
+    query: {
+      $allModels: {
+        async $allOperations({ model, operation, args, query }) {
+          const context = storage.getStore();
+          if (!context || context.paused || UNAUDITED_MODELS.has(model)) {
+            return query(args);
+          }
+
+          const db = transactionStorage.getStore() ?? client;
+          const table = (db as unknown as Record<string, ReadDelegate>)[
+            model.charAt(0).toLowerCase() + model.slice(1)
+          ];
+          const input = args as { where?: unknown; data?: Row | Row[] };
+
+          switch (operation) {
+            case 'create': {
+              const result = await query(args);
+              record(context, model, AuditAction.CREATE, null, result as Row);
+              return result;
+            }
+            case 'createMany':
+            case 'createManyAndReturn': {
+              const result = await query(args);
+              const rows = Array.isArray(result)
+                ? (result as Row[])
+                : ([] as Row[]).concat(input.data ?? []);
+              rows.forEach((row) => record(context, model, AuditAction.CREATE, null, row));
+              return result;
+            }
+            case 'update':
+            case 'upsert': {
+              const before = await table.findUnique({ where: input.where });
+              const result = await query(args);
+              record(context, model, before ? AuditAction.UPDATE : AuditAction.CREATE, before, result as Row);
+              return result;
+            }
+            case 'updateMany':
+            case 'updateManyAndReturn': {
+              const before = await table.findMany({ where: input.where });
+              const result = await query(args);
+              before.forEach((row) =>
+                record(context, model, AuditAction.UPDATE, row, applyUpdate(row, input.data as Row))
+              );
+              return result;
+            }
+            case 'delete': {
+              const result = await query(args);
+              record(context, model, AuditAction.DELETE, result as Row, null);
+              return result;
+            }
+            case 'deleteMany': {
+              const before = await table.findMany({ where: input.where });
+              const result = await query(args);
+              before.forEach((row) => record(context, model, AuditAction.DELETE, row, null));
+              return result;
+            }
+            default:
+              return query(args);
+          }
+        },
+      },
+    },
+  });
+
+/**
+ * Audit entries in the shape the AuditLog table stores them
+ */
+export const toAuditLogRows = (context: AuditContext): Prisma.AuditLogCreateManyInput[] =>
+  context.entries.map((entry) => ({
+    ...entry,
+    before: (entry.before as Prisma.InputJsonObject | null) ?? Prisma.DbNull,
+    after: (entry.after as Prisma.InputJsonObject | null) ?? Prisma.DbNull,
+    request: context.request,
+    userId: context.userId,
+  }));
@@ -0,0 +1,136 @@
+/**
+ * Authentication Helpers
+ *
+ * Password hashing, JWT signing/verification, customer portal links and
+ * first-run owner account setup.
+ */
+
+import bcrypt from 'bcryptjs';
+import jwt from 'jsonwebtoken';
+import prisma from './prisma.js';
+import { AuthUser, UserRole } from '../types/index.js';
+
+const JWT_SECRET = process.env.JWT_SECRET || 'dev-only-insecure-secret';
+const JWT_EXPIRES_IN = process.env.JWT_EXPIRES_IN || '12h';
+
+/**
+ * Audience of customer portal tokens, which staff routes never accept
+ */
+const PORTAL_AUDIENCE = 'customer-portal';
+
+if (!process.env.JWT_SECRET) {
+  // Anyone could sign owner and portal tokens with the public default
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('JWT_SECRET environment variable must be set in production');
+  }
+  console.warn('Warning: JWT_SECRET environment variable is not set, using an insecure development default');
+}
+
+/**
+ * Hash a plain-text password
+ */
+export const hashPassword = (password: string): Promise<string> => {
+  return bcrypt.hash(password, 10);
+};
+
+/**
+ * Compare a plain-text password against a stored hash
+ */
+export const verifyPassword = (password: string, hash: string): Promise<boolean> => {
+  return bcrypt.compare(password, hash);
+};
+
+/**
+ * Sign a JWT for an authenticated user
+ */
+export const signToken = (user: AuthUser): string => {
+  return jwt.sign(
+    { sub: user.id, username: user.username, name: user.name, role: user.role },
+    JWT_SECRET,
+    { expiresIn: JWT_EXPIRES_IN } as jwt.SignOptions
+  );
+};
+
+/**
+ * Verify a JWT and return the user it was issued for (null if invalid or expired)
+ */
+export const verifyToken = (token: string): AuthUser | null => {
+  try {
+    const payload = jwt.verify(token, JWT_SECRET) as jwt.JwtPayload;
+    if (payload.aud === PORTAL_AUDIENCE) return null;
+    return {
+      id: payload.sub as string,
+      username: payload.username,
+      name: payload.name,
+      role: payload.role as UserRole,
+    };
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Sign a read-only portal link token for a customer. The token carries the
+ * customer's portal token version, so bumping it revokes the link.
+ */
+export const signPortalToken = (
+  customerId: string,
+  version: number,
+  expiresInDays: number
+): { token: string; expiresAt: Date } => {
+  const token = jwt.sign({ ver: version }, JWT_SECRET, {
+    subject: customerId,
+    audience: PORTAL_AUDIENCE,
+    expiresIn: `${expiresInDays}d`,
+  } as jwt.SignOptions);
+  const { exp } = jwt.decode(token) as jwt.JwtPayload;
+  return { token, expiresAt: new Date((exp as number) * 1000) };
+};
+
+/**
+ * Verify a portal token and return the customer and token version it was
+ * issued for, 'expired' if it is past its expiry, or null if it is not valid
+ */
+export const verifyPortalToken = (
+  token: string
+): { customerId: string; version: number; expiresAt: Date } | 'expired' | null => {
+  try {
+    const payload = jwt.verify(token, JWT_SECRET, { audience: PORTAL_AUDIENCE }) as jwt.JwtPayload;
+    return {
+      customerId: payload.sub as string,
+      // Links issued before versions existed belong to the first version
+      version: typeof payload.ver === 'number' ? payload.ver : 0,
+      expiresAt: new Date((payload.exp as number) * 1000),
+    };
+  } catch (error) {
+    return error instanceof jwt.TokenExpiredError ? 'expired' : null;
+  }
+};
+
+/**
+ * Create the initial owner account from OWNER_USERNAME / OWNER_PASSWORD
+ * when no user accounts exist yet.
+ */
+export const ensureOwnerAccount = async (): Promise<void> => {
+  const userCount = await prisma.user.count();
+  if (userCount > 0) return;
+
+  const username = process.env.OWNER_USERNAME;
+  const password = process.env.OWNER_PASSWORD;
+
+  if (!username || !password) {
+    console.warn('Warning: No user accounts exist. Set OWNER_USERNAME and OWNER_PASSWORD to create the owner account.');
+    return;
+  }
+
+  await prisma.user.create({
+    data: {
+      username,
+      name: process.env.OWNER_NAME || 'Owner',
+      passwordHash: await hashPassword(password),
+      role: UserRole.OWNER,
+    },
+  });
+
+  console.log(`Created owner account "${username}"`);
+};
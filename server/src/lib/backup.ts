@@ -0,0 +1,457 @@
+/**
+ * Database Backup
+ *
+ * Exports every table into one versioned archive (JSON, or a ZIP holding
+ * a manifest and one JSON file per table), validates and restores such an
+ * archive in a single transaction, and writes scheduled backups to a local
+ * directory, keeping only the newest ones.
+ *
+ * User accounts are backed up but never deleted by a restore: accounts
+ * missing from the database are added, and records pointing at an account
+ * that could not be restored fall back to the restoring user (or to none).
+ */
+
+import { mkdir, readdir, stat, unlink, writeFile } from 'fs/promises';
+import path from 'path';
+import JSZip from 'jszip';
+import { Prisma } from '@prisma/client';
+import prisma from './prisma.js';
+import { RestoreMode, RestoreResult, StoredBackup } from '../types/index.js';
+
+/** Marks a file as one of our backups */
+export const BACKUP_FORMAT = 'daily-dairy-manager-backup';
+
+/** Bumped whenever the archive layout or the backed-up schema changes */
+export const BACKUP_VERSION = 1;
+
+type Row = Record<string, unknown>;
+type Tx = Prisma.TransactionClient;
+
+export interface BackupArchive {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: string;
+  tables: Record<string, Row[]>;
+}
+
+interface BackupTable {
+  /** Key of the table in the archive */
+  name: string;
+  /** Columns a record may have */
+  fields: string[];
+  /** Nullable JSON columns, which Prisma needs written as DbNull */
+  nullableJson?: string[];
+  read: (tx: Tx) => Promise<Row[]>;
+  write: (tx: Tx, rows: Row[], skipDuplicates: boolean) => Promise<{ count: number }>;
+  clear: (tx: Tx) => Promise<unknown>;
+}
+
+/**
+ * Tables in the order they are written: every table comes after the tables
+ * it references. Self-referencing tables are read oldest first so an
+ * original is written before the record that replaces or amends it.
+ */
+const BACKUP_TABLES: BackupTable[] = [
+  {
+    name: 'settings',
+    fields: Object.values(Prisma.SettingsScalarFieldEnum),
+    read: (tx) => tx.settings.findMany(),
+    write: (tx, rows, skipDuplicates) => tx.settings.createMany({ data: rows as Prisma.SettingsCreateManyInput[], skipDuplicates }),
+    clear: (tx) => tx.settings.deleteMany(),
+  },
+  {
+    name: 'users',
+    fields: Object.values(Prisma.UserScalarFieldEnum),
+    read: (tx) => tx.user.findMany({ orderBy: { createdAt: 'asc' } }),
+    // Accounts are only ever added, see restoreBackup
+    write: (tx, rows) => tx.user.createMany({ data: rows as Prisma.UserCreateManyInput[], skipDuplicates: true }),
+    clear: async () => undefined,
+  },
+  {
+    name: 'products',
+    fields: Object.values(Prisma.ProductScalarFieldEnum),
+    read: (tx) => tx.product.findMany(),
+    write: (tx, rows, skipDuplicates) => tx.product.createMany({ data: rows as Prisma.ProductCreateManyInput[], skipDuplicates }),
+    clear: (tx) => tx.product.deleteMany(),
+  },
+  {
+    name: 'sources',
+    fields: Object.values(Prisma.SourceScalarFieldEnum),
+    read: (tx) => tx.source.findMany(),
+    write: (tx, rows, skipDuplicates) => tx.source.createMany({ data: rows as Prisma.SourceCreateManyInput[], skipDuplicates }),
+    clear: (tx) => tx.source.deleteMany(),
+  },
+  {
+    name: 'sourceRateCharts',
+    fields: Object.values(Prisma.SourceRateChartScalarFieldEnum),
+    nullableJson: ['grid'],
+    read: (tx) => tx.sourceRateChart.findMany(),
+    write: (tx, rows, skipDuplicates) => tx.sourceRateChart.createMany({ data: rows as Prisma.SourceRateChartCreateManyInput[], skipDuplicates }),
+    clear: (tx) => tx.sourceRateChart.deleteMany(),
+  },
+  {
+    name: 'supplierPayments',
+    fields: Object.values(Prisma.SupplierPaymentScalarFieldEnum),
+    read: (tx) => tx.supplierPayment.findMany(),
+    write: (tx, rows, skipDuplicates) => tx.supplierPayment.createMany({ data: rows as Prisma.SupplierPaymentCreateManyInput[], skipDuplicates }),
+    clear: (tx) => tx.supplierPayment.deleteMany(),
+  },
+  {
+    name: 'customers',
+    fields: Object.values(Prisma.CustomerScalarFieldEnum),
+    read: (tx) => tx.customer.findMany(),
+    write: (tx, rows, skipDuplicates) => tx.customer.createMany({ data: rows as Prisma.CustomerCreateManyInput[], skipDuplicates }),
+    clear: (tx) => tx.customer.deleteMany(),
+  },
+  {
+    name: 'customerPrices',
+    fields: Object.values(Prisma.CustomerPriceScalarFieldEnum),
+    read: (tx) => tx.customerPrice.findMany(),
+    write: (tx, rows, skipDuplicates) => tx.customerPrice.createMany({ data: rows as Prisma.CustomerPriceCreateManyInput[], skipDuplicates }),
+    clear: (tx) => tx.customerPrice.deleteMany(),
+  },
+  {
+    name: 'customerPauses',
+    fields: Object.values(Prisma.CustomerPauseScalarFieldEnum),
+    read: (tx) => tx.customerPause.findMany(),
+    write: (tx, rows, skipDuplicates) => tx.customerPause.createMany({ data: rows as Prisma.CustomerPauseCreateManyInput[], skipDuplicates }),
+    clear: (tx) => tx.customerPause.deleteMany(),
+  },
+  {
+    name: 'quotaSchedules',
+    fields: Object.values(Prisma.QuotaScheduleScalarFieldEnum),
+    nullableJson: ['weekdayQuotas'],
+    read: (tx) => tx.quotaSchedule.findMany(),
+    write: (tx, rows, skipDuplicates) => tx.quotaSchedule.createMany({ data: rows as Prisma.QuotaScheduleCreateManyInput[], skipDuplicates }),
+    clear: (tx) => tx.quotaSchedule.deleteMany(),
+  },
+  {
+    name: 'customerProducts',
+    fields: Object.values(Prisma.CustomerProductScalarFieldEnum),
+    read: (tx) => tx.customerProduct.findMany(),
+    write: (tx, rows, skipDuplicates) => tx.customerProduct.createMany({ data: rows as Prisma.CustomerProductCreateManyInput[], skipDuplicates }),
+    clear: (tx) => tx.customerProduct.deleteMany(),
+  },
+  {
+    name: 'productPrices',
+    fields: Object.values(Prisma.ProductPriceScalarFieldEnum),
+    read: (tx) => tx.productPrice.findMany(),
+    write: (tx, rows, skipDuplicates) => tx.productPrice.createMany({ data: rows as Prisma.ProductPriceCreateManyInput[], skipDuplicates }),
+    clear: (tx) => tx.productPrice.deleteMany(),
+  },
+  {
+    name: 'customerProductPrices',
+    fields: Object.values(Prisma.CustomerProductPriceScalarFieldEnum),
+    read: (tx) => tx.customerProductPrice.findMany(),
+    write: (tx, rows, skipDuplicates) => tx.customerProductPrice.createMany({ data: rows as Prisma.CustomerProductPriceCreateManyInput[], skipDuplicates }),
+    clear: (tx) => tx.customerProductPrice.deleteMany(),
+  },
+  {
+    name: 'deliveryRoutes',
+    fields: Object.values(Prisma.DeliveryRouteScalarFieldEnum),
+    read: (tx) => tx.deliveryRoute.findMany(),
+    write: (tx, rows, skipDuplicates) => tx.deliveryRoute.createMany({ data: rows as Prisma.DeliveryRouteCreateManyInput[], skipDuplicates }),
+    clear: (tx) => tx.deliveryRoute.deleteMany(),
+  },
+  {
+    name: 'routeStops',
+    fields: Object.values(Prisma.RouteStopScalarFieldEnum),
+    read: (tx) => tx.routeStop.findMany(),
+    write: (tx, rows, skipDuplicates) => tx.routeStop.createMany({ data: rows as Prisma.RouteStopCreateManyInput[], skipDuplicates }),
+    clear: (tx) => tx.routeStop.deleteMany(),
+  },
+  {
+    name: 'deliveries',
+    fields: Object.values(Prisma.DeliveryScalarFieldEnum),
+    read: (tx) => tx.delivery.findMany(),
+    write: (tx, rows, skipDuplicates) => tx.delivery.createMany({ data: rows as Prisma.DeliveryCreateManyInput[], skipDuplicates }),
+    clear: (tx) => tx.delivery.deleteMany(),
+  },
+  {
+    name: 'stock',
+    fields: Object.values(Prisma.StockScalarFieldEnum),
+    read: (tx) => tx.stock.findMany(),
+    write: (tx, rows, skipDuplicates) => tx.stock.createMany({ data: rows as Prisma.StockCreateManyInput[], skipDuplicates }),
+    clear: (tx) => tx.stock.deleteMany(),
+  },
+  {
+    name: 'stockMovements',
+    fields: Object.values(Prisma.StockMovementScalarFieldEnum),
+    read: (tx) => tx.stockMovement.findMany(),
+    write: (tx, rows, skipDuplicates) => tx.stockMovement.createMany({ data: rows as Prisma.StockMovementCreateManyInput[], skipDuplicates }),
+    clear: (tx) => tx.stockMovement.deleteMany(),
+  },
+  {
+    name: 'invoices',
+    fields: Object.values(Prisma.InvoiceScalarFieldEnum),
+    read: (tx) => tx.invoice.findMany({ orderBy: { createdAt: 'asc' } }),
+    write: (tx, rows, skipDuplicates) => tx.invoice.createMany({ data: rows as Prisma.InvoiceCreateManyInput[], skipDuplicates }),
+    clear: (tx) => tx.invoice.deleteMany(),
+  },
+  {
+    name: 'payments',
+    fields: Object.values(Prisma.PaymentScalarFieldEnum),
+    read: (tx) => tx.payment.findMany({ orderBy: { createdAt: 'asc' } }),
+    write: (tx, rows, skipDuplicates) => tx.payment.createMany({ data: rows as Prisma.PaymentCreateManyInput[], skipDuplicates }),
+    clear: (tx) => tx.payment.deleteMany(),
+  },
+  {
+    name: 'paymentAllocations',
+    fields: Object.values(Prisma.PaymentAllocationScalarFieldEnum),
+    read: (tx) => tx.paymentAllocation.findMany(),
+    write: (tx, rows, skipDuplicates) => tx.paymentAllocation.createMany({ data: rows as Prisma.PaymentAllocationCreateManyInput[], skipDuplicates }),
+    clear: (tx) => tx.paymentAllocation.deleteMany(),
+  },
+  {
+    name: 'messageLogs',
+    fields: Object.values(Prisma.MessageLogScalarFieldEnum),
+    read: (tx) => tx.messageLog.findMany(),
+    write: (tx, rows, skipDuplicates) => tx.messageLog.createMany({ data: rows as Prisma.MessageLogCreateManyInput[], skipDuplicates }),
+    clear: (tx) => tx.messageLog.deleteMany(),
+  },
+];
+
+/** Large restores run well past Prisma's default 5 second transaction limit */
+const TRANSACTION_OPTIONS = { maxWait: 10_000, timeout: 10 * 60_000 };
+
+/**
+ * Read every table in one consistent snapshot
+ */
+export const createBackup = async (): Promise<BackupArchive> => {
+  const tables = await prisma.$transaction(async (tx) => {
+    const result: Record<string, Row[]> = {};
+    for (const table of BACKUP_TABLES) {
+      result[table.name] = await table.read(tx);
+    }
+    return result;
+  }, { ...TRANSACTION_OPTIONS, isolationLevel: Prisma.TransactionIsolationLevel.RepeatableRead });
+
+  return { format: BACKUP_FORMAT, version: BACKUP_VERSION, createdAt: new Date().toISOString(), tables };
+};
+
+/**
+ * Archive as a single JSON document
+ */
+export const backupToJson = (archive: BackupArchive): string => JSON.stringify(archive);
+
+/**
+ * Archive as a ZIP holding manifest.json and tables/<name>.json
+ */
+export const backupToZip = async (archive: BackupArchive): Promise<Buffer> => {
+  const zip = new JSZip();
+  const { tables, ...manifest } = archive;
+  zip.file('manifest.json', JSON.stringify({
+    ...manifest,
+    counts: Object.fromEntries(Object.entries(tables).map(([name, rows]) => [name, rows.length])),
+  }, null, 2));
+  for (const [name, rows] of Object.entries(tables)) {
+    zip.file(`tables/${name}.json`, JSON.stringify(rows));
+  }
+  return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+};
+
+/**
+ * Parse an uploaded JSON or ZIP backup file. Throws when the file is
+ * neither; the result still needs validateBackup.
+ */
+export const readBackupFile = async (buffer: Buffer): Promise<unknown> => {
+  // ZIP files start with 'PK'
+  if (buffer[0] === 0x50 && buffer[1] === 0x4b) {
+    const zip = await JSZip.loadAsync(buffer);
+    const manifest = zip.file('manifest.json');
+    if (!manifest) throw new Error('manifest.json is missing');
+    const { format, version, createdAt } = JSON.parse(await manifest.async('string'));
+    const tables: Record<string, unknown> = {};
+    for (const file of zip.file(/^tables\/[^/]+\.json$/)) {
+      tables[file.name.slice('tables/'.length, -'.json'.length)] = JSON.parse(await file.async('string'));
+    }
+    return { format, version, createdAt, tables };
+  }
+  return JSON.parse(buffer.toString('utf8'));
+};
+
+/**
+ * Check an archive's format, version and tables before anything is
+ * written. Returns what is wrong, or null when it can be restored.
+ */
+export const validateBackup = (data: unknown): string | null => {
+  const archive = data as Partial<BackupArchive> | null;
+  if (!archive || typeof archive !== 'object' || archive.format !== BACKUP_FORMAT) {
+    return 'This file is not a Daily Dairy Manager backup';
+  }
+  if (archive.version !== BACKUP_VERSION) {
+    return `Backup version ${archive.version} cannot be restored by this version of the app (expects version ${BACKUP_VERSION})`;
+  }
+  if (!archive.tables || typeof archive.tables !== 'object') {
+    return 'Backup has no tables';
+  }
+
+  const known = new Set(BACKUP_TABLES.map((t) => t.name));
+  const unknown = Object.keys(archive.tables).find((name) => !known.has(name));
+  if (unknown) return `Backup has an unknown table '${unknown}'`;
+
+  for (const table of BACKUP_TABLES) {
+    const rows = archive.tables[table.name];
+    if (!Array.isArray(rows)) return `Backup is missing the ${table.name} table`;
+
+    const fields = new Set(table.fields);
+    for (const [index, row] of rows.entries()) {
+      if (!row || typeof row !== 'object' || Array.isArray(row) || row.id === undefined) {
+        return `Record ${index + 1} of ${table.name} is not a valid record`;
+      }
+      const field = Object.keys(row).find((key) => !fields.has(key));
+      if (field) return `Record ${index + 1} of ${table.name} has an unknown field '${field}'`;
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Point records at accounts that exist after the users were restored:
+ * stock movements fall back to the restoring user, message senders and
+ * route agents to none
+ */
+const remapUsers = (tableName: string, rows: Row[], userIds: Set<string>, restoredById: string): Row[] => {
+  const fallback: Record<string, [string, string | null]> = {
+    stockMovements: ['createdById', restoredById],
+    messageLogs: ['sentById', null],
+    deliveryRoutes: ['agentId', null],
+  };
+  const rule = fallback[tableName];
+  if (!rule) return rows;
+
+  const [field, replacement] = rule;
+  return rows.map((row) => (
+    row[field] && !userIds.has(row[field] as string) ? { ...row, [field]: replacement } : row
+  ));
+};
+
+/**
+ * Restore a validated archive in one transaction. Replace deletes all
+ * business data first; merge only adds records missing from the database,
+ * keeping any record whose id or unique key already exists.
+ */
+export const restoreBackup = async (
+  archive: BackupArchive,
+  mode: RestoreMode,
+  restoredById: string
+): Promise<RestoreResult> => {
+  const restored = await prisma.$transaction(async (tx) => {
+    if (mode === RestoreMode.REPLACE) {
+      // Pending undos refer to rows the restore replaces
+      await tx.changeSet.deleteMany();
+      for (const table of [...BACKUP_TABLES].reverse()) {
+        await table.clear(tx);
+      }
+    }
+
+    const counts: Record<string, number> = {};
+    let userIds = new Set<string>();
+    for (const table of BACKUP_TABLES) {
+      const rows = remapUsers(table.name, archive.tables[table.name], userIds, restoredById)
+        .map((row) => {
+          const nulls = (table.nullableJson ?? []).filter((field) => row[field] === null);
+          return nulls.length === 0 ? row : { ...row, ...Object.fromEntries(nulls.map((f) => [f, Prisma.DbNull])) };
+        });
+
+      const { count } = rows.length > 0
+        ? await table.write(tx, rows, mode === RestoreMode.MERGE)
+        : { count: 0 };
+      counts[table.name] = count;
+
+      if (table.name === 'users') {
+        userIds = new Set((await tx.user.findMany({ select: { id: true } })).map((u) => u.id));
+      }
+    }
+    return counts;
+  }, TRANSACTION_OPTIONS);
+
+  return { mode, backupCreatedAt: archive.createdAt, restored };
+};
+
+// ============================================================================
+// Scheduled backups
+// ============================================================================
+
+const STORED_BACKUP_PATTERN = /^backup-\d{8}-\d{6}\.zip$/;
+
+/**
+ * Directory scheduled backups are written to (BACKUP_DIR, default ./backups)
+ */
+export const backupDirectory = (): string => path.resolve(process.env.BACKUP_DIR || 'backups');
+
+/**
+ * Whether a file name is one of our scheduled backups, which also keeps
+ * requested names inside the backup directory
+ */
+export const isStoredBackupName = (name: string): boolean => STORED_BACKUP_PATTERN.test(name);
+
+/**
+ * Scheduled backups in the backup directory, newest first
+ */
+export const listStoredBackups = async (): Promise<StoredBackup[]> => {
+  const dir = backupDirectory();
+  const names = await readdir(dir).catch(() => [] as string[]);
+  const backups = await Promise.all(names.filter(isStoredBackupName).map(async (name) => {
+    const info = await stat(path.join(dir, name));
+    return { name, size: info.size, createdAt: info.mtime };
+  }));
+  return backups.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+};
+
+/**
+ * Write a ZIP backup to the backup directory and delete all but the
+ * newest `keep` backups
+ */
+export const writeStoredBackup = async (keep: number): Promise<StoredBackup> => {
+  const dir = backupDirectory();
+  await mkdir(dir, { recursive: true });
+
+  const archive = await createBackup();
+  const stamp = archive.createdAt.replace(/[-:]/g, '').replace('T', '-').slice(0, 15);
+  const name = `backup-${stamp}.zip`;
+  await writeFile(path.join(dir, name), await backupToZip(archive));
+
+  const stored = await listStoredBackups();
+  await Promise.all(stored.slice(Math.max(keep, 1)).map((old) => unlink(path.join(dir, old.name))));
+
+  return stored.find((b) => b.name === name) ?? { name, size: 0, createdAt: new Date(archive.createdAt) };
+};
+
+/** Longest delay a timer accepts; Node fires longer ones after 1 ms */
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+/**
+ * Back up every BACKUP_INTERVAL_HOURS (default 24, 0 turns it off),
+ * keeping BACKUP_KEEP (default 7) files. A backup is also taken at startup
+ * when the newest one is older than the interval.
+ */
+export const scheduleBackups = async (): Promise<void> => {
+  const hours = Number(process.env.BACKUP_INTERVAL_HOURS ?? 24);
+  const keep = Number(process.env.BACKUP_KEEP ?? 7);
+  if (!(hours > 0) || !Number.isFinite(hours)) return;
+
+  const intervalMs = hours * 60 * 60 * 1000;
+  const run = () => writeStoredBackup(keep)
+    .then((backup) => console.log(`Wrote scheduled backup ${backup.name}`))
+    .catch((error) => console.error('Scheduled backup failed:', error));
+
+  // Intervals past the timer limit wait in steps until the backup is due
+  const scheduleAt = (dueAt: number): void => {
+    const delay = Math.min(MAX_TIMER_MS, Math.max(0, dueAt - Date.now()));
+    setTimeout(() => {
+      if (Date.now() < dueAt) {
+        scheduleAt(dueAt);
+        return;
+      }
+      run().then(() => scheduleAt(Date.now() + intervalMs));
+    }, delay).unref();
+  };
+
+  const [newest] = await listStoredBackups();
+  if (!newest || Date.now() - newest.createdAt.getTime() >= intervalMs) {
+    await run();
+  }
+  scheduleAt(Date.now() + intervalMs);
+};
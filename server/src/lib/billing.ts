@@ -0,0 +1,394 @@
+/**
+ * Billing Helpers
+ *
+ * Totals a customer's deliveries for a month, builds the month's invoice and
+ * works out the balance carried in from earlier months, including payments
+ * allocated to them and credit or debit notes. Also builds the customer
+ * account statement from the same charges.
+ */
+
+import { Prisma } from '@prisma/client';
+import prisma from './prisma.js';
+import {
+  CustomerInvoiceResponse,
+  CustomerStatement,
+  CustomerStatementEntry,
+  InvoiceStatus,
+  InvoiceType,
+  ProductLineItem,
+} from '../types/index.js';
+import { isMorningShift } from './quota.js';
+import {
+  DEFAULT_PRODUCT_ID,
+  loadProductPricing,
+  resolveProductPrice,
+  ProductPricing,
+} from './products.js';
+
+/**
+ * First and last date (YYYY-MM-DD) of a month
+ */
+export const monthRange = (month: number, year: number): { startDate: string; endDate: string } => {
+  const lastDay = new Date(year, month, 0).getDate();
+  return {
+    startDate: `${year}-${String(month).padStart(2, '0')}-01`,
+    endDate: `${year}-${String(month).padStart(2, '0')}-${lastDay}`,
+  };
+};
+
+/**
+ * Delivery fields used for billing
+ */
+export interface BillableDelivery {
+  date: string;
+  shift: string;
+  productId: string;
+  actualAmount: number;
+}
+
+/**
+ * Customer fields used for pricing
+ */
+export interface BillableCustomer {
+  id: string;
+  pricePerLiter: number;
+}
+
+/**
+ * Per-day milk quantities and the rate that applied that day
+ */
+export type DailyMilkMap = Map<string, { morning: number; evening: number; rate: number }>;
+
+/**
+ * Total a customer's deliveries: billed value across all products, liters and
+ * daily breakdown of the default milk product, and one line item per product.
+ * Each delivery is priced at the rate in effect on its date.
+ */
+export const summarizeDeliveries = (
+  deliveries: BillableDelivery[],
+  customer: BillableCustomer,
+  pricing: ProductPricing
+): { totalLiters: number; totalAmount: number; dailyMap: DailyMilkMap; lineItems: ProductLineItem[] } => {
+  let totalLiters = 0;
+  let totalAmount = 0;
+  const dailyMap: DailyMilkMap = new Map();
+  const lineItemMap = new Map<string, ProductLineItem>();
+
+  deliveries.forEach((delivery) => {
+    const quantity = delivery.actualAmount || 0;
+    const rate = resolveProductPrice(pricing, customer, delivery.productId, delivery.date);
+    totalAmount += quantity * rate;
+
+    const product = pricing.products.get(delivery.productId);
+    const item = lineItemMap.get(delivery.productId) || {
+      productId: delivery.productId,
+      productName: product?.name || 'Unknown product',
+      unit: product?.unit || '',
+      quantity: 0,
+      amount: 0,
+    };
+    item.quantity += quantity;
+    item.amount += quantity * rate;
+    lineItemMap.set(delivery.productId, item);
+
+    if (delivery.productId !== DEFAULT_PRODUCT_ID) return;
+
+    totalLiters += quantity;
+    const existing = dailyMap.get(delivery.date) || { morning: 0, evening: 0, rate };
+    if (isMorningShift(delivery.shift)) {
+      existing.morning += quantity;
+    } else {
+      existing.evening += quantity;
+    }
+    dailyMap.set(delivery.date, existing);
+  });
+
+  return { totalLiters, totalAmount, dailyMap, lineItems: Array.from(lineItemMap.values()) };
+};
+
+/**
+ * Billed value of deliveries across all products
+ */
+export const sumDeliveryValue = (
+  deliveries: BillableDelivery[],
+  customer: BillableCustomer,
+  pricing: ProductPricing
+): number => {
+  return deliveries.reduce(
+    (acc, d) => acc + d.actualAmount * resolveProductPrice(pricing, customer, d.productId, d.date),
+    0
+  );
+};
+
+/**
+ * Net of debit notes less credit notes that count towards a customer's
+ * balance: for the given month, or for all months before it
+ */
+export const sumNoteAdjustments = async (
+  customerId: string,
+  month: number,
+  year: number,
+  before = false,
+  db: Prisma.TransactionClient = prisma
+): Promise<number> => {
+  const notes = await db.invoice.findMany({
+    where: {
+      customerId,
+      type: { in: [InvoiceType.CREDIT_NOTE, InvoiceType.DEBIT_NOTE] },
+      status: { in: [InvoiceStatus.ISSUED, InvoiceStatus.PAID] },
+      ...(before
+        ? { OR: [{ year: { lt: year } }, { year, month: { lt: month } }] }
+        : { year, month }),
+    },
+    select: { type: true, totalAmount: true },
+  });
+
+  return notes.reduce(
+    (acc, n) => acc + (n.type === InvoiceType.CREDIT_NOTE ? -n.totalAmount : n.totalAmount),
+    0
+  );
+};
+
+/**
+ * Balance carried into a month: deliveries before it, adjusted by earlier
+ * credit and debit notes, less payments allocated to earlier months.
+ * Unallocated credit is not included.
+ */
+export const loadPreviousBalance = async (
+  customer: BillableCustomer,
+  pricing: ProductPricing,
+  month: number,
+  year: number,
+  db: Prisma.TransactionClient = prisma
+): Promise<number> => {
+  const { startDate } = monthRange(month, year);
+
+  const [historicalDeliveries, historicalAllocations, noteAdjustments] = await Promise.all([
+    db.delivery.findMany({
+      where: {
+        customerId: customer.id,
+        date: { lt: startDate },
+        delivered: true,
+      },
+    }),
+    db.paymentAllocation.aggregate({
+      where: {
+        customerId: customer.id,
+        OR: [
+          { year: { lt: year } },
+          { year, month: { lt: month } },
+        ],
+      },
+      _sum: { amount: true },
+    }),
+    sumNoteAdjustments(customer.id, month, year, true, db),
+  ]);
+
+  const totalHistoricalDebit = sumDeliveryValue(historicalDeliveries, customer, pricing);
+  return totalHistoricalDebit - (historicalAllocations._sum.amount || 0) + noteAdjustments;
+};
+
+/**
+ * Build a customer's invoice for a month, or null if the customer does not exist
+ */
+export const buildCustomerInvoice = async (
+  customerId: string,
+  monthNum: number,
+  yearNum: number,
+  db: Prisma.TransactionClient = prisma
+): Promise<CustomerInvoiceResponse | null> => {
+  // Get customer
+  const customer = await db.customer.findUnique({
+    where: { id: customerId },
+  });
+  if (!customer) return null;
+  
+  const { startDate, endDate } = monthRange(monthNum, yearNum);
+  
+  // Get deliveries
+  const deliveries = await db.delivery.findMany({
+    where: {
+      customerId,
+      date: {
+          gte: startDate,
+          lte: endDate
+      },
+      delivered: true,
+    }
+  });
+  
+  const pricing = await loadProductPricing([customer.id], db);
+  const { totalLiters, totalAmount, dailyMap, lineItems } = summarizeDeliveries(deliveries, customer, pricing);
+  
+  const dailyBreakdown = Array.from(dailyMap.entries())
+    .sort((a, b) => a[0].localeCompare(b[0]))
+    .map(([date, amounts]) => ({
+      date,
+      morning: amounts.morning,
+      evening: amounts.evening,
+      pricePerLiter: amounts.rate,
+      amount: (amounts.morning + amounts.evening) * amounts.rate,
+    }));
+  
+  return {
+    customer: {
+      id: customer.id,
+      name: customer.name,
+      address: customer.address,
+      pricePerLiter: resolveProductPrice(pricing, customer, DEFAULT_PRODUCT_ID, endDate),
+    },
+    totalLiters,
+    totalAmount,
+    lineItems,
+    dailyBreakdown,
+  };
+};
+
+/**
+ * Date a credit or debit note takes effect on a statement: the day it was
+ * issued, or the last day of its billing month if that is earlier
+ */
+const noteEffectiveDate = (note: { month: number; year: number; issuedAt: Date | null; createdAt: Date }): string => {
+  const { endDate } = monthRange(note.month, note.year);
+  const issued = (note.issuedAt ?? note.createdAt).toISOString().slice(0, 10);
+  return issued < endDate ? issued : endDate;
+};
+
+/**
+ * Build a customer's account statement for a date range (YYYY-MM-DD,
+ * inclusive). Charges use the same rules as monthly billing: delivered
+ * quantities at the rate in effect on each date, plus issued credit and
+ * debit notes. Payments are credited on the date received; voided ones
+ * are left out.
+ *
+ * The opening balance starts from the balance monthly billing brings
+ * forward into the month of `from` (so the two agree), plus that month's
+ * charges before `from`, less payments received before `from` that were
+ * not applied to earlier months. A payment's line leaves out the part
+ * already applied to months before that, as the opening balance has it.
+ */
+export const buildCustomerStatement = async (
+  customer: BillableCustomer & { name: string; address: string },
+  from: string,
+  to: string
+): Promise<CustomerStatement> => {
+  const [deliveries, notes, payments, pricing] = await Promise.all([
+    prisma.delivery.findMany({
+      where: { customerId: customer.id, delivered: true, date: { lte: to } },
+      orderBy: { date: 'asc' },
+    }),
+    prisma.invoice.findMany({
+      where: {
+        customerId: customer.id,
+        type: { in: [InvoiceType.CREDIT_NOTE, InvoiceType.DEBIT_NOTE] },
+        status: { in: [InvoiceStatus.ISSUED, InvoiceStatus.PAID] },
+      },
+    }),
+    prisma.payment.findMany({
+      where: { customerId: customer.id, voidedAt: null, date: { lte: to } },
+      include: { allocations: { select: { month: true, year: true, amount: true } } },
+      orderBy: [{ date: 'asc' }, { receiptSequence: 'asc' }],
+    }),
+    loadProductPricing([customer.id]),
+  ]);
+
+  const month = parseInt(from.slice(5, 7), 10);
+  const year = parseInt(from.slice(0, 4), 10);
+  const { startDate: monthStart } = monthRange(month, year);
+  const isBeforeMonth = (period: { month: number; year: number }) =>
+    period.year < year || (period.year === year && period.month < month);
+
+  const lines: Omit<CustomerStatementEntry, 'balance'>[] = [];
+  let openingBalance = await loadPreviousBalance(customer, pricing, month, year);
+
+  // One debit per delivery day, listing each product's quantity
+  const days = new Map<string, BillableDelivery[]>();
+  deliveries.forEach((d) => {
+    if (d.date < monthStart) return;
+    if (d.date < from) {
+      openingBalance += sumDeliveryValue([d], customer, pricing);
+      return;
+    }
+    days.set(d.date, [...(days.get(d.date) || []), d]);
+  });
+  days.forEach((dayDeliveries, date) => {
+    const { lineItems, totalAmount } = summarizeDeliveries(dayDeliveries, customer, pricing);
+    lines.push({
+      date,
+      type: 'delivery',
+      description: lineItems
+        .map((item) => `${item.productName} ${parseFloat(item.quantity.toFixed(2))} ${item.unit}`.trim())
+        .join(', '),
+      debit: totalAmount,
+      credit: 0,
+    });
+  });
+
+  notes.forEach((n) => {
+    const date = noteEffectiveDate(n);
+    const isCredit = n.type === InvoiceType.CREDIT_NOTE;
+    if (isBeforeMonth(n) || date > to) return;
+    if (date < from) {
+      openingBalance += isCredit ? -n.totalAmount : n.totalAmount;
+      return;
+    }
+    lines.push({
+      date,
+      type: n.type as InvoiceType.CREDIT_NOTE | InvoiceType.DEBIT_NOTE,
+      reference: n.number,
+      description: `${isCredit ? 'Credit' : 'Debit'} note${n.reason ? ` - ${n.reason}` : ''}`,
+      debit: isCredit ? 0 : n.totalAmount,
+      credit: isCredit ? n.totalAmount : 0,
+    });
+  });
+
+  payments.forEach((p) => {
+    const appliedEarlier = p.allocations
+      .filter(isBeforeMonth)
+      .reduce((acc, a) => acc + a.amount, 0);
+    const amount = p.amount - appliedEarlier;
+    if (p.date < from) {
+      openingBalance -= amount;
+      return;
+    }
+    lines.push({
+      date: p.date,
+      type: 'payment',
+      reference: p.receiptNumber,
+      description: [
+        'Payment',
+        p.method?.toUpperCase(),
+        p.remarks,
+        appliedEarlier > 0 && `${p.amount.toFixed(2)} less ${appliedEarlier.toFixed(2)} applied to the balance brought forward`,
+      ].filter(Boolean).join(' - '),
+      debit: 0,
+      credit: amount,
+    });
+  });
+
+  // Charges come before payments on the same day
+  const order = (line: Omit<CustomerStatementEntry, 'balance'>) => (line.debit > 0 ? 0 : 1);
+  lines.sort((a, b) => a.date.localeCompare(b.date) || order(a) - order(b));
+
+  let balance = openingBalance;
+  const entries = lines.map((line) => {
+    balance += line.debit - line.credit;
+    return { ...line, balance };
+  });
+
+  const totalDebits = entries.reduce((acc, e) => acc + e.debit, 0);
+  const totalCredits = entries.reduce((acc, e) => acc + e.credit, 0);
+
+  return {
+    customerId: customer.id,
+    customerName: customer.name,
+    customerAddress: customer.address,
+    from,
+    to,
+    openingBalance,
+    totalDebits,
+    totalCredits,
+    closingBalance: openingBalance + totalDebits - totalCredits,
+    entries,
+  };
+};
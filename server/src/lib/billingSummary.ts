@@ -0,0 +1,195 @@
+/**
+ * Monthly Billing Summary
+ *
+ * Builds customers' bills for a month: consumption, notes, balance brought
+ * forward and the payments that settled it. Used by the Billing page, the
+ * customer portal and anything that reports on or messages about bills.
+ */
+
+import prisma from './prisma.js';
+import {
+  CustomerBillingSummary,
+  DailyDeliveryRecord,
+  InvoiceStatus,
+  InvoiceSummary,
+  InvoiceType,
+} from '../types/index.js';
+import {
+  DEFAULT_PRODUCT_ID,
+  loadProductPricing,
+  resolveProductPrice,
+  ProductPricing,
+} from './products.js';
+import {
+  BillableCustomer,
+  BillableDelivery,
+  loadPreviousBalance,
+  monthRange,
+  summarizeDeliveries,
+  sumNoteAdjustments,
+} from './billing.js';
+import { loadPaymentSettlement } from './payments.js';
+
+type SummaryCustomer = BillableCustomer & { name: string; address: string; phone: string | null };
+
+/**
+ * Bill of one customer for a month from their delivered deliveries in it:
+ * consumption, notes, balance brought forward and the payments that
+ * settled it
+ */
+export const summarizeCustomerMonth = async (
+  customer: SummaryCustomer,
+  deliveries: BillableDelivery[],
+  pricing: ProductPricing,
+  monthNum: number,
+  yearNum: number
+): Promise<CustomerBillingSummary> => {
+  const { endDate } = monthRange(monthNum, yearNum);
+
+  // Calculate totals
+  const {
+    totalLiters,
+    totalAmount: totalConsumptionAmount,
+    dailyMap,
+    lineItems,
+  } = summarizeDeliveries(deliveries, customer, pricing);
+
+  // Convert to daily breakdown array
+  const dailyBreakdown: DailyDeliveryRecord[] = Array.from(dailyMap.entries())
+    .sort((a, b) => a[0].localeCompare(b[0]))
+    .map(([date, amounts]) => ({
+      date,
+      morningAmount: amounts.morning,
+      eveningAmount: amounts.evening,
+      totalAmount: amounts.morning + amounts.evening,
+      pricePerLiter: amounts.rate,
+      amount: (amounts.morning + amounts.evening) * amounts.rate,
+    }));
+
+  // Balance carried in from earlier months, notes raised for this one
+  // and the payments that settled it
+  const [previousBalance, adjustments, { paidAmount, credit, settlements }] = await Promise.all([
+    loadPreviousBalance(customer, pricing, monthNum, yearNum),
+    sumNoteAdjustments(customer.id, monthNum, yearNum),
+    loadPaymentSettlement(customer.id, monthNum, yearNum),
+  ]);
+
+  return {
+    customerId: customer.id,
+    customerName: customer.name,
+    customerAddress: customer.address,
+    customerPhone: customer.phone,
+    month: monthNum,
+    year: yearNum,
+    totalLiters,
+    pricePerLiter: resolveProductPrice(pricing, customer, DEFAULT_PRODUCT_ID, endDate),
+    totalAmount: totalConsumptionAmount,
+    previousBalance,
+    paidAmount,
+    adjustments,
+    credit,
+    totalDue: previousBalance + totalConsumptionAmount + adjustments - paidAmount - credit,
+    settlements,
+    dailyBreakdown,
+    lineItems,
+  };
+};
+
+/**
+ * Bill of one customer for a month, whether or not they are active
+ */
+export const loadCustomerBilling = async (
+  customer: SummaryCustomer,
+  monthNum: number,
+  yearNum: number
+): Promise<CustomerBillingSummary> => {
+  const { startDate, endDate } = monthRange(monthNum, yearNum);
+
+  const [deliveries, pricing] = await Promise.all([
+    prisma.delivery.findMany({
+      where: {
+        customerId: customer.id,
+        date: {
+          gte: startDate,
+          lte: endDate,
+        },
+        delivered: true,
+      },
+    }),
+    loadProductPricing([customer.id]),
+  ]);
+
+  return summarizeCustomerMonth(customer, deliveries, pricing, monthNum, yearNum);
+};
+
+/**
+ * Billing summary of active customers for a month, ordered by name.
+ * Pass `customerIds` to limit it to those customers.
+ */
+export const buildMonthlyBilling = async (
+  monthNum: number,
+  yearNum: number,
+  customerIds?: string[]
+): Promise<CustomerBillingSummary[]> => {
+  const { startDate, endDate } = monthRange(monthNum, yearNum);
+
+  // Get the active customers
+  const customers = await prisma.customer.findMany({
+    where: { isActive: true, ...(customerIds && { id: { in: customerIds } }) },
+    orderBy: { name: 'asc' },
+  });
+
+  // Get all deliveries for this month
+  const allDeliveries = await prisma.delivery.findMany({
+    where: {
+      date: {
+        gte: startDate,
+        lte: endDate,
+      },
+      delivered: true,
+      customerId: { in: customers.map((c) => c.id) },
+    },
+  });
+
+  // Group deliveries by customer
+  const deliveryMap = new Map<string, typeof allDeliveries>();
+  allDeliveries.forEach(d => {
+    const list = deliveryMap.get(d.customerId) || [];
+    list.push(d);
+    deliveryMap.set(d.customerId, list);
+  });
+
+  // Rates are resolved per delivery date so past months keep their original prices
+  const pricing = await loadProductPricing(customers.map(c => c.id));
+
+  // The month's invoices that have not been voided
+  const invoices = await prisma.invoice.findMany({
+    where: {
+      type: InvoiceType.INVOICE,
+      status: { not: InvoiceStatus.VOID },
+      month: monthNum,
+      year: yearNum,
+    },
+  });
+  const invoiceMap = new Map<string, InvoiceSummary>(invoices.map((i) => [i.customerId, {
+    id: i.id,
+    number: i.number,
+    status: i.status as InvoiceStatus,
+    totalDue: i.totalDue,
+  }]));
+
+  const billingData: CustomerBillingSummary[] = [];
+
+  for (const customer of customers) {
+    const summary = await summarizeCustomerMonth(
+      customer,
+      deliveryMap.get(customer.id) || [],
+      pricing,
+      monthNum,
+      yearNum
+    );
+    billingData.push({ ...summary, invoice: invoiceMap.get(customer.id) || null });
+  }
+
+  return billingData;
+};
@@ -0,0 +1,184 @@
+/**
+ * Undoable Changes
+ *
+ * Keeps the rows a bulk or destructive action changed as a change set, so
+ * the action can be undone for a short while. Undoing puts every row back
+ * as it was and removes the rows the action created, unless one of them
+ * has been edited or deleted since, its month has been invoiced or the
+ * product or source it refers to has been deleted.
+ */
+
+import { Prisma } from '@prisma/client';
+import prisma from './prisma.js';
+import { loadLockedCustomers, lockedPeriodMessage } from './invoices.js';
+import { settleCreditForCustomers } from './payments.js';
+import { AuthUser, ChangeSetAction, ChangeSetRef, UndoResult, UserRole } from '../types/index.js';
+
+type Row = Record<string, unknown>;
+type Tx = Prisma.TransactionClient;
+type UndoEntity = 'Delivery' | 'Stock';
+
+/** How long an action can be undone */
+export const UNDO_WINDOW_MS = 15 * 60_000;
+
+/**
+ * A row an action changed, as it was before; `before` is null for a row
+ * the action created
+ */
+export interface ChangedRow {
+  id: string;
+  before: Row | null;
+}
+
+interface UndoTable {
+  /** Why the rows cannot be put back, or null if they can */
+  conflict: (rows: ChangedRow[], since: Date) => Promise<string | null>;
+  /** Put rows back as they were */
+  restore: (tx: Tx, rows: Row[]) => Promise<unknown>;
+  /** Remove rows the action created */
+  remove: (tx: Tx, ids: string[]) => Promise<unknown>;
+}
+
+export type UndoChangeSetResult =
+  | { result: UndoResult }
+  | { status: number; error: string };
+
+const UNDO_TABLES: Record<UndoEntity, UndoTable> = {
+  Delivery: {
+    conflict: async (rows, since) => {
+      const deliveries = await prisma.delivery.findMany({
+        where: { id: { in: rows.map((r) => r.id) } },
+        select: { id: true, customerId: true, date: true, updatedAt: true },
+      });
+      if (deliveries.some((d) => d.updatedAt > since)) {
+        return 'Some of these deliveries have been edited since, so the action cannot be undone';
+      }
+      const found = new Set(deliveries.map((d) => d.id));
+      if (rows.some((r) => r.before && !found.has(r.id))) {
+        return 'Some of these deliveries have been deleted since, so the action cannot be undone';
+      }
+      if (deliveries.length === 0) return null;
+      const locked = await loadLockedCustomers(deliveries[0].date, deliveries.map((d) => d.customerId));
+      return locked.size > 0 ? lockedPeriodMessage([...new Set(locked.values())]) : null;
+    },
+    restore: async (tx, rows) => {
+      for (const row of rows) {
+        await tx.delivery.update({
+          where: { id: row.id as string },
+          data: {
+            quota: row.quota as number,
+            actualAmount: row.actualAmount as number,
+            delivered: row.delivered as boolean,
+            notes: row.notes as string | null,
+          },
+        });
+      }
+      // Deliveries brought back are charges again
+      await settleCreditForCustomers(tx, [...new Set(rows.map((row) => row.customerId as string))]);
+    },
+    remove: async (tx, ids) => {
+      const removed = await tx.delivery.findMany({ where: { id: { in: ids } }, select: { customerId: true } });
+      await tx.delivery.deleteMany({ where: { id: { in: ids } } });
+      // Removed deliveries are no longer charged; credit applied to them is freed
+      await settleCreditForCustomers(tx, [...new Set(removed.map((d) => d.customerId))]);
+    },
+  },
+  Stock: {
+    conflict: async (rows) => {
+      const restored = rows.flatMap((r) => (r.before ? [r.before] : []));
+      if (restored.length === 0) return null;
+
+      const productIds = [...new Set(restored.map((row) => row.productId as string))];
+      // Collections store their source by name or by id
+      const sourceKeys = [...new Set(restored.map((row) => row.source as string))];
+
+      const [products, sources] = await Promise.all([
+        prisma.product.findMany({ where: { id: { in: productIds } }, select: { id: true } }),
+        prisma.source.findMany({
+          where: { OR: [{ name: { in: sourceKeys } }, { id: { in: sourceKeys } }] },
+          select: { id: true, name: true },
+        }),
+      ]);
+      const known = new Set(sources.flatMap((source) => [source.id, source.name]));
+      if (products.length < productIds.length || sourceKeys.some((key) => !known.has(key))) {
+        return 'The product or source of some of these entries has been deleted, so the action cannot be undone';
+      }
+      return null;
+    },
+    restore: (tx, rows) =>
+      tx.stock.createMany({ data: rows as unknown as Prisma.StockCreateManyInput[], skipDuplicates: true }),
+    remove: (tx, ids) => tx.stock.deleteMany({ where: { id: { in: ids } } }),
+  },
+};
+
+/**
+ * Record the rows an action changed so it can be undone, dropping change
+ * sets that can no longer be used. Returns null when nothing changed.
+ */
+export const recordChangeSet = async (
+  tx: Tx,
+  action: ChangeSetAction,
+  entity: UndoEntity,
+  rows: ChangedRow[],
+  createdById: string
+): Promise<ChangeSetRef | null> => {
+  await tx.changeSet.deleteMany({ where: { expiresAt: { lt: new Date() } } });
+  if (rows.length === 0) return null;
+
+  const changeSet = await tx.changeSet.create({
+    data: {
+      action,
+      entity,
+      rows: JSON.parse(JSON.stringify(rows)),
+      // Set here rather than by the database, whose clock reads the start
+      // of the transaction, before the action's own writes
+      createdAt: new Date(),
+      expiresAt: new Date(Date.now() + UNDO_WINDOW_MS),
+      createdById,
+    },
+  });
+
+  return { id: changeSet.id, action, expiresAt: changeSet.expiresAt };
+};
+
+/**
+ * Undo an action. Delivery staff may only undo their own actions.
+ */
+export const undoChangeSet = async (
+  id: string,
+  user: AuthUser
+): Promise<UndoChangeSetResult> => {
+  const changeSet = await prisma.changeSet.findUnique({ where: { id } });
+  if (!changeSet || (user.role === UserRole.DELIVERY && changeSet.createdById !== user.id)) {
+    return { status: 404, error: 'Nothing to undo' };
+  }
+  if (changeSet.undoneAt) {
+    return { status: 409, error: 'This action has already been undone' };
+  }
+  if (changeSet.expiresAt < new Date()) {
+    return { status: 409, error: 'This action can no longer be undone' };
+  }
+
+  const table = UNDO_TABLES[changeSet.entity as UndoEntity];
+  const rows = changeSet.rows as unknown as ChangedRow[];
+  const conflict = await table.conflict(rows, changeSet.createdAt);
+  if (conflict) return { status: 409, error: conflict };
+
+  const undone = await prisma.$transaction(async (tx) => {
+    // Claiming the change set first stops a second undo running alongside
+    const claimed = await tx.changeSet.updateMany({
+      where: { id, undoneAt: null },
+      data: { undoneAt: new Date() },
+    });
+    if (claimed.count === 0) return false;
+
+    await table.remove(tx, rows.filter((r) => !r.before).map((r) => r.id));
+    await table.restore(tx, rows.flatMap((r) => (r.before ? [r.before] : [])));
+    return true;
+  });
+  if (!undone) {
+    return { status: 409, error: 'This action has already been undone' };
+  }
+
+  return { result: { action: changeSet.action as ChangeSetAction, restored: rows.length } };
+};
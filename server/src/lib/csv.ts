@@ -0,0 +1,70 @@
+/**
+ * CSV Helpers
+ *
+ * Builds RFC 4180 CSV text for report downloads and reads uploaded CSV
+ * files back into rows.
+ */
+
+export type CsvCell = string | number | null | undefined;
+
+/**
+ * Quote a cell if it contains a delimiter, quote or line break
+ */
+const escapeCell = (cell: CsvCell): string => {
+  if (cell === null || cell === undefined) return '';
+  const text = typeof cell === 'number' ? String(Math.round(cell * 100) / 100) : cell;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Join a header row and data rows into CSV text
+ */
+export const toCsv = (header: string[], rows: CsvCell[][]): string =>
+  [header, ...rows].map((row) => row.map(escapeCell).join(',')).join('\r\n') + '\r\n';
+
+/**
+ * Split CSV text into rows of cells. Handles quoted cells with embedded
+ * delimiters, doubled quotes and line breaks, CRLF or LF line endings and
+ * a leading byte order mark. Blank lines are dropped.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.some((c) => c.trim() !== '')) rows.push(row);
+    row = [];
+    cell = '';
+  };
+
+  const input = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) endRow();
+
+  return rows;
+};
@@ -0,0 +1,184 @@
+/**
+ * Customer Import
+ *
+ * Reads a CSV or XLSX customer list, maps its columns to customer fields,
+ * validates every row and flags rows that repeat an existing customer or
+ * an earlier row, so a whole file can be previewed before it is imported.
+ */
+
+import ExcelJS from 'exceljs';
+import prisma from './prisma.js';
+import { parseCsv } from './csv.js';
+import {
+  CreateCustomerDTO,
+  CustomerCategory,
+  CustomerImportMapping,
+  CustomerImportRow,
+} from '../types/index.js';
+
+export type ImportField = keyof CreateCustomerDTO;
+
+export interface ImportSheet {
+  headers: string[];
+  /** Data rows, each paired with its line number in the file */
+  rows: { row: number; cells: string[] }[];
+}
+
+interface ExistingCustomer {
+  id: string;
+  name: string;
+  phone: string | null;
+}
+
+/**
+ * Header names recognised for each field when no column is mapped to it,
+ * compared ignoring case, spaces and punctuation
+ */
+const FIELD_ALIASES: Record<ImportField, string[]> = {
+  name: ['name', 'customer', 'customername', 'fullname'],
+  address: ['address', 'deliveryaddress', 'location'],
+  phone: ['phone', 'phonenumber', 'mobile', 'mobilenumber', 'contact', 'whatsapp'],
+  category: ['category', 'type', 'customertype'],
+  morningQuota: ['morningquota', 'morning', 'am', 'morningliters', 'morninglitres'],
+  eveningQuota: ['eveningquota', 'evening', 'pm', 'eveningliters', 'eveninglitres'],
+  pricePerLiter: ['priceperliter', 'priceperlitre', 'price', 'rate'],
+};
+
+export const IMPORT_FIELDS = Object.keys(FIELD_ALIASES) as ImportField[];
+
+const normalizeHeader = (header: string): string => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/** Name compared ignoring case and repeated spaces */
+const normalizeName = (name: string): string => name.trim().toLowerCase().replace(/\s+/g, ' ');
+
+/** Last ten digits, so '+91 98765 43210' and '9876543210' match */
+const normalizePhone = (phone: string | null | undefined): string => (phone ?? '').replace(/\D/g, '').slice(-10);
+
+/**
+ * Read the first worksheet of an XLSX file, or a CSV file, into a header
+ * row and data rows of display text
+ */
+export const readImportSheet = async (fileName: string, buffer: Buffer): Promise<ImportSheet> => {
+  let lines: { row: number; cells: string[] }[];
+
+  if (/\.xlsx$/i.test(fileName)) {
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(buffer as unknown as ArrayBuffer);
+    const sheet = workbook.worksheets[0];
+    lines = [];
+    sheet?.eachRow((row, rowNumber) => {
+      const cells = Array.from({ length: sheet.columnCount }, (_, i) => row.getCell(i + 1).text.trim());
+      if (cells.some((c) => c !== '')) lines.push({ row: rowNumber, cells });
+    });
+  } else {
+    lines = parseCsv(buffer.toString('utf8')).map((cells, i) => ({
+      row: i + 1,
+      cells: cells.map((c) => c.trim()),
+    }));
+  }
+
+  const [header, ...rows] = lines;
+  return { headers: header?.cells ?? [], rows };
+};
+
+/**
+ * Column header used for each field: the one mapped to it, otherwise the
+ * first header matching one of its aliases that is not mapped elsewhere
+ */
+export const resolveColumnMapping = (
+  headers: string[],
+  mapping: CustomerImportMapping = {}
+): CustomerImportMapping => {
+  const resolved: CustomerImportMapping = {};
+  const mapped = Object.values(mapping);
+  for (const field of IMPORT_FIELDS) {
+    const guessed = headers.find((h) => !mapped.includes(h) && FIELD_ALIASES[field].includes(normalizeHeader(h)));
+    const header = mapping[field] ?? guessed;
+    if (header) resolved[field] = header;
+  }
+  return resolved;
+};
+
+/**
+ * Validate each row against the customer fields and mark rows whose phone
+ * number, or whose name when either side has no phone, matches an existing
+ * customer or an earlier row of the file.
+ * Blank quotas default to 0, a blank category to regular and a blank price
+ * to `defaultPrice`.
+ */
+export const validateImportRows = async (
+  sheet: ImportSheet,
+  mapping: CustomerImportMapping,
+  defaultPrice: number
+): Promise<CustomerImportRow[]> => {
+  const columns = new Map(IMPORT_FIELDS.map((field) => [field, sheet.headers.indexOf(mapping[field] ?? '')]));
+  const read = (cells: string[], field: ImportField): string => {
+    const index = columns.get(field) ?? -1;
+    return index >= 0 ? cells[index] ?? '' : '';
+  };
+
+  const existing: ExistingCustomer[] = await prisma.customer.findMany({
+    select: { id: true, name: true, phone: true },
+  });
+  const accepted: { row: number; name: string; phone: string }[] = [];
+
+  return sheet.rows.map(({ row, cells }) => {
+    const errors: string[] = [];
+
+    const readNumber = (field: ImportField, label: string, fallback: number): number => {
+      const text = read(cells, field).replace(/,/g, '');
+      if (text === '') return fallback;
+      const value = Number(text);
+      if (!Number.isFinite(value) || value < 0) {
+        errors.push(`${label} must be a number of 0 or more`);
+        return fallback;
+      }
+      return value;
+    };
+
+    const name = read(cells, 'name');
+    const address = read(cells, 'address');
+    const phone = read(cells, 'phone');
+    const categoryText = read(cells, 'category').toLowerCase();
+    const category = (categoryText || CustomerCategory.REGULAR) as CustomerCategory;
+
+    if (!name) errors.push('Name is required');
+    if (!address) errors.push('Address is required');
+    if (phone && normalizePhone(phone).length < 7) errors.push('Phone must have at least 7 digits');
+    if (!Object.values(CustomerCategory).includes(category)) {
+      errors.push(`Category must be ${Object.values(CustomerCategory).join(' or ')}`);
+    }
+
+    const data: CreateCustomerDTO = {
+      name,
+      address,
+      ...(phone && { phone }),
+      category,
+      morningQuota: readNumber('morningQuota', 'Morning quota', 0),
+      eveningQuota: readNumber('eveningQuota', 'Evening quota', 0),
+      pricePerLiter: readNumber('pricePerLiter', 'Price per liter', defaultPrice),
+    };
+    if (data.pricePerLiter <= 0) errors.push('Price per liter must be more than 0');
+
+    const key = { name: normalizeName(name), phone: normalizePhone(phone) };
+    const matches = (other: { name: string; phone: string }) =>
+      (key.phone !== '' && key.phone === other.phone) ||
+      (key.name === other.name && (key.phone === '' || other.phone === ''));
+
+    const existingMatch = existing.find((c) => matches({ name: normalizeName(c.name), phone: normalizePhone(c.phone) }));
+    const rowMatch = accepted.find(matches);
+    const duplicateOf = existingMatch
+      ? `Existing customer ${existingMatch.name}`
+      : rowMatch ? `Row ${rowMatch.row}` : null;
+
+    if (errors.length === 0 && !duplicateOf) accepted.push({ row, ...key });
+
+    return {
+      row,
+      data,
+      status: errors.length > 0 ? 'invalid' : duplicateOf ? 'duplicate' : 'valid',
+      errors,
+      duplicateOf,
+    };
+  });
+};
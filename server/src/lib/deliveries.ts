@@ -0,0 +1,76 @@
+/**
+ * Delivery Helpers
+ *
+ * Reads delivery records for a customer's delivery history, the customer
+ * portal and the delivery register export.
+ */
+
+import { Prisma } from '@prisma/client';
+import prisma from './prisma.js';
+
+export interface DeliveryRegisterFilter {
+  startDate: string;
+  endDate: string;
+  shift?: string;
+  productId?: string;
+  /** Only these customers; every customer when omitted */
+  customerIds?: string[];
+}
+
+export interface CustomerDeliveryFilter {
+  startDate?: string;
+  endDate?: string;
+  shift?: string;
+  productId?: string;
+  delivered?: boolean;
+}
+
+/**
+ * Prisma filter for a customer's deliveries
+ */
+export const customerDeliveryWhere = (
+  customerId: string,
+  filter: CustomerDeliveryFilter = {}
+): Prisma.DeliveryWhereInput => ({
+  customerId,
+  ...((filter.startDate || filter.endDate) && {
+    date: {
+      ...(filter.startDate && { gte: filter.startDate }),
+      ...(filter.endDate && { lte: filter.endDate }),
+    },
+  }),
+  ...(filter.shift && { shift: filter.shift }),
+  ...(filter.productId && { productId: filter.productId }),
+  ...(filter.delivered !== undefined && { delivered: filter.delivered }),
+});
+
+/**
+ * A customer's deliveries, newest first, optionally within a date range
+ */
+export const loadCustomerDeliveries = (
+  customerId: string,
+  startDate?: string,
+  endDate?: string
+) => prisma.delivery.findMany({
+  where: customerDeliveryWhere(customerId, { startDate, endDate }),
+  orderBy: { date: 'desc' },
+});
+
+/**
+ * Deliveries recorded in a date range with their customer and product,
+ * ordered by date, morning before evening, then customer name
+ */
+export const loadDeliveryRegister = (filter: DeliveryRegisterFilter) => prisma.delivery.findMany({
+  where: {
+    date: { gte: filter.startDate, lte: filter.endDate },
+    ...(filter.shift && { shift: filter.shift }),
+    ...(filter.productId && { productId: filter.productId }),
+    ...(filter.customerIds && { customerId: { in: filter.customerIds } }),
+  },
+  include: {
+    customer: { select: { name: true } },
+    product: { select: { name: true, unit: true } },
+  },
+  // 'morning' sorts after 'evening', so descending puts it first
+  orderBy: [{ date: 'asc' }, { shift: 'desc' }, { customer: { name: 'asc' } }],
+});
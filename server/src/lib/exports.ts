@@ -0,0 +1,178 @@
+/**
+ * Data Exports
+ *
+ * Turns billing summaries, delivery registers, stock collections and
+ * payments into tables and sends them as CSV or XLSX downloads.
+ */
+
+import { Response } from 'express';
+import ExcelJS from 'exceljs';
+import { CsvCell, toCsv } from './csv.js';
+import { CustomerBillingSummary, Payment } from '../types/index.js';
+
+export type ExportFormat = 'csv' | 'xlsx';
+
+export interface ExportTable {
+  /** Worksheet name in an XLSX download */
+  name: string;
+  header: string[];
+  rows: CsvCell[][];
+}
+
+export interface DeliveryExportRow {
+  date: string;
+  shift: string;
+  quota: number;
+  actualAmount: number;
+  delivered: boolean;
+  notes: string | null;
+  customer: { name: string };
+  product: { name: string; unit: string };
+}
+
+export interface StockExportRow {
+  date: string;
+  shift: string;
+  source: string;
+  sourceName: string;
+  quantity: number;
+  fat: number | null;
+  snf: number | null;
+  rate: number | null;
+  amount: number | null;
+  product: { name: string; unit: string };
+}
+
+const XLSX_CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+/**
+ * Format requested by a `format` query value; CSV when none is given
+ */
+export const resolveExportFormat = (value: unknown): ExportFormat | null => {
+  if (value === undefined || value === '') return 'csv';
+  return value === 'csv' || value === 'xlsx' ? value : null;
+};
+
+/**
+ * Build a single-sheet workbook with a bold header row
+ */
+const renderXlsx = async (table: ExportTable): Promise<Buffer> => {
+  const workbook = new ExcelJS.Workbook();
+  const sheet = workbook.addWorksheet(table.name);
+
+  sheet.addRow(table.header).font = { bold: true };
+  table.rows.forEach((row) => {
+    sheet.addRow(row.map((cell) => (typeof cell === 'number' ? Math.round(cell * 100) / 100 : cell ?? null)));
+  });
+  sheet.columns.forEach((column, i) => {
+    const widest = Math.max(...[table.header, ...table.rows].map((row) => String(row[i] ?? '').length));
+    column.width = Math.min(Math.max(widest + 2, 8), 50);
+  });
+  sheet.views = [{ state: 'frozen', ySplit: 1 }];
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+};
+
+/**
+ * Send a table as a `<fileName>.csv` or `<fileName>.xlsx` attachment
+ */
+export const sendExport = async (
+  res: Response,
+  table: ExportTable,
+  fileName: string,
+  format: ExportFormat
+): Promise<void> => {
+  res.setHeader('Content-Disposition', `attachment; filename="${fileName}.${format}"`);
+  if (format === 'xlsx') {
+    res.setHeader('Content-Type', XLSX_CONTENT_TYPE);
+    res.send(await renderXlsx(table));
+  } else {
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.send(toCsv(table.header, table.rows));
+  }
+};
+
+/**
+ * One row per customer of a month's billing summary
+ */
+export const billingExportTable = (summaries: CustomerBillingSummary[]): ExportTable => ({
+  name: 'Billing',
+  header: [
+    'Customer', 'Phone', 'Address', 'Milk (L)', 'Price per Liter', 'Consumption',
+    'Previous Balance', 'Adjustments', 'Paid', 'Credit', 'Total Due', 'Invoice',
+  ],
+  rows: summaries.map((s) => [
+    s.customerName,
+    s.customerPhone,
+    s.customerAddress,
+    s.totalLiters,
+    s.pricePerLiter,
+    s.totalAmount,
+    s.previousBalance,
+    s.adjustments,
+    s.paidAmount,
+    s.credit,
+    s.totalDue,
+    s.invoice?.number,
+  ]),
+});
+
+/**
+ * One row per recorded delivery, skipped ones included
+ */
+export const deliveryExportTable = (deliveries: DeliveryExportRow[]): ExportTable => ({
+  name: 'Deliveries',
+  header: ['Date', 'Shift', 'Customer', 'Product', 'Unit', 'Quota', 'Delivered Quantity', 'Delivered', 'Notes'],
+  rows: deliveries.map((d) => [
+    d.date,
+    d.shift,
+    d.customer.name,
+    d.product.name,
+    d.product.unit,
+    d.quota,
+    d.delivered ? d.actualAmount : 0,
+    d.delivered ? 'Yes' : 'No',
+    d.notes,
+  ]),
+});
+
+/**
+ * One row per stock collection
+ */
+export const stockExportTable = (collections: StockExportRow[]): ExportTable => ({
+  name: 'Stock',
+  header: ['Date', 'Shift', 'Source Type', 'Source', 'Product', 'Unit', 'Quantity', 'Fat %', 'SNF %', 'Rate', 'Amount'],
+  rows: collections.map((s) => [
+    s.date,
+    s.shift,
+    s.source,
+    s.sourceName,
+    s.product.name,
+    s.product.unit,
+    s.quantity,
+    s.fat,
+    s.snf,
+    s.rate,
+    s.amount,
+  ]),
+});
+
+/**
+ * One row per payment; voided payments keep their row with the reason
+ */
+export const paymentExportTable = (payments: Payment[]): ExportTable => ({
+  name: 'Payments',
+  header: ['Receipt', 'Date', 'Customer', 'Amount', 'Method', 'Billing Month', 'Unallocated', 'Remarks', 'Voided', 'Void Reason'],
+  rows: payments.map((p) => [
+    p.receiptNumber,
+    p.date,
+    p.customerName,
+    p.amount,
+    p.method,
+    `${p.year}-${String(p.month).padStart(2, '0')}`,
+    p.unallocated,
+    p.remarks,
+    p.voidedAt ? 'Yes' : 'No',
+    p.voidReason,
+  ]),
+});
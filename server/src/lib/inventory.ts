@@ -0,0 +1,212 @@
+/**
+ * Inventory Ledger Helpers
+ *
+ * Computes stock levels from collections, deliveries and recorded stock
+ * movements. A physical count is the level at the end of its date, so the
+ * latest count resets the level and only later-dated entries apply on top.
+ */
+
+import prisma from './prisma.js';
+import { StockLedger, StockLedgerEntry, StockMovementType } from '../types/index.js';
+
+/**
+ * Movement types recorded by hand (collections and deliveries are derived)
+ */
+export const RECORDED_MOVEMENT_TYPES: string[] = [
+  StockMovementType.WASTAGE,
+  StockMovementType.SPOILAGE,
+  StockMovementType.COUNTER_SALE,
+  StockMovementType.ADJUSTMENT,
+  StockMovementType.COUNT,
+];
+
+/**
+ * Movement types whose quantity is an amount taken out of stock
+ */
+const OUTFLOW_MOVEMENT_TYPES: string[] = [
+  StockMovementType.WASTAGE,
+  StockMovementType.SPOILAGE,
+  StockMovementType.COUNTER_SALE,
+];
+
+const MOVEMENT_LABELS: Record<string, string> = {
+  [StockMovementType.WASTAGE]: 'Wastage',
+  [StockMovementType.SPOILAGE]: 'Spoilage',
+  [StockMovementType.COUNTER_SALE]: 'Counter sale',
+  [StockMovementType.ADJUSTMENT]: 'Adjustment',
+  [StockMovementType.COUNT]: 'Physical count',
+};
+
+/**
+ * Order of entries within a day: counts close the day
+ */
+const DAY_ORDER: Record<string, number> = {
+  [StockMovementType.COLLECTION]: 0,
+  [StockMovementType.DELIVERY]: 1,
+  [StockMovementType.COUNT]: 3,
+};
+
+/**
+ * Whether a movement quantity is valid for its type
+ */
+export const isValidMovementQuantity = (type: string, quantity: unknown): boolean => {
+  if (typeof quantity !== 'number' || !Number.isFinite(quantity)) return false;
+  if (type === StockMovementType.ADJUSTMENT) return quantity !== 0;
+  if (type === StockMovementType.COUNT) return quantity >= 0;
+  return quantity > 0;
+};
+
+/**
+ * Signed change a non-count movement makes to the level
+ */
+export const movementChange = (type: string, quantity: number): number => {
+  return OUTFLOW_MOVEMENT_TYPES.includes(type) ? -quantity : quantity;
+};
+
+/**
+ * A product's computed inventory level
+ */
+export interface InventoryLevel {
+  lastCountDate: string | null;
+  countedLevel: number;
+  stockIn: number;
+  delivered: number;
+  otherMovements: number;
+  current: number;
+}
+
+/**
+ * Compute a product's level at the end of a date (default: latest)
+ */
+export const loadInventoryLevel = async (
+  productId: string,
+  asOfDate?: string
+): Promise<InventoryLevel> => {
+  const lastCount = await prisma.stockMovement.findFirst({
+    where: {
+      productId,
+      type: StockMovementType.COUNT,
+      ...(asOfDate && { date: { lte: asOfDate } }),
+    },
+    orderBy: [{ date: 'desc' }, { createdAt: 'desc' }],
+  });
+
+  const date = {
+    ...(lastCount && { gt: lastCount.date }),
+    ...(asOfDate && { lte: asOfDate }),
+  };
+
+  const [stockAgg, deliveryAgg, movements] = await Promise.all([
+    prisma.stock.aggregate({
+      where: { productId, date },
+      _sum: { quantity: true },
+    }),
+    prisma.delivery.aggregate({
+      where: { productId, delivered: true, date },
+      _sum: { actualAmount: true },
+    }),
+    prisma.stockMovement.groupBy({
+      by: ['type'],
+      where: { productId, type: { not: StockMovementType.COUNT }, date },
+      _sum: { quantity: true },
+    }),
+  ]);
+
+  const countedLevel = lastCount?.quantity || 0;
+  const stockIn = stockAgg._sum.quantity || 0;
+  const delivered = deliveryAgg._sum.actualAmount || 0;
+  const otherMovements = movements.reduce(
+    (acc, m) => acc + movementChange(m.type, m._sum.quantity || 0),
+    0
+  );
+
+  return {
+    lastCountDate: lastCount?.date || null,
+    countedLevel,
+    stockIn,
+    delivered,
+    otherMovements,
+    current: countedLevel + stockIn - delivered + otherMovements,
+  };
+};
+
+/**
+ * The day before a YYYY-MM-DD date
+ */
+const previousDay = (date: string): string => {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() - 1);
+  return d.toISOString().split('T')[0];
+};
+
+/**
+ * Build a product's inventory ledger for a date range (YYYY-MM-DD, inclusive)
+ * with a running balance. The opening balance is the level at the end of the
+ * day before startDate.
+ */
+export const buildStockLedger = async (
+  productId: string,
+  startDate: string,
+  endDate: string
+): Promise<StockLedger> => {
+  const date = { gte: startDate, lte: endDate };
+
+  const [opening, stock, deliveries, movements] = await Promise.all([
+    loadInventoryLevel(productId, previousDay(startDate)),
+    prisma.stock.findMany({
+      where: { productId, date },
+      orderBy: [{ date: 'asc' }, { createdAt: 'asc' }],
+    }),
+    prisma.delivery.groupBy({
+      by: ['date', 'shift'],
+      where: { productId, delivered: true, date },
+      _sum: { actualAmount: true },
+      orderBy: [{ date: 'asc' }, { shift: 'desc' }],
+    }),
+    prisma.stockMovement.findMany({
+      where: { productId, date },
+      include: { createdBy: { select: { name: true } } },
+      orderBy: [{ date: 'asc' }, { createdAt: 'asc' }],
+    }),
+  ]);
+
+  const lines: (Omit<StockLedgerEntry, 'change' | 'balance'> & { quantity: number })[] = [
+    ...stock.map((s) => ({
+      date: s.date,
+      type: StockMovementType.COLLECTION,
+      description: `Collection from ${s.sourceName} (${s.shift})`,
+      quantity: s.quantity,
+    })),
+    ...deliveries.map((d) => ({
+      date: d.date,
+      type: StockMovementType.DELIVERY,
+      description: `Deliveries (${d.shift})`,
+      quantity: -(d._sum.actualAmount || 0),
+    })),
+    ...movements.map((m) => ({
+      date: m.date,
+      type: m.type as StockMovementType,
+      movementId: m.id,
+      description: MOVEMENT_LABELS[m.type] || m.type,
+      quantity: m.type === StockMovementType.COUNT ? m.quantity : movementChange(m.type, m.quantity),
+      reason: m.reason,
+      createdByName: m.createdBy.name,
+    })),
+  ].sort((a, b) => a.date.localeCompare(b.date) || (DAY_ORDER[a.type] ?? 2) - (DAY_ORDER[b.type] ?? 2));
+
+  let balance = opening.current;
+  const entries: StockLedgerEntry[] = lines.map(({ quantity, ...line }) => {
+    const change = line.type === StockMovementType.COUNT ? quantity - balance : quantity;
+    balance += change;
+    return { ...line, change, balance };
+  });
+
+  return {
+    productId,
+    startDate,
+    endDate,
+    openingBalance: opening.current,
+    closingBalance: balance,
+    entries,
+  };
+};
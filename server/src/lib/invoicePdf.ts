@@ -0,0 +1,206 @@
+/**
+ * Invoice PDF Rendering
+ *
+ * Lays out a customer's monthly invoice as a PDF with the business details
+ * from Settings, a summary, the total due and the daily milk breakdown.
+ */
+
+import PDFDocument from 'pdfkit';
+import { CustomerInvoiceResponse, InvoiceStatus, Settings } from '../types/index.js';
+import { DEFAULT_PRODUCT_ID } from './products.js';
+
+const PAGE_MARGIN = 50;
+const ACCENT = '#1a73e8';
+const MUTED = '#666666';
+const RULE = '#eeeeee';
+
+/**
+ * Daily breakdown columns: x offset from the margin, width and alignment
+ */
+const BREAKDOWN_COLUMNS = [
+  { label: 'Date', x: 0, width: 120, align: 'left' as const },
+  { label: 'Morning (L)', x: 120, width: 90, align: 'left' as const },
+  { label: 'Evening (L)', x: 210, width: 90, align: 'left' as const },
+  { label: 'Total (L)', x: 300, width: 90, align: 'right' as const },
+  { label: 'Amount', x: 390, width: 105, align: 'right' as const },
+];
+
+const ROW_HEIGHT = 20;
+
+/**
+ * Build an amount formatter. The built-in PDF fonts only cover Latin-1, so
+ * symbols such as ₹ fall back to the currency code.
+ */
+export const currencyFormatter = (settings: Pick<Settings, 'currency' | 'currencySymbol'>) => {
+  const prefix = /^[\x20-\xFF]*$/.test(settings.currencySymbol)
+    ? settings.currencySymbol
+    : `${settings.currency} `;
+  return (amount: number): string => `${prefix}${amount.toFixed(2)}`;
+};
+
+/**
+ * Draw a horizontal rule across the page at the current position
+ */
+const drawRule = (doc: PDFKit.PDFDocument, color = RULE): void => {
+  doc
+    .moveTo(PAGE_MARGIN, doc.y)
+    .lineTo(doc.page.width - PAGE_MARGIN, doc.y)
+    .strokeColor(color)
+    .lineWidth(1)
+    .stroke();
+};
+
+/**
+ * Draw a label on the left and a value on the right of one line
+ */
+const drawSummaryRow = (doc: PDFKit.PDFDocument, label: string, value: string): void => {
+  const y = doc.y;
+  const width = doc.page.width - PAGE_MARGIN * 2;
+  doc.font('Helvetica').fontSize(11).fillColor(MUTED).text(label, PAGE_MARGIN, y);
+  doc.font('Helvetica-Bold').fillColor('#333333').text(value, PAGE_MARGIN, y, { width, align: 'right' });
+  doc.moveDown(0.6);
+  drawRule(doc, '#f5f5f5');
+  doc.moveDown(0.6);
+};
+
+/**
+ * Draw the daily breakdown header row
+ */
+const drawBreakdownHeader = (doc: PDFKit.PDFDocument): void => {
+  const y = doc.y;
+  doc.rect(PAGE_MARGIN, y - 4, doc.page.width - PAGE_MARGIN * 2, ROW_HEIGHT).fill('#fafafa');
+  doc.font('Helvetica-Bold').fontSize(9).fillColor('#888888');
+  BREAKDOWN_COLUMNS.forEach((col) => {
+    doc.text(col.label, PAGE_MARGIN + col.x, y, { width: col.width, align: col.align });
+  });
+  doc.y = y + ROW_HEIGHT;
+};
+
+/**
+ * Render an invoice. The caller pipes the document and calls `end()`.
+ */
+export const renderInvoicePdf = (
+  invoice: CustomerInvoiceResponse,
+  settings: Omit<Settings, 'id'>,
+  periodLabel: string
+): PDFKit.PDFDocument => {
+  const doc = new PDFDocument({ size: 'A4', margin: PAGE_MARGIN });
+  const formatAmount = currencyFormatter(settings);
+  const contentWidth = doc.page.width - PAGE_MARGIN * 2;
+  const rightColumnX = PAGE_MARGIN + contentWidth / 2;
+
+  doc.info.Title = `Invoice - ${invoice.customer.name} - ${periodLabel}`;
+  doc.info.Author = settings.businessName;
+
+  // Header: business details on the left, customer on the right
+  const top = doc.y;
+  doc.font('Helvetica-Bold').fontSize(26).fillColor(ACCENT).text('INVOICE', PAGE_MARGIN, top);
+  if (invoice.invoiceNumber || invoice.status === InvoiceStatus.DRAFT) {
+    doc.font('Helvetica-Bold').fontSize(11).fillColor('#333333')
+      .text(invoice.invoiceNumber ? `No. ${invoice.invoiceNumber}` : 'DRAFT');
+  }
+  doc.font('Helvetica-Bold').fontSize(10).fillColor('#333333').text(settings.businessName);
+  doc.font('Helvetica').fillColor(MUTED).text(settings.businessAddress).text(`Phone: ${settings.businessPhone}`);
+  const leftBottom = doc.y;
+
+  const rightWidth = contentWidth / 2;
+  doc.font('Helvetica-Bold').fontSize(9).fillColor('#888888')
+    .text('BILL TO', rightColumnX, top, { width: rightWidth, align: 'right', characterSpacing: 1 });
+  doc.font('Helvetica-Bold').fontSize(13).fillColor('#333333')
+    .text(invoice.customer.name, rightColumnX, doc.y, { width: rightWidth, align: 'right' });
+  doc.font('Helvetica').fontSize(10).fillColor(MUTED)
+    .text(invoice.customer.address, rightColumnX, doc.y, { width: rightWidth, align: 'right' });
+  doc.font('Helvetica-Bold').fontSize(10).fillColor(ACCENT)
+    .text(`Period: ${periodLabel}`, rightColumnX, doc.y + 6, { width: rightWidth, align: 'right' });
+
+  doc.y = Math.max(leftBottom, doc.y) + 12;
+  drawRule(doc);
+  doc.moveDown(1.5);
+
+  // Summary
+  doc.font('Helvetica-Bold').fontSize(14).fillColor('#333333').text('Summary', PAGE_MARGIN);
+  doc.moveDown(0.8);
+
+  const otherItems = invoice.lineItems.filter((item) => item.productId !== DEFAULT_PRODUCT_ID);
+  const milkAmount = invoice.lineItems.find((item) => item.productId === DEFAULT_PRODUCT_ID)?.amount
+    ?? (otherItems.length > 0 ? 0 : invoice.totalAmount);
+  const rates = Array.from(new Set(invoice.dailyBreakdown.map((day) => day.pricePerLiter)));
+  const rateLabel = (rates.length > 0 ? rates : [invoice.customer.pricePerLiter]).map(formatAmount).join(' / ');
+
+  drawSummaryRow(
+    doc,
+    'Current Month Usage',
+    `${invoice.totalLiters.toFixed(1)} L x ${rateLabel} = ${formatAmount(milkAmount)}`
+  );
+  otherItems.forEach((item) => {
+    drawSummaryRow(doc, item.productName, `${item.quantity.toFixed(1)} ${item.unit} = ${formatAmount(item.amount)}`);
+  });
+  if (invoice.previousBalance !== undefined) {
+    drawSummaryRow(doc, 'Current Month Bill', formatAmount(invoice.totalAmount));
+    drawSummaryRow(doc, 'Previous Balance (less payments & credit)', formatAmount(invoice.previousBalance));
+  }
+
+  // Total due
+  const boxY = doc.y + 6;
+  doc.roundedRect(PAGE_MARGIN, boxY, contentWidth, 50, 6).fill(ACCENT);
+  doc.font('Helvetica-Bold').fontSize(16).fillColor('#ffffff')
+    .text('Total Amount Due', PAGE_MARGIN + 16, boxY + 17);
+  doc.fontSize(18)
+    .text(formatAmount(invoice.totalDue ?? invoice.totalAmount), PAGE_MARGIN, boxY + 15, { width: contentWidth - 16, align: 'right' });
+  doc.y = boxY + 50 + 24;
+
+  // Daily breakdown
+  doc.font('Helvetica-Bold').fontSize(14).fillColor('#333333').text('Daily Breakdown', PAGE_MARGIN);
+  doc.moveDown(0.8);
+  drawBreakdownHeader(doc);
+
+  const pageBottom = () => doc.page.height - PAGE_MARGIN;
+
+  invoice.dailyBreakdown.forEach((day) => {
+    if (doc.y + ROW_HEIGHT > pageBottom()) {
+      doc.addPage();
+      drawBreakdownHeader(doc);
+    }
+
+    const y = doc.y;
+    const values = [
+      day.date,
+      day.morning > 0 ? String(day.morning) : '-',
+      day.evening > 0 ? String(day.evening) : '-',
+      (day.morning + day.evening).toFixed(1),
+      formatAmount(day.amount),
+    ];
+    doc.font('Helvetica').fontSize(10).fillColor('#333333');
+    BREAKDOWN_COLUMNS.forEach((col, i) => {
+      doc.text(values[i], PAGE_MARGIN + col.x, y, { width: col.width, align: col.align, lineBreak: false });
+    });
+    doc.y = y + ROW_HEIGHT - 6;
+    drawRule(doc);
+    doc.y += 6;
+  });
+
+  // Signature and footer
+  if (doc.y + 120 > pageBottom()) {
+    doc.addPage();
+  }
+  doc.y += 40;
+  const signatureX = doc.page.width - PAGE_MARGIN - 180;
+  doc.moveTo(signatureX, doc.y).lineTo(signatureX + 180, doc.y).strokeColor('#333333').stroke();
+  doc.font('Helvetica').fontSize(9).fillColor('#333333')
+    .text('Authorized Signature', signatureX, doc.y + 5, { width: 180, align: 'center' });
+
+  doc.y += 40;
+  doc.font('Helvetica').fontSize(9).fillColor('#aaaaaa')
+    .text(
+      `Thank you for your business! Please pay within ${settings.paymentTerms} days.`,
+      PAGE_MARGIN,
+      doc.y,
+      { width: contentWidth, align: 'center' }
+    )
+    .text(`Generated on ${new Date().toISOString().slice(0, 16).replace('T', ' ')} UTC`, {
+      width: contentWidth,
+      align: 'center',
+    });
+
+  return doc;
+};
@@ -0,0 +1,264 @@
+/**
+ * Invoice Helpers
+ *
+ * Numbering, snapshots and period locks for stored invoices. Issuing an
+ * invoice freezes its snapshot and locks the customer's deliveries for that
+ * month; later corrections go through credit or debit notes.
+ */
+
+import { Prisma } from '@prisma/client';
+import prisma from './prisma.js';
+import {
+  CustomerInvoiceResponse,
+  Invoice,
+  InvoiceDailyLine,
+  InvoiceStatus,
+  InvoiceType,
+  ProductLineItem,
+} from '../types/index.js';
+import { buildCustomerInvoice, loadPreviousBalance } from './billing.js';
+import { loadPaymentSettlement, lockNumbering } from './payments.js';
+import { loadProductPricing } from './products.js';
+
+/**
+ * Statuses whose invoice locks deliveries in its month
+ */
+export const LOCKING_STATUSES: string[] = [InvoiceStatus.ISSUED, InvoiceStatus.PAID];
+
+/**
+ * Allowed status changes after issue (drafts are issued or deleted instead)
+ */
+export const STATUS_TRANSITIONS: Record<string, string[]> = {
+  [InvoiceStatus.ISSUED]: [InvoiceStatus.PAID, InvoiceStatus.VOID],
+  [InvoiceStatus.PAID]: [InvoiceStatus.ISSUED, InvoiceStatus.VOID],
+};
+
+/**
+ * Month and year of a YYYY-MM-DD date
+ */
+export const periodOf = (date: string): { month: number; year: number } => ({
+  year: parseInt(date.slice(0, 4), 10),
+  month: parseInt(date.slice(5, 7), 10),
+});
+
+/**
+ * Get the customers whose month containing `date` is locked by an issued
+ * invoice, mapped to that invoice's number
+ */
+export const loadLockedCustomers = async (
+  date: string,
+  customerIds?: string[]
+): Promise<Map<string, string>> => {
+  const { month, year } = periodOf(date);
+  const invoices = await prisma.invoice.findMany({
+    where: {
+      type: InvoiceType.INVOICE,
+      status: { in: LOCKING_STATUSES },
+      month,
+      year,
+      ...(customerIds && { customerId: { in: customerIds } }),
+    },
+    select: { customerId: true, number: true },
+  });
+
+  return new Map(invoices.map((i) => [i.customerId, i.number || '']));
+};
+
+/**
+ * Numbers of a customer's issued invoices for months a change effective
+ * from `date` would reach: the month of `date` and every later one
+ */
+export const loadLockedInvoicesFrom = async (
+  customerId: string,
+  date: string
+): Promise<string[]> => {
+  const { month, year } = periodOf(date);
+  const invoices = await prisma.invoice.findMany({
+    where: {
+      customerId,
+      type: InvoiceType.INVOICE,
+      status: { in: LOCKING_STATUSES },
+      OR: [{ year: { gt: year } }, { year, month: { gte: month } }],
+    },
+    select: { number: true },
+    orderBy: { sequence: 'asc' },
+  });
+
+  return invoices.map((i) => i.number || '');
+};
+
+/**
+ * Numbers of issued invoices a price change for a product effective from
+ * `date` would reprice: those of months holding deliveries of the product
+ * on or after `date`, for the given customers (or every customer). `applies`
+ * picks out the deliveries the change prices, e.g. those without the
+ * customer's own price.
+ */
+export const loadLockedProductInvoices = async (
+  productId: string,
+  date: string,
+  customerIds?: string[],
+  applies: (delivery: { customerId: string; date: string }) => boolean = () => true
+): Promise<string[]> => {
+  const { month, year } = periodOf(date);
+  const invoices = await prisma.invoice.findMany({
+    where: {
+      type: InvoiceType.INVOICE,
+      status: { in: LOCKING_STATUSES },
+      OR: [{ year: { gt: year } }, { year, month: { gte: month } }],
+      ...(customerIds && { customerId: { in: customerIds } }),
+    },
+    select: { customerId: true, month: true, year: true, number: true },
+    orderBy: { sequence: 'asc' },
+  });
+  if (invoices.length === 0) return [];
+
+  const deliveries = await prisma.delivery.findMany({
+    where: {
+      productId,
+      delivered: true,
+      date: { gte: date },
+      customerId: { in: [...new Set(invoices.map((i) => i.customerId))] },
+    },
+    select: { customerId: true, date: true },
+  });
+  const repriced = new Set(
+    deliveries
+      .filter(applies)
+      .map((d) => `${d.customerId}|${d.date.slice(0, 7)}`)
+  );
+
+  return invoices
+    .filter((i) => repriced.has(`${i.customerId}|${i.year}-${String(i.month).padStart(2, '0')}`))
+    .map((i) => i.number || '');
+};
+
+/**
+ * Error message for a change to a locked month
+ */
+export const lockedPeriodMessage = (invoiceNumbers: string[], period = 'this month'): string => {
+  const issued = invoiceNumbers.length > 1
+    ? `Invoices ${invoiceNumbers.join(', ')} have`
+    : `Invoice ${invoiceNumbers[0]} has`;
+  return `${issued} been issued for ${period}; record a credit or debit note instead`;
+};
+
+/**
+ * Compute the stored snapshot of a customer's invoice for a month,
+ * or null if the customer does not exist
+ */
+export const buildInvoiceSnapshot = async (
+  customerId: string,
+  month: number,
+  year: number,
+  db: Prisma.TransactionClient = prisma
+) => {
+  const customer = await db.customer.findUnique({ where: { id: customerId } });
+  if (!customer) return null;
+
+  const [invoice, pricing] = await Promise.all([
+    buildCustomerInvoice(customerId, month, year, db),
+    loadProductPricing([customerId], db),
+  ]);
+  if (!invoice) return null;
+
+  // Brought forward net of payments already applied to the month and unused credit
+  const [arrears, settlement] = await Promise.all([
+    loadPreviousBalance(customer, pricing, month, year, db),
+    loadPaymentSettlement(customerId, month, year, db),
+  ]);
+  const previousBalance = arrears - settlement.paidAmount - settlement.credit;
+
+  return {
+    pricePerLiter: invoice.customer.pricePerLiter,
+    totalLiters: invoice.totalLiters,
+    lineItems: invoice.lineItems as unknown as Prisma.InputJsonValue,
+    dailyBreakdown: invoice.dailyBreakdown as unknown as Prisma.InputJsonValue,
+    previousBalance,
+    totalAmount: invoice.totalAmount,
+    totalDue: previousBalance + invoice.totalAmount,
+  };
+};
+
+/**
+ * Assign the next invoice number. Must run inside the transaction that
+ * issues the document, which holds the invoice numbering lock until it commits.
+ */
+export const allocateInvoiceNumber = async (
+  tx: Prisma.TransactionClient
+): Promise<{ sequence: number; number: string }> => {
+  await lockNumbering(tx, 'invoice');
+  const [settings, last] = await Promise.all([
+    tx.settings.findUnique({ where: { id: 1 } }),
+    tx.invoice.aggregate({ _max: { sequence: true } }),
+  ]);
+
+  const sequence = (last._max.sequence || 0) + 1;
+  return {
+    sequence,
+    number: `${settings?.invoicePrefix ?? 'INV-'}${String(sequence).padStart(5, '0')}`,
+  };
+};
+
+type InvoiceRow = Prisma.InvoiceGetPayload<{ include: { customer: true } }>;
+
+/**
+ * Convert a stored invoice to its API shape
+ */
+export const toInvoice = (
+  row: Prisma.InvoiceGetPayload<object> & { customer?: { name: string }; notes?: Prisma.InvoiceGetPayload<object>[] }
+): Invoice => {
+  const { customer, notes, ...rest } = row;
+  return {
+    ...rest,
+    type: rest.type as InvoiceType,
+    status: rest.status as InvoiceStatus,
+    lineItems: rest.lineItems as unknown as ProductLineItem[],
+    dailyBreakdown: rest.dailyBreakdown as unknown as InvoiceDailyLine[],
+    customerName: customer?.name,
+    ...(notes && { notes: notes.map((note) => toInvoice(note)) }),
+  };
+};
+
+/**
+ * Invoice view of a stored snapshot
+ */
+export const snapshotToInvoiceResponse = (row: InvoiceRow): CustomerInvoiceResponse => ({
+  customer: {
+    id: row.customer.id,
+    name: row.customer.name,
+    address: row.customer.address,
+    pricePerLiter: row.pricePerLiter,
+  },
+  totalLiters: row.totalLiters,
+  totalAmount: row.totalAmount,
+  lineItems: row.lineItems as unknown as ProductLineItem[],
+  dailyBreakdown: row.dailyBreakdown as unknown as InvoiceDailyLine[],
+  invoiceNumber: row.number,
+  status: row.status as InvoiceStatus,
+  previousBalance: row.previousBalance,
+  totalDue: row.totalDue,
+});
+
+/**
+ * A customer's invoice for a month: the issued snapshot if there is one,
+ * otherwise computed from live deliveries
+ */
+export const loadCustomerInvoice = async (
+  customerId: string,
+  month: number,
+  year: number
+): Promise<CustomerInvoiceResponse | null> => {
+  const issued = await prisma.invoice.findFirst({
+    where: {
+      customerId,
+      month,
+      year,
+      type: InvoiceType.INVOICE,
+      status: { in: LOCKING_STATUSES },
+    },
+    include: { customer: true },
+  });
+
+  return issued ? snapshotToInvoiceResponse(issued) : buildCustomerInvoice(customerId, month, year);
+};
@@ -0,0 +1,215 @@
+/**
+ * Customer Messaging
+ *
+ * Sends balance reminders and monthly bill summaries to customers' phones
+ * through a pluggable provider, and logs every attempt per customer. The
+ * provider is chosen with MESSAGE_PROVIDER: 'outbox' (default) appends
+ * messages to a local file for development, 'twilio' sends real SMS or
+ * WhatsApp messages.
+ */
+
+import { appendFile } from 'fs/promises';
+import { Prisma } from '@prisma/client';
+import prisma from './prisma.js';
+import {
+  CustomerBillingSummary,
+  MessageChannel,
+  MessageLog,
+  MessageTemplate,
+  SendMessagesDTO,
+  SendMessagesResult,
+  Settings,
+} from '../types/index.js';
+import { buildMonthlyBilling } from './billingSummary.js';
+
+const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+
+/**
+ * Message handed to a provider
+ */
+export interface OutgoingMessage {
+  to: string;
+  body: string;
+  channel: MessageChannel;
+}
+
+/**
+ * A way of delivering messages. `send` resolves once the provider has
+ * accepted the message and rejects with the provider's error otherwise.
+ */
+export interface MessageProvider {
+  name: string;
+  send: (message: OutgoingMessage) => Promise<{ providerMessageId?: string }>;
+}
+
+/**
+ * Development provider: writes each message to the console and appends it
+ * as a JSON line to MESSAGE_OUTBOX_FILE
+ */
+export const outboxProvider: MessageProvider = {
+  name: 'outbox',
+  send: async (message) => {
+    const file = process.env.MESSAGE_OUTBOX_FILE || 'message-outbox.log';
+    const record = { ...message, at: new Date().toISOString() };
+    console.log(`[outbox] ${message.channel} to ${message.to}: ${message.body}`);
+    await appendFile(file, `${JSON.stringify(record)}\n`);
+    return {};
+  },
+};
+
+/**
+ * Twilio Programmable Messaging. Needs TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN
+ * and TWILIO_FROM (SMS) or TWILIO_WHATSAPP_FROM (WhatsApp).
+ */
+export const twilioProvider: MessageProvider = {
+  name: 'twilio',
+  send: async (message) => {
+    const accountSid = process.env.TWILIO_ACCOUNT_SID;
+    const authToken = process.env.TWILIO_AUTH_TOKEN;
+    const from = message.channel === MessageChannel.WHATSAPP
+      ? process.env.TWILIO_WHATSAPP_FROM
+      : process.env.TWILIO_FROM;
+    if (!accountSid || !authToken || !from) {
+      throw new Error(`Twilio is not configured for ${message.channel}`);
+    }
+
+    const prefix = message.channel === MessageChannel.WHATSAPP ? 'whatsapp:' : '';
+    const response = await fetch(`https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Basic ${Buffer.from(`${accountSid}:${authToken}`).toString('base64')}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: new URLSearchParams({ To: `${prefix}${message.to}`, From: `${prefix}${from}`, Body: message.body }),
+    });
+
+    const result = await response.json() as { sid?: string; message?: string };
+    if (!response.ok) {
+      throw new Error(result.message || `Twilio responded with ${response.status}`);
+    }
+    return { providerMessageId: result.sid };
+  },
+};
+
+const PROVIDERS: Record<string, MessageProvider> = {
+  [outboxProvider.name]: outboxProvider,
+  [twilioProvider.name]: twilioProvider,
+};
+
+/**
+ * The configured provider
+ */
+export const getMessageProvider = (): MessageProvider => {
+  const name = process.env.MESSAGE_PROVIDER || outboxProvider.name;
+  const provider = PROVIDERS[name];
+  if (!provider) {
+    throw new Error(`Unknown MESSAGE_PROVIDER '${name}'`);
+  }
+  return provider;
+};
+
+/**
+ * Text of a templated message for a customer's monthly bill
+ */
+export const renderMessage = (
+  template: MessageTemplate,
+  summary: CustomerBillingSummary,
+  settings: Pick<Settings, 'businessName' | 'businessPhone' | 'currencySymbol' | 'paymentTerms'>
+): string => {
+  const amount = (value: number) => `${settings.currencySymbol}${value.toFixed(2)}`;
+  const period = `${MONTH_NAMES[summary.month - 1]} ${summary.year}`;
+  const signature = `- ${settings.businessName}, ${settings.businessPhone}`;
+
+  if (template === MessageTemplate.MONTHLY_BILL) {
+    const lines = [
+      `Dear ${summary.customerName}, your ${period} bill from ${settings.businessName}:`,
+      `Milk: ${summary.totalLiters.toFixed(1)} L`,
+      `This month: ${amount(summary.totalAmount + summary.adjustments)}`,
+      `Previous balance: ${amount(summary.previousBalance)}`,
+      ...(summary.paidAmount + summary.credit > 0 ? [`Paid: ${amount(summary.paidAmount + summary.credit)}`] : []),
+      `Total due: ${amount(summary.totalDue)}`,
+      `Please pay within ${settings.paymentTerms} days. ${signature}`,
+    ];
+    return lines.join('\n');
+  }
+
+  return `Dear ${summary.customerName}, this is a reminder that ${amount(summary.totalDue)} is due on your milk account. `
+    + `Please pay at the earliest. Ignore if already paid. ${signature}`;
+};
+
+/**
+ * Convert a stored message log to its API shape
+ */
+export const toMessageLog = (
+  row: Prisma.MessageLogGetPayload<object> & { customer?: { name: string } }
+): MessageLog => {
+  const { customer, ...rest } = row;
+  return { ...rest, customerName: customer?.name };
+};
+
+/**
+ * Send a templated message to each of the month's billed customers that
+ * match the request, one at a time, logging every attempt. Balance
+ * reminders skip customers who owe nothing.
+ */
+export const sendCustomerMessages = async (
+  data: SendMessagesDTO,
+  settings: Omit<Settings, 'id'>,
+  sentById: string | null
+): Promise<SendMessagesResult> => {
+  const provider = getMessageProvider();
+  const summaries = await buildMonthlyBilling(data.month, data.year, data.customerIds);
+
+  const result: SendMessagesResult = { sent: 0, failed: 0, skipped: [], logs: [] };
+
+  for (const summary of summaries) {
+    const skip = (reason: string) =>
+      result.skipped.push({ customerId: summary.customerId, customerName: summary.customerName, reason });
+
+    if (data.minTotalDue !== undefined && !(summary.totalDue > data.minTotalDue)) continue;
+    if (data.template === MessageTemplate.BALANCE_REMINDER && summary.totalDue <= 0) {
+      skip('Nothing due');
+      continue;
+    }
+    const phone = summary.customerPhone?.trim();
+    if (!phone) {
+      skip('No phone number');
+      continue;
+    }
+
+    const body = renderMessage(data.template, summary, settings);
+    let outcome: { providerMessageId?: string; error?: string };
+    try {
+      outcome = await provider.send({ to: phone, body, channel: data.channel });
+    } catch (error) {
+      outcome = { error: error instanceof Error ? error.message : String(error) };
+    }
+
+    const log = await prisma.messageLog.create({
+      data: {
+        customerId: summary.customerId,
+        channel: data.channel,
+        template: data.template,
+        phone,
+        body,
+        provider: provider.name,
+        status: outcome.error ? 'failed' : 'sent',
+        providerMessageId: outcome.providerMessageId,
+        error: outcome.error,
+        month: data.month,
+        year: data.year,
+        sentById,
+      },
+      include: { customer: { select: { name: true } } },
+    });
+
+    if (outcome.error) result.failed++;
+    else result.sent++;
+    result.logs.push(toMessageLog(log));
+  }
+
+  return result;
+};
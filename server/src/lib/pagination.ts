@@ -0,0 +1,110 @@
+/**
+ * List pagination
+ *
+ * Reads the `page`, `limit`, `sortBy` and `sortOrder` query parameters the
+ * list endpoints share. A request that names a page or a limit gets one
+ * page of results with the total count; one that names neither gets the
+ * whole list, as before pagination existed.
+ */
+
+import { Request } from 'express';
+import { PaginatedResponse } from '../types/index.js';
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+export type SortOrder = 'asc' | 'desc';
+
+/**
+ * The `sortBy` values a list accepts, mapped to the model field they sort on
+ */
+export const CUSTOMER_SORT_FIELDS = {
+  name: 'name',
+  category: 'category',
+  morningQuota: 'morningQuota',
+  eveningQuota: 'eveningQuota',
+  pricePerLiter: 'pricePerLiter',
+  createdAt: 'createdAt',
+} as const;
+
+export const STOCK_SORT_FIELDS = {
+  date: 'date',
+  quantity: 'quantity',
+  amount: 'amount',
+  createdAt: 'createdAt',
+} as const;
+
+export const PAYMENT_SORT_FIELDS = {
+  date: 'date',
+  amount: 'amount',
+  receiptNumber: 'receiptSequence',
+} as const;
+
+export const DELIVERY_SORT_FIELDS = {
+  date: 'date',
+  actualAmount: 'actualAmount',
+} as const;
+
+export const BILLING_SORT_FIELDS = {
+  customerName: 'name',
+} as const;
+
+export interface PageRequest {
+  page: number;
+  limit: number;
+}
+
+export interface PageQuery<F extends string> {
+  /** Null when the whole list was asked for */
+  page: PageRequest | null;
+  /** Prisma `orderBy` entry for the requested sort */
+  orderBy: Partial<Record<F, SortOrder>>;
+}
+
+const readInt = (value: unknown, fallback: number): number => {
+  const parsed = parseInt(String(value), 10);
+  return Number.isNaN(parsed) ? fallback : parsed;
+};
+
+/**
+ * Read a list request's page and sort, falling back to `defaultSort` when
+ * `sortBy` is missing or not one of `fields`
+ */
+export const readPageQuery = <K extends string, F extends string>(
+  query: Request['query'],
+  fields: Record<K, F>,
+  defaultSort: K,
+  defaultOrder: SortOrder
+): PageQuery<F> => {
+  const { page, limit, sortBy, sortOrder } = query;
+
+  const sortKey = Object.keys(fields).includes(String(sortBy)) ? (sortBy as K) : defaultSort;
+  const order = sortOrder === 'asc' || sortOrder === 'desc' ? sortOrder : defaultOrder;
+
+  return {
+    page: page || limit
+      ? {
+          page: Math.max(1, readInt(page, 1)),
+          limit: Math.min(MAX_PAGE_SIZE, Math.max(1, readInt(limit, DEFAULT_PAGE_SIZE))),
+        }
+      : null,
+    orderBy: { [fields[sortKey]]: order } as Partial<Record<F, SortOrder>>,
+  };
+};
+
+/**
+ * Prisma `skip`/`take` for a page, or nothing for the whole list
+ */
+export const pageArgs = (page: PageRequest | null): { skip?: number; take?: number } =>
+  page ? { skip: (page.page - 1) * page.limit, take: page.limit } : {};
+
+/**
+ * Wrap one page of items with the list's total count
+ */
+export const toPaginated = <T>(items: T[], total: number, page: PageRequest): PaginatedResponse<T> => ({
+  items,
+  total,
+  page: page.page,
+  limit: page.limit,
+  totalPages: Math.ceil(total / page.limit),
+});
@@ -0,0 +1,33 @@
+/**
+ * Customer Pause Helpers
+ *
+ * Finds customers whose deliveries are paused (e.g. on vacation)
+ * for a given date and shift.
+ */
+
+import prisma from './prisma.js';
+
+/**
+ * Get the IDs of customers paused on a date and shift.
+ * A pause without a shift covers both shifts.
+ */
+export const loadPausedCustomerIds = async (
+  date: string,
+  shift: string,
+  customerIds?: string[]
+): Promise<Set<string>> => {
+  const pauses = await prisma.customerPause.findMany({
+    where: {
+      startDate: { lte: date },
+      endDate: { gte: date },
+      OR: [
+        { shift: null },
+        { shift: { equals: shift, mode: 'insensitive' } },
+      ],
+      ...(customerIds && { customerId: { in: customerIds } }),
+    },
+    select: { customerId: true },
+  });
+
+  return new Set(pauses.map((p) => p.customerId));
+};
@@ -0,0 +1,160 @@
+/**
+ * Supplier Payables Helpers
+ *
+ * Works out what is owed to each source: the purchase value of its priced
+ * stock collections less the supplier payments made to it.
+ */
+
+import prisma from './prisma.js';
+import { SupplierPayable, SupplierStatement, SupplierStatementEntry } from '../types/index.js';
+
+/**
+ * Source fields used to match its stock collections
+ */
+interface SourceRef {
+  id: string;
+  name: string;
+}
+
+/**
+ * Stock filter for a source's collections. Stock stores the source's name
+ * or ID as sent by the client, plus the name at collection time.
+ */
+export const sourceStockWhere = (source: SourceRef) => ({
+  OR: [
+    { source: source.id },
+    { source: source.name },
+    { sourceName: source.name },
+  ],
+});
+
+/**
+ * Whether a stock group belongs to a source
+ */
+const matchesSource = (
+  group: { source: string; sourceName: string },
+  source: SourceRef
+): boolean => {
+  return group.source === source.id || group.source === source.name || group.sourceName === source.name;
+};
+
+/**
+ * Load purchases, payments and the outstanding balance for every source
+ */
+export const loadSupplierPayables = async (): Promise<SupplierPayable[]> => {
+  const [sources, priced, unpriced, payments] = await Promise.all([
+    prisma.source.findMany({ orderBy: { name: 'asc' } }),
+    prisma.stock.groupBy({
+      by: ['source', 'sourceName'],
+      where: { amount: { not: null } },
+      _sum: { amount: true },
+    }),
+    prisma.stock.groupBy({
+      by: ['source', 'sourceName'],
+      where: { amount: null },
+      _sum: { quantity: true },
+    }),
+    prisma.supplierPayment.groupBy({
+      by: ['sourceId'],
+      _sum: { amount: true },
+    }),
+  ]);
+
+  const paidMap = new Map(payments.map((p) => [p.sourceId, p._sum.amount || 0]));
+
+  return sources.map((source) => {
+    const totalPurchases = priced
+      .filter((g) => matchesSource(g, source))
+      .reduce((acc, g) => acc + (g._sum.amount || 0), 0);
+    const unpricedQuantity = unpriced
+      .filter((g) => matchesSource(g, source))
+      .reduce((acc, g) => acc + (g._sum.quantity || 0), 0);
+    const totalPaid = paidMap.get(source.id) || 0;
+
+    return {
+      sourceId: source.id,
+      sourceName: source.name,
+      type: source.type,
+      totalPurchases,
+      totalPaid,
+      balance: totalPurchases - totalPaid,
+      unpricedQuantity,
+    };
+  });
+};
+
+/**
+ * Build a source's statement for a date range (YYYY-MM-DD, inclusive).
+ * The opening balance covers everything before the start date.
+ */
+export const buildSupplierStatement = async (
+  source: SourceRef,
+  startDate: string,
+  endDate: string
+): Promise<SupplierStatement> => {
+  const stockWhere = sourceStockWhere(source);
+
+  const [purchasesBefore, paidBefore, stock, payments] = await Promise.all([
+    prisma.stock.aggregate({
+      where: { ...stockWhere, date: { lt: startDate } },
+      _sum: { amount: true },
+    }),
+    prisma.supplierPayment.aggregate({
+      where: { sourceId: source.id, date: { lt: startDate } },
+      _sum: { amount: true },
+    }),
+    prisma.stock.findMany({
+      where: { ...stockWhere, date: { gte: startDate, lte: endDate } },
+      orderBy: [{ date: 'asc' }, { createdAt: 'asc' }],
+    }),
+    prisma.supplierPayment.findMany({
+      where: { sourceId: source.id, date: { gte: startDate, lte: endDate } },
+      orderBy: [{ date: 'asc' }, { createdAt: 'asc' }],
+    }),
+  ]);
+
+  const openingBalance = (purchasesBefore._sum.amount || 0) - (paidBefore._sum.amount || 0);
+
+  // Purchases come before payments on the same day
+  const lines: Omit<SupplierStatementEntry, 'balance'>[] = [
+    ...stock.map((s) => ({
+      date: s.date,
+      type: 'purchase' as const,
+      description: s.amount !== null
+        ? `${s.shift} collection (fat ${s.fat}%, SNF ${s.snf}%)`
+        : `${s.shift} collection (not priced)`,
+      quantity: s.quantity,
+      debit: s.amount || 0,
+      credit: 0,
+    })),
+    ...payments.map((p) => ({
+      date: p.date,
+      type: 'payment' as const,
+      paymentId: p.id,
+      description: ['Payment', p.method, p.remarks].filter(Boolean).join(' - '),
+      debit: 0,
+      credit: p.amount,
+    })),
+  ].sort((a, b) => a.date.localeCompare(b.date) || (a.type === b.type ? 0 : a.type === 'purchase' ? -1 : 1));
+
+  let balance = openingBalance;
+  const entries = lines.map((line) => {
+    balance += line.debit - line.credit;
+    return { ...line, balance };
+  });
+
+  const totalPurchases = entries.reduce((acc, e) => acc + e.debit, 0);
+  const totalPaid = entries.reduce((acc, e) => acc + e.credit, 0);
+
+  return {
+    sourceId: source.id,
+    sourceName: source.name,
+    startDate,
+    endDate,
+    openingBalance,
+    totalPurchases,
+    totalPaid,
+    closingBalance: openingBalance + totalPurchases - totalPaid,
+    entries,
+  };
+};
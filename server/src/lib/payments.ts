@@ -0,0 +1,478 @@
+/**
+ * Payment Allocation Helpers
+ *
+ * Applies customer payments to billing months. By default a payment settles
+ * the oldest outstanding months first; whatever is left over stays on the
+ * payment as credit and is applied as later months are billed. When a
+ * month's charges drop below what was allocated to it, the excess goes back
+ * to its payments as credit. Voided payments lose their allocations and
+ * count for nothing.
+ */
+
+import { Prisma } from '@prisma/client';
+import prisma from './prisma.js';
+import {
+  CreatePaymentDTO,
+  InvoiceStatus,
+  InvoiceType,
+  Payment,
+  PaymentAllocationInput,
+  PaymentSettlement,
+  PeriodBalance,
+} from '../types/index.js';
+import { loadProductPricing, resolveProductPrice } from './products.js';
+import { monthRange } from './billing.js';
+
+/**
+ * Amounts below this are treated as settled
+ */
+const EPSILON = 0.005;
+
+const roundAmount = (amount: number): number => Math.round(amount * 100) / 100;
+
+const periodKey = (month: number, year: number): string =>
+  `${year}-${String(month).padStart(2, '0')}`;
+
+/**
+ * Payment with the part of it not yet allocated
+ */
+export interface PaymentCredit {
+  paymentId: string;
+  remaining: number;
+}
+
+/**
+ * Allocation to be created
+ */
+export interface PendingAllocation extends PaymentAllocationInput {
+  paymentId: string;
+}
+
+/**
+ * Charges, allocations and outstanding amount of every month each customer
+ * has been billed for, oldest first, keyed by customer. Loads every customer
+ * when `customerIds` is omitted.
+ */
+export const loadPeriodBalancesByCustomer = async (
+  customerIds?: string[],
+  db: Prisma.TransactionClient = prisma
+): Promise<Map<string, PeriodBalance[]>> => {
+  const scope = customerIds ? { customerId: { in: customerIds } } : {};
+
+  const [customers, deliveries, notes, allocations, pricing] = await Promise.all([
+    db.customer.findMany({
+      where: customerIds ? { id: { in: customerIds } } : {},
+      select: { id: true, pricePerLiter: true },
+    }),
+    // Shifts of a day share its rate, so one row per customer, product and day
+    db.delivery.groupBy({
+      by: ['customerId', 'productId', 'date'],
+      where: { ...scope, delivered: true },
+      _sum: { actualAmount: true },
+    }),
+    db.invoice.findMany({
+      where: {
+        ...scope,
+        type: { in: [InvoiceType.CREDIT_NOTE, InvoiceType.DEBIT_NOTE] },
+        status: { in: [InvoiceStatus.ISSUED, InvoiceStatus.PAID] },
+      },
+      select: { customerId: true, type: true, month: true, year: true, totalAmount: true },
+    }),
+    db.paymentAllocation.groupBy({
+      by: ['customerId', 'month', 'year'],
+      where: scope,
+      _sum: { amount: true },
+    }),
+    loadProductPricing(customerIds, db),
+  ]);
+
+  const customerMap = new Map(customers.map((c) => [c.id, c]));
+  const periods = new Map<string, Map<string, PeriodBalance>>();
+  const periodFor = (customerId: string, month: number, year: number): PeriodBalance => {
+    const customerPeriods = periods.get(customerId) ?? new Map<string, PeriodBalance>();
+    periods.set(customerId, customerPeriods);
+    const key = periodKey(month, year);
+    const existing = customerPeriods.get(key);
+    if (existing) return existing;
+    const created = { month, year, charges: 0, allocated: 0, outstanding: 0 };
+    customerPeriods.set(key, created);
+    return created;
+  };
+
+  deliveries.forEach((d) => {
+    const customer = customerMap.get(d.customerId);
+    if (!customer) return;
+    const period = periodFor(d.customerId, parseInt(d.date.slice(5, 7), 10), parseInt(d.date.slice(0, 4), 10));
+    period.charges += (d._sum.actualAmount || 0) * resolveProductPrice(pricing, customer, d.productId, d.date);
+  });
+  notes.forEach((n) => {
+    periodFor(n.customerId, n.month, n.year).charges += n.type === InvoiceType.CREDIT_NOTE ? -n.totalAmount : n.totalAmount;
+  });
+  allocations.forEach((a) => {
+    periodFor(a.customerId, a.month, a.year).allocated += a._sum.amount || 0;
+  });
+
+  return new Map(Array.from(periods.entries()).map(([customerId, customerPeriods]) => [
+    customerId,
+    Array.from(customerPeriods.entries())
+      .sort((a, b) => a[0].localeCompare(b[0]))
+      .map(([, period]) => ({
+        ...period,
+        charges: roundAmount(period.charges),
+        allocated: roundAmount(period.allocated),
+        outstanding: roundAmount(period.charges - period.allocated),
+      })),
+  ]));
+};
+
+/**
+ * Charges, allocations and outstanding amount of every month a customer has
+ * been billed for, oldest first
+ */
+export const loadPeriodBalances = async (
+  customerId: string,
+  db: Prisma.TransactionClient = prisma
+): Promise<PeriodBalance[]> =>
+  (await loadPeriodBalancesByCustomer([customerId], db)).get(customerId) ?? [];
+
+/**
+ * Check manual allocations against the payment amount and what each month
+ * still owes. Returns an error message, or null if they are valid.
+ */
+export const validateManualAllocations = (
+  allocations: PaymentAllocationInput[],
+  amount: number,
+  balances: PeriodBalance[]
+): string | null => {
+  const seen = new Set<string>();
+  let total = 0;
+
+  for (const allocation of allocations) {
+    const { month, year } = allocation;
+    if (!(month >= 1 && month <= 12) || !Number.isInteger(year) || !(allocation.amount > 0)) {
+      return 'Each allocation needs a month, a year and a positive amount';
+    }
+
+    const key = periodKey(month, year);
+    if (seen.has(key)) {
+      return `${key} is allocated more than once`;
+    }
+    seen.add(key);
+
+    const outstanding = balances.find((b) => b.month === month && b.year === year)?.outstanding ?? 0;
+    if (allocation.amount > outstanding + EPSILON) {
+      return `Allocation to ${key} exceeds its outstanding amount of ${outstanding.toFixed(2)}`;
+    }
+    total += allocation.amount;
+  }
+
+  if (total > amount + EPSILON) {
+    return 'Allocations exceed the payment amount';
+  }
+  return null;
+};
+
+/**
+ * Spread payment credits over outstanding months, oldest payment to oldest
+ * month first
+ */
+export const resolveFifoAllocations = (
+  credits: PaymentCredit[],
+  balances: PeriodBalance[]
+): PendingAllocation[] => {
+  const open = balances
+    .filter((b) => b.outstanding > EPSILON)
+    .map((b) => ({ ...b }));
+  const allocations: PendingAllocation[] = [];
+
+  for (const credit of credits) {
+    let remaining = credit.remaining;
+    for (const period of open) {
+      if (remaining <= EPSILON) break;
+      if (period.outstanding <= EPSILON) continue;
+
+      const amount = roundAmount(Math.min(remaining, period.outstanding));
+      allocations.push({ paymentId: credit.paymentId, month: period.month, year: period.year, amount });
+      period.outstanding -= amount;
+      remaining -= amount;
+    }
+  }
+
+  return allocations;
+};
+
+/**
+ * Unallocated part of each customer's payments, oldest first, keyed by
+ * customer. Loads every customer when `customerIds` is omitted.
+ */
+export const loadPaymentCreditsByCustomer = async (
+  customerIds?: string[],
+  db: Prisma.TransactionClient = prisma
+): Promise<Map<string, PaymentCredit[]>> => {
+  const [payments, allocations] = await Promise.all([
+    db.payment.findMany({
+      where: { ...(customerIds && { customerId: { in: customerIds } }), voidedAt: null },
+      select: { id: true, customerId: true, amount: true },
+      orderBy: [{ date: 'asc' }, { createdAt: 'asc' }],
+    }),
+    db.paymentAllocation.groupBy({
+      by: ['paymentId'],
+      where: {
+        ...(customerIds && { customerId: { in: customerIds } }),
+        payment: { voidedAt: null },
+      },
+      _sum: { amount: true },
+    }),
+  ]);
+
+  const allocated = new Map(allocations.map((a) => [a.paymentId, a._sum.amount || 0]));
+  const credits = new Map<string, PaymentCredit[]>();
+  payments.forEach((p) => {
+    const remaining = roundAmount(p.amount - (allocated.get(p.id) ?? 0));
+    if (remaining <= EPSILON) return;
+    const list = credits.get(p.customerId) || [];
+    list.push({ paymentId: p.id, remaining });
+    credits.set(p.customerId, list);
+  });
+  return credits;
+};
+
+/**
+ * Unallocated part of each of a customer's payments, oldest first
+ */
+export const loadPaymentCredits = async (
+  customerId: string,
+  db: Prisma.TransactionClient = prisma
+): Promise<PaymentCredit[]> =>
+  (await loadPaymentCreditsByCustomer([customerId], db)).get(customerId) ?? [];
+
+/**
+ * Release what is allocated to a month beyond its charges back to the
+ * payments, newest payment first. Returns whether anything was released.
+ */
+const releaseExcessAllocations = async (
+  tx: Prisma.TransactionClient,
+  customerId: string,
+  balances: PeriodBalance[]
+): Promise<boolean> => {
+  const overpaid = balances.filter((b) => b.allocated - Math.max(0, b.charges) > EPSILON);
+  if (overpaid.length === 0) return false;
+
+  const allocations = await tx.paymentAllocation.findMany({
+    where: { customerId, OR: overpaid.map(({ month, year }) => ({ month, year })) },
+    orderBy: [{ payment: { date: 'desc' } }, { payment: { createdAt: 'desc' } }],
+  });
+
+  for (const period of overpaid) {
+    let excess = roundAmount(period.allocated - Math.max(0, period.charges));
+    for (const allocation of allocations) {
+      if (excess <= EPSILON) break;
+      if (allocation.month !== period.month || allocation.year !== period.year) continue;
+
+      if (allocation.amount <= excess + EPSILON) {
+        await tx.paymentAllocation.delete({ where: { id: allocation.id } });
+        excess = roundAmount(excess - allocation.amount);
+      } else {
+        await tx.paymentAllocation.update({
+          where: { id: allocation.id },
+          data: { amount: roundAmount(allocation.amount - excess) },
+        });
+        excess = 0;
+      }
+    }
+  }
+  return true;
+};
+
+/**
+ * Rebalance a customer's payments against their charges: release what
+ * months no longer owe, then apply the unallocated credit to outstanding
+ * months, oldest first. Must run inside the transaction that changed the
+ * payments or charges.
+ */
+export const settleCustomerCredit = async (
+  tx: Prisma.TransactionClient,
+  customerId: string
+): Promise<void> => {
+  let balances = await loadPeriodBalances(customerId, tx);
+  if (await releaseExcessAllocations(tx, customerId, balances)) {
+    balances = await loadPeriodBalances(customerId, tx);
+  }
+  const credits = await loadPaymentCredits(customerId, tx);
+
+  const allocations = resolveFifoAllocations(credits, balances);
+  if (allocations.length === 0) return;
+
+  await tx.paymentAllocation.createMany({
+    data: allocations.map((a) => ({ ...a, customerId })),
+  });
+};
+
+/**
+ * Rebalance the payments of the given customers (or every customer). Run
+ * inside the transaction that changed charges, e.g. new, changed or removed
+ * deliveries, a note or a new rate, so credit is applied to what is owed
+ * and not left on months that no longer owe it. Customers without payments
+ * are skipped.
+ */
+export const settleCreditForCustomers = async (
+  tx: Prisma.TransactionClient,
+  customerIds?: string[]
+): Promise<void> => {
+  if (customerIds?.length === 0) return;
+
+  const payments = await tx.payment.findMany({
+    where: { voidedAt: null, ...(customerIds && { customerId: { in: customerIds } }) },
+    select: { customerId: true },
+    distinct: ['customerId'],
+  });
+
+  for (const { customerId } of payments) {
+    await settleCustomerCredit(tx, customerId);
+  }
+};
+
+/**
+ * Payments allocated to a month, and the credit (unallocated overpayment)
+ * received by the end of it
+ */
+export const loadPaymentSettlement = async (
+  customerId: string,
+  month: number,
+  year: number,
+  db: Prisma.TransactionClient = prisma
+): Promise<{ paidAmount: number; credit: number; settlements: PaymentSettlement[] }> => {
+  const { endDate } = monthRange(month, year);
+
+  const [allocations, payments] = await Promise.all([
+    db.paymentAllocation.findMany({
+      where: { customerId, month, year },
+      include: { payment: true },
+      orderBy: { payment: { date: 'asc' } },
+    }),
+    db.payment.findMany({
+      where: { customerId, date: { lte: endDate }, voidedAt: null },
+      include: { allocations: { select: { amount: true } } },
+    }),
+  ]);
+
+  const settlements: PaymentSettlement[] = allocations.map((a) => ({
+    paymentId: a.paymentId,
+    date: a.payment.date,
+    amount: a.amount,
+    paymentAmount: a.payment.amount,
+    remarks: a.payment.remarks,
+  }));
+
+  const credit = payments.reduce(
+    (acc, p) => acc + Math.max(0, p.amount - p.allocations.reduce((sum, a) => sum + a.amount, 0)),
+    0
+  );
+
+  return {
+    paidAmount: roundAmount(settlements.reduce((acc, s) => acc + s.amount, 0)),
+    credit: roundAmount(credit),
+    settlements,
+  };
+};
+
+/**
+ * Postgres advisory lock keys for the document number sequences
+ */
+const NUMBERING_LOCKS = {
+  receipt: 1,
+  invoice: 2,
+} as const;
+
+/**
+ * Hold a sequence's numbering lock until the transaction ends. Documents
+ * numbered concurrently then read the last number one after the other,
+ * instead of both taking the same next number and failing on the unique
+ * sequence.
+ */
+export const lockNumbering = async (
+  tx: Prisma.TransactionClient,
+  sequence: keyof typeof NUMBERING_LOCKS
+): Promise<void> => {
+  await tx.$executeRaw`SELECT pg_advisory_xact_lock(${NUMBERING_LOCKS[sequence]}::bigint)`;
+};
+
+/**
+ * Assign the next receipt number. Must run inside the transaction that
+ * records the payment, which holds the receipt numbering lock until it commits.
+ */
+export const allocateReceiptNumber = async (
+  tx: Prisma.TransactionClient
+): Promise<{ receiptSequence: number; receiptNumber: string }> => {
+  await lockNumbering(tx, 'receipt');
+  const [settings, last] = await Promise.all([
+    tx.settings.findUnique({ where: { id: 1 } }),
+    tx.payment.aggregate({ _max: { receiptSequence: true } }),
+  ]);
+
+  const receiptSequence = (last._max.receiptSequence || 0) + 1;
+  return {
+    receiptSequence,
+    receiptNumber: `${settings?.receiptPrefix ?? 'RCT-'}${String(receiptSequence).padStart(5, '0')}`,
+  };
+};
+
+/**
+ * Record a payment with its manual allocations, then settle the customer's
+ * credit oldest-first. Allocations must already be validated.
+ */
+export const createAllocatedPayment = async (
+  tx: Prisma.TransactionClient,
+  data: CreatePaymentDTO,
+  replacesId?: string
+): Promise<PaymentRow> => {
+  const receipt = await allocateReceiptNumber(tx);
+  const created = await tx.payment.create({
+    data: {
+      ...receipt,
+      customerId: data.customerId,
+      amount: data.amount,
+      date: data.date,
+      month: data.month || parseInt(data.date.slice(5, 7), 10),
+      year: data.year || parseInt(data.date.slice(0, 4), 10),
+      method: data.method || null,
+      remarks: data.remarks,
+      replacesId,
+      allocations: {
+        create: (data.allocations || []).map((a) => ({
+          month: a.month,
+          year: a.year,
+          amount: a.amount,
+          customerId: data.customerId,
+        })),
+      },
+    },
+  });
+
+  await settleCustomerCredit(tx, data.customerId);
+
+  return tx.payment.findUniqueOrThrow({ where: { id: created.id }, include: PAYMENT_INCLUDE });
+};
+
+/**
+ * Relations loaded with a payment
+ */
+export const PAYMENT_INCLUDE = {
+  customer: { select: { name: true } },
+  allocations: { orderBy: [{ year: 'asc' as const }, { month: 'asc' as const }] },
+};
+
+export type PaymentRow = Prisma.PaymentGetPayload<{ include: typeof PAYMENT_INCLUDE }>;
+
+/**
+ * Convert a stored payment to its API shape
+ */
+export const toPayment = (row: PaymentRow): Payment => {
+  const { customer, ...rest } = row;
+  const allocated = row.allocations.reduce((acc, a) => acc + a.amount, 0);
+  return {
+    ...rest,
+    customerName: customer.name,
+    unallocated: row.voidedAt ? 0 : roundAmount(Math.max(0, row.amount - allocated)),
+  };
+};
@@ -0,0 +1,99 @@
+/**
+ * Customer Portal
+ *
+ * Builds the read-only view a customer sees through their signed portal
+ * link: this month's deliveries and bill, earlier bills, recent payments
+ * and what they owe. Only the customer's own figures are included.
+ */
+
+import prisma from './prisma.js';
+import { CustomerPortalView, InvoiceType, Settings } from '../types/index.js';
+import { monthRange } from './billing.js';
+import { loadCustomerBilling } from './billingSummary.js';
+import { loadCustomerDeliveries } from './deliveries.js';
+import { LOCKING_STATUSES } from './invoices.js';
+import { loadPeriodBalances } from './payments.js';
+
+/**
+ * Number of earlier months and payments shown
+ */
+const HISTORY_LIMIT = 12;
+
+/**
+ * Portal view of a customer, or null if the customer no longer exists, has
+ * been deactivated or has had links of this token version revoked
+ */
+export const buildPortalView = async (
+  customerId: string,
+  tokenVersion: number,
+  settings: Omit<Settings, 'id'>,
+  expiresAt: Date
+): Promise<CustomerPortalView | null> => {
+  const customer = await prisma.customer.findUnique({ where: { id: customerId } });
+  if (!customer || !customer.isActive || customer.portalTokenVersion !== tokenVersion) return null;
+
+  const today = new Date().toISOString().slice(0, 10);
+  const month = parseInt(today.slice(5, 7), 10);
+  const year = parseInt(today.slice(0, 4), 10);
+  const { startDate } = monthRange(month, year);
+
+  const [current, deliveries, balances, invoices, payments] = await Promise.all([
+    loadCustomerBilling(customer, month, year),
+    loadCustomerDeliveries(customerId, startDate, today),
+    loadPeriodBalances(customerId),
+    prisma.invoice.findMany({
+      where: { customerId, type: InvoiceType.INVOICE, status: { in: LOCKING_STATUSES } },
+      select: { month: true, year: true, number: true },
+    }),
+    prisma.payment.findMany({
+      where: { customerId, voidedAt: null },
+      orderBy: [{ date: 'desc' }, { receiptSequence: 'desc' }],
+      take: HISTORY_LIMIT,
+    }),
+  ]);
+
+  const products = await prisma.product.findMany({
+    where: { id: { in: Array.from(new Set(deliveries.map((d) => d.productId))) } },
+    select: { id: true, name: true, unit: true },
+  });
+  const productMap = new Map(products.map((p) => [p.id, p]));
+
+  return {
+    business: {
+      businessName: settings.businessName,
+      businessPhone: settings.businessPhone,
+      currency: settings.currency,
+      currencySymbol: settings.currencySymbol,
+      paymentTerms: settings.paymentTerms,
+    },
+    current,
+    deliveries: deliveries.map((d) => ({
+      date: d.date,
+      shift: d.shift,
+      productName: productMap.get(d.productId)?.name ?? d.productId,
+      unit: productMap.get(d.productId)?.unit ?? '',
+      quantity: d.actualAmount,
+      delivered: d.delivered,
+    })),
+    bills: balances
+      .filter((b) => b.year < year || (b.year === year && b.month < month))
+      .reverse()
+      .slice(0, HISTORY_LIMIT)
+      .map((b) => ({
+        month: b.month,
+        year: b.year,
+        invoiceNumber: invoices.find((i) => i.month === b.month && i.year === b.year)?.number ?? null,
+        charges: b.charges,
+        paid: b.allocated,
+        outstanding: b.outstanding,
+      })),
+    payments: payments.map((p) => ({
+      receiptNumber: p.receiptNumber,
+      date: p.date,
+      amount: p.amount,
+      method: p.method,
+    })),
+    outstanding: current.totalDue,
+    expiresAt,
+  };
+};
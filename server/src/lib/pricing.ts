@@ -0,0 +1,101 @@
+/**
+ * Customer Pricing Helpers
+ *
+ * Resolves the price per liter that applied to a customer on a given date
+ * from their effective-dated rate history.
+ */
+
+import { Prisma } from '@prisma/client';
+import prisma from './prisma.js';
+
+/**
+ * A single rate period from a customer's price history
+ */
+export interface PriceHistoryEntry {
+  pricePerLiter: number;
+  effectiveFrom: string;
+}
+
+/**
+ * Price history grouped by customer ID, each list sorted by effectiveFrom
+ */
+export type PriceHistoryMap = Map<string, PriceHistoryEntry[]>;
+
+/**
+ * Load price history for the given customers (or all customers)
+ */
+export const loadPriceHistory = async (
+  customerIds?: string[],
+  db: Prisma.TransactionClient = prisma
+): Promise<PriceHistoryMap> => {
+  const rows = await db.customerPrice.findMany({
+    where: customerIds ? { customerId: { in: customerIds } } : undefined,
+    orderBy: { effectiveFrom: 'asc' },
+  });
+
+  const historyMap: PriceHistoryMap = new Map();
+  rows.forEach((row) => {
+    const list = historyMap.get(row.customerId) || [];
+    list.push({ pricePerLiter: row.pricePerLiter, effectiveFrom: row.effectiveFrom });
+    historyMap.set(row.customerId, list);
+  });
+
+  return historyMap;
+};
+
+/**
+ * The period of a history sorted by effectiveFrom that a date (YYYY-MM-DD)
+ * falls in, or undefined for a date before the first period
+ */
+export const periodInEffect = <T extends { effectiveFrom: string }>(
+  history: T[] | undefined,
+  date: string
+): T | undefined => {
+  let current: T | undefined;
+  for (const entry of history ?? []) {
+    if (entry.effectiveFrom > date) break;
+    current = entry;
+  }
+  return current;
+};
+
+/**
+ * Resolve the rate in effect on a date (YYYY-MM-DD).
+ * Dates before the first recorded period use the opening rate;
+ * customers without any history fall back to the given price.
+ */
+export const resolvePrice = (
+  history: PriceHistoryEntry[] | undefined,
+  date: string,
+  fallback: number
+): number => {
+  if (!history || history.length === 0) return fallback;
+  return (periodInEffect(history, date) ?? history[0]).pricePerLiter;
+};
+
+/**
+ * Record a new rate period for a customer and keep `Customer.pricePerLiter`
+ * in sync with the rate that applies today.
+ */
+export const recordPriceChange = async (
+  tx: Prisma.TransactionClient,
+  customerId: string,
+  pricePerLiter: number,
+  effectiveFrom: string
+): Promise<number> => {
+  await tx.customerPrice.upsert({
+    where: {
+      customerId_effectiveFrom: { customerId, effectiveFrom },
+    },
+    update: { pricePerLiter },
+    create: { customerId, pricePerLiter, effectiveFrom },
+  });
+
+  const history = await tx.customerPrice.findMany({
+    where: { customerId },
+    orderBy: { effectiveFrom: 'asc' },
+  });
+
+  const today = new Date().toISOString().split('T')[0];
+  return resolvePrice(history, today, pricePerLiter);
+};
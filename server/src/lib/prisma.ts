@@ -1,5 +1,10 @@
 import { PrismaClient } from '@prisma/client';
+import { auditExtension, trackTransactions } from './audit.js';
 
-const prisma = new PrismaClient();
+const client = new PrismaClient();
+
+// The audit extension only observes queries, so the client keeps the plain
+// PrismaClient API and transactions stay Prisma.TransactionClient
+const prisma = trackTransactions(client.$extends(auditExtension(client))) as unknown as PrismaClient;
 
 export default prisma;
@@ -0,0 +1,95 @@
+/**
+ * Procurement Pricing Helpers
+ *
+ * Resolves the purchase rate of a stock collection from its fat and SNF %
+ * using the source's rate chart, either a fat × SNF grid or a linear formula.
+ */
+
+import prisma from './prisma.js';
+import { RateChartType, RateGrid } from '../types/index.js';
+
+/**
+ * The parts of a rate chart needed to price a reading
+ */
+export interface RateChartRule {
+  type: string;
+  grid: RateGrid | null;
+  baseRate: number;
+  fatRate: number;
+  snfRate: number;
+}
+
+/**
+ * Whether a list of steps is non-empty, numeric and strictly ascending
+ */
+const isAscending = (steps: unknown): steps is number[] => {
+  return Array.isArray(steps) && steps.length > 0 &&
+    steps.every((step, i) => typeof step === 'number' && (i === 0 || step > steps[i - 1]));
+};
+
+/**
+ * Check that a grid has ascending steps and one non-negative rate per fat/SNF pair
+ */
+export const isValidRateGrid = (grid: unknown): grid is RateGrid => {
+  if (!grid || typeof grid !== 'object') return false;
+  const { fatSteps, snfSteps, rates } = grid as RateGrid;
+  if (!isAscending(fatSteps) || !isAscending(snfSteps) || !Array.isArray(rates)) return false;
+
+  return rates.length === fatSteps.length && rates.every((row) =>
+    Array.isArray(row) && row.length === snfSteps.length &&
+    row.every((rate) => typeof rate === 'number' && rate >= 0)
+  );
+};
+
+/**
+ * Index of the highest step at or below the value, or -1 if below all steps
+ */
+const findStep = (steps: number[], value: number): number => {
+  let index = -1;
+  steps.forEach((step, i) => {
+    if (step <= value) index = i;
+  });
+  return index;
+};
+
+/**
+ * Load the rate chart of a source, if it has one
+ */
+export const loadRateChart = async (
+  sourceId: string
+): Promise<RateChartRule | undefined> => {
+  const chart = await prisma.sourceRateChart.findUnique({ where: { sourceId } });
+  if (!chart) return undefined;
+
+  return {
+    type: chart.type,
+    grid: chart.grid as RateGrid | null,
+    baseRate: chart.baseRate,
+    fatRate: chart.fatRate,
+    snfRate: chart.snfRate,
+  };
+};
+
+/**
+ * Resolve the price per unit for a fat and SNF reading.
+ * Returns null when there is no chart or the reading is below the grid's
+ * lowest fat or SNF step.
+ */
+export const resolveProcurementRate = (
+  chart: RateChartRule | undefined,
+  fat: number,
+  snf: number
+): number | null => {
+  if (!chart) return null;
+
+  if (chart.type === RateChartType.FORMULA) {
+    return Math.max(0, chart.baseRate + chart.fatRate * fat + chart.snfRate * snf);
+  }
+
+  if (!chart.grid) return null;
+  const fatIndex = findStep(chart.grid.fatSteps, fat);
+  const snfIndex = findStep(chart.grid.snfSteps, snf);
+  if (fatIndex < 0 || snfIndex < 0) return null;
+
+  return chart.grid.rates[fatIndex][snfIndex];
+};
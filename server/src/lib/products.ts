@@ -0,0 +1,304 @@
+/**
+ * Product Helpers
+ *
+ * Resolves per-product quotas and prices. The default milk product keeps
+ * using the quotas, quota schedule and price history stored on Customer;
+ * other products use the customer's CustomerProduct quotas and are priced
+ * from dated history: the customer's own price for the product where one
+ * applies, else the product's default price on the delivery date.
+ */
+
+import { Prisma } from '@prisma/client';
+import prisma from './prisma.js';
+import { loadPriceHistory, periodInEffect, resolvePrice, PriceHistoryMap } from './pricing.js';
+import { isMorningShift, loadQuotaSchedules, resolveQuota, QuotaScheduleRule } from './quota.js';
+
+/**
+ * ID of the product that existing deliveries and stock belong to
+ */
+export const DEFAULT_PRODUCT_ID = 'milk';
+
+/**
+ * Product fields needed for billing
+ */
+export interface ProductInfo {
+  id: string;
+  name: string;
+  unit: string;
+  defaultPrice: number;
+}
+
+/**
+ * A customer's quotas for a non-default product
+ */
+export interface CustomerProductEntry {
+  morningQuota: number;
+  eveningQuota: number;
+}
+
+/**
+ * Customer product entries keyed by customer ID, then product ID
+ */
+export type CustomerProductMap = Map<string, Map<string, CustomerProductEntry>>;
+
+/**
+ * A price period of a product, or of a customer's own price for one; a null
+ * customer price means the product's default price applies
+ */
+export interface ProductPriceEntry<P = number> {
+  price: P;
+  effectiveFrom: string;
+}
+
+/**
+ * Default price history keyed by product ID, each list sorted by effectiveFrom
+ */
+export type ProductPriceMap = Map<string, ProductPriceEntry[]>;
+
+/**
+ * Customers' own price history keyed by customer ID, then product ID
+ */
+export type CustomerProductPriceMap = Map<string, Map<string, ProductPriceEntry<number | null>[]>>;
+
+/**
+ * Everything needed to price deliveries of any product
+ */
+export interface ProductPricing {
+  products: Map<string, ProductInfo>;
+  priceHistory: PriceHistoryMap;
+  customerProducts: CustomerProductMap;
+  productPrices: ProductPriceMap;
+  customerProductPrices: CustomerProductPriceMap;
+}
+
+/**
+ * Customer fields used for the default product
+ */
+interface CustomerBase {
+  id: string;
+  morningQuota: number;
+  eveningQuota: number;
+  pricePerLiter: number;
+}
+
+/**
+ * Load customer product entries for the given customers (or all customers)
+ */
+export const loadCustomerProducts = async (
+  customerIds?: string[],
+  db: Prisma.TransactionClient = prisma
+): Promise<CustomerProductMap> => {
+  const rows = await db.customerProduct.findMany({
+    where: customerIds ? { customerId: { in: customerIds } } : undefined,
+  });
+
+  const map: CustomerProductMap = new Map();
+  rows.forEach((row) => {
+    const entries = map.get(row.customerId) || new Map<string, CustomerProductEntry>();
+    entries.set(row.productId, {
+      morningQuota: row.morningQuota,
+      eveningQuota: row.eveningQuota,
+    });
+    map.set(row.customerId, entries);
+  });
+
+  return map;
+};
+
+/**
+ * Load the default price history of the given products (or all products)
+ */
+export const loadProductPrices = async (
+  productIds?: string[],
+  db: Prisma.TransactionClient = prisma
+): Promise<ProductPriceMap> => {
+  const rows = await db.productPrice.findMany({
+    where: productIds ? { productId: { in: productIds } } : undefined,
+    orderBy: { effectiveFrom: 'asc' },
+  });
+
+  const map: ProductPriceMap = new Map();
+  rows.forEach((row) => {
+    const list = map.get(row.productId) || [];
+    list.push({ price: row.price, effectiveFrom: row.effectiveFrom });
+    map.set(row.productId, list);
+  });
+
+  return map;
+};
+
+/**
+ * Load the own product price history of the given customers (or all customers)
+ */
+export const loadCustomerProductPrices = async (
+  customerIds?: string[],
+  db: Prisma.TransactionClient = prisma
+): Promise<CustomerProductPriceMap> => {
+  const rows = await db.customerProductPrice.findMany({
+    where: customerIds ? { customerId: { in: customerIds } } : undefined,
+    orderBy: { effectiveFrom: 'asc' },
+  });
+
+  const map: CustomerProductPriceMap = new Map();
+  rows.forEach((row) => {
+    const byProduct = map.get(row.customerId) || new Map<string, ProductPriceEntry<number | null>[]>();
+    const list = byProduct.get(row.productId) || [];
+    list.push({ price: row.price, effectiveFrom: row.effectiveFrom });
+    byProduct.set(row.productId, list);
+    map.set(row.customerId, byProduct);
+  });
+
+  return map;
+};
+
+/**
+ * Load products, price history and customer product entries in one go
+ */
+export const loadProductPricing = async (
+  customerIds?: string[],
+  db: Prisma.TransactionClient = prisma
+): Promise<ProductPricing> => {
+  const [products, priceHistory, customerProducts, productPrices, customerProductPrices] = await Promise.all([
+    db.product.findMany(),
+    loadPriceHistory(customerIds, db),
+    loadCustomerProducts(customerIds, db),
+    loadProductPrices(undefined, db),
+    loadCustomerProductPrices(customerIds, db),
+  ]);
+
+  return {
+    products: new Map(products.map((p) => [p.id, p])),
+    priceHistory,
+    customerProducts,
+    productPrices,
+    customerProductPrices,
+  };
+};
+
+/**
+ * Default price of a product on a date. Dates before the first recorded
+ * period use the opening price; products without history use `fallback`.
+ */
+export const resolveDefaultPrice = (
+  history: ProductPriceEntry[] | undefined,
+  date: string,
+  fallback: number
+): number => {
+  if (!history || history.length === 0) return fallback;
+  return (periodInEffect(history, date) ?? history[0]).price;
+};
+
+/**
+ * A customer's own price for a product on a date, or null when the
+ * product's default price applies
+ */
+export const resolveOwnPrice = (
+  history: ProductPriceEntry<number | null>[] | undefined,
+  date: string
+): number | null => periodInEffect(history, date)?.price ?? null;
+
+/**
+ * Record a new default price period for a product. Returns the price that
+ * applies today, to keep `Product.defaultPrice` in sync.
+ */
+export const recordProductPriceChange = async (
+  tx: Prisma.TransactionClient,
+  productId: string,
+  price: number,
+  effectiveFrom: string
+): Promise<number> => {
+  await tx.productPrice.upsert({
+    where: { productId_effectiveFrom: { productId, effectiveFrom } },
+    update: { price },
+    create: { productId, price, effectiveFrom },
+  });
+
+  const history = (await loadProductPrices([productId], tx)).get(productId);
+  return resolveDefaultPrice(history, new Date().toISOString().split('T')[0], price);
+};
+
+/**
+ * Record a new period of a customer's own price for a product (null: back
+ * to the default price). Returns the own price that applies today, to keep
+ * `CustomerProduct.price` in sync.
+ */
+export const recordCustomerProductPriceChange = async (
+  tx: Prisma.TransactionClient,
+  customerId: string,
+  productId: string,
+  price: number | null,
+  effectiveFrom: string
+): Promise<number | null> => {
+  await tx.customerProductPrice.upsert({
+    where: { customerId_productId_effectiveFrom: { customerId, productId, effectiveFrom } },
+    update: { price },
+    create: { customerId, productId, price, effectiveFrom },
+  });
+
+  const history = (await loadCustomerProductPrices([customerId], tx)).get(customerId)?.get(productId);
+  return resolveOwnPrice(history, new Date().toISOString().split('T')[0]);
+};
+
+/**
+ * Resolve the price per unit of a product for a customer on a date
+ */
+export const resolveProductPrice = (
+  pricing: ProductPricing,
+  customer: Pick<CustomerBase, 'id' | 'pricePerLiter'>,
+  productId: string,
+  date: string
+): number => {
+  if (productId === DEFAULT_PRODUCT_ID) {
+    return resolvePrice(pricing.priceHistory.get(customer.id), date, customer.pricePerLiter);
+  }
+
+  return resolveOwnPrice(pricing.customerProductPrices.get(customer.id)?.get(productId), date)
+    ?? resolveDefaultPrice(pricing.productPrices.get(productId), date, pricing.products.get(productId)?.defaultPrice ?? 0);
+};
+
+/**
+ * Resolve a customer's scheduled quantity of a product for a date and shift
+ */
+export const resolveProductQuota = (
+  customer: CustomerBase,
+  entry: CustomerProductEntry | undefined,
+  schedule: QuotaScheduleRule | undefined,
+  productId: string,
+  date: string,
+  shift: string
+): number => {
+  if (productId === DEFAULT_PRODUCT_ID) {
+    return resolveQuota(customer, schedule, date, shift);
+  }
+
+  if (!entry) return 0;
+  return isMorningShift(shift) ? entry.morningQuota : entry.eveningQuota;
+};
+
+/**
+ * Resolves scheduled quantities of one product for a set of customers
+ */
+export type QuotaResolver = (customer: CustomerBase, date: string, shift: string) => number;
+
+/**
+ * Load the schedules and product entries for the given customers and
+ * return a resolver for the product's scheduled quantities
+ */
+export const loadQuotaResolver = async (
+  customerIds: string[],
+  productId: string
+): Promise<QuotaResolver> => {
+  const [schedules, customerProducts] = await Promise.all([
+    loadQuotaSchedules(customerIds),
+    loadCustomerProducts(customerIds),
+  ]);
+
+  return (customer, date, shift) => resolveProductQuota(
+    customer,
+    customerProducts.get(customer.id)?.get(productId),
+    schedules.get(customer.id),
+    productId,
+    date,
+    shift
+  );
+};
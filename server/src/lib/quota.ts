@@ -0,0 +1,96 @@
+/**
+ * Quota Schedule Helpers
+ *
+ * Resolves how much milk a customer is scheduled to receive on a given
+ * date and shift from their base quotas and optional quota schedule
+ * (per-weekday quantities and every-N-days recurrence).
+ */
+
+import prisma from './prisma.js';
+import { Shift, WeekdayQuotas } from '../types/index.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * The parts of a quota schedule needed to resolve a date
+ */
+export interface QuotaScheduleRule {
+  weekdayQuotas: WeekdayQuotas | null;
+  intervalDays: number;
+  startDate: string;
+}
+
+/**
+ * Quota schedules keyed by customer ID
+ */
+export type QuotaScheduleMap = Map<string, QuotaScheduleRule>;
+
+/**
+ * Customer fields used as the base quota
+ */
+interface BaseQuota {
+  morningQuota: number;
+  eveningQuota: number;
+}
+
+/**
+ * Whether a shift value means the morning shift (case-insensitive,
+ * since older clients send 'MORNING')
+ */
+export const isMorningShift = (shift: string): boolean => {
+  return shift.toLowerCase() === Shift.MORNING;
+};
+
+/**
+ * Parse a YYYY-MM-DD date as a UTC midnight timestamp
+ */
+const toUtcTime = (date: string): number => Date.parse(`${date}T00:00:00Z`);
+
+/**
+ * Load quota schedules for the given customers (or all customers)
+ */
+export const loadQuotaSchedules = async (
+  customerIds?: string[]
+): Promise<QuotaScheduleMap> => {
+  const rows = await prisma.quotaSchedule.findMany({
+    where: customerIds ? { customerId: { in: customerIds } } : undefined,
+  });
+
+  return new Map(
+    rows.map((row) => [
+      row.customerId,
+      {
+        weekdayQuotas: row.weekdayQuotas as WeekdayQuotas | null,
+        intervalDays: row.intervalDays,
+        startDate: row.startDate,
+      },
+    ])
+  );
+};
+
+/**
+ * Resolve the scheduled quantity for a date (YYYY-MM-DD) and shift.
+ * Off days of an every-N-days schedule (and days before its start) are 0;
+ * otherwise the weekday's quantity applies, falling back to the base quota.
+ */
+export const resolveQuota = (
+  customer: BaseQuota,
+  schedule: QuotaScheduleRule | undefined,
+  date: string,
+  shift: string
+): number => {
+  const morning = isMorningShift(shift);
+  const baseQuota = morning ? customer.morningQuota : customer.eveningQuota;
+  if (!schedule) return baseQuota;
+
+  if (schedule.intervalDays > 1) {
+    const daysSinceStart = Math.round((toUtcTime(date) - toUtcTime(schedule.startDate)) / DAY_MS);
+    if (daysSinceStart < 0 || daysSinceStart % schedule.intervalDays !== 0) return 0;
+  }
+
+  const weekday = new Date(toUtcTime(date)).getUTCDay();
+  const dayQuota = schedule.weekdayQuotas?.[weekday];
+  if (!dayQuota) return baseQuota;
+
+  return (morning ? dayQuota.morning : dayQuota.evening) ?? baseQuota;
+};
@@ -0,0 +1,100 @@
+/**
+ * Payment Receipt Rendering
+ *
+ * Lays out a customer payment receipt as a PDF: business details, the
+ * amount received and the billing months it was applied to. Voided
+ * receipts are stamped VOID.
+ */
+
+import PDFDocument from 'pdfkit';
+import { Payment, Settings } from '../types/index.js';
+import { currencyFormatter } from './invoicePdf.js';
+
+const PAGE_MARGIN = 50;
+const ACCENT = '#1a73e8';
+const MUTED = '#666666';
+
+const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+
+/**
+ * Render a receipt. The caller pipes the document and calls `end()`.
+ */
+export const renderReceiptPdf = (
+  payment: Payment,
+  customer: { name: string; address: string },
+  settings: Omit<Settings, 'id'>,
+  replacesReceipt?: string | null
+): PDFKit.PDFDocument => {
+  const doc = new PDFDocument({ size: 'A5', margin: PAGE_MARGIN });
+  const formatAmount = currencyFormatter(settings);
+  const contentWidth = doc.page.width - PAGE_MARGIN * 2;
+
+  doc.info.Title = `Receipt ${payment.receiptNumber}`;
+  doc.info.Author = settings.businessName;
+
+  doc.font('Helvetica-Bold').fontSize(20).fillColor(ACCENT).text('PAYMENT RECEIPT', PAGE_MARGIN);
+  doc.font('Helvetica-Bold').fontSize(11).fillColor('#333333').text(`No. ${payment.receiptNumber}`);
+  doc.font('Helvetica').fontSize(10).fillColor(MUTED).text(`Date: ${payment.date}`);
+  doc.moveDown(0.8);
+  doc.font('Helvetica-Bold').fillColor('#333333').text(settings.businessName);
+  doc.font('Helvetica').fillColor(MUTED).text(settings.businessAddress).text(`Phone: ${settings.businessPhone}`);
+  doc.moveDown(1);
+
+  doc.font('Helvetica-Bold').fontSize(9).fillColor('#888888').text('RECEIVED FROM', { characterSpacing: 1 });
+  doc.font('Helvetica-Bold').fontSize(12).fillColor('#333333').text(customer.name);
+  doc.font('Helvetica').fontSize(10).fillColor(MUTED).text(customer.address);
+  doc.moveDown(1);
+
+  const boxY = doc.y;
+  doc.roundedRect(PAGE_MARGIN, boxY, contentWidth, 40, 6).fill(ACCENT);
+  doc.font('Helvetica-Bold').fontSize(13).fillColor('#ffffff').text('Amount Received', PAGE_MARGIN + 12, boxY + 13);
+  doc.fontSize(15).text(formatAmount(payment.amount), PAGE_MARGIN, boxY + 12, { width: contentWidth - 12, align: 'right' });
+  doc.y = boxY + 40 + 14;
+
+  doc.font('Helvetica').fontSize(10).fillColor('#333333');
+  if (payment.method) {
+    doc.text(`Method: ${payment.method.toUpperCase()}`, PAGE_MARGIN);
+  }
+  if (payment.remarks) {
+    doc.text(`Remarks: ${payment.remarks}`, PAGE_MARGIN);
+  }
+  if (replacesReceipt) {
+    doc.text(`Replaces receipt ${replacesReceipt}`, PAGE_MARGIN);
+  }
+  doc.moveDown(0.8);
+
+  doc.font('Helvetica-Bold').fontSize(11).text('Applied To', PAGE_MARGIN);
+  doc.moveDown(0.4);
+  doc.font('Helvetica').fontSize(10);
+  (payment.allocations || []).forEach((allocation) => {
+    const y = doc.y;
+    doc.fillColor(MUTED).text(`${MONTH_NAMES[allocation.month - 1]} ${allocation.year}`, PAGE_MARGIN, y);
+    doc.fillColor('#333333').text(formatAmount(allocation.amount), PAGE_MARGIN, y, { width: contentWidth, align: 'right' });
+  });
+  if (payment.unallocated && payment.unallocated > 0) {
+    const y = doc.y;
+    doc.fillColor(MUTED).text('Credit carried forward', PAGE_MARGIN, y);
+    doc.fillColor('#333333').text(formatAmount(payment.unallocated), PAGE_MARGIN, y, { width: contentWidth, align: 'right' });
+  }
+
+  if (payment.voidedAt) {
+    doc.moveDown(1);
+    doc.font('Helvetica-Bold').fontSize(28).fillColor('#d93025')
+      .text('VOID', PAGE_MARGIN, doc.y, { width: contentWidth, align: 'center' });
+    if (payment.voidReason) {
+      doc.font('Helvetica').fontSize(10).text(payment.voidReason, { width: contentWidth, align: 'center' });
+    }
+  }
+
+  doc.moveDown(2);
+  doc.font('Helvetica').fontSize(8).fillColor('#aaaaaa')
+    .text(`Generated on ${new Date().toISOString().slice(0, 16).replace('T', ' ')} UTC`, PAGE_MARGIN, doc.y, {
+      width: contentWidth,
+      align: 'center',
+    });
+
+  return doc;
+};
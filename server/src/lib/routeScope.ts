@@ -0,0 +1,85 @@
+/**
+ * Delivery route scoping
+ *
+ * Works out which customers a delivery request covers: the stops of one
+ * route, the routes assigned to a delivery agent, or every active customer.
+ */
+
+import { Customer } from '@prisma/client';
+import prisma from './prisma.js';
+import { AuthUser, UserRole } from '../types/index.js';
+
+export interface RouteScope {
+  /** Active customers covered by the request, in delivery order */
+  customers: Customer[];
+  /** False when the request covers every active customer */
+  restricted: boolean;
+}
+
+export type RouteScopeResult =
+  | { scope: RouteScope }
+  | { status: number; error: string };
+
+/**
+ * Resolve the customers for a delivery request.
+ *
+ * - With a routeId: that route's stops in sequence order. Delivery staff
+ *   may only open routes assigned to them.
+ * - Without one, delivery staff get the stops of all their active routes;
+ *   owners and accountants get every active customer sorted by name.
+ */
+export const resolveRouteScope = async (
+  user: AuthUser | undefined,
+  routeId?: string
+): Promise<RouteScopeResult> => {
+  const isAgent = user?.role === UserRole.DELIVERY;
+
+  if (routeId) {
+    const route = await prisma.deliveryRoute.findUnique({
+      where: { id: routeId },
+      include: {
+        stops: { include: { customer: true }, orderBy: { sequence: 'asc' } },
+      },
+    });
+
+    if (!route) {
+      return { status: 404, error: 'Route not found' };
+    }
+    if (isAgent && route.agentId !== user?.id) {
+      return { status: 403, error: 'This route is not assigned to you' };
+    }
+
+    return {
+      scope: {
+        customers: route.stops.map((stop) => stop.customer).filter((c) => c.isActive),
+        restricted: true,
+      },
+    };
+  }
+
+  if (isAgent) {
+    const routes = await prisma.deliveryRoute.findMany({
+      where: { agentId: user?.id, isActive: true },
+      include: {
+        stops: { include: { customer: true }, orderBy: { sequence: 'asc' } },
+      },
+      orderBy: { name: 'asc' },
+    });
+
+    return {
+      scope: {
+        customers: routes
+          .flatMap((route) => route.stops.map((stop) => stop.customer))
+          .filter((c) => c.isActive),
+        restricted: true,
+      },
+    };
+  }
+
+  const customers = await prisma.customer.findMany({
+    where: { isActive: true },
+    orderBy: { name: 'asc' },
+  });
+
+  return { scope: { customers, restricted: false } };
+};
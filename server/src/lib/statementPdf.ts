@@ -0,0 +1,131 @@
+/**
+ * Customer Statement Rendering
+ *
+ * Lays out a customer's account statement as a PDF: opening balance, each
+ * charge and payment with the running balance, and the closing balance.
+ */
+
+import PDFDocument from 'pdfkit';
+import { CustomerStatement, Settings } from '../types/index.js';
+import { currencyFormatter } from './invoicePdf.js';
+
+const PAGE_MARGIN = 50;
+const ACCENT = '#1a73e8';
+const MUTED = '#666666';
+const RULE = '#eeeeee';
+const ROW_HEIGHT = 18;
+
+/**
+ * Statement columns: x offset from the margin, width and alignment
+ */
+const COLUMNS = [
+  { label: 'Date', x: 0, width: 70, align: 'left' as const },
+  { label: 'Details', x: 70, width: 185, align: 'left' as const },
+  { label: 'Debit', x: 255, width: 80, align: 'right' as const },
+  { label: 'Credit', x: 335, width: 80, align: 'right' as const },
+  { label: 'Balance', x: 415, width: 80, align: 'right' as const },
+];
+
+/**
+ * Draw the statement table header row
+ */
+const drawHeader = (doc: PDFKit.PDFDocument): void => {
+  const y = doc.y;
+  doc.rect(PAGE_MARGIN, y - 4, doc.page.width - PAGE_MARGIN * 2, ROW_HEIGHT).fill('#fafafa');
+  doc.font('Helvetica-Bold').fontSize(9).fillColor('#888888');
+  COLUMNS.forEach((col) => {
+    doc.text(col.label, PAGE_MARGIN + col.x, y, { width: col.width, align: col.align });
+  });
+  doc.y = y + ROW_HEIGHT;
+};
+
+/**
+ * Draw one table row and the rule under it
+ */
+const drawRow = (doc: PDFKit.PDFDocument, values: string[], bold = false): void => {
+  const y = doc.y;
+  doc.font(bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(9).fillColor('#333333');
+  COLUMNS.forEach((col, i) => {
+    doc.text(values[i], PAGE_MARGIN + col.x, y, { width: col.width, align: col.align, lineBreak: false, ellipsis: true });
+  });
+  doc.y = y + ROW_HEIGHT - 5;
+  doc
+    .moveTo(PAGE_MARGIN, doc.y)
+    .lineTo(doc.page.width - PAGE_MARGIN, doc.y)
+    .strokeColor(RULE)
+    .lineWidth(1)
+    .stroke();
+  doc.y += 5;
+};
+
+/**
+ * Render a statement. The caller pipes the document and calls `end()`.
+ */
+export const renderStatementPdf = (
+  statement: CustomerStatement,
+  settings: Omit<Settings, 'id'>
+): PDFKit.PDFDocument => {
+  const doc = new PDFDocument({ size: 'A4', margin: PAGE_MARGIN });
+  const formatAmount = currencyFormatter(settings);
+  const contentWidth = doc.page.width - PAGE_MARGIN * 2;
+  const halfWidth = contentWidth / 2;
+
+  doc.info.Title = `Statement - ${statement.customerName} - ${statement.from} to ${statement.to}`;
+  doc.info.Author = settings.businessName;
+
+  const top = doc.y;
+  doc.font('Helvetica-Bold').fontSize(22).fillColor(ACCENT).text('ACCOUNT STATEMENT', PAGE_MARGIN, top);
+  doc.font('Helvetica-Bold').fontSize(10).fillColor('#333333').text(settings.businessName);
+  doc.font('Helvetica').fillColor(MUTED).text(settings.businessAddress).text(`Phone: ${settings.businessPhone}`);
+  const leftBottom = doc.y;
+
+  const rightX = PAGE_MARGIN + halfWidth;
+  doc.font('Helvetica-Bold').fontSize(12).fillColor('#333333')
+    .text(statement.customerName, rightX, top + 6, { width: halfWidth, align: 'right' });
+  doc.font('Helvetica').fontSize(10).fillColor(MUTED)
+    .text(statement.customerAddress, rightX, doc.y, { width: halfWidth, align: 'right' });
+  doc.font('Helvetica-Bold').fillColor(ACCENT)
+    .text(`${statement.from} to ${statement.to}`, rightX, doc.y + 6, { width: halfWidth, align: 'right' });
+
+  doc.y = Math.max(leftBottom, doc.y) + 24;
+  drawHeader(doc);
+  drawRow(doc, [statement.from, 'Opening balance', '', '', formatAmount(statement.openingBalance)], true);
+
+  statement.entries.forEach((entry) => {
+    if (doc.y + ROW_HEIGHT > doc.page.height - PAGE_MARGIN) {
+      doc.addPage();
+      drawHeader(doc);
+    }
+    drawRow(doc, [
+      entry.date,
+      entry.reference ? `${entry.reference} ${entry.description}` : entry.description,
+      entry.debit > 0 ? formatAmount(entry.debit) : '',
+      entry.credit > 0 ? formatAmount(entry.credit) : '',
+      formatAmount(entry.balance),
+    ]);
+  });
+
+  if (doc.y + ROW_HEIGHT * 2 > doc.page.height - PAGE_MARGIN) {
+    doc.addPage();
+  }
+  drawRow(doc, [
+    statement.to,
+    'Closing balance',
+    formatAmount(statement.totalDebits),
+    formatAmount(statement.totalCredits),
+    formatAmount(statement.closingBalance),
+  ], true);
+
+  doc.moveDown(2);
+  doc.font('Helvetica').fontSize(9).fillColor('#aaaaaa')
+    .text('A positive balance is owed to us; a negative balance is credit in your favour.', PAGE_MARGIN, doc.y, {
+      width: contentWidth,
+      align: 'center',
+    })
+    .text(`Generated on ${new Date().toISOString().slice(0, 16).replace('T', ' ')} UTC`, {
+      width: contentWidth,
+      align: 'center',
+    });
+
+  return doc;
+};
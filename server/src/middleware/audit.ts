@@ -0,0 +1,43 @@
+/**
+ * Audit Middleware
+ *
+ * Gives every request that may write its own audit context and saves the
+ * changes it made once the response has succeeded.
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import prisma from '../lib/prisma.js';
+import { AuditContext, runWithAudit, toAuditLogRows } from '../lib/audit.js';
+
+const READ_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+/**
+ * Record the writes made while handling the request against the
+ * authenticated user
+ */
+export const auditRequests = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  if (READ_METHODS.includes(req.method)) {
+    next();
+    return;
+  }
+
+  const context: AuditContext = {
+    userId: req.user?.id ?? null,
+    request: `${req.method} ${req.originalUrl.split('?')[0]}`,
+    entries: [],
+    paused: false,
+  };
+
+  res.on('finish', () => {
+    if (res.statusCode >= 400 || context.entries.length === 0) return;
+    prisma.auditLog.createMany({ data: toAuditLogRows(context) }).catch((error) => {
+      console.error('Failed to save audit log:', error);
+    });
+  });
+
+  runWithAudit(context, next);
+};
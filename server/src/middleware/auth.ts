@@ -0,0 +1,87 @@
+/**
+ * Authentication & Authorization Middleware
+ *
+ * `authenticate` validates the Bearer token and attaches `req.user`;
+ * `authorize` restricts a route to the given roles.
+ */
+
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import prisma from '../lib/prisma.js';
+import { verifyToken } from '../lib/auth.js';
+import { ApiResponse, UserRole } from '../types/index.js';
+
+/**
+ * Require a valid `Authorization: Bearer <token>` header.
+ * The account is re-checked on every request so deactivation and
+ * role changes take effect before the token expires.
+ */
+export const authenticate = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const header = req.headers.authorization;
+    const token = header?.startsWith('Bearer ') ? header.slice(7) : null;
+    const claims = token ? verifyToken(token) : null;
+    const user = claims
+      ? await prisma.user.findUnique({ where: { id: claims.id } })
+      : null;
+
+    if (!user || !user.isActive) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Authentication required',
+      };
+      res.status(401).json(response);
+      return;
+    }
+
+    req.user = {
+      id: user.id,
+      username: user.username,
+      name: user.name,
+      role: user.role as UserRole,
+    };
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Allow the request only if the authenticated user has one of the given roles
+ */
+export const authorize = (...roles: UserRole[]): RequestHandler => {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (!req.user || !roles.includes(req.user.role)) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'You do not have permission to perform this action',
+      };
+      res.status(403).json(response);
+      return;
+    }
+
+    next();
+  };
+};
+
+/**
+ * Apply a role restriction only when the request matches a condition,
+ * e.g. permanent deletion via `?permanent=true`
+ */
+export const authorizeWhen = (
+  condition: (req: Request) => boolean,
+  ...roles: UserRole[]
+): RequestHandler => {
+  const check = authorize(...roles);
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (!condition(req)) {
+      next();
+      return;
+    }
+
+    check(req, res, next);
+  };
+};
@@ -0,0 +1,36 @@
+/**
+ * File Upload Middleware
+ *
+ * Accepts a single multipart file held in memory at `req.file`, answering
+ * an oversized or malformed upload with a 400 instead of a server error.
+ */
+
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import multer from 'multer';
+import { ApiResponse } from '../types/index.js';
+
+/**
+ * Read the multipart file in `field`, rejecting files over `maxBytes`
+ */
+export const uploadFile = (field: string, maxBytes: number): RequestHandler => {
+  const upload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: maxBytes, files: 1 },
+  }).single(field);
+
+  return (req: Request, res: Response, next: NextFunction): void => {
+    upload(req, res, (err: unknown) => {
+      if (err instanceof multer.MulterError) {
+        const response: ApiResponse<null> = {
+          success: false,
+          error: err.code === 'LIMIT_FILE_SIZE'
+            ? `File is larger than ${Math.round(maxBytes / 1024 / 1024)} MB`
+            : `Upload failed: ${err.message}`,
+        };
+        res.status(400).json(response);
+        return;
+      }
+      next(err);
+    });
+  };
+};
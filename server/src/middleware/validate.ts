@@ -0,0 +1,76 @@
+/**
+ * Request Validation Middleware
+ *
+ * Checks a route's params, query and body against its declared schema
+ * before the controller runs, answering with a 400 that lists every field
+ * problem. Sanitizers in a schema (e.g. lower-casing a shift) update the
+ * request, so controllers see the normalised values. A body may only carry
+ * the fields its schema declares, as controllers pass it on to the database.
+ */
+
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { checkSchema, Location, Schema, validationResult } from 'express-validator';
+import { ApiResponse, ValidationIssue } from '../types/index.js';
+
+/**
+ * Schemas for the parts of a request a route reads
+ */
+export interface RouteSchema {
+  params?: Schema;
+  query?: Schema;
+  body?: Schema;
+}
+
+const LOCATIONS: Array<keyof RouteSchema & Location> = ['params', 'query', 'body'];
+
+/**
+ * Top-level fields a schema declares; 'allocations.*.month' declares
+ * 'allocations'
+ */
+const declaredFields = (schema: Schema): Set<string> =>
+  new Set(Object.keys(schema).map((path) => path.split(/[.[]/)[0]));
+
+/**
+ * Reject requests that do not match `schema`
+ */
+export const validate = (schema: RouteSchema): RequestHandler => {
+  const chains = LOCATIONS.flatMap((location) =>
+    schema[location] ? [checkSchema(schema[location] as Schema, [location])] : []
+  );
+  const bodyFields = schema.body ? declaredFields(schema.body) : null;
+
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      for (const chain of chains) {
+        await chain.run(req);
+      }
+    } catch (err) {
+      next(err);
+      return;
+    }
+
+    const issues: ValidationIssue[] = validationResult(req)
+      .array({ onlyFirstError: true })
+      .map((error) => ({
+        location: error.type === 'field' ? (error.location as ValidationIssue['location']) : 'body',
+        field: error.type === 'field' ? error.path : '',
+        message: String(error.msg),
+      }));
+    if (bodyFields && req.body && typeof req.body === 'object') {
+      Object.keys(req.body)
+        .filter((field) => !bodyFields.has(field))
+        .forEach((field) => issues.push({ location: 'body', field, message: 'is not allowed' }));
+    }
+    if (issues.length === 0) {
+      next();
+      return;
+    }
+
+    const response: ApiResponse<null> = {
+      success: false,
+      error: issues.map((issue) => `${issue.field} ${issue.message}`.trim()).join('; '),
+      errors: issues,
+    };
+    res.status(400).json(response);
+  };
+};
@@ -4,14 +4,40 @@
  * Defines all API endpoints for the Daily Dairy Manager application.
  */
 
-import { Router } from 'express';
+import { Router, Request } from 'express';
+import { authenticate, authorize, authorizeWhen } from '../middleware/auth.js';
+import { auditRequests } from '../middleware/audit.js';
+import { uploadFile } from '../middleware/upload.js';
+import { validate } from '../middleware/validate.js';
+import { UserRole } from '../types/index.js';
+import {
+  login,
+  getCurrentUser,
+  changePassword,
+} from '../controllers/authController.js';
+import {
+  getAllUsers,
+  createUser,
+  updateUser,
+  deleteUser,
+} from '../controllers/userController.js';
 import {
   getAllCustomers,
   getCustomerById,
   createCustomer,
+  importCustomers,
   updateCustomer,
   deleteCustomer,
   getCustomersByCategory,
+  getCustomerPriceHistory,
+  getCustomerStatement,
+  getCustomerStatementPdf,
+  getCustomerPauses,
+  createCustomerPause,
+  deleteCustomerPause,
+  getQuotaSchedule,
+  setQuotaSchedule,
+  deleteQuotaSchedule,
 } from '../controllers/customerController.js';
 import {
   getDeliveriesByDateAndShift,
@@ -20,24 +46,51 @@ import {
   autofillDeliveries,
   clearDeliveries,
   getTodayTotal,
+  exportDeliveries,
   getDeliveriesByCustomer,
 } from '../controllers/deliveryController.js';
 import {
   getAllStock,
+  exportStock,
   getRecentCollections,
   createStock,
   deleteStock,
   getCurrentInventory,
   getStockSources,
-  getStockAvailability
+  getStockAvailability,
+  getStockLedger,
+  createStockMovement,
+  deleteStockMovement
 } from '../controllers/stockController.js';
 import {
   getMonthlyBilling,
+  exportMonthlyBilling,
   getCustomerBilling,
   getCustomerInvoice,
+  getCustomerInvoicePdf,
   getTodayRevenue,
-  recordPayment,
+  getCustomerPeriodBalances,
+  getAgingReport,
+  getAgingReportCsv,
 } from '../controllers/billingController.js';
+import {
+  getPayments,
+  exportPayments,
+  recordPayment,
+  updatePayment,
+  voidPayment,
+  getPaymentReceipt,
+} from '../controllers/paymentController.js';
+import {
+  getInvoices,
+  getInvoiceById,
+  createInvoice,
+  issueInvoice,
+  updateInvoiceStatus,
+  deleteInvoice,
+  createInvoiceNote,
+  getInvoicePdf,
+} from '../controllers/invoiceController.js';
 import {
   getDashboardStats,
   getYesterdayComparison,
@@ -54,55 +107,402 @@ import {
   createSource,
   updateSource,
   deleteSource,
+  getRateChart,
+  setRateChart,
+  deleteRateChart,
 } from '../controllers/sourceController.js';
+import {
+  getSupplierPayables,
+  getSupplierPayments,
+  recordSupplierPayment,
+  deleteSupplierPayment,
+  getSupplierStatement,
+} from '../controllers/supplierController.js';
+import {
+  getAllRoutes,
+  getRouteById,
+  getRouteAgents,
+  createRoute,
+  updateRoute,
+  setRouteStops,
+  deleteRoute,
+} from '../controllers/routeController.js';
+import {
+  getAllProducts,
+  createProduct,
+  updateProduct,
+  deleteProduct,
+  getCustomerProducts,
+  setCustomerProducts,
+} from '../controllers/productController.js';
+import { getMessages, sendMessages } from '../controllers/messageController.js';
+import { createPortalLink, getPortalView, revokePortalLinks } from '../controllers/portalController.js';
+import {
+  downloadBackup,
+  restoreFromBackup,
+  getStoredBackups,
+  downloadStoredBackup,
+} from '../controllers/backupController.js';
+import { getAuditLog } from '../controllers/auditController.js';
+import { undoChange } from '../controllers/changeSetController.js';
+import {
+  authSchemas,
+  userSchemas,
+  customerSchemas,
+  productSchemas,
+  routeSchemas,
+  deliverySchemas,
+  stockSchemas,
+  billingSchemas,
+  invoiceSchemas,
+  messageSchemas,
+  dashboardSchemas,
+  settingsSchemas,
+  backupSchemas,
+  auditSchemas,
+  changeSetSchemas,
+  sourceSchemas,
+} from './schemas.js';
 
 const router = Router();
 
+/**
+ * Role groups used for per-route permissions
+ */
+const OWNER_ONLY = [UserRole.OWNER];
+const MANAGERS = [UserRole.OWNER, UserRole.ACCOUNTANT];
+const ALL_STAFF = [UserRole.OWNER, UserRole.ACCOUNTANT, UserRole.DELIVERY];
+
+const isPermanentDelete = (req: Request): boolean => req.query.permanent === 'true';
+
+// ============================================================================
+// Auth Routes
+// ============================================================================
+
+/**
+ * @route   POST /api/auth/login
+ * @desc    Log in and receive a JWT
+ * @access  Public
+ * @body    { username, password }
+ */
+router.post('/auth/login', validate(authSchemas.login), login);
+
+/**
+ * @route   GET /api/portal/:token
+ * @desc    Get a customer's read-only account view through their portal link
+ * @access  Public (signed, expiring token of an active customer, not revoked)
+ */
+router.get('/portal/:token', validate(authSchemas.portal), getPortalView);
+
+// Every route registered below requires a valid token, and the changes
+// they make are recorded in the audit log
+router.use(authenticate);
+router.use(auditRequests);
+
+/**
+ * @route   GET /api/auth/me
+ * @desc    Get the currently logged-in user
+ */
+router.get('/auth/me', getCurrentUser);
+
+/**
+ * @route   POST /api/auth/change-password
+ * @desc    Change the current user's password
+ * @body    { currentPassword, newPassword }
+ */
+router.post('/auth/change-password', validate(authSchemas.changePassword), changePassword);
+
+// ============================================================================
+// User Routes
+// ============================================================================
+
+/**
+ * @route   GET /api/users
+ * @desc    Get all user accounts
+ * @access  Owner
+ */
+router.get('/users', authorize(...OWNER_ONLY), getAllUsers);
+
+/**
+ * @route   POST /api/users
+ * @desc    Create a user account
+ * @access  Owner
+ * @body    { username, name, password, role }
+ */
+router.post('/users', authorize(...OWNER_ONLY), validate(userSchemas.create), createUser);
+
+/**
+ * @route   PUT /api/users/:id
+ * @desc    Update a user account (name, role, isActive, password reset)
+ * @access  Owner
+ */
+router.put('/users/:id', authorize(...OWNER_ONLY), validate(userSchemas.update), updateUser);
+
+/**
+ * @route   DELETE /api/users/:id
+ * @desc    Deactivate a user account
+ * @access  Owner
+ */
+router.delete('/users/:id', authorize(...OWNER_ONLY), validate(userSchemas.byId), deleteUser);
+
 // ============================================================================
 // Customer Routes
 // ============================================================================
 
 /**
  * @route   GET /api/customers
- * @desc    Get all customers with optional filtering
+ * @desc    Get all customers with optional filtering, search and sorting
  * @query   category (optional) - Filter by 'regular' or 'variable'
  * @query   active (optional) - Filter by active status
+ * @query   search (optional) - Match name, address or phone
+ * @query   page, limit (optional) - Return one page with the total count
+ * @query   sortBy (optional) - name, category, morningQuota, eveningQuota, pricePerLiter or createdAt
+ * @query   sortOrder (optional) - 'asc' or 'desc'
+ * @access  All staff
  */
-router.get('/customers', getAllCustomers);
+router.get('/customers', authorize(...ALL_STAFF), validate(customerSchemas.list), getAllCustomers);
 
 /**
  * @route   GET /api/customers/category/:category
  * @desc    Get customers by category
  * @param   category - 'regular' or 'variable'
+ * @access  All staff
  */
-router.get('/customers/category/:category', getCustomersByCategory);
+router.get('/customers/category/:category', authorize(...ALL_STAFF), validate(customerSchemas.byCategory), getCustomersByCategory);
 
 /**
  * @route   GET /api/customers/:id
  * @desc    Get a single customer by ID
+ * @access  All staff
+ */
+router.get('/customers/:id', authorize(...ALL_STAFF), validate(customerSchemas.byId), getCustomerById);
+
+/**
+ * @route   GET /api/customers/:id/statement
+ * @desc    Get a customer's account statement with running balance
+ * @query   from, to - YYYY-MM-DD (default: first of this month to today)
+ * @access  Owner, Accountant
+ */
+router.get('/customers/:id/statement', authorize(...MANAGERS), validate(customerSchemas.statement), getCustomerStatement);
+
+/**
+ * @route   GET /api/customers/:id/statement/pdf
+ * @desc    Download a customer's account statement as a PDF
+ * @query   from, to - YYYY-MM-DD (default: first of this month to today)
+ * @access  Owner, Accountant
+ */
+router.get('/customers/:id/statement/pdf', authorize(...MANAGERS), validate(customerSchemas.statement), getCustomerStatementPdf);
+
+/**
+ * @route   POST /api/customers/:id/portal-link
+ * @desc    Create a signed, expiring link to the customer's read-only portal
+ * @body    { expiresInDays? } - 1 to 365, default 30
+ * @access  Owner, Accountant
+ */
+router.post('/customers/:id/portal-link', authorize(...MANAGERS), validate(customerSchemas.portalLink), createPortalLink);
+
+/**
+ * @route   DELETE /api/customers/:id/portal-link
+ * @desc    Revoke every portal link issued to the customer so far
+ * @access  Owner, Accountant
+ */
+router.delete('/customers/:id/portal-link', authorize(...MANAGERS), validate(customerSchemas.byId), revokePortalLinks);
+
+/**
+ * @route   GET /api/customers/:id/prices
+ * @desc    Get a customer's effective-dated price history (newest first)
+ * @access  Owner, Accountant
+ */
+router.get('/customers/:id/prices', authorize(...MANAGERS), validate(customerSchemas.byId), getCustomerPriceHistory);
+
+/**
+ * @route   GET /api/customers/:id/pauses
+ * @desc    Get a customer's delivery pauses (most recent first)
+ * @access  Owner, Accountant
+ */
+router.get('/customers/:id/pauses', authorize(...MANAGERS), validate(customerSchemas.byId), getCustomerPauses);
+
+/**
+ * @route   POST /api/customers/:id/pauses
+ * @desc    Pause a customer's deliveries for a date range
+ * @body    { startDate, endDate, shift? ('morning' | 'evening', omit for both), reason? }
+ * @access  Owner, Accountant
  */
-router.get('/customers/:id', getCustomerById);
+router.post('/customers/:id/pauses', authorize(...MANAGERS), validate(customerSchemas.createPause), createCustomerPause);
+
+/**
+ * @route   DELETE /api/customers/:id/pauses/:pauseId
+ * @desc    Remove a customer pause
+ * @access  Owner, Accountant
+ */
+router.delete('/customers/:id/pauses/:pauseId', authorize(...MANAGERS), validate(customerSchemas.deletePause), deleteCustomerPause);
+
+/**
+ * @route   GET /api/customers/:id/quota-schedule
+ * @desc    Get a customer's weekday/recurrence quota schedule (null if none)
+ * @access  All staff
+ */
+router.get('/customers/:id/quota-schedule', authorize(...ALL_STAFF), validate(customerSchemas.byId), getQuotaSchedule);
+
+/**
+ * @route   PUT /api/customers/:id/quota-schedule
+ * @desc    Create or replace a customer's quota schedule
+ * @body    { weekdayQuotas?: { [0-6]: { morning?, evening? } }, intervalDays? (default 1), startDate? }
+ * @access  Owner, Accountant
+ */
+router.put('/customers/:id/quota-schedule', authorize(...MANAGERS), validate(customerSchemas.setQuotaSchedule), setQuotaSchedule);
+
+/**
+ * @route   DELETE /api/customers/:id/quota-schedule
+ * @desc    Remove a customer's quota schedule (base quotas apply again)
+ * @access  Owner, Accountant
+ */
+router.delete('/customers/:id/quota-schedule', authorize(...MANAGERS), validate(customerSchemas.byId), deleteQuotaSchedule);
+
+/**
+ * @route   GET /api/customers/:id/products
+ * @desc    Get the products a customer subscribes to (besides milk)
+ * @access  All staff
+ */
+router.get('/customers/:id/products', authorize(...ALL_STAFF), validate(customerSchemas.byId), getCustomerProducts);
+
+/**
+ * @route   PUT /api/customers/:id/products
+ * @desc    Replace a customer's products with their quotas and prices
+ * @body    { products: [{ productId, morningQuota, eveningQuota, price? }], priceEffectiveFrom? }
+ * @access  Owner, Accountant
+ */
+router.put('/customers/:id/products', authorize(...MANAGERS), validate(customerSchemas.setProducts), setCustomerProducts);
 
 /**
  * @route   POST /api/customers
  * @desc    Create a new customer
  * @body    { name, address, phone?, category, morningQuota, eveningQuota, pricePerLiter }
+ * @access  Owner, Accountant
  */
-router.post('/customers', createCustomer);
+router.post('/customers', authorize(...MANAGERS), validate(customerSchemas.create), createCustomer);
+
+/**
+ * @route   POST /api/customers/import
+ * @desc    Import customers from a CSV or XLSX file, all or nothing; dryRun returns the validation preview only
+ * @query   dryRun? (true)
+ * @body    multipart: file (.csv or .xlsx, max 5 MB), mapping? (JSON of field to column header)
+ * @access  Owner, Accountant
+ */
+router.post('/customers/import', authorize(...MANAGERS), uploadFile('file', 5 * 1024 * 1024), validate(customerSchemas.import), importCustomers);
 
 /**
  * @route   PUT /api/customers/:id
  * @desc    Update an existing customer
- * @body    Partial customer data
+ * @body    Partial customer data, priceEffectiveFrom? (YYYY-MM-DD) for a price change
+ * @access  Owner, Accountant
  */
-router.put('/customers/:id', updateCustomer);
+router.put('/customers/:id', authorize(...MANAGERS), validate(customerSchemas.update), updateCustomer);
 
 /**
  * @route   DELETE /api/customers/:id
  * @desc    Delete a customer (soft delete by default)
  * @query   permanent (optional) - Set to 'true' for permanent deletion
+ * @access  Owner, Accountant (permanent deletion: Owner only)
  */
-router.delete('/customers/:id', deleteCustomer);
+router.delete(
+  '/customers/:id',
+  authorize(...MANAGERS),
+  authorizeWhen(isPermanentDelete, ...OWNER_ONLY),
+  validate(customerSchemas.delete),
+  deleteCustomer
+);
+
+// ============================================================================
+// Product Routes
+// ============================================================================
+
+/**
+ * @route   GET /api/products
+ * @desc    Get the product catalogue
+ * @query   active (optional) - 'true' or 'false'
+ * @access  All staff
+ */
+router.get('/products', authorize(...ALL_STAFF), validate(productSchemas.list), getAllProducts);
+
+/**
+ * @route   POST /api/products
+ * @desc    Create a product
+ * @body    { name, unit, defaultPrice }
+ * @access  Owner, Accountant
+ */
+router.post('/products', authorize(...MANAGERS), validate(productSchemas.create), createProduct);
+
+/**
+ * @route   PUT /api/products/:id
+ * @desc    Update a product
+ * @body    { name?, unit?, defaultPrice?, isActive?, priceEffectiveFrom? }
+ * @access  Owner, Accountant
+ */
+router.put('/products/:id', authorize(...MANAGERS), validate(productSchemas.update), updateProduct);
+
+/**
+ * @route   DELETE /api/products/:id
+ * @desc    Delete a product (deactivated instead if it has deliveries, stock or stock movements)
+ * @access  Owner, Accountant
+ */
+router.delete('/products/:id', authorize(...MANAGERS), validate(productSchemas.byId), deleteProduct);
+
+// ============================================================================
+// Route (Delivery Round) Routes
+// ============================================================================
+
+/**
+ * @route   GET /api/routes
+ * @desc    Get delivery routes (delivery staff: only their own)
+ * @access  All staff
+ */
+router.get('/routes', authorize(...ALL_STAFF), getAllRoutes);
+
+/**
+ * @route   GET /api/routes/agents
+ * @desc    Get delivery staff who can be assigned to a route
+ * @access  Owner, Accountant
+ */
+router.get('/routes/agents', authorize(...MANAGERS), getRouteAgents);
+
+/**
+ * @route   GET /api/routes/:id
+ * @desc    Get a route with its stops in delivery order
+ * @access  All staff
+ */
+router.get('/routes/:id', authorize(...ALL_STAFF), validate(routeSchemas.byId), getRouteById);
+
+/**
+ * @route   POST /api/routes
+ * @desc    Create a delivery route
+ * @body    { name, description?, agentId? }
+ * @access  Owner, Accountant
+ */
+router.post('/routes', authorize(...MANAGERS), validate(routeSchemas.create), createRoute);
+
+/**
+ * @route   PUT /api/routes/:id
+ * @desc    Update a delivery route
+ * @body    { name?, description?, agentId?, isActive? }
+ * @access  Owner, Accountant
+ */
+router.put('/routes/:id', authorize(...MANAGERS), validate(routeSchemas.update), updateRoute);
+
+/**
+ * @route   PUT /api/routes/:id/stops
+ * @desc    Replace the route's stops with customers in delivery order
+ * @body    { customerIds: string[] }
+ * @access  Owner, Accountant
+ */
+router.put('/routes/:id/stops', authorize(...MANAGERS), validate(routeSchemas.setStops), setRouteStops);
+
+/**
+ * @route   DELETE /api/routes/:id
+ * @desc    Delete a delivery route
+ * @access  Owner, Accountant
+ */
+router.delete('/routes/:id', authorize(...MANAGERS), validate(routeSchemas.byId), deleteRoute);
 
 // ============================================================================
 // Delivery Routes
@@ -113,49 +513,70 @@ router.delete('/customers/:id', deleteCustomer);
  * @desc    Get deliveries for a specific date and shift
  * @query   date - Date in YYYY-MM-DD format
  * @query   shift - 'morning' or 'evening'
+ * @query   routeId (optional) - Only that route's customers, in stop order
+ * @query   productId (optional) - Product to list (default: milk)
+ * @access  All staff (delivery staff: own routes only)
  */
-router.get('/deliveries', getDeliveriesByDateAndShift);
+router.get('/deliveries', authorize(...ALL_STAFF), validate(deliverySchemas.list), getDeliveriesByDateAndShift);
 
 /**
  * @route   GET /api/deliveries/today-total
  * @desc    Get total deliveries for today
+ * @access  All staff
+ */
+router.get('/deliveries/today-total', authorize(...ALL_STAFF), getTodayTotal);
+
+/**
+ * @route   GET /api/deliveries/export
+ * @desc    Download the delivery register for a date range as CSV or XLSX
+ * @query   startDate, endDate
+ * @query   shift, productId, customerId, routeId (all optional), format? ('csv' | 'xlsx')
+ * @access  All staff (delivery staff: own routes only)
  */
-router.get('/deliveries/today-total', getTodayTotal);
+router.get('/deliveries/export', authorize(...ALL_STAFF), validate(deliverySchemas.export), exportDeliveries);
 
 /**
  * @route   GET /api/deliveries/customer/:id
  * @desc    Get deliveries for a specific customer
- * @query   startDate, endDate
+ * @query   startDate, endDate, shift, productId, delivered (all optional)
+ * @query   page, limit (optional) - Return one page with the total count and litres delivered
+ * @query   sortBy (optional) - date or actualAmount
+ * @query   sortOrder (optional) - 'asc' or 'desc'
+ * @access  Owner, Accountant
  */
-router.get('/deliveries/customer/:id', getDeliveriesByCustomer);
+router.get('/deliveries/customer/:id', authorize(...MANAGERS), validate(deliverySchemas.byCustomer), getDeliveriesByCustomer);
 
 /**
  * @route   POST /api/deliveries
  * @desc    Create or update a single delivery
- * @body    { customerId, date, shift, actualAmount, delivered, notes? }
+ * @body    { customerId, date, shift, productId?, actualAmount, delivered, notes? }
+ * @access  All staff (delivery staff: own routes only)
  */
-router.post('/deliveries', upsertDelivery);
+router.post('/deliveries', authorize(...ALL_STAFF), validate(deliverySchemas.upsert), upsertDelivery);
 
 /**
  * @route   POST /api/deliveries/bulk
- * @desc    Bulk update deliveries for a date and shift
- * @body    { date, shift, deliveries: [{ customerId, actualAmount, delivered, notes? }] }
+ * @desc    Bulk update deliveries for a date and shift, returning edits with an outdated baseUpdatedAt as conflicts
+ * @body    { date, shift, routeId?, productId?, deliveries: [{ customerId, actualAmount, delivered, notes?, baseUpdatedAt? }] }
+ * @access  All staff (delivery staff: own routes only)
  */
-router.post('/deliveries/bulk', bulkUpdateDeliveries);
+router.post('/deliveries/bulk', authorize(...ALL_STAFF), validate(deliverySchemas.bulk), bulkUpdateDeliveries);
 
 /**
  * @route   POST /api/deliveries/autofill
- * @desc    Autofill deliveries with customer quotas
- * @body    { date, shift }
+ * @desc    Autofill deliveries with customer quotas; returns a change set to undo it
+ * @body    { date, shift, routeId?, productId? }
+ * @access  All staff (delivery staff: own routes only)
  */
-router.post('/deliveries/autofill', autofillDeliveries);
+router.post('/deliveries/autofill', authorize(...ALL_STAFF), validate(deliverySchemas.shift), autofillDeliveries);
 
 /**
  * @route   POST /api/deliveries/clear
- * @desc    Clear all deliveries for a date and shift
- * @body    { date, shift }
+ * @desc    Clear all deliveries for a date and shift; returns a change set to undo it
+ * @body    { date, shift, routeId?, productId? }
+ * @access  All staff (delivery staff: own routes only)
  */
-router.post('/deliveries/clear', clearDeliveries);
+router.post('/deliveries/clear', authorize(...ALL_STAFF), validate(deliverySchemas.shift), clearDeliveries);
 
 // ============================================================================
 // Stock Routes
@@ -163,44 +584,86 @@ router.post('/deliveries/clear', clearDeliveries);
 
 /**
  * @route   GET /api/stock
- * @desc    Get all stock records with optional date filtering
+ * @desc    Get all stock records with optional filtering and sorting
  * @query   startDate (optional) - Filter from this date
  * @query   endDate (optional) - Filter to this date
- * @query   limit (optional) - Number of records (default: 50)
+ * @query   productId, shift, source (optional) - Filter by product, shift or source
+ * @query   search (optional) - Match the source name
+ * @query   page, limit (optional) - Return one page with the total count
+ * @query   sortBy (optional) - date, quantity, amount or createdAt
+ * @query   sortOrder (optional) - 'asc' or 'desc'
+ * @access  All staff
  */
-router.get('/stock', getAllStock);
+router.get('/stock', authorize(...ALL_STAFF), validate(stockSchemas.list), getAllStock);
+
+/**
+ * @route   GET /api/stock/export
+ * @desc    Download stock collections as CSV or XLSX, oldest first
+ * @query   startDate, endDate, productId (all optional), format? ('csv' | 'xlsx')
+ * @access  All staff
+ */
+router.get('/stock/export', authorize(...ALL_STAFF), validate(stockSchemas.export), exportStock);
 
 /**
  * @route   GET /api/stock/recent
  * @desc    Get recent stock collections
  * @query   limit (optional) - Number of records (default: 10)
+ * @access  All staff
  */
-router.get('/stock/recent', getRecentCollections);
+router.get('/stock/recent', authorize(...ALL_STAFF), validate(stockSchemas.recent), getRecentCollections);
 
 /**
  * @route   GET /api/stock/inventory
- * @desc    Get current inventory level
+ * @desc    Get current inventory level (milk) with a per-product breakdown
+ * @access  All staff
+ */
+router.get('/stock/inventory', authorize(...ALL_STAFF), getCurrentInventory);
+
+/**
+ * @route   GET /api/stock/ledger
+ * @desc    Get a product's inventory ledger with a running balance
+ * @query   startDate, endDate
+ * @query   productId (optional) - Product (default: milk)
+ * @access  All staff
  */
-router.get('/stock/inventory', getCurrentInventory);
+router.get('/stock/ledger', authorize(...ALL_STAFF), validate(stockSchemas.ledger), getStockLedger);
+
+/**
+ * @route   POST /api/stock/movements
+ * @desc    Record wastage, spoilage, a counter sale, an adjustment or a physical count
+ * @body    { date, type, quantity, reason, productId? }
+ * @access  All staff
+ */
+router.post('/stock/movements', authorize(...ALL_STAFF), validate(stockSchemas.createMovement), createStockMovement);
+
+/**
+ * @route   DELETE /api/stock/movements/:id
+ * @desc    Delete a stock movement
+ * @access  Owner, Accountant
+ */
+router.delete('/stock/movements/:id', authorize(...MANAGERS), validate(stockSchemas.byId), deleteStockMovement);
 
 /**
  * @route   GET /api/stock/sources
  * @desc    Get list of stock sources
+ * @access  All staff
  */
-router.get('/stock/sources', getStockSources);
+router.get('/stock/sources', authorize(...ALL_STAFF), getStockSources);
 
 /**
  * @route   POST /api/stock
  * @desc    Record a new stock collection
- * @body    { date, shift, source, quantity }
+ * @body    { date, shift, source, quantity, productId?, fat?, snf? }
+ * @access  All staff
  */
-router.post('/stock', createStock);
+router.post('/stock', authorize(...ALL_STAFF), validate(stockSchemas.create), createStock);
 
 /**
  * @route   DELETE /api/stock/:id
- * @desc    Delete a stock record
+ * @desc    Delete a stock record; returns a change set to undo it
+ * @access  Owner, Accountant
  */
-router.delete('/stock/:id', deleteStock);
+router.delete('/stock/:id', authorize(...MANAGERS), validate(stockSchemas.byId), deleteStock);
 
 // ============================================================================
 // Billing Routes
@@ -211,39 +674,219 @@ router.delete('/stock/:id', deleteStock);
  * @desc    Get monthly billing summary for all customers
  * @query   month - Month number (1-12)
  * @query   year - Year (e.g., 2025)
+ * @query   search (optional) - Match customer name
+ * @query   page, limit (optional) - Return one page of customers with the total count
+ * @query   sortOrder (optional) - 'asc' or 'desc' by customer name
+ * @access  Owner, Accountant
+ */
+router.get('/billing/monthly', authorize(...MANAGERS), validate(billingSchemas.monthly), getMonthlyBilling);
+
+/**
+ * @route   GET /api/billing/export
+ * @desc    Download the monthly billing summary as CSV or XLSX
+ * @query   month, year, format? ('csv' | 'xlsx', default csv)
+ * @access  Owner, Accountant
  */
-router.get('/billing/monthly', getMonthlyBilling);
+router.get('/billing/export', authorize(...MANAGERS), validate(billingSchemas.export), exportMonthlyBilling);
 
 /**
  * @route   GET /api/billing/customer/:customerId
  * @desc    Get billing details for a specific customer
  * @query   month - Month number (1-12)
  * @query   year - Year (e.g., 2025)
+ * @access  Owner, Accountant
  */
-router.get('/billing/customer/:customerId', getCustomerBilling);
+router.get('/billing/customer/:customerId', authorize(...MANAGERS), validate(billingSchemas.customerMonth), getCustomerBilling);
 
 /**
  * @route   GET /api/billing/invoice/:customerId
  * @desc    Get customer invoice with daily breakdown
  * @query   month - Month number (1-12)
  * @query   year - Year (e.g., 2025)
+ * @access  Owner, Accountant
+ */
+router.get('/billing/invoice/:customerId', authorize(...MANAGERS), validate(billingSchemas.customerMonth), getCustomerInvoice);
+
+/**
+ * @route   GET /api/billing/invoice/:customerId/pdf
+ * @desc    Download customer invoice as a PDF
+ * @query   month - Month number (1-12)
+ * @query   year - Year (e.g., 2025)
+ * @access  Owner, Accountant
+ */
+router.get('/billing/invoice/:customerId/pdf', authorize(...MANAGERS), validate(billingSchemas.customerMonth), getCustomerInvoicePdf);
+
+/**
+ * @route   GET /api/billing/customer/:customerId/balances
+ * @desc    Get a customer's billed months with their outstanding amounts
+ * @access  Owner, Accountant
+ */
+router.get('/billing/customer/:customerId/balances', authorize(...MANAGERS), validate(billingSchemas.customer), getCustomerPeriodBalances);
+
+/**
+ * @route   GET /api/billing/aging
+ * @desc    Get outstanding balances bucketed by days past the payment terms
+ * @access  Owner, Accountant
+ */
+router.get('/billing/aging', authorize(...MANAGERS), getAgingReport);
+
+/**
+ * @route   GET /api/billing/aging/csv
+ * @desc    Download the aging report as CSV
+ * @access  Owner, Accountant
+ */
+router.get('/billing/aging/csv', authorize(...MANAGERS), getAgingReportCsv);
+
+/**
+ * @route   POST /api/billing/payment
+ * @desc    Record a customer payment, settling the oldest outstanding months first
+ * @body    { customerId, amount, date, method?, remarks?, allocations?: [{ month, year, amount }] }
+ * @access  Owner, Accountant
+ */
+router.post('/billing/payment', authorize(...MANAGERS), validate(billingSchemas.recordPayment), recordPayment);
+
+/**
+ * @route   GET /api/billing/payments
+ * @desc    Get customer payments, newest first
+ * @query   customerId, startDate, endDate, method, includeVoided (all optional)
+ * @query   page, limit (optional) - Return one page with the total count
+ * @query   sortBy (optional) - date, amount or receiptNumber
+ * @query   sortOrder (optional) - 'asc' or 'desc'
+ * @access  Owner, Accountant
  */
-router.get('/billing/invoice/:customerId', getCustomerInvoice);
-router.post('/billing/payment', recordPayment);
+router.get('/billing/payments', authorize(...MANAGERS), validate(billingSchemas.payments), getPayments);
+
+/**
+ * @route   GET /api/billing/payments/export
+ * @desc    Download payments as CSV or XLSX, oldest first
+ * @query   customerId, startDate, endDate, method, includeVoided (all optional), format? ('csv' | 'xlsx')
+ * @access  Owner, Accountant
+ */
+router.get('/billing/payments/export', authorize(...MANAGERS), validate(billingSchemas.exportPayments), exportPayments);
+
+/**
+ * @route   PUT /api/billing/payments/:id
+ * @desc    Correct a payment (voids the original and records a replacement)
+ * @body    { amount, date, method?, remarks?, allocations? }
+ * @access  Owner, Accountant
+ */
+router.put('/billing/payments/:id', authorize(...MANAGERS), validate(billingSchemas.updatePayment), updatePayment);
+
+/**
+ * @route   POST /api/billing/payments/:id/void
+ * @desc    Void a payment, releasing its allocations
+ * @body    { reason }
+ * @access  Owner, Accountant
+ */
+router.post('/billing/payments/:id/void', authorize(...MANAGERS), validate(billingSchemas.voidPayment), voidPayment);
+
+/**
+ * @route   GET /api/billing/payments/:id/receipt
+ * @desc    Download a payment receipt as a PDF
+ * @access  Owner, Accountant
+ */
+router.get('/billing/payments/:id/receipt', authorize(...MANAGERS), validate(billingSchemas.byId), getPaymentReceipt);
 
 /**
  * @route   GET /api/billing/customer/:customerId/invoice
  * @desc    Get customer invoice with daily breakdown
  * @query   month - Month number (1-12)
  * @query   year - Year (e.g., 2025)
+ * @access  Owner, Accountant
  */
-router.get('/billing/customer/:customerId/invoice', getCustomerInvoice);
+router.get('/billing/customer/:customerId/invoice', authorize(...MANAGERS), validate(billingSchemas.customerMonth), getCustomerInvoice);
 
 /**
  * @route   GET /api/billing/today-revenue
  * @desc    Get estimated revenue for today
+ * @access  Owner, Accountant
  */
-router.get('/billing/today-revenue', getTodayRevenue);
+router.get('/billing/today-revenue', authorize(...MANAGERS), getTodayRevenue);
+
+// ============================================================================
+// Invoice Routes
+// ============================================================================
+
+/**
+ * @route   GET /api/invoices
+ * @desc    Get invoices and credit/debit notes
+ * @query   month, year, customerId, status, type (all optional)
+ * @access  Owner, Accountant
+ */
+router.get('/invoices', authorize(...MANAGERS), validate(invoiceSchemas.list), getInvoices);
+
+/**
+ * @route   GET /api/invoices/:id
+ * @desc    Get an invoice with its credit and debit notes
+ * @access  Owner, Accountant
+ */
+router.get('/invoices/:id', authorize(...MANAGERS), validate(invoiceSchemas.byId), getInvoiceById);
+
+/**
+ * @route   GET /api/invoices/:id/pdf
+ * @desc    Download a stored invoice as a PDF
+ * @access  Owner, Accountant
+ */
+router.get('/invoices/:id/pdf', authorize(...MANAGERS), validate(invoiceSchemas.byId), getInvoicePdf);
+
+/**
+ * @route   POST /api/invoices
+ * @desc    Create a draft invoice for a customer's month
+ * @body    { customerId, month, year }
+ * @access  Owner, Accountant
+ */
+router.post('/invoices', authorize(...MANAGERS), validate(invoiceSchemas.create), createInvoice);
+
+/**
+ * @route   POST /api/invoices/:id/issue
+ * @desc    Issue a draft: number it, freeze its snapshot and lock the month's deliveries
+ * @access  Owner, Accountant
+ */
+router.post('/invoices/:id/issue', authorize(...MANAGERS), validate(invoiceSchemas.byId), issueInvoice);
+
+/**
+ * @route   PATCH /api/invoices/:id/status
+ * @desc    Mark an issued invoice paid/unpaid, or void it
+ * @body    { status: 'issued' | 'paid' | 'void' }
+ * @access  Owner, Accountant
+ */
+router.patch('/invoices/:id/status', authorize(...MANAGERS), validate(invoiceSchemas.updateStatus), updateInvoiceStatus);
+
+/**
+ * @route   POST /api/invoices/:id/notes
+ * @desc    Raise a credit or debit note against an issued invoice
+ * @body    { type: 'credit_note' | 'debit_note', amount, reason }
+ * @access  Owner, Accountant
+ */
+router.post('/invoices/:id/notes', authorize(...MANAGERS), validate(invoiceSchemas.createNote), createInvoiceNote);
+
+/**
+ * @route   DELETE /api/invoices/:id
+ * @desc    Delete a draft invoice
+ * @access  Owner, Accountant
+ */
+router.delete('/invoices/:id', authorize(...MANAGERS), validate(invoiceSchemas.byId), deleteInvoice);
+
+// ============================================================================
+// Message Routes
+// ============================================================================
+
+/**
+ * @route   GET /api/messages
+ * @desc    Get sent reminders and bill summaries, newest first
+ * @query   customerId - Filter by customer (optional)
+ * @query   limit - Maximum number of messages (default 100)
+ * @access  Owner, Accountant
+ */
+router.get('/messages', authorize(...MANAGERS), validate(messageSchemas.list), getMessages);
+
+/**
+ * @route   POST /api/messages/send
+ * @desc    Send a templated message to the month's billed customers
+ * @body    { template, channel, month, year, customerIds?, minTotalDue? }
+ * @access  Owner, Accountant
+ */
+router.post('/messages/send', authorize(...MANAGERS), validate(messageSchemas.send), sendMessages);
 
 // ============================================================================
 // Dashboard Routes
@@ -252,35 +895,41 @@ router.get('/billing/today-revenue', getTodayRevenue);
 /**
  * @route   GET /api/dashboard/stats
  * @desc    Get dashboard statistics
+ * @access  Owner, Accountant
  */
-router.get('/dashboard/stats', getDashboardStats);
+router.get('/dashboard/stats', authorize(...MANAGERS), getDashboardStats);
 
 /**
  * @route   GET /api/dashboard/comparison
  * @desc    Get comparison with yesterday
+ * @access  Owner, Accountant
  */
-router.get('/dashboard/comparison', getYesterdayComparison);
+router.get('/dashboard/comparison', authorize(...MANAGERS), getYesterdayComparison);
 
 /**
  * @route   GET /api/dashboard/trends
  * @desc    Get delivery trends
  * @query   startDate, endDate, customerId
+ * @access  Owner, Accountant
  */
-router.get('/dashboard/trends', getDeliveryTrends);
+router.get('/dashboard/trends', authorize(...MANAGERS), validate(dashboardSchemas.trends), getDeliveryTrends);
 
 /**
  * @route   GET /api/dashboard/sources
- * @desc    Get source collection stats
+ * @desc    Get source collection stats (quantity and purchase value)
  * @query   startDate, endDate
+ * @access  Owner, Accountant
  */
-router.get('/dashboard/sources', getSourceStats);
+router.get('/dashboard/sources', authorize(...MANAGERS), validate(dashboardSchemas.sources), getSourceStats);
 
 /**
  * @route   GET /api/stock/availability
  * @desc    Get stock availability for a date
  * @query   date
+ * @query   productId (optional) - Product to check (default: milk)
+ * @access  All staff
  */
-router.get('/stock/availability', getStockAvailability);
+router.get('/stock/availability', authorize(...ALL_STAFF), validate(stockSchemas.availability), getStockAvailability);
 
 // ============================================================================
 // Settings Routes
@@ -289,20 +938,79 @@ router.get('/stock/availability', getStockAvailability);
 /**
  * @route   GET /api/settings
  * @desc    Get application settings
+ * @access  All staff
  */
-router.get('/settings', getSettings);
+router.get('/settings', authorize(...ALL_STAFF), getSettings);
 
 /**
  * @route   PUT /api/settings
  * @desc    Update application settings
  * @body    Partial settings data
+ * @access  Owner
  */
-router.put('/settings', updateSettings);
+router.put('/settings', authorize(...OWNER_ONLY), validate(settingsSchemas.update), updateSettings);
 
 /**
  * @route   POST /api/settings/reset
  * @desc    Reset settings to defaults
  */
+// ============================================================================
+// Backup Routes
+// ============================================================================
+
+/**
+ * @route   GET /api/backup
+ * @desc    Download a backup of the whole database
+ * @query   format (optional) - 'zip' (default) or 'json'
+ * @access  Owner
+ */
+router.get('/backup', authorize(...OWNER_ONLY), validate(backupSchemas.download), downloadBackup);
+
+/**
+ * @route   POST /api/backup/restore
+ * @desc    Restore a JSON or ZIP backup in one transaction
+ * @body    multipart: file (max 100 MB), mode ('replace' | 'merge')
+ * @access  Owner
+ */
+router.post('/backup/restore', authorize(...OWNER_ONLY), uploadFile('file', 100 * 1024 * 1024), validate(backupSchemas.restore), restoreFromBackup);
+
+/**
+ * @route   GET /api/backups
+ * @desc    List the scheduled backups kept on the server, newest first
+ * @access  Owner
+ */
+router.get('/backups', authorize(...OWNER_ONLY), getStoredBackups);
+
+/**
+ * @route   GET /api/backups/:name
+ * @desc    Download a scheduled backup kept on the server
+ * @access  Owner
+ */
+router.get('/backups/:name', authorize(...OWNER_ONLY), validate(backupSchemas.stored), downloadStoredBackup);
+
+// ============================================================================
+// Audit Routes
+// ============================================================================
+
+/**
+ * @route   GET /api/audit
+ * @desc    Get the log of changes made through the API, newest first
+ * @query   customerId, entity (e.g. 'Delivery'), from, to (ISO timestamps), limit (optional)
+ * @access  Owner, Accountant
+ */
+router.get('/audit', authorize(...MANAGERS), validate(auditSchemas.list), getAuditLog);
+
+// ============================================================================
+// Undo Routes
+// ============================================================================
+
+/**
+ * @route   POST /api/change-sets/:id/undo
+ * @desc    Undo a clear, autofill or stock deletion within 15 minutes
+ * @access  All staff (delivery staff: own actions only)
+ */
+router.post('/change-sets/:id/undo', authorize(...ALL_STAFF), validate(changeSetSchemas.byId), undoChange);
+
 // ============================================================================
 // Source Routes
 // ============================================================================
@@ -310,27 +1018,92 @@ router.put('/settings', updateSettings);
 /**
  * @route   GET /api/sources
  * @desc    Get all active sources
+ * @access  All staff
  */
-router.get('/sources', getAllSources);
+router.get('/sources', authorize(...ALL_STAFF), getAllSources);
+
+/**
+ * @route   GET /api/sources/payables
+ * @desc    Get purchases, payments and outstanding balance per source
+ * @access  Owner, Accountant
+ */
+router.get('/sources/payables', authorize(...MANAGERS), getSupplierPayables);
 
 /**
  * @route   POST /api/sources
  * @desc    Create a new source
  * @body    { name, type }
+ * @access  Owner, Accountant
  */
-router.post('/sources', createSource);
+router.post('/sources', authorize(...MANAGERS), validate(sourceSchemas.create), createSource);
 
 /**
  * @route   PUT /api/sources/:id
  * @desc    Update a source
  * @body    { name, type, isActive }
+ * @access  Owner, Accountant
  */
-router.put('/sources/:id', updateSource);
+router.put('/sources/:id', authorize(...MANAGERS), validate(sourceSchemas.update), updateSource);
 
 /**
  * @route   DELETE /api/sources/:id
- * @desc    Delete a source
+ * @desc    Delete a source (409 if it has supplier payments)
+ * @access  Owner, Accountant
+ */
+router.delete('/sources/:id', authorize(...MANAGERS), validate(sourceSchemas.byId), deleteSource);
+
+/**
+ * @route   GET /api/sources/:id/rate-chart
+ * @desc    Get a source's fat/SNF rate chart
+ * @access  All staff
+ */
+router.get('/sources/:id/rate-chart', authorize(...ALL_STAFF), validate(sourceSchemas.byId), getRateChart);
+
+/**
+ * @route   PUT /api/sources/:id/rate-chart
+ * @desc    Create or replace a source's rate chart
+ * @body    { type: 'grid' | 'formula', grid?: { fatSteps, snfSteps, rates }, baseRate?, fatRate?, snfRate? }
+ * @access  Owner, Accountant
+ */
+router.put('/sources/:id/rate-chart', authorize(...MANAGERS), validate(sourceSchemas.setRateChart), setRateChart);
+
+/**
+ * @route   DELETE /api/sources/:id/rate-chart
+ * @desc    Remove a source's rate chart
+ * @access  Owner, Accountant
+ */
+router.delete('/sources/:id/rate-chart', authorize(...MANAGERS), validate(sourceSchemas.byId), deleteRateChart);
+
+/**
+ * @route   GET /api/sources/:id/payments
+ * @desc    Get payments made to a source (most recent first)
+ * @access  Owner, Accountant
+ */
+router.get('/sources/:id/payments', authorize(...MANAGERS), validate(sourceSchemas.byId), getSupplierPayments);
+
+/**
+ * @route   POST /api/sources/:id/payments
+ * @desc    Record a payment made to a source
+ * @body    { amount, date, method?, remarks? }
+ * @access  Owner, Accountant
+ */
+router.post('/sources/:id/payments', authorize(...MANAGERS), validate(sourceSchemas.recordPayment), recordSupplierPayment);
+
+/**
+ * @route   DELETE /api/sources/:id/payments/:paymentId
+ * @desc    Delete a payment made to a source
+ * @access  Owner, Accountant
+ */
+router.delete('/sources/:id/payments/:paymentId', authorize(...MANAGERS), validate(sourceSchemas.deletePayment), deleteSupplierPayment);
+
+/**
+ * @route   GET /api/sources/:id/statement
+ * @desc    Get a source's supplier statement with running balance
+ * @query   period (optional) - 'weekly' (default) or 'fortnightly'
+ * @query   endDate (optional) - Last day of the period (default: today)
+ * @query   startDate (optional) - Overrides the period's first day
+ * @access  Owner, Accountant
  */
-router.delete('/sources/:id', deleteSource);
+router.get('/sources/:id/statement', authorize(...MANAGERS), validate(sourceSchemas.statement), getSupplierStatement);
 
 export default router;
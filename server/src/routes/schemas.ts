@@ -0,0 +1,691 @@
+/**
+ * Request Schemas
+ *
+ * What each route accepts in its params, query and body, checked by the
+ * validate middleware before the controller runs. Schemas cover the shape
+ * of a request (types, formats, ranges); rules that need the database,
+ * like whether a customer exists, stay in the controllers.
+ */
+
+import { ParamSchema } from 'express-validator';
+import { RouteSchema } from '../middleware/validate.js';
+import { RECORDED_MOVEMENT_TYPES } from '../lib/inventory.js';
+import { isStoredBackupName } from '../lib/backup.js';
+import {
+  BILLING_SORT_FIELDS,
+  CUSTOMER_SORT_FIELDS,
+  DELIVERY_SORT_FIELDS,
+  MAX_PAGE_SIZE,
+  PAYMENT_SORT_FIELDS,
+  STOCK_SORT_FIELDS,
+} from '../lib/pagination.js';
+import {
+  CustomerCategory,
+  InvoiceStatus,
+  InvoiceType,
+  MessageChannel,
+  MessageTemplate,
+  RateChartType,
+  RestoreMode,
+  Shift,
+  StatementPeriod,
+  UserRole,
+} from '../types/index.js';
+
+// ============================================================================
+// Field Rules
+// ============================================================================
+
+/**
+ * Require a field, rejecting a missing or null value
+ */
+const required = (rule: ParamSchema): ParamSchema => ({
+  exists: { options: { values: 'null' }, errorMessage: 'is required', bail: true },
+  ...rule,
+});
+
+/**
+ * Check a body field only when it is present and not null
+ */
+const optional = (rule: ParamSchema): ParamSchema => ({
+  optional: { options: { values: 'null' } },
+  ...rule,
+});
+
+/**
+ * Check a query parameter only when it is given and not empty
+ */
+const optionalQuery = (rule: ParamSchema): ParamSchema => ({
+  optional: { options: { values: 'falsy' } },
+  ...rule,
+});
+
+const oneOf = (values: readonly string[]): ParamSchema => ({
+  isIn: {
+    options: [values],
+    errorMessage: `must be one of ${values.map((v) => `'${v}'`).join(', ')}`,
+  },
+});
+
+const id: ParamSchema = { isUUID: { errorMessage: 'must be a valid ID' } };
+
+/** Product IDs are not all UUIDs: the built-in milk product is 'milk' */
+const productId: ParamSchema = {
+  isString: { errorMessage: 'must be a product ID' },
+  notEmpty: { errorMessage: 'must be a product ID' },
+};
+
+const text: ParamSchema = {
+  isString: { errorMessage: 'must be text' },
+  notEmpty: { errorMessage: 'cannot be empty' },
+};
+
+const optionalText: ParamSchema = { isString: { errorMessage: 'must be text' } };
+
+const date: ParamSchema = {
+  isDate: {
+    options: { format: 'YYYY-MM-DD', strictMode: true, delimiters: ['-'] },
+    errorMessage: 'must be a date in YYYY-MM-DD format',
+  },
+};
+
+const timestamp: ParamSchema = { isISO8601: { errorMessage: 'must be an ISO timestamp' } };
+
+/** Either case is accepted and stored lower-cased */
+const shift: ParamSchema = {
+  customSanitizer: { options: (value: unknown) => (typeof value === 'string' ? value.toLowerCase() : value) },
+  ...oneOf(Object.values(Shift)),
+};
+
+const month: ParamSchema = {
+  isInt: { options: { min: 1, max: 12 }, errorMessage: 'must be a month from 1 to 12' },
+  toInt: true,
+};
+
+const year: ParamSchema = {
+  isInt: { options: { min: 2000, max: 2100 }, errorMessage: 'must be a year from 2000 to 2100' },
+  toInt: true,
+};
+
+const positiveNumber: ParamSchema = {
+  isFloat: { options: { gt: 0 }, errorMessage: 'must be a number greater than 0' },
+  toFloat: true,
+};
+
+const nonNegativeNumber: ParamSchema = {
+  isFloat: { options: { min: 0 }, errorMessage: 'must be a number of 0 or more' },
+  toFloat: true,
+};
+
+const percentage: ParamSchema = {
+  isFloat: { options: { min: 0, max: 100 }, errorMessage: 'must be a percentage from 0 to 100' },
+  toFloat: true,
+};
+
+const number: ParamSchema = { isFloat: { errorMessage: 'must be a number' }, toFloat: true };
+
+/** Accepts true/false or 1/0, as values or text, and passes on a boolean */
+const boolean: ParamSchema = {
+  isBoolean: { errorMessage: 'must be true or false' },
+  toBoolean: { options: [true] },
+};
+
+const flag: ParamSchema = oneOf(['true', 'false']);
+
+const limit: ParamSchema = {
+  isInt: { options: { min: 1 }, errorMessage: 'must be a whole number of at least 1' },
+  toInt: true,
+};
+
+const list: ParamSchema = { isArray: { errorMessage: 'must be a list' } };
+
+const object: ParamSchema = { isObject: { errorMessage: 'must be an object' } };
+
+const exportFormat: ParamSchema = oneOf(['csv', 'xlsx']);
+
+const pageSize: ParamSchema = {
+  isInt: {
+    options: { min: 1, max: MAX_PAGE_SIZE },
+    errorMessage: `must be a whole number from 1 to ${MAX_PAGE_SIZE}`,
+  },
+  toInt: true,
+};
+
+/** Route param `:id` */
+const byId: RouteSchema = { params: { id } };
+
+/** Month and year of a billing query */
+const billingMonth = {
+  month: required(month),
+  year: required(year),
+};
+
+/** Date, shift and scope of a daily log action */
+const deliveryShift = {
+  date: required(date),
+  shift: required(shift),
+  routeId: optional(id),
+  productId: optional(productId),
+};
+
+const paymentFields = {
+  amount: required(positiveNumber),
+  date: required(date),
+  method: optional(optionalText),
+  remarks: optional(optionalText),
+  allocations: optional(list),
+  'allocations.*.month': required(month),
+  'allocations.*.year': required(year),
+  'allocations.*.amount': required(positiveNumber),
+};
+
+/** Page and sort of a paginated list, sortable by the keys of `sortFields` */
+const pageQuery = (sortFields: Record<string, string>) => ({
+  page: optionalQuery(limit),
+  limit: optionalQuery(pageSize),
+  sortBy: optionalQuery(oneOf(Object.keys(sortFields))),
+  sortOrder: optionalQuery(oneOf(['asc', 'desc'])),
+});
+
+const paymentFilters = {
+  customerId: optionalQuery(id),
+  startDate: optionalQuery(date),
+  endDate: optionalQuery(date),
+  method: optionalQuery(optionalText),
+  includeVoided: optionalQuery(flag),
+};
+
+const stockFilters = {
+  startDate: optionalQuery(date),
+  endDate: optionalQuery(date),
+  productId: optionalQuery(productId),
+  shift: optionalQuery(shift),
+  source: optionalQuery(optionalText),
+  search: optionalQuery(optionalText),
+};
+
+// ============================================================================
+// Auth
+// ============================================================================
+
+export const authSchemas = {
+  login: { body: { username: required(text), password: required(text) } },
+  changePassword: { body: { currentPassword: required(text), newPassword: required(text) } },
+  portal: { params: { token: text } },
+} satisfies Record<string, RouteSchema>;
+
+// ============================================================================
+// Users
+// ============================================================================
+
+export const userSchemas = {
+  create: {
+    body: {
+      username: required(text),
+      name: required(text),
+      password: required(text),
+      role: required(oneOf(Object.values(UserRole))),
+    },
+  },
+  update: {
+    params: { id },
+    body: {
+      name: optional(text),
+      // An empty password leaves the current one
+      password: { optional: { options: { values: 'falsy' } }, ...optionalText },
+      role: optional(oneOf(Object.values(UserRole))),
+      isActive: optional(boolean),
+    },
+  },
+  byId,
+} satisfies Record<string, RouteSchema>;
+
+// ============================================================================
+// Customers
+// ============================================================================
+
+const customerFields = {
+  name: text,
+  address: text,
+  phone: optional(optionalText),
+  category: oneOf(Object.values(CustomerCategory)),
+  morningQuota: nonNegativeNumber,
+  eveningQuota: nonNegativeNumber,
+  pricePerLiter: nonNegativeNumber,
+};
+
+export const customerSchemas = {
+  list: {
+    query: {
+      category: optionalQuery(oneOf(Object.values(CustomerCategory))),
+      active: optionalQuery(flag),
+      search: optionalQuery(optionalText),
+      ...pageQuery(CUSTOMER_SORT_FIELDS),
+    },
+  },
+  byCategory: { params: { category: oneOf(Object.values(CustomerCategory)) } },
+  byId,
+  statement: {
+    params: { id },
+    query: { from: optionalQuery(date), to: optionalQuery(date) },
+  },
+  portalLink: {
+    params: { id },
+    body: {
+      expiresInDays: optional({
+        isInt: { options: { min: 1, max: 365 }, errorMessage: 'must be a whole number of days from 1 to 365' },
+        toInt: true,
+      }),
+    },
+  },
+  createPause: {
+    params: { id },
+    body: {
+      startDate: required(date),
+      endDate: required(date),
+      shift: optional(shift),
+      reason: optional(optionalText),
+    },
+  },
+  deletePause: { params: { id, pauseId: id } },
+  setQuotaSchedule: {
+    params: { id },
+    body: {
+      weekdayQuotas: optional(object),
+      intervalDays: optional({
+        isInt: { options: { min: 1 }, errorMessage: 'must be a whole number of at least 1' },
+        toInt: true,
+      }),
+      startDate: optional(date),
+    },
+  },
+  setProducts: {
+    params: { id },
+    body: {
+      products: required(list),
+      'products.*.productId': required(productId),
+      'products.*.morningQuota': required(nonNegativeNumber),
+      'products.*.eveningQuota': required(nonNegativeNumber),
+      'products.*.price': optional(nonNegativeNumber),
+      priceEffectiveFrom: optional(date),
+    },
+  },
+  create: {
+    body: {
+      name: required(customerFields.name),
+      address: required(customerFields.address),
+      phone: customerFields.phone,
+      category: required(customerFields.category),
+      morningQuota: required(customerFields.morningQuota),
+      eveningQuota: required(customerFields.eveningQuota),
+      pricePerLiter: required(customerFields.pricePerLiter),
+    },
+  },
+  import: {
+    query: { dryRun: optionalQuery(flag) },
+    body: { mapping: optional({ isJSON: { errorMessage: 'must be a JSON object of field to column header' } }) },
+  },
+  update: {
+    params: { id },
+    body: {
+      name: optional(customerFields.name),
+      address: optional(customerFields.address),
+      phone: customerFields.phone,
+      category: optional(customerFields.category),
+      morningQuota: optional(customerFields.morningQuota),
+      eveningQuota: optional(customerFields.eveningQuota),
+      pricePerLiter: optional(customerFields.pricePerLiter),
+      isActive: optional(boolean),
+      priceEffectiveFrom: optional(date),
+    },
+  },
+  delete: { params: { id }, query: { permanent: optionalQuery(flag) } },
+} satisfies Record<string, RouteSchema>;
+
+// ============================================================================
+// Products
+// ============================================================================
+
+export const productSchemas = {
+  list: { query: { active: optionalQuery(flag) } },
+  create: {
+    body: {
+      name: required(text),
+      unit: required(text),
+      defaultPrice: required(nonNegativeNumber),
+    },
+  },
+  update: {
+    params: { id: productId },
+    body: {
+      name: optional(text),
+      unit: optional(text),
+      defaultPrice: optional(nonNegativeNumber),
+      isActive: optional(boolean),
+      priceEffectiveFrom: optional(date),
+    },
+  },
+  byId: { params: { id: productId } },
+} satisfies Record<string, RouteSchema>;
+
+// ============================================================================
+// Delivery Routes
+// ============================================================================
+
+export const routeSchemas = {
+  byId,
+  create: {
+    body: {
+      name: required(text),
+      description: optional(optionalText),
+      agentId: optional(id),
+    },
+  },
+  update: {
+    params: { id },
+    body: {
+      name: optional(text),
+      description: optional(optionalText),
+      agentId: optional(id),
+      isActive: optional(boolean),
+    },
+  },
+  setStops: {
+    params: { id },
+    body: { customerIds: required(list), 'customerIds.*': id },
+  },
+} satisfies Record<string, RouteSchema>;
+
+// ============================================================================
+// Deliveries
+// ============================================================================
+
+export const deliverySchemas = {
+  list: {
+    query: {
+      date: required(date),
+      shift: required(shift),
+      routeId: optionalQuery(id),
+      productId: optionalQuery(productId),
+    },
+  },
+  export: {
+    query: {
+      startDate: required(date),
+      endDate: required(date),
+      shift: optionalQuery(shift),
+      productId: optionalQuery(productId),
+      customerId: optionalQuery(id),
+      routeId: optionalQuery(id),
+      format: optionalQuery(exportFormat),
+    },
+  },
+  byCustomer: {
+    params: { id },
+    query: {
+      startDate: optionalQuery(date),
+      endDate: optionalQuery(date),
+      shift: optionalQuery(shift),
+      productId: optionalQuery(productId),
+      delivered: optionalQuery(flag),
+      ...pageQuery(DELIVERY_SORT_FIELDS),
+    },
+  },
+  upsert: {
+    body: {
+      customerId: required(id),
+      date: required(date),
+      shift: required(shift),
+      productId: optional(productId),
+      actualAmount: required(nonNegativeNumber),
+      delivered: required(boolean),
+      notes: optional(optionalText),
+    },
+  },
+  bulk: {
+    body: {
+      ...deliveryShift,
+      deliveries: required(list),
+      'deliveries.*.customerId': required(id),
+      'deliveries.*.actualAmount': required(nonNegativeNumber),
+      'deliveries.*.delivered': required(boolean),
+      'deliveries.*.notes': optional(optionalText),
+      // null means the delivery did not exist when loaded
+      'deliveries.*.baseUpdatedAt': optional(timestamp),
+    },
+  },
+  shift: { body: deliveryShift },
+} satisfies Record<string, RouteSchema>;
+
+// ============================================================================
+// Stock
+// ============================================================================
+
+export const stockSchemas = {
+  list: { query: { ...stockFilters, ...pageQuery(STOCK_SORT_FIELDS) } },
+  export: { query: { ...stockFilters, format: optionalQuery(exportFormat) } },
+  recent: { query: { limit: optionalQuery(limit) } },
+  ledger: {
+    query: {
+      startDate: required(date),
+      endDate: required(date),
+      productId: optionalQuery(productId),
+    },
+  },
+  createMovement: {
+    body: {
+      date: required(date),
+      type: required(oneOf(RECORDED_MOVEMENT_TYPES)),
+      // Signed for adjustments; the controller checks the sign for each type
+      quantity: required(number),
+      reason: required(text),
+      productId: optional(productId),
+    },
+  },
+  create: {
+    body: {
+      date: required(date),
+      shift: required(shift),
+      source: required(text),
+      productId: optional(productId),
+      quantity: required(positiveNumber),
+      fat: optional(percentage),
+      snf: optional(percentage),
+    },
+  },
+  availability: {
+    query: { date: required(date), productId: optionalQuery(productId) },
+  },
+  byId,
+} satisfies Record<string, RouteSchema>;
+
+// ============================================================================
+// Billing and Payments
+// ============================================================================
+
+export const billingSchemas = {
+  monthly: {
+    query: {
+      ...billingMonth,
+      search: optionalQuery(optionalText),
+      ...pageQuery(BILLING_SORT_FIELDS),
+    },
+  },
+  export: { query: { ...billingMonth, format: optionalQuery(exportFormat) } },
+  customerMonth: { params: { customerId: id }, query: billingMonth },
+  customer: { params: { customerId: id } },
+  recordPayment: {
+    body: {
+      customerId: required(id),
+      ...paymentFields,
+      month: optional(month),
+      year: optional(year),
+    },
+  },
+  payments: { query: { ...paymentFilters, ...pageQuery(PAYMENT_SORT_FIELDS) } },
+  exportPayments: { query: { ...paymentFilters, format: optionalQuery(exportFormat) } },
+  updatePayment: { params: { id }, body: paymentFields },
+  voidPayment: { params: { id }, body: { reason: required(text) } },
+  byId,
+} satisfies Record<string, RouteSchema>;
+
+// ============================================================================
+// Invoices
+// ============================================================================
+
+export const invoiceSchemas = {
+  list: {
+    query: {
+      month: optionalQuery(month),
+      year: optionalQuery(year),
+      customerId: optionalQuery(id),
+      status: optionalQuery(oneOf(Object.values(InvoiceStatus))),
+      type: optionalQuery(oneOf(Object.values(InvoiceType))),
+    },
+  },
+  byId,
+  create: {
+    body: { customerId: required(id), month: required(month), year: required(year) },
+  },
+  updateStatus: {
+    params: { id },
+    body: { status: required(oneOf([InvoiceStatus.ISSUED, InvoiceStatus.PAID, InvoiceStatus.VOID])) },
+  },
+  createNote: {
+    params: { id },
+    body: {
+      type: required(oneOf([InvoiceType.CREDIT_NOTE, InvoiceType.DEBIT_NOTE])),
+      amount: required(positiveNumber),
+      reason: required(text),
+    },
+  },
+} satisfies Record<string, RouteSchema>;
+
+// ============================================================================
+// Messages
+// ============================================================================
+
+export const messageSchemas = {
+  list: { query: { customerId: optionalQuery(id), limit: optionalQuery(limit) } },
+  send: {
+    body: {
+      template: required(oneOf(Object.values(MessageTemplate))),
+      channel: required(oneOf(Object.values(MessageChannel))),
+      month: required(month),
+      year: required(year),
+      customerIds: optional(list),
+      'customerIds.*': id,
+      minTotalDue: optional(nonNegativeNumber),
+    },
+  },
+} satisfies Record<string, RouteSchema>;
+
+// ============================================================================
+// Dashboard
+// ============================================================================
+
+export const dashboardSchemas = {
+  trends: {
+    query: {
+      startDate: optionalQuery(date),
+      endDate: optionalQuery(date),
+      customerId: optionalQuery(id),
+    },
+  },
+  sources: { query: { startDate: optionalQuery(date), endDate: optionalQuery(date) } },
+} satisfies Record<string, RouteSchema>;
+
+// ============================================================================
+// Settings
+// ============================================================================
+
+export const settingsSchemas = {
+  update: {
+    body: {
+      businessName: optional(text),
+      businessAddress: optional(optionalText),
+      businessPhone: optional(optionalText),
+      defaultPricePerLiter: optional(nonNegativeNumber),
+      currency: optional(text),
+      currencySymbol: optional(text),
+      maxCapacity: optional(nonNegativeNumber),
+      paymentTerms: optional({
+        isInt: { options: { min: 0 }, errorMessage: 'must be a whole number of days' },
+        toInt: true,
+      }),
+      invoicePrefix: optional(optionalText),
+      receiptPrefix: optional(optionalText),
+    },
+  },
+} satisfies Record<string, RouteSchema>;
+
+// ============================================================================
+// Backups, Audit and Undo
+// ============================================================================
+
+export const backupSchemas = {
+  download: { query: { format: optionalQuery(oneOf(['zip', 'json'])) } },
+  restore: { body: { mode: required(oneOf(Object.values(RestoreMode))) } },
+  stored: {
+    params: {
+      name: { custom: { options: (value: string) => isStoredBackupName(value), errorMessage: 'is not a stored backup' } },
+    },
+  },
+} satisfies Record<string, RouteSchema>;
+
+export const auditSchemas = {
+  list: {
+    query: {
+      customerId: optionalQuery(id),
+      entity: optionalQuery(optionalText),
+      from: optionalQuery(timestamp),
+      to: optionalQuery(timestamp),
+      limit: optionalQuery(limit),
+    },
+  },
+} satisfies Record<string, RouteSchema>;
+
+export const changeSetSchemas = {
+  byId,
+} satisfies Record<string, RouteSchema>;
+
+// ============================================================================
+// Sources
+// ============================================================================
+
+export const sourceSchemas = {
+  byId,
+  create: { body: { name: required(text), type: required(text) } },
+  update: {
+    params: { id },
+    body: { name: optional(text), type: optional(text), isActive: optional(boolean) },
+  },
+  setRateChart: {
+    params: { id },
+    body: {
+      type: required(oneOf(Object.values(RateChartType))),
+      grid: optional(object),
+      baseRate: optional(number),
+      fatRate: optional(number),
+      snfRate: optional(number),
+    },
+  },
+  recordPayment: {
+    params: { id },
+    body: {
+      amount: required(positiveNumber),
+      date: required(date),
+      method: optional(optionalText),
+      remarks: optional(optionalText),
+    },
+  },
+  deletePayment: { params: { id, paymentId: id } },
+  statement: {
+    params: { id },
+    query: {
+      period: optionalQuery(oneOf(Object.values(StatementPeriod))),
+      endDate: optionalQuery(date),
+      startDate: optionalQuery(date),
+    },
+  },
+} satisfies Record<string, RouteSchema>;
@@ -0,0 +1,17 @@
+/**
+ * Express Request augmentation
+ *
+ * Adds the authenticated user set by the auth middleware.
+ */
+
+import { AuthUser } from './index.js';
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: AuthUser;
+    }
+  }
+}
+
+export {};
@@ -33,6 +33,77 @@ export enum StockSource {
   OTHER = 'other',
 }
 
+/**
+ * User roles
+ * - OWNER: Full access including settings and permanent deletion
+ * - ACCOUNTANT: Customers, billing and payments
+ * - DELIVERY: Daily delivery log and stock collection only
+ */
+export enum UserRole {
+  OWNER = 'owner',
+  ACCOUNTANT = 'accountant',
+  DELIVERY = 'delivery',
+}
+
+/**
+ * User account interface (password hash is never exposed)
+ */
+export interface User {
+  id: string;
+  /** Login name, unique across accounts */
+  username: string;
+  /** Display name */
+  name: string;
+  role: UserRole;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Authenticated user attached to each request by the auth middleware
+ */
+export interface AuthUser {
+  id: string;
+  username: string;
+  name: string;
+  role: UserRole;
+}
+
+/**
+ * Login DTO
+ */
+export interface LoginDTO {
+  username: string;
+  password: string;
+}
+
+/**
+ * Login response
+ */
+export interface LoginResponse {
+  /** Signed JWT to send as `Authorization: Bearer <token>` */
+  token: string;
+  user: AuthUser;
+}
+
+/**
+ * User creation DTO
+ */
+export interface CreateUserDTO {
+  username: string;
+  name: string;
+  password: string;
+  role: UserRole;
+}
+
+/**
+ * User update DTO
+ */
+export interface UpdateUserDTO extends Partial<CreateUserDTO> {
+  isActive?: boolean;
+}
+
 /**
  * Source Model Interface
  */
@@ -45,6 +116,54 @@ export interface Source {
   updatedAt: Date;
 }
 
+/**
+ * Rate chart types
+ * - GRID: rate looked up from a fat % × SNF % table
+ * - FORMULA: rate = baseRate + fatRate × fat + snfRate × snf
+ */
+export enum RateChartType {
+  GRID = 'grid',
+  FORMULA = 'formula',
+}
+
+/**
+ * Fat × SNF rate table. rates[i][j] is the price per unit for fat at
+ * fatSteps[i] and SNF at snfSteps[j]; steps are ascending and a reading
+ * uses the highest step at or below it.
+ */
+export interface RateGrid {
+  fatSteps: number[];
+  snfSteps: number[];
+  rates: number[][];
+}
+
+/**
+ * Source rate chart interface
+ * Prices a source's collections by milk quality
+ */
+export interface SourceRateChart {
+  id: string;
+  sourceId: string;
+  type: RateChartType;
+  grid?: RateGrid | null;
+  baseRate: number;
+  fatRate: number;
+  snfRate: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Rate chart DTO (replaces the source's rate chart)
+ */
+export interface SetRateChartDTO {
+  type: RateChartType;
+  grid?: RateGrid | null;
+  baseRate?: number;
+  fatRate?: number;
+  snfRate?: number;
+}
+
 /**
  * Customer interface
  * Represents a milk delivery customer with their quotas and pricing
@@ -99,6 +218,256 @@ export interface CreateCustomerDTO {
  */
 export interface UpdateCustomerDTO extends Partial<CreateCustomerDTO> {
   isActive?: boolean;
+  /** Date (YYYY-MM-DD) from which a new pricePerLiter applies (defaults to today) */
+  priceEffectiveFrom?: string;
+}
+
+/**
+ * Customer price history entry
+ * A rate applies from effectiveFrom until the next entry takes over
+ */
+export interface CustomerPrice {
+  id: string;
+  customerId: string;
+  /** Price per liter for this period */
+  pricePerLiter: number;
+  /** First date (YYYY-MM-DD) this rate applies to */
+  effectiveFrom: string;
+  createdAt: Date;
+}
+
+/**
+ * Which spreadsheet column (by header text) feeds each customer field.
+ * Fields left out are matched to a column by common header names; an
+ * empty header leaves the field out of the import.
+ */
+export type CustomerImportMapping = Partial<Record<keyof CreateCustomerDTO, string>>;
+
+/**
+ * One spreadsheet row checked for import
+ */
+export interface CustomerImportRow {
+  /** Line number in the file, counting the header as line 1 */
+  row: number;
+  /** The customer the row would create */
+  data: CreateCustomerDTO;
+  /** 'duplicate' rows match an existing customer or an earlier row and are skipped */
+  status: 'valid' | 'invalid' | 'duplicate';
+  /** Why the row is invalid */
+  errors: string[];
+  /** What the row duplicates, e.g. 'Existing customer Ravi Kumar' or 'Row 4' */
+  duplicateOf: string | null;
+}
+
+/**
+ * Outcome of a customer import or of its dry run
+ */
+export interface CustomerImportResult {
+  dryRun: boolean;
+  /** Header row of the file */
+  headers: string[];
+  /** The column used for each field, after guessing unmapped fields */
+  mapping: CustomerImportMapping;
+  rows: CustomerImportRow[];
+  valid: number;
+  invalid: number;
+  duplicates: number;
+  /** Customers created; always 0 for a dry run */
+  created: number;
+}
+
+/**
+ * Product interface
+ * An item sold to customers, e.g. milk (L), curd (kg) or paneer (kg)
+ */
+export interface Product {
+  id: string;
+  name: string;
+  /** Unit of measure, e.g. 'L', 'kg', 'pc' */
+  unit: string;
+  /** Price per unit when the customer has no specific price */
+  defaultPrice: number;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Product creation DTO
+ */
+export interface CreateProductDTO {
+  name: string;
+  unit: string;
+  defaultPrice: number;
+}
+
+/**
+ * Product update DTO
+ */
+export interface UpdateProductDTO extends Partial<CreateProductDTO> {
+  isActive?: boolean;
+  priceEffectiveFrom?: string; // YYYY-MM-DD, date a default price change applies from; defaults to today
+}
+
+/**
+ * Inventory level of one product
+ */
+export interface ProductInventory {
+  productId: string;
+  name: string;
+  unit: string;
+  stockIn: number;
+  delivered: number;
+  /** Level at the latest physical count (0 if never counted) */
+  countedLevel: number;
+  /** Net of wastage, spoilage, counter sales and adjustments */
+  otherMovements: number;
+  current: number;
+  /** Date of the latest physical count; the other figures cover the days after it */
+  lastCountDate: string | null;
+}
+
+/**
+ * Customer subscription to a non-default product
+ * (the default milk product uses the quotas and price on Customer)
+ */
+export interface CustomerProduct {
+  id: string;
+  customerId: string;
+  productId: string;
+  morningQuota: number;
+  eveningQuota: number;
+  /** Customer-specific price per unit; null uses the product's default price */
+  price?: number | null;
+}
+
+/**
+ * Customer products DTO (replaces the customer's product list)
+ */
+export interface SetCustomerProductsDTO {
+  products: Array<{
+    productId: string;
+    morningQuota: number;
+    eveningQuota: number;
+    price?: number | null;
+  }>;
+  priceEffectiveFrom?: string; // YYYY-MM-DD, date price changes apply from; defaults to today
+}
+
+/**
+ * Quantities for one weekday; an omitted shift uses the base quota
+ */
+export interface WeekdayQuota {
+  morning?: number;
+  evening?: number;
+}
+
+/**
+ * Per-weekday quantities keyed by day number (Sunday = 0 ... Saturday = 6)
+ */
+export type WeekdayQuotas = Partial<Record<number, WeekdayQuota>>;
+
+/**
+ * Customer quota schedule interface
+ * Overrides the base morning/evening quotas by weekday and recurrence
+ */
+export interface QuotaSchedule {
+  id: string;
+  customerId: string;
+  /** Per-weekday quantities; days not listed use the base quotas */
+  weekdayQuotas?: WeekdayQuotas | null;
+  /** Deliver every N days counted from startDate (1 = daily, 2 = alternate days) */
+  intervalDays: number;
+  /** First delivery day of the interval cycle in YYYY-MM-DD format */
+  startDate: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Quota schedule DTO (replaces the customer's schedule)
+ */
+export interface SetQuotaScheduleDTO {
+  weekdayQuotas?: WeekdayQuotas | null;
+  intervalDays?: number;
+  startDate?: string;
+}
+
+/**
+ * Customer pause interface
+ * No deliveries are expected from startDate to endDate (inclusive)
+ */
+export interface CustomerPause {
+  id: string;
+  customerId: string;
+  /** First paused date in YYYY-MM-DD format */
+  startDate: string;
+  /** Last paused date in YYYY-MM-DD format */
+  endDate: string;
+  /** Paused shift; null pauses both shifts */
+  shift?: Shift | null;
+  reason?: string | null;
+  createdAt: Date;
+}
+
+/**
+ * Customer pause creation DTO
+ */
+export interface CreateCustomerPauseDTO {
+  startDate: string;
+  endDate: string;
+  shift?: Shift | null;
+  reason?: string;
+}
+
+/**
+ * Delivery route interface
+ * An ordered list of customer stops run by one delivery agent
+ */
+export interface DeliveryRoute {
+  id: string;
+  name: string;
+  description?: string | null;
+  isActive: boolean;
+  /** User ID of the delivery agent assigned to the route */
+  agentId?: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Route stop interface
+ */
+export interface RouteStop {
+  id: string;
+  routeId: string;
+  customerId: string;
+  /** 1-based position of the stop on the route */
+  sequence: number;
+}
+
+/**
+ * Route creation DTO
+ */
+export interface CreateRouteDTO {
+  name: string;
+  description?: string;
+  agentId?: string | null;
+}
+
+/**
+ * Route update DTO
+ */
+export interface UpdateRouteDTO extends Partial<CreateRouteDTO> {
+  isActive?: boolean;
+}
+
+/**
+ * Route stop sequence DTO
+ * Customer IDs in delivery order; replaces the route's existing stops
+ */
+export interface SetRouteStopsDTO {
+  customerIds: string[];
 }
 
 /**
@@ -112,6 +481,8 @@ export interface Delivery {
   customerId: string;
   /** Customer name associated with the delivery */
   customerName: string;
+  /** Product delivered */
+  productId: string;
   /** Delivery date in YYYY-MM-DD format */
   date: string;
   /** Shift of the delivery (morning/afternoon) */
@@ -119,6 +490,8 @@ export interface Delivery {
   /** Expected delivery amount in liters */
   actualAmount: number;   // Actually delivered amount
   delivered: boolean;     // Whether delivery was made
+  /** Whether the customer is paused for this date and shift */
+  isPaused?: boolean;
   notes?: string | null;
   createdAt: Date;
   updatedAt: Date;
@@ -130,6 +503,8 @@ export interface Delivery {
 export interface CreateDeliveryDTO {
   /** Customer ID associated with the delivery */
   customerId: string;
+  /** Product delivered (defaults to milk) */
+  productId?: string;
   /** Delivery date in YYYY-MM-DD format */
   date: string;
   /** Shift of the delivery (morning/afternoon) */
@@ -150,6 +525,10 @@ export interface BulkDeliveryUpdateDTO {
   date: string;
   /** Shift of the delivery (morning/afternoon) */
   shift: Shift;
+  /** Route the deliveries belong to (optional) */
+  routeId?: string;
+  /** Product delivered (defaults to milk) */
+  productId?: string;
   /** Array of deliveries to update */
   deliveries: Array<{
     /** Customer ID associated with the delivery */
@@ -159,9 +538,35 @@ export interface BulkDeliveryUpdateDTO {
     /** Whether delivery was made */
     delivered: boolean;
     notes?: string | null;
+    /**
+     * `updatedAt` of the delivery the edit was based on, null if it did not
+     * exist yet. The edit is skipped as a conflict when the delivery has
+     * changed since; leave it out to overwrite regardless.
+     */
+    baseUpdatedAt?: string | null;
   }>;
 }
 
+/**
+ * Delivery whose edit was skipped because it changed on the server since
+ */
+export interface DeliveryConflict {
+  customerId: string;
+  customerName: string;
+  /** The skipped edit */
+  mine: { actualAmount: number; delivered: boolean };
+  /** The delivery as it is now */
+  server: { actualAmount: number; delivered: boolean; updatedAt: Date };
+}
+
+/**
+ * Result of a bulk delivery update
+ */
+export interface BulkDeliveryUpdateResult {
+  saved: number;
+  conflicts: DeliveryConflict[];
+}
+
 /**
  * Stock record interface
  * Tracks milk collection/procurement
@@ -177,8 +582,18 @@ export interface Stock {
   source: StockSource;
   /** Human-readable source name */
   sourceName: string;
-  /** Amount in liters */
+  /** Product collected */
+  productId: string;
+  /** Amount in the product's unit */
   quantity: number;
+  /** Fat % */
+  fat?: number | null;
+  /** Solids-not-fat % */
+  snf?: number | null;
+  /** Purchase price per unit from the source's rate chart */
+  rate?: number | null;
+  /** Purchase value (quantity × rate) */
+  amount?: number | null;
   createdAt: Date;
 }
 
@@ -192,8 +607,88 @@ export interface CreateStockDTO {
   shift: Shift;
   /** Source of the stock (farm_a, farm_b, market, other) */
   source: StockSource;
-  /** Amount in liters */
+  /** Product collected (defaults to milk) */
+  productId?: string;
+  /** Amount in the product's unit */
+  quantity: number;
+  /** Fat % */
+  fat?: number;
+  /** Solids-not-fat % */
+  snf?: number;
+}
+
+/**
+ * Inventory ledger entry types. Collections and deliveries come from Stock
+ * and Delivery; the rest are recorded as stock movements.
+ */
+export enum StockMovementType {
+  COLLECTION = 'collection',
+  DELIVERY = 'delivery',
+  WASTAGE = 'wastage',
+  SPOILAGE = 'spoilage',
+  COUNTER_SALE = 'counter_sale',
+  ADJUSTMENT = 'adjustment',
+  COUNT = 'count',
+}
+
+/**
+ * Stock movement record (wastage, spoilage, counter sale, adjustment or count)
+ */
+export interface StockMovement {
+  id: string;
+  /** Date in YYYY-MM-DD format */
+  date: string;
+  type: StockMovementType;
+  productId: string;
+  /** Amount removed; signed change for adjustments; counted level for counts */
+  quantity: number;
+  reason: string;
+  createdById: string;
+  /** Name of the user who recorded it */
+  createdByName?: string;
+  createdAt: Date;
+}
+
+/**
+ * Stock movement creation DTO
+ */
+export interface CreateStockMovementDTO {
+  /** Date in YYYY-MM-DD format */
+  date: string;
+  type: StockMovementType;
+  /** Product moved (defaults to milk) */
+  productId?: string;
   quantity: number;
+  reason: string;
+}
+
+/**
+ * One line of a product's inventory ledger
+ */
+export interface StockLedgerEntry {
+  date: string;
+  type: StockMovementType;
+  /** Set for recorded stock movements, which can be deleted */
+  movementId?: string;
+  description: string;
+  /** Change to the level (for counts, the variance from the computed level) */
+  change: number;
+  /** Level after this entry */
+  balance: number;
+  reason?: string;
+  createdByName?: string;
+}
+
+/**
+ * Inventory ledger of a product for a date range
+ */
+export interface StockLedger {
+  productId: string;
+  startDate: string;
+  endDate: string;
+  openingBalance: number;
+  closingBalance: number;
+  entries: StockLedgerEntry[];
 }
 
 /**
@@ -217,6 +712,10 @@ export interface Settings {
   maxCapacity: number;
   /** Default payment period in days */
   paymentTerms: number;
+  /** Prefix for invoice numbers (e.g., 'INV-') */
+  invoicePrefix: string;
+  /** Prefix for payment receipt numbers (e.g., 'RCT-') */
+  receiptPrefix: string;
 }
 
 /**
@@ -229,24 +728,164 @@ export interface CustomerBillingSummary {
   customerName: string;
   /** Customer address associated with the billing summary */
   customerAddress: string;
+  /** Customer phone number, used for reminders */
+  customerPhone: string | null;
   /** Month of the billing summary */
   month: number;
   /** Year of the billing summary */
   year: number;
-  /** Total liters delivered to the customer */
+  /** Total liters of the default milk product delivered to the customer */
   totalLiters: number;
-  /** Price per liter for the customer */
+  /** Price per liter in effect at the end of the month */
   pricePerLiter: number;
   /** Total amount for the billing summary */
   totalAmount: number;
-  /** Arrears from previous months (positive means they owe, negative means credit) */
+  /** Unsettled charges from previous months */
   previousBalance: number;
-  /** Total amount paid during this month */
+  /** Payments allocated to this month */
   paidAmount: number;
-  /** Final amount due (totalAmount + previousBalance - paidAmount) */
+  /** Net of debit notes less credit notes raised for this month */
+  adjustments: number;
+  /** Unallocated overpayment received by the end of this month */
+  credit: number;
+  /** Final amount due (totalAmount + previousBalance + adjustments - paidAmount - credit) */
   totalDue: number;
-  /** Daily delivery records for the billing summary */
+  /** Payments that settled this month */
+  settlements: PaymentSettlement[];
+  /** Daily delivery records for the billing summary (default milk product) */
   dailyBreakdown: DailyDeliveryRecord[];
+  /** Quantity and amount per product for the month */
+  lineItems: ProductLineItem[];
+  /** The month's invoice, if one has been created and not voided */
+  invoice?: InvoiceSummary | null;
+}
+
+/**
+ * Billed quantity and value of one product
+ */
+export interface ProductLineItem {
+  productId: string;
+  productName: string;
+  unit: string;
+  quantity: number;
+  amount: number;
+}
+
+/**
+ * Customer invoice for a month with its daily milk breakdown
+ */
+export interface CustomerInvoiceResponse {
+  customer: {
+    id: string;
+    name: string;
+    address: string;
+    pricePerLiter: number;
+  };
+  totalLiters: number;
+  totalAmount: number;
+  lineItems: ProductLineItem[];
+  dailyBreakdown: Array<{
+    date: string;
+    morning: number;
+    evening: number;
+    pricePerLiter: number;
+    amount: number;
+  }>;
+  /** Set when the invoice comes from an issued snapshot */
+  invoiceNumber?: string | null;
+  status?: InvoiceStatus;
+  previousBalance?: number;
+  totalDue?: number;
+}
+
+/**
+ * Invoice lifecycle. Issued and paid invoices lock deliveries in their month.
+ */
+export enum InvoiceStatus {
+  DRAFT = 'draft',
+  ISSUED = 'issued',
+  PAID = 'paid',
+  VOID = 'void',
+}
+
+/**
+ * Invoice document types
+ */
+export enum InvoiceType {
+  INVOICE = 'invoice',
+  CREDIT_NOTE = 'credit_note',
+  DEBIT_NOTE = 'debit_note',
+}
+
+/**
+ * Daily milk line of an invoice snapshot
+ */
+export interface InvoiceDailyLine {
+  date: string;
+  morning: number;
+  evening: number;
+  pricePerLiter: number;
+  amount: number;
+}
+
+/**
+ * Stored invoice, credit note or debit note
+ */
+export interface Invoice {
+  id: string;
+  type: InvoiceType;
+  status: InvoiceStatus;
+  /** Assigned when issued */
+  number: string | null;
+  customerId: string;
+  customerName?: string;
+  month: number;
+  year: number;
+  pricePerLiter: number;
+  totalLiters: number;
+  lineItems: ProductLineItem[];
+  dailyBreakdown: InvoiceDailyLine[];
+  previousBalance: number;
+  /** Charges for the month, or the note amount */
+  totalAmount: number;
+  totalDue: number;
+  /** Why a note was raised */
+  reason?: string | null;
+  /** Invoice a note adjusts */
+  invoiceId?: string | null;
+  notes?: Invoice[];
+  issuedAt: Date | null;
+  voidedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Invoice reference shown alongside a billing summary
+ */
+export interface InvoiceSummary {
+  id: string;
+  number: string | null;
+  status: InvoiceStatus;
+  totalDue: number;
+}
+
+/**
+ * Invoice creation DTO (creates a draft)
+ */
+export interface CreateInvoiceDTO {
+  customerId: string;
+  month: number;
+  year: number;
+}
+
+/**
+ * Credit or debit note DTO
+ */
+export interface CreateInvoiceNoteDTO {
+  type: InvoiceType.CREDIT_NOTE | InvoiceType.DEBIT_NOTE;
+  amount: number;
+  reason: string;
 }
 
 /**
@@ -254,28 +893,246 @@ export interface CustomerBillingSummary {
  */
 export interface Payment {
   id: string;
+  receiptNumber: string;
   customerId: string;
+  customerName?: string;
   amount: number;
   date: string;
   month: number;
   year: number;
+  method?: string | null;
   remarks?: string | null;
+  voidedAt?: Date | null;
+  voidReason?: string | null;
+  /** Payment this one corrected */
+  replacesId?: string | null;
+  allocations?: PaymentAllocation[];
+  /** Part of the payment not yet allocated (credit carried forward) */
+  unallocated?: number;
   createdAt: Date;
   updatedAt: Date;
 }
 
 /**
- * Payment creation DTO
+ * Part of a payment applied to a billing month
+ */
+export interface PaymentAllocation {
+  id: string;
+  paymentId: string;
+  month: number;
+  year: number;
+  amount: number;
+}
+
+/**
+ * Manual allocation of a payment to a billing month
+ */
+export interface PaymentAllocationInput {
+  month: number;
+  year: number;
+  amount: number;
+}
+
+/**
+ * One line of a customer account statement
+ */
+export interface CustomerStatementEntry {
+  date: string;
+  type: 'delivery' | 'payment' | InvoiceType.CREDIT_NOTE | InvoiceType.DEBIT_NOTE;
+  /** Receipt or note number */
+  reference?: string | null;
+  description: string;
+  debit: number;
+  credit: number;
+  balance: number;
+}
+
+/**
+ * Customer account statement for a date range
+ */
+export interface CustomerStatement {
+  customerId: string;
+  customerName: string;
+  customerAddress: string;
+  from: string;
+  to: string;
+  openingBalance: number;
+  totalDebits: number;
+  totalCredits: number;
+  closingBalance: number;
+  entries: CustomerStatementEntry[];
+}
+
+/**
+ * Payment creation DTO. Without allocations the payment settles the
+ * oldest outstanding months first.
  */
 export interface CreatePaymentDTO {
   customerId: string;
   amount: number;
   date: string;
+  /** Defaults to the month of `date` */
+  month?: number;
+  year?: number;
+  /** e.g. 'cash', 'bank', 'upi' */
+  method?: string;
+  remarks?: string;
+  allocations?: PaymentAllocationInput[];
+}
+
+/**
+ * Payment correction DTO. The original is voided and replaced.
+ */
+export type UpdatePaymentDTO = Omit<CreatePaymentDTO, 'customerId' | 'month' | 'year'>;
+
+/**
+ * A payment's share in settling a billing month
+ */
+export interface PaymentSettlement {
+  paymentId: string;
+  date: string;
+  /** Amount applied to the month */
+  amount: number;
+  /** Full amount of the payment */
+  paymentAmount: number;
+  remarks?: string | null;
+}
+
+/**
+ * Charges and settlement of one of a customer's billing months
+ */
+export interface PeriodBalance {
   month: number;
   year: number;
+  /** Deliveries plus debit notes less credit notes */
+  charges: number;
+  allocated: number;
+  outstanding: number;
+}
+
+/**
+ * Outstanding amounts grouped by days past the due date
+ */
+export interface AgingBuckets {
+  /** Not yet due */
+  current: number;
+  days1to30: number;
+  days31to60: number;
+  days61to90: number;
+  over90: number;
+}
+
+/**
+ * A customer's row in the receivables aging report
+ */
+export interface CustomerAging extends AgingBuckets {
+  customerId: string;
+  customerName: string;
+  phone: string | null;
+  /** Payments not yet applied to any month, and credits beyond a month's charges */
+  credit: number;
+  /** Sum of the buckets less credit */
+  total: number;
+  /** Due date of the oldest unpaid month */
+  oldestDueDate: string | null;
+  daysOverdue: number;
+}
+
+/**
+ * Receivables aging report. A month falls due `paymentTerms` days after
+ * it ends.
+ */
+export interface AgingReport {
+  asOf: string;
+  paymentTerms: number;
+  customers: CustomerAging[];
+  totals: AgingBuckets & { credit: number; total: number };
+}
+
+/**
+ * Supplier payment interface
+ * Money paid to a source against its collections
+ */
+export interface SupplierPayment {
+  id: string;
+  sourceId: string;
+  amount: number;
+  /** Payment date in YYYY-MM-DD format */
+  date: string;
+  /** e.g. 'cash', 'bank', 'upi' */
+  method?: string | null;
+  remarks?: string | null;
+  createdAt: Date;
+}
+
+/**
+ * Supplier payment creation DTO
+ */
+export interface CreateSupplierPaymentDTO {
+  amount: number;
+  date: string;
+  method?: string;
   remarks?: string;
 }
 
+/**
+ * What is owed to one source
+ */
+export interface SupplierPayable {
+  sourceId: string;
+  sourceName: string;
+  type: string;
+  /** Purchase value of all priced collections */
+  totalPurchases: number;
+  totalPaid: number;
+  /** Amount still owed (totalPurchases - totalPaid) */
+  balance: number;
+  /** Quantity collected without a rate (no fat/SNF reading or chart) */
+  unpricedQuantity: number;
+}
+
+/**
+ * Supplier statement periods
+ */
+export enum StatementPeriod {
+  WEEKLY = 'weekly',
+  FORTNIGHTLY = 'fortnightly',
+}
+
+/**
+ * One line of a supplier statement
+ */
+export interface SupplierStatementEntry {
+  date: string;
+  type: 'purchase' | 'payment';
+  /** Supplier payment ID (payments only) */
+  paymentId?: string;
+  description: string;
+  /** Quantity collected (purchases only) */
+  quantity?: number;
+  /** Purchase value added to the balance */
+  debit: number;
+  /** Payment deducted from the balance */
+  credit: number;
+  /** Running balance owed after this line */
+  balance: number;
+}
+
+/**
+ * Supplier statement for a period
+ */
+export interface SupplierStatement {
+  sourceId: string;
+  sourceName: string;
+  startDate: string;
+  endDate: string;
+  openingBalance: number;
+  totalPurchases: number;
+  totalPaid: number;
+  closingBalance: number;
+  entries: SupplierStatementEntry[];
+}
+
 /**
  * Daily delivery record for billing breakdown
  */
@@ -288,6 +1145,10 @@ export interface DailyDeliveryRecord {
   eveningAmount: number;
   /** Total delivery amount in liters */
   totalAmount: number;
+  /** Rate that applied on this date */
+  pricePerLiter: number;
+  /** Billed value of the day's deliveries */
+  amount: number;
 }
 
 /**
@@ -324,6 +1185,16 @@ export interface WeeklyDeliveryData {
   amount: number;
 }
 
+/**
+ * One problem with a request field, as reported by a 400 response
+ */
+export interface ValidationIssue {
+  location: 'params' | 'query' | 'body';
+  /** e.g. 'date' or 'deliveries[2].actualAmount' */
+  field: string;
+  message: string;
+}
+
 /**
  * API Response wrapper
  */
@@ -332,6 +1203,8 @@ export interface ApiResponse<T> {
   data?: T;
   error?: string;
   message?: string;
+  /** Every field problem of a rejected request */
+  errors?: ValidationIssue[];
 }
 
 /**
@@ -354,3 +1227,215 @@ export interface PaginatedResponse<T> {
   limit: number;
   totalPages: number;
 }
+
+/**
+ * One page of a customer's deliveries with the litres delivered across all pages
+ */
+export interface CustomerDeliveryPage extends PaginatedResponse<Delivery> {
+  totalQuantity: number;
+}
+
+/**
+ * Channels a customer message can be sent over
+ */
+export enum MessageChannel {
+  SMS = 'sms',
+  WHATSAPP = 'whatsapp',
+}
+
+/**
+ * Customer message templates
+ */
+export enum MessageTemplate {
+  BALANCE_REMINDER = 'balance_reminder',
+  MONTHLY_BILL = 'monthly_bill',
+}
+
+/**
+ * Message send record
+ */
+export interface MessageLog {
+  id: string;
+  customerId: string;
+  customerName?: string;
+  channel: string;
+  template: string;
+  phone: string;
+  body: string;
+  provider: string;
+  /** 'sent' or 'failed' */
+  status: string;
+  providerMessageId: string | null;
+  error: string | null;
+  month: number | null;
+  year: number | null;
+  sentById: string | null;
+  createdAt: Date;
+}
+
+/**
+ * Bulk message request. Recipients are the month's billed customers,
+ * narrowed by `customerIds` and `minTotalDue`.
+ */
+export interface SendMessagesDTO {
+  template: MessageTemplate;
+  channel: MessageChannel;
+  month: number;
+  year: number;
+  customerIds?: string[];
+  /** Only customers whose total due is above this */
+  minTotalDue?: number;
+}
+
+/**
+ * Outcome of a bulk send
+ */
+export interface SendMessagesResult {
+  sent: number;
+  failed: number;
+  /** Recipients left out, e.g. for having no phone number */
+  skipped: { customerId: string; customerName: string; reason: string }[];
+  logs: MessageLog[];
+}
+
+/**
+ * Signed link to a customer's portal
+ */
+export interface PortalLink {
+  token: string;
+  expiresAt: Date;
+}
+
+/**
+ * What a customer sees through their portal link
+ */
+export interface CustomerPortalView {
+  business: Pick<Settings, 'businessName' | 'businessPhone' | 'currency' | 'currencySymbol' | 'paymentTerms'>;
+  /** Current month's bill so far */
+  current: CustomerBillingSummary;
+  /** Current month's deliveries, newest first */
+  deliveries: {
+    date: string;
+    shift: string;
+    productName: string;
+    unit: string;
+    quantity: number;
+    delivered: boolean;
+  }[];
+  /** Earlier billed months, newest first */
+  bills: {
+    month: number;
+    year: number;
+    invoiceNumber: string | null;
+    charges: number;
+    paid: number;
+    outstanding: number;
+  }[];
+  /** Recent payments, newest first */
+  payments: {
+    receiptNumber: string;
+    date: string;
+    amount: number;
+    method: string | null;
+  }[];
+  /** Everything owed as of today, net of credit */
+  outstanding: number;
+  expiresAt: Date;
+}
+
+/**
+ * How a restore treats data already in the database
+ */
+export enum RestoreMode {
+  /** Delete all business data, then load the backup */
+  REPLACE = 'replace',
+  /** Only add records missing from the database */
+  MERGE = 'merge',
+}
+
+/**
+ * Outcome of restoring a backup
+ */
+export interface RestoreResult {
+  mode: RestoreMode;
+  /** When the restored backup was taken */
+  backupCreatedAt: string;
+  /** Records written per table; merge skips records already present */
+  restored: Record<string, number>;
+}
+
+/**
+ * Backup file kept in the server's backup directory
+ */
+export interface StoredBackup {
+  name: string;
+  size: number;
+  createdAt: Date;
+}
+
+/**
+ * What happened to an audited row
+ */
+export enum AuditAction {
+  CREATE = 'create',
+  UPDATE = 'update',
+  DELETE = 'delete',
+  RESTORE = 'restore',
+}
+
+/**
+ * One row created, changed or deleted through the API
+ */
+export interface AuditLogEntry {
+  id: string;
+  /** Model name, e.g. 'Delivery' */
+  entity: string;
+  entityId: string | null;
+  action: AuditAction;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  /** e.g. 'POST /api/deliveries/bulk' */
+  request: string;
+  customerId: string | null;
+  customerName?: string;
+  userId: string | null;
+  userName?: string;
+  createdAt: Date;
+}
+
+/**
+ * Action that can be undone for a while after it was made
+ */
+export enum ChangeSetAction {
+  CLEAR_DELIVERIES = 'clear_deliveries',
+  AUTOFILL_DELIVERIES = 'autofill_deliveries',
+  DELETE_STOCK = 'delete_stock',
+}
+
+/**
+ * Handle for undoing an action until it expires
+ */
+export interface ChangeSetRef {
+  id: string;
+  action: ChangeSetAction;
+  expiresAt: Date;
+}
+
+/**
+ * Result of clearing or autofilling a shift's deliveries
+ */
+export interface BulkDeliveryResult {
+  /** Deliveries changed */
+  count: number;
+  /** Null when nothing changed */
+  changeSet: ChangeSetRef | null;
+}
+
+/**
+ * Result of undoing an action
+ */
+export interface UndoResult {
+  action: ChangeSetAction;
+  /** Rows put back as they were */
+  restored: number;
+}